@@ -9,6 +9,7 @@ import {
   analyzeFilterCapabilities,
   analyzeGraphQLQueryCapabilities,
   analyzePaginationCapabilities,
+  analyzeRelayConnection,
   analyzeSortCapabilities,
   detectFilterStyle,
   detectFilterStyleFromTypeName,
@@ -338,6 +339,59 @@ describe("GraphQL Analysis", () => {
     });
   });
 
+  describe("analyzeRelayConnection", () => {
+    it("should detect backward pagination from page info", () => {
+      const schema = `
+				type Query {
+					items(first: Int, after: String, before: String): ItemConnection!
+				}
+				type ItemConnection {
+					edges: [ItemEdge!]!
+					pageInfo: PageInfo!
+				}
+				type ItemEdge { node: Item! }
+				type PageInfo {
+					hasNextPage: Boolean!
+					hasPreviousPage: Boolean!
+					startCursor: String
+					endCursor: String
+				}
+				type Item { id: ID! }
+			`;
+
+      const field = getQueryField(schema, "items");
+      const result = analyzeRelayConnection(field.type);
+
+      expect(result.style).toBe("relay");
+      expect(result.hasPreviousPath).toEqual(["pageInfo", "hasPreviousPage"]);
+      expect(result.prevCursorPath).toEqual(["pageInfo", "startCursor"]);
+    });
+
+    it("should leave out backward pagination without a start cursor", () => {
+      const schema = `
+				type Query {
+					items(first: Int, after: String): ItemConnection!
+				}
+				type ItemConnection {
+					edges: [ItemEdge!]!
+					pageInfo: PageInfo!
+				}
+				type ItemEdge { node: Item! }
+				type PageInfo {
+					hasNextPage: Boolean!
+					endCursor: String
+				}
+				type Item { id: ID! }
+			`;
+
+      const field = getQueryField(schema, "items");
+      const result = analyzeRelayConnection(field.type);
+
+      expect(result.style).toBe("relay");
+      expect(result.prevCursorPath).toBeUndefined();
+    });
+  });
+
   describe("detectFilterStyle", () => {
     it("should detect Hasura style by field names", () => {
       const schema = buildSchema(`
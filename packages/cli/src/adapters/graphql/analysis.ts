@@ -394,8 +394,12 @@ export function inferPredicateMappingPreset(
  * type PageInfo {
  *   hasNextPage: Boolean!
  *   endCursor: String
+ *   hasPreviousPage: Boolean!
+ *   startCursor: String
  * }
  * ```
+ *
+ * hasPreviousPage and startCursor are optional, and enable backward pagination
  */
 export function analyzeRelayConnection(
   returnType: GraphQLOutputType,
@@ -447,6 +451,14 @@ export function analyzeRelayConnection(
     result.nextCursorPath = ["pageInfo", "endCursor"];
   }
 
+  if (pageInfoFields.hasPreviousPage) {
+    result.hasPreviousPath = ["pageInfo", "hasPreviousPage"];
+  }
+
+  if (pageInfoFields.startCursor) {
+    result.prevCursorPath = ["pageInfo", "startCursor"];
+  }
+
   return result;
 }
 
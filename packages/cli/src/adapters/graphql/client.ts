@@ -1,17 +1,107 @@
 /**
  * GraphQL client generation
  */
+import { generateClientConfig, middlewareCode } from "@/generators/middleware";
 import { formatUrlForClient } from "@/utils/url";
 import { isUrlSchemaConfig } from "./schema";
+import { getTransport, transportBackends } from "./transport";
 
 import type { GraphQLSourceConfig } from "@/core/config";
 import type { GeneratedFile, GraphQLAdapterSchema } from "../types";
 
+/**
+ * graphql-ws subscription client and helpers, appended to client.ts when
+ * documents contain subscriptions
+ */
+const subscriptionClientCode = `
+let subscriptionClient: Client | undefined
+
+/**
+ * Get the WebSocket URL of subscriptions: subscriptionUrl of client.config.ts,
+ * or the endpoint with a ws scheme (http -> ws, https -> wss). Relative
+ * endpoints resolve against the page's location.
+ * @returns WebSocket URL
+ */
+function getSubscriptionUrl(): string {
+	if (clientConfig.subscriptionUrl) return clientConfig.subscriptionUrl
+	const { location } = globalThis as { location?: { href: string } }
+	const url = new URL(endpoint, location?.href)
+	url.protocol = url.protocol.replace(/^http/, "ws")
+	return url.href
+}
+
+/**
+ * Returns the graphql-ws client used for subscriptions (created on first use).
+ * Set connectionParams in client.config.ts to authenticate the connection.
+ */
+export const getSubscriptionClient = () => {
+	subscriptionClient ??= createClient({
+		url: getSubscriptionUrl(),
+		connectionParams: async () => ({
+			...(await clientConfig.connectionParams?.()),
+		}),
+	})
+	return subscriptionClient
+}
+
+/**
+ * Error thrown when a subscription event contains GraphQL errors
+ */
+export class SubscriptionError extends Error {
+	readonly errors: NonNullable<FormattedExecutionResult["errors"]>
+
+	constructor(errors: NonNullable<FormattedExecutionResult["errors"]>) {
+		super(errors.map((error) => error.message).join("\\n"))
+		this.name = "SubscriptionError"
+		this.errors = errors
+	}
+}
+
+/**
+ * Subscribes to a GraphQL subscription and yields the data of each event.
+ * Events with GraphQL errors throw a SubscriptionError. Stopping iteration
+ * (e.g., \`break\` or \`return()\`) completes the subscription.
+ * @param query - Subscription document
+ * @param variables - Subscription variables
+ * @returns Async generator of event data
+ *
+ * @example
+ * for await (const event of subscribe<OnMessageAddedSubscription>(OnMessageAddedDocument)) {
+ *   console.log(event.messageAdded)
+ * }
+ */
+export function subscribe<TData>(
+	query: string,
+	variables?: Record<string, unknown>,
+): AsyncGenerator<TData> {
+	const results = getSubscriptionClient().iterate<TData>({ query, variables })
+	const events = (async function* () {
+		try {
+			for await (const result of results) {
+				if (result.errors?.length) throw new SubscriptionError(result.errors)
+				if (result.data) yield result.data
+			}
+		} catch (error) {
+			// graphql-ws rejects with the error list when the server fails the operation
+			if (Array.isArray(error)) throw new SubscriptionError(error)
+			throw error
+		}
+	})()
+	// Complete the subscription right away instead of waiting for the next event
+	const stop = events.return.bind(events)
+	events.return = async (value) => {
+		await results.return?.()
+		return stop(value)
+	}
+	return events
+}
+`;
+
 /**
  * Generate the GraphQL client file
  */
 export function generateGraphQLClient(
-  _schema: GraphQLAdapterSchema,
+  schema: GraphQLAdapterSchema,
   config: GraphQLSourceConfig,
 ): GeneratedFile {
   // Priority: config.url > schema.url (for URL-based schemas)
@@ -28,28 +118,148 @@ export function generateGraphQLClient(
 
   const formattedUrl = formatUrlForClient(url);
 
-  const content = `/* eslint-disable */
-/* GraphQL Client - Generated once by tangrams. Customize as needed. */
+  // The subscription client is only generated when documents use subscriptions,
+  // so graphql-ws stays optional
+  const hasSubscriptions = schema.documents.operations.some(
+    (op) => op.operation === "subscription",
+  );
 
-import { GraphQLClient } from "graphql-request"
+  const transport = getTransport(config);
+  const backend =
+    transport === "graphql-request" ? undefined : transportBackends[transport];
 
-const endpoint = ${formattedUrl}
+  const valueImports = [
+    backend
+      ? backend.imports
+      : 'import { GraphQLClient } from "graphql-request"',
+    hasSubscriptions ? 'import { createClient } from "graphql-ws"' : "",
+    'import { clientConfig } from "./client.config"',
+  ].filter(Boolean);
+  const typeImports = [
+    backend?.typeImports ?? "",
+    hasSubscriptions
+      ? 'import type { Client, FormattedExecutionResult } from "graphql-ws"'
+      : "",
+  ].filter(Boolean);
+  const imports = [valueImports.join("\n"), typeImports.join("\n")]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const sendsWithMiddleware = backend?.middleware ?? true;
+  const middlewareConfig = sendsWithMiddleware
+    ? `
+	/** Set up the middleware run around every request */
+	middleware?: (builtins: BuiltinMiddleware) => Middleware[]`
+    : "";
+  const middleware = sendsWithMiddleware
+    ? `${middlewareCode}
+/**
+ * fetch running requests through the middleware of client.config.ts
+ */
+const middlewareFetch = createMiddlewareFetch(
+	clientConfig.middleware?.(builtinMiddleware) ?? [],
+)
+`
+    : `
+type MaybePromise<T> = T | Promise<T>
+`;
 
+  const getClient = backend
+    ? ""
+    : `
 /**
  * Returns a GraphQL client instance.
- * Customize this function to add dynamic headers (e.g., auth tokens).
+ * Customize the client in client.config.ts.
+ * Per-call request options are merged over this configuration.
  */
-export const getClient = async () => {
+export const getClient = async (options: RequestOptions = {}) => {
 	return new GraphQLClient(endpoint, {
+		...options.fetchOptions,
+		// graphql-request types fetch as the global fetch, with runtime extensions
+		fetch: middlewareFetch as typeof fetch,
+		signal: getRequestSignal(options),
 		headers: {
-			// Add your headers here
+			...(await clientConfig.headers?.()),
+			...options.headers,
 		},
 	})
 }
 `;
 
+  const content = `/* eslint-disable */
+/* GraphQL Client - Generated by tangrams. Customize the client in client.config.ts. */
+
+${imports}
+
+const endpoint = ${formattedUrl}
+
+/**
+ * Per-call request options, merged over the client configuration
+ */
+export interface RequestOptions {
+	/** Signal to cancel the request (TanStack Query passes one to queryFn) */
+	signal?: AbortSignal
+	/** Headers merged over the client's headers */
+	headers?: Record<string, string>
+	/** Milliseconds to wait before cancelling the request */
+	timeout?: number
+	/** Other fetch options (e.g., cache, credentials) */
+	fetchOptions?: Omit<RequestInit, "body" | "headers" | "method" | "signal">
+}
+
+/**
+ * Client customizations, set in client.config.ts
+ */
+export interface ClientConfig {
+	/** Headers sent with every request (e.g., read from the current session) */
+	headers?: () => MaybePromise<Record<string, string>>${middlewareConfig}
+	/** Params sent when the subscription WebSocket connects (e.g., auth tokens) */
+	connectionParams?: () => MaybePromise<Record<string, unknown>>
+	/** WebSocket URL of subscriptions, when it is not the endpoint's (e.g., "wss://api.example.com/ws") */
+	subscriptionUrl?: string${backend?.configMembers ?? ""}
+}
+${middleware}${getClient}
+/**
+ * Helper to combine the signal and timeout of request options into the
+ * single signal fetch takes.
+ * @param options - Request options
+ * @returns Signal aborted by either, or undefined when neither is set
+ */
+function getRequestSignal({
+	signal,
+	timeout,
+}: RequestOptions): AbortSignal | undefined {
+	const timeoutSignal =
+		timeout === undefined ? undefined : AbortSignal.timeout(timeout)
+	if (signal && timeoutSignal) return AbortSignal.any([signal, timeoutSignal])
+	return signal ?? timeoutSignal
+}
+${backend?.formatCode(config.persistedDocuments) ?? ""}${hasSubscriptions ? subscriptionClientCode : ""}`;
+
   return {
     filename: "client.ts",
     content,
   };
 }
+
+/**
+ * Generate the user-owned client config file, with connection params when
+ * documents contain subscriptions, and the client of transports that route
+ * through one. The header records the transport it was generated for.
+ */
+export function generateGraphQLClientConfig(
+  schema: GraphQLAdapterSchema,
+  config: GraphQLSourceConfig,
+): GeneratedFile {
+  const transport = getTransport(config);
+  return generateClientConfig({
+    target: `transport "${transport}"`,
+    connectionParams: schema.documents.operations.some(
+      (op) => op.operation === "subscription",
+    ),
+    client:
+      transport === "graphql-request"
+        ? undefined
+        : transportBackends[transport].client,
+  });
+}
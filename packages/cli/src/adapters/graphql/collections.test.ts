@@ -155,12 +155,15 @@ describe("GraphQL Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
 
       // Should generate response selector in queryFn
-      expect(result.content).toContain("const response = await getPets()");
+      expect(result.content).toContain(
+        "queryFn: async ({ signal }) => {\n        const response = await getPets(undefined, { signal })",
+      );
       expect(result.content).toContain("return response.pets.data");
     });
 
@@ -172,6 +175,7 @@ describe("GraphQL Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -191,6 +195,7 @@ describe("GraphQL Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
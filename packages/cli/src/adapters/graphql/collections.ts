@@ -18,7 +18,13 @@ import {
   generatePredicateTranslator,
   needsPredicateTranslation,
 } from "@/generators/predicates";
-import { toCamelCase, toPascalCase } from "@/utils/naming";
+import {
+  formatCollectionQueryKey,
+  getCollectionKeyFactories,
+} from "@/generators/query-keys";
+import { getGraphQLQueryKeyGroupName } from "@/generators/query-options";
+import { getFrameworkPackages } from "@/utils/framework";
+import { toCamelCase, toPascalCase, toQueryKeysName } from "@/utils/naming";
 import { createWriter, writeImport } from "@/utils/writer";
 import {
   analyzeGraphQLQueryCapabilities,
@@ -74,6 +80,7 @@ interface ListQueryMatch {
  */
 export function discoverGraphQLEntities(
   schema: GraphQLAdapterSchema,
+  sourceName: string,
   overrides?: Record<string, CollectionOverrideConfig>,
 ): CollectionDiscoveryResult {
   const warnings: string[] = [];
@@ -109,6 +116,7 @@ export function discoverGraphQLEntities(
       selectorPath,
       schema.schema,
       schema.documents,
+      sourceName,
       overrides,
       warnings,
     );
@@ -373,6 +381,7 @@ function discoverEntityFromListQuery(
   selectorPath: string | undefined,
   graphqlSchema: GraphQLSchema,
   documents: ParsedDocuments,
+  sourceName: string,
   overrides?: Record<string, CollectionOverrideConfig>,
   warnings: string[] = [],
 ): CollectionEntity | null {
@@ -436,7 +445,11 @@ function discoverEntityFromListQuery(
     listQuery: {
       operationName: operation.name,
       queryKey: [typeName],
+      keyFactory: toQueryKeysName(
+        getGraphQLQueryKeyGroupName(operation, graphqlSchema, sourceName),
+      ),
       paramsTypeName: variablesTypeName,
+      hasParams: (operation.node.variableDefinitions?.length ?? 0) > 0,
       selectorPath: finalSelectorPath,
     },
     mutations,
@@ -594,6 +607,7 @@ export function generateGraphQLCollections(
   options: CollectionGenOptions,
 ): GeneratedFile {
   const writer = createWriter();
+  const packages = getFrameworkPackages(options.framework);
 
   // Check if any entities need predicate translation (on-demand mode)
   const hasOnDemandEntities = entities.some(needsPredicateTranslation);
@@ -609,7 +623,7 @@ export function generateGraphQLCollections(
     "@tanstack/query-db-collection",
     queryDbCollectionImports,
   );
-  writeImport(writer, "@tanstack/react-db", ["createCollection"]);
+  writeImport(writer, packages.db, ["createCollection"]);
 
   // Internal imports (sorted alphabetically)
   const queryFnImports = entities.map(
@@ -626,13 +640,18 @@ export function generateGraphQLCollections(
     writer.blankLine();
     writeImport(writer, options.functionsImportPath, allFunctionImports);
   }
+  writeImport(
+    writer,
+    options.keysImportPath,
+    getCollectionKeyFactories(entities),
+  );
 
   // Type imports (sorted alphabetically, always last with blank line)
   writer.blankLine();
   if (hasOnDemandEntities) {
     writeImport(writer, "@tanstack/db", ["LoadSubsetOptions"], true);
   }
-  writeImport(writer, "@tanstack/react-query", ["QueryClient"], true);
+  writeImport(writer, packages.query, ["QueryClient"], true);
 
   // Import variables types for on-demand entities (these are actually used in predicate translators)
   const variablesTypeNames = entities
@@ -685,6 +704,10 @@ function writeEntityCollectionOptions(
   const isOnDemand = needsPredicateTranslation(entity);
   const translatorFn = `translate${entity.name}Predicates`;
   const selectorPath = entity.listQuery.selectorPath;
+  // The signal TanStack Query passes cancels the request
+  const fetchArgs = entity.listQuery.hasParams
+    ? "undefined, { signal }"
+    : "{ signal }";
 
   // JSDoc comment
   writer.writeLine("/**");
@@ -709,7 +732,7 @@ function writeEntityCollectionOptions(
       writer.newLine();
       writer.indent(() => {
         writer.writeLine(
-          `queryKey: ${JSON.stringify(entity.listQuery.queryKey)},`,
+          `queryKey: ${formatCollectionQueryKey(entity.listQuery)},`,
         );
 
         // Generate queryFn based on sync mode AND selectorPath
@@ -722,26 +745,32 @@ function writeEntityCollectionOptions(
             );
             if (selectorPath) {
               writer.writeLine(
-                `const response = await ${listQueryFn}(variables)`,
+                `const response = await ${listQueryFn}(variables, { signal: ctx.signal })`,
               );
               writer.writeLine(`return response.${selectorPath}`);
             } else {
-              writer.writeLine(`return ${listQueryFn}(variables)`);
+              writer.writeLine(
+                `return ${listQueryFn}(variables, { signal: ctx.signal })`,
+              );
             }
           });
           writer.write(",");
           writer.newLine();
         } else {
           if (selectorPath) {
-            writer.write("queryFn: async () => ");
+            writer.write("queryFn: async ({ signal }) => ");
             writer.inlineBlock(() => {
-              writer.writeLine(`const response = await ${listQueryFn}()`);
+              writer.writeLine(
+                `const response = await ${listQueryFn}(${fetchArgs})`,
+              );
               writer.writeLine(`return response.${selectorPath}`);
             });
             writer.write(",");
             writer.newLine();
           } else {
-            writer.writeLine(`queryFn: async () => ${listQueryFn}(),`);
+            writer.writeLine(
+              `queryFn: async ({ signal }) => ${listQueryFn}(${fetchArgs}),`,
+            );
           }
         }
 
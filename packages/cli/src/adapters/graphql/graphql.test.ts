@@ -2,9 +2,14 @@ import { mkdir, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
-import { Kind, OperationTypeNode, buildSchema } from "graphql";
+import { Kind, OperationTypeNode, buildSchema, parse } from "graphql";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
+import {
+  getOperationText,
+  getPersistedDocumentId,
+  loadDocuments,
+} from "@/core/documents";
 import { supportedValidators } from "@/generators/emitters";
 import { graphqlAdapter } from "./index";
 import {
@@ -13,6 +18,7 @@ import {
   loadSchemaFromFiles,
 } from "./schema";
 
+import type { OperationDefinitionNode } from "graphql";
 import type { GraphQLSourceConfig } from "@/core/config";
 import type { ValidatorLibrary } from "@/generators/emitters";
 import type { GraphQLAdapterSchema, SchemaGenOptions } from "../types";
@@ -75,11 +81,22 @@ const testSchemaSDL = `
     createUser(name: String!): User!
   }
   
+  type Subscription {
+    userCreated: User!
+    postPublished(authorId: ID): Post!
+  }
+
   type User {
     id: ID!
     name: String!
     email: String!
   }
+
+  type Post {
+    id: ID!
+    title: String!
+    published: Boolean!
+  }
 `;
 
 const testSchema = buildSchema(testSchemaSDL);
@@ -115,6 +132,22 @@ describe("GraphQL Adapter", () => {
       expect(result.content).toContain("getClient");
     });
 
+    it("merges per-call request options over the client configuration", () => {
+      const schema: GraphQLAdapterSchema = {
+        schema: testSchema,
+        documents: { operations: [], fragments: [] },
+      };
+
+      const result = graphqlAdapter.generateClient(schema, testConfig);
+
+      expect(result.content).toContain("export interface RequestOptions {");
+      expect(result.content).toContain(
+        "export const getClient = async (options: RequestOptions = {})",
+      );
+      expect(result.content).toContain("signal: getRequestSignal(options),");
+      expect(result.content).toContain("...options.headers,");
+    });
+
     it("uses the schema URL from config", () => {
       const customConfig: GraphQLSourceConfig = {
         ...testConfig,
@@ -130,6 +163,215 @@ describe("GraphQL Adapter", () => {
 
       expect(result.content).toContain("https://api.example.com/graphql");
     });
+
+    it("adds a graphql-ws subscription client when documents have subscriptions", async () => {
+      const schema: GraphQLAdapterSchema = {
+        schema: testSchema,
+        documents: await loadDocuments(
+          join(fixturesDir, "subscription.graphql"),
+        ),
+      };
+
+      const result = graphqlAdapter.generateClient(schema, testConfig);
+
+      expect(result.content).toContain(
+        'import { createClient } from "graphql-ws"',
+      );
+      expect(result.content).toContain("url: getSubscriptionUrl(),");
+      // Relative endpoints resolve against the page's location
+      expect(result.content).toContain(
+        "const url = new URL(endpoint, location?.href)",
+      );
+      expect(result.content).toContain(
+        "if (clientConfig.subscriptionUrl) return clientConfig.subscriptionUrl",
+      );
+      expect(result.content).toContain("export const getSubscriptionClient");
+      expect(result.content).toContain(
+        "export class SubscriptionError extends Error",
+      );
+      expect(result.content).toContain("export function subscribe<TData>(");
+    });
+
+    it("runs requests through the middleware of client.config.ts", () => {
+      const schema: GraphQLAdapterSchema = {
+        schema: testSchema,
+        documents: { operations: [], fragments: [] },
+      };
+
+      const result = graphqlAdapter.generateClient(schema, testConfig);
+
+      expect(result.content).toContain(
+        'import { clientConfig } from "./client.config"',
+      );
+      expect(result.content).toContain("export interface ClientConfig {");
+      expect(result.content).toContain(
+        "export function createMiddlewareFetch(",
+      );
+      expect(result.content).toContain(
+        "clientConfig.middleware?.(builtinMiddleware) ?? [],",
+      );
+      expect(result.content).toContain(
+        "fetch: middlewareFetch as typeof fetch,",
+      );
+      expect(result.content).toContain("...(await clientConfig.headers?.()),");
+    });
+
+    it("reads subscription connection params from client.config.ts", async () => {
+      const schema: GraphQLAdapterSchema = {
+        schema: testSchema,
+        documents: await loadDocuments(
+          join(fixturesDir, "subscription.graphql"),
+        ),
+      };
+
+      const client = graphqlAdapter.generateClient(schema, testConfig);
+      const clientConfig = graphqlAdapter.generateClientConfig(
+        schema,
+        testConfig,
+      );
+
+      expect(client.content).toContain(
+        "...(await clientConfig.connectionParams?.()),",
+      );
+      expect(clientConfig.filename).toBe("client.config.ts");
+      expect(clientConfig.content).toContain(
+        "connectionParams: async () => ({",
+      );
+    });
+
+    it("omits the subscription client without subscriptions", () => {
+      const schema: GraphQLAdapterSchema = {
+        schema: testSchema,
+        documents: { operations: [], fragments: [] },
+      };
+
+      const result = graphqlAdapter.generateClient(schema, testConfig);
+
+      expect(result.content).not.toContain("graphql-ws");
+      expect(result.content).not.toContain("subscribe");
+    });
+  });
+
+  describe("transports", () => {
+    const schema: GraphQLAdapterSchema = {
+      schema: testSchema,
+      documents: { operations: [], fragments: [] },
+    };
+
+    it("generates a native fetch client following GraphQL-over-HTTP", () => {
+      const result = graphqlAdapter.generateClient(schema, {
+        ...testConfig,
+        transport: "fetch",
+      });
+
+      expect(result.content).not.toContain("graphql-request");
+      expect(result.content).toContain(
+        'const accept = "application/graphql-response+json, application/json;q=0.9"',
+      );
+      expect(result.content).toContain(
+        'clientConfig.queryMethod ?? "POST",\n\t\t{ query, variables },',
+      );
+      expect(result.content).toContain(
+        'send<TData>("POST", { query, variables }, options)',
+      );
+      expect(result.content).toContain(
+        "const response = await middlewareFetch(url, {",
+      );
+      expect(result.content).toContain(
+        "export class GraphQLResponseError extends Error {",
+      );
+      expect(result.content).toContain("extensions?: Record<string, unknown>");
+    });
+
+    it("routes requests through the urql client of client.config.ts", () => {
+      const config = { ...testConfig, transport: "urql" as const };
+      const client = graphqlAdapter.generateClient(schema, config);
+      const clientConfig = graphqlAdapter.generateClientConfig(schema, config);
+
+      expect(client.content).toContain(
+        'import type { AnyVariables, Client as UrqlClient, OperationResult } from "@urql/core"',
+      );
+      expect(client.content).toContain("client: () => UrqlClient");
+      expect(client.content).toContain(".query<TData, AnyVariables>(");
+      expect(client.content).toContain(".mutation<TData, AnyVariables>(");
+      // urql replaces its client's fetchOptions with the context's
+      expect(client.content).toContain(
+        "fetchOptions: { ...clientFetchOptions, ...options.fetchOptions, headers },",
+      );
+      expect(client.content).not.toContain("createMiddlewareFetch");
+      expect(clientConfig.content).toContain("client: () => {");
+      expect(clientConfig.content).not.toContain("middleware: () => [],");
+      expect(clientConfig.content).toContain(
+        'Generated once by tangrams for transport "urql".',
+      );
+    });
+
+    it("routes requests through the Apollo client of client.config.ts", () => {
+      const result = graphqlAdapter.generateClient(schema, {
+        ...testConfig,
+        transport: "apollo",
+      });
+
+      expect(result.content).toContain('import { gql } from "@apollo/client"');
+      expect(result.content).toContain("client: () => ApolloClient");
+      expect(result.content).toContain("query: gql(query),");
+      expect(result.content).toContain("mutation: gql(query),");
+      expect(result.content).toContain('fetchPolicy: "network-only",');
+    });
+
+    it("sends persisted documents by ID", () => {
+      const result = graphqlAdapter.generateClient(schema, {
+        ...testConfig,
+        transport: "fetch",
+        persistedDocuments: "documentId",
+      });
+
+      expect(result.content).toContain("export interface PersistedDocument {");
+      expect(result.content).toContain(
+        "return send<TData>(method, { documentId: id, variables }, options)",
+      );
+      expect(result.content).not.toContain("persistedQuery");
+    });
+
+    it("sends persisted documents with APQ, falling back to their text", () => {
+      const result = graphqlAdapter.generateClient(schema, {
+        ...testConfig,
+        transport: "fetch",
+        persistedDocuments: "apq",
+      });
+
+      expect(result.content).toContain(
+        "const extensions = { persistedQuery: { version: 1, sha256Hash: id } }",
+      );
+      expect(result.content).toContain(
+        'extensions?.code === "PERSISTED_QUERY_NOT_FOUND"',
+      );
+      expect(result.content).toContain(
+        'return send<TData>("POST", { query, variables, extensions }, options)',
+      );
+    });
+  });
+
+  describe("generatePersistedDocuments", () => {
+    it("maps the ID of each operation to its text", async () => {
+      const documents = await loadDocuments(join(fixturesDir, "user.graphql"));
+      const schema: GraphQLAdapterSchema = { schema: testSchema, documents };
+
+      const result = graphqlAdapter.generatePersistedDocuments(
+        schema,
+        testConfig,
+      );
+      const manifest = JSON.parse(result.content) as Record<string, string>;
+
+      expect(result.filename).toBe("persisted-documents.json");
+      expect(Object.keys(manifest)).toHaveLength(documents.operations.length);
+      for (const operation of documents.operations) {
+        const id = getPersistedDocumentId(operation, documents.fragments);
+        expect(manifest[id]).toBe(
+          getOperationText(operation, documents.fragments),
+        );
+      }
+    });
   });
 
   describe("generateTypes", () => {
@@ -249,6 +491,7 @@ describe("GraphQL Adapter", () => {
       const result = graphqlAdapter.generateOperations(schema, testConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
       });
 
@@ -284,11 +527,49 @@ describe("GraphQL Adapter", () => {
       const result = graphqlAdapter.generateOperations(schema, testConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
       });
 
-      // The query key should include the operation name
-      expect(result.content).toContain("GetUsers");
+      // The query key comes from the operation's key factory
+      expect(result.content).toContain("queryKey: queryKeys.getUsers(),");
+    });
+
+    it("imports query helpers from the configured framework package", () => {
+      const schema: GraphQLAdapterSchema = {
+        schema: testSchema,
+        documents: {
+          operations: [
+            {
+              name: "GetUsers",
+              operation: "query",
+              node: {
+                kind: Kind.OPERATION_DEFINITION,
+                operation: OperationTypeNode.QUERY,
+                name: { kind: Kind.NAME, value: "GetUsers" },
+                selectionSet: {
+                  kind: Kind.SELECTION_SET,
+                  selections: [],
+                },
+              },
+              document: "query GetUsers { users { id name } }",
+            },
+          ],
+          fragments: [],
+        },
+      };
+
+      const result = graphqlAdapter.generateOperations(schema, testConfig, {
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "test",
+        framework: "angular",
+      });
+
+      expect(result.content).toContain(
+        'import { queryOptions } from "@tanstack/angular-query-experimental"',
+      );
     });
   });
 
@@ -472,6 +753,25 @@ describe("generateSchemas", () => {
     expect(result.content).toContain("z.object({");
   });
 
+  it("generates schemas for subscription operations", async () => {
+    const schema: GraphQLAdapterSchema = {
+      schema: testSchema,
+      documents: await loadDocuments(join(fixturesDir, "subscription.graphql")),
+    };
+
+    const result = graphqlAdapter.generateSchemas(
+      schema,
+      testConfig,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain("onUserCreatedSubscriptionSchema");
+    expect(result.content).toContain(
+      "onPostPublishedSubscriptionVariablesSchema",
+    );
+    expect(result.warnings).toBeUndefined();
+  });
+
   it("generates enum schemas", () => {
     const schema: GraphQLAdapterSchema = {
       schema: schemaWithInputs,
@@ -649,6 +949,334 @@ describe("Multi-Validator Schema Generation", () => {
   });
 });
 
+describe("polymorphic selections", () => {
+  const config: GraphQLSourceConfig = {
+    name: "test-api",
+    type: "graphql",
+    schema: { file: join(fixturesDir, "schema.graphql") },
+    documents: [
+      join(fixturesDir, "union.graphql"),
+      join(fixturesDir, "interface.graphql"),
+    ],
+    generates: ["query"],
+  };
+
+  const discriminatedUnionPatterns: Record<ValidatorLibrary, string> = {
+    zod: 'z.discriminatedUnion("__typename", [',
+    valibot: 'v.variant("__typename", [',
+    arktype: ").or(type({",
+    effect: "Schema.Union(Schema.Struct({",
+  };
+
+  it("adds __typename to union and interface selections", async () => {
+    const schema = await graphqlAdapter.loadSchema(config);
+    const getNodeMinimal = schema.documents.operations.find(
+      (op) => op.name === "GetNodeMinimal",
+    );
+
+    expect(getNodeMinimal?.document).toContain("__typename");
+  });
+
+  it("generates one tagged member per inline fragment type", async () => {
+    const schema = await graphqlAdapter.loadSchema(config);
+    const result = graphqlAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      'search: z.array(z.discriminatedUnion("__typename", [z.object({\n  __typename: z.literal("User"),',
+    );
+    expect(result.content).toContain('__typename: z.literal("Post"),');
+    expect(result.content).toContain(
+      'node: z.discriminatedUnion("__typename", [',
+    );
+  });
+
+  it("tags selections without inline fragments with every possible type", async () => {
+    const schema = await graphqlAdapter.loadSchema(config);
+    const result = graphqlAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      'search: z.array(z.object({\n  __typename: z.enum(["User", "Post"])',
+    );
+    expect(result.content).toContain(
+      "node: z.object({\n  __typename: z.string(),\n  id: z.string()",
+    );
+    expect(result.warnings).toContainEqual(
+      expect.stringContaining('Union type "SearchResult"'),
+    );
+  });
+
+  it.each(
+    supportedValidators,
+  )("lowers polymorphic selections to %s unions", async (validator) => {
+    const schema = await graphqlAdapter.loadSchema(config);
+    const result = graphqlAdapter.generateSchemas(schema, config, {
+      validator,
+    });
+
+    expect(result.content).toContain(discriminatedUnionPatterns[validator]);
+  });
+});
+
+describe("recursive input types", () => {
+  const config: GraphQLSourceConfig = {
+    name: "hasura-api",
+    type: "graphql",
+    schema: { file: join(fixturesDir, "hasura-style-schema.graphql") },
+    documents: join(fixturesDir, "hasura-style-operations.graphql"),
+    generates: ["query"],
+  };
+
+  it("generates lazy references for self-referencing inputs", async () => {
+    const schema = await graphqlAdapter.loadSchema(config);
+    const result = graphqlAdapter.generateSchemas(schema, config, {
+      validator: "zod",
+    });
+
+    expect(result.content).toContain(
+      "_and: z.array(z.lazy((): z.ZodType<products_bool_exp> => products_bool_expSchema)).nullish(),",
+    );
+    expect(result.content).toContain(
+      "export type products_bool_exp = {\n  _and?: products_bool_exp[] | null",
+    );
+  });
+
+  it("generates an ArkType scope for self-referencing inputs", async () => {
+    const schema = await graphqlAdapter.loadSchema(config);
+    const result = graphqlAdapter.generateSchemas(schema, config, {
+      validator: "arktype",
+    });
+
+    expect(result.content).toContain(
+      '"_not?": "products_bool_expSchema | null",',
+    );
+    expect(result.content).toContain(
+      'export const products_bool_expSchema = products_bool_expScope.type("products_bool_expSchema")',
+    );
+  });
+});
+
+describe("default values", () => {
+  const schemaWithDefaults = buildSchema(`
+    enum Status {
+      DRAFT
+      PUBLISHED
+    }
+
+    input PostSettingsInput {
+      comments: Boolean = true
+    }
+
+    input CreatePostInput {
+      title: String!
+      status: Status! = DRAFT
+      tags: [String!] = []
+      settings: PostSettingsInput! = {}
+    }
+
+    type Post {
+      id: ID!
+    }
+
+    type Query {
+      posts(first: Int): [Post!]!
+    }
+
+    type Mutation {
+      createPost(input: CreatePostInput!, notify: Boolean): Post!
+    }
+  `);
+
+  const document =
+    "mutation CreatePost($input: CreatePostInput!, $notify: Boolean = true) { createPost(input: $input, notify: $notify) { id } }";
+
+  const schema: GraphQLAdapterSchema = {
+    schema: schemaWithDefaults,
+    documents: {
+      operations: [
+        {
+          name: "CreatePost",
+          operation: "mutation",
+          node: parse(document).definitions[0] as OperationDefinitionNode,
+          document,
+        },
+      ],
+      fragments: [],
+    },
+  };
+
+  const testConfig: GraphQLSourceConfig = {
+    name: "test-api",
+    type: "graphql",
+    schema: { url: "http://localhost:4000/graphql" },
+    documents: "./src/**/*.graphql",
+    generates: ["query", "form"],
+  };
+
+  it("emits input field and variable defaults", () => {
+    const result = graphqlAdapter.generateSchemas(
+      schema,
+      testConfig,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain('status: statusSchema.default("DRAFT"),');
+    expect(result.content).toContain(
+      "tags: z.array(z.string()).default(() => []),",
+    );
+    // Input object defaults are coerced, filling in their own field defaults
+    expect(result.content).toContain(
+      "settings: postSettingsInputSchema.default(() => ({ comments: true }))",
+    );
+    expect(result.content).toContain("notify: z.boolean().default(true)");
+    expect(result.content).toContain(
+      "export type CreatePostMutationVariables = z.input<typeof createPostMutationVariablesSchema>",
+    );
+  });
+
+  it("generates form default values from the mutation variables", () => {
+    const result = graphqlAdapter.generateFormOptions(schema, testConfig, {
+      schemaImportPath: "../schema",
+      sourceName: "test-api",
+    });
+
+    expect(result.content).toContain(
+      'defaultValues: { input: { status: "DRAFT", tags: [], settings: { comments: true } }, notify: true } as unknown as CreatePostMutationVariables,',
+    );
+  });
+});
+
+describe("documentation", () => {
+  const documentedSchema = buildSchema(`
+    "Status of a post"
+    enum Status {
+      DRAFT
+      PUBLISHED
+    }
+
+    "A post to create"
+    input CreatePostInput {
+      "The post's title"
+      title: String!
+      status: Status
+    }
+
+    type Post {
+      id: ID!
+      "Headline shown in lists"
+      title: String!
+      slug: String @deprecated(reason: "Use \`id\` instead")
+    }
+
+    type Query {
+      "Fetch a post by its ID"
+      post(id: ID!): Post
+    }
+
+    type Mutation {
+      createPost(input: CreatePostInput!): Post!
+        @deprecated(reason: "Use publishPost")
+    }
+  `);
+
+  const operations = [
+    "query GetPost($id: ID!) { post(id: $id) { id title slug } }",
+    "mutation CreatePost($input: CreatePostInput!) { createPost(input: $input) { id } }",
+  ];
+
+  const schema: GraphQLAdapterSchema = {
+    schema: documentedSchema,
+    documents: {
+      operations: operations.map((document) => {
+        const node = parse(document).definitions[0] as OperationDefinitionNode;
+        return {
+          name: node.name!.value,
+          operation: node.operation as "query" | "mutation",
+          node,
+          document,
+        };
+      }),
+      fragments: [],
+    },
+  };
+
+  const testConfig: GraphQLSourceConfig = {
+    name: "test-api",
+    type: "graphql",
+    schema: { url: "http://localhost:4000/graphql" },
+    documents: "./src/**/*.graphql",
+    generates: ["query", "form"],
+  };
+
+  it("documents types and fields from the schema", () => {
+    const result = graphqlAdapter.generateSchemas(
+      schema,
+      testConfig,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      '/** Status of a post */\nexport const statusSchema = z.enum(["DRAFT", "PUBLISHED"]).describe("Status of a post")',
+    );
+    expect(result.content).toContain(
+      "/** A post to create */\nexport type CreatePostInput",
+    );
+    expect(result.content).toContain(
+      "  /** The post's title */\n  title: z.string().describe(\"The post's title\")",
+    );
+    expect(result.content).toContain(
+      '  /** Headline shown in lists */\n  title: z.string().describe("Headline shown in lists")',
+    );
+    expect(result.content).toContain(
+      "  /** @deprecated Use `id` instead */\n  slug: z.string().nullish()",
+    );
+  });
+
+  it("documents functions and options with their root fields", () => {
+    const functions = graphqlAdapter.generateFunctions(schema, testConfig, {
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+    });
+    const options = graphqlAdapter.generateOperations(schema, testConfig, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test-api",
+    });
+
+    expect(functions.content).toContain(
+      "/** Fetch a post by its ID */\nexport const getPost = async",
+    );
+    expect(functions.content).toContain(
+      "/** @deprecated Use publishPost */\nexport const createPost = async",
+    );
+    expect(options.content).toContain(
+      "/** Fetch a post by its ID */\nexport const getPostQueryOptions =",
+    );
+    expect(options.content).toContain(
+      "/** @deprecated Use publishPost */\nexport const createPostMutationOptions =",
+    );
+  });
+
+  it("documents form options with their mutation", () => {
+    const result = graphqlAdapter.generateFormOptions(schema, testConfig, {
+      schemaImportPath: "../schema",
+      sourceName: "test-api",
+    });
+
+    expect(result.content).toContain(
+      "/** @deprecated Use publishPost */\nexport const createPostFormOptions =",
+    );
+  });
+});
+
 describe("generateFormOptions", () => {
   const schemaWithInputs = buildSchema(`
     input CreateUserInput {
@@ -980,6 +1608,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
@@ -993,6 +1622,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
@@ -1007,6 +1637,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
@@ -1020,6 +1651,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
@@ -1032,19 +1664,38 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
       expect(result.content).toContain("queryKey:");
-      expect(result.content).toContain("queryFn:");
+      expect(result.content).toContain(
+        "const response = await listUsers(undefined, { signal })",
+      );
       expect(result.content).toContain("getKey:");
     });
 
+    it("nests the collection queryKey under its key factory's lists", async () => {
+      const schema = await graphqlAdapter.loadSchema(config);
+      const result = graphqlAdapter.generateCollections(schema, config, {
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "test-api",
+      });
+
+      expect(result.content).toContain('import { userKeys } from "../keys"');
+      expect(result.content).toContain(
+        'queryKey: [...userKeys.lists(), "User"],',
+      );
+    });
+
     it("generates persistence handlers (onInsert, onUpdate, onDelete) when mutations available", async () => {
       const schema = await graphqlAdapter.loadSchema(config);
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
@@ -1059,6 +1710,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test-api",
       });
 
@@ -1151,6 +1803,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, hasuraConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "hasura-api",
         collectionOverrides: {
           Product: { syncMode: "on-demand" },
@@ -1177,6 +1830,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, hasuraConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "hasura-api",
         collectionOverrides: {
           Product: { syncMode: "on-demand" },
@@ -1194,6 +1848,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, hasuraConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "hasura-api",
         collectionOverrides: {
           Product: { syncMode: "on-demand", predicateMapping: "prisma" },
@@ -1211,6 +1866,7 @@ describe("GraphQL Collection Discovery", () => {
       const result = graphqlAdapter.generateCollections(schema, hasuraConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "hasura-api",
       });
 
@@ -5,18 +5,34 @@
  * Handles schema introspection, document parsing, and code generation.
  */
 
-import { loadDocuments } from "@/core/documents";
+import { getScalarsFromSource } from "@/core/config";
+import {
+  addTypenameToDocuments,
+  getOperationDoc,
+  loadDocuments,
+} from "@/core/documents";
 import { getEmitter } from "@/generators/emitters";
-import { generateFormOptionsCode } from "@/generators/form-options";
+import {
+  generateFormOptionsCode,
+  getSchemaDefaultValues,
+} from "@/generators/form-options";
 import { generateFunctions } from "@/generators/functions";
 import { parseGraphQLToIR } from "@/generators/ir";
-import { generateGraphQLOperations } from "@/generators/query-options";
-import { toMutationVariablesSchemaName } from "@/utils/naming";
-import { generateGraphQLClient } from "./client";
+import { hasOptimisticUpdates } from "@/generators/optimistic";
+import {
+  generateGraphQLKeys,
+  generateGraphQLOperations,
+} from "@/generators/query-options";
+import {
+  toMutationVariablesSchemaName,
+  toOperationVariablesTypeName,
+} from "@/utils/naming";
+import { generateGraphQLClient, generateGraphQLClientConfig } from "./client";
 import {
   discoverGraphQLEntities,
   generateGraphQLCollections,
 } from "./collections";
+import { generatePersistedDocuments } from "./persisted-documents";
 import {
   introspectSchema,
   isFileSchemaConfig,
@@ -38,6 +54,7 @@ import type {
   GeneratedFile,
   GraphQLAdapterSchema,
   GraphQLAdapter as IGraphQLAdapter,
+  KeysGenOptions,
   OperationGenOptions,
   SchemaGenOptions,
   TypeGenOptions,
@@ -71,8 +88,12 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
       );
     }
 
-    // Load and parse the GraphQL documents
-    const documents = await loadDocuments(config.documents);
+    // Load and parse the GraphQL documents, selecting __typename wherever
+    // a union or interface needs to be discriminated
+    const documents = addTypenameToDocuments(
+      await loadDocuments(config.documents),
+      schema,
+    );
 
     return {
       schema,
@@ -90,6 +111,16 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
     return generateGraphQLClient(schema, config);
   }
 
+  /**
+   * Generate the user-owned client config file
+   */
+  generateClientConfig(
+    schema: GraphQLAdapterSchema,
+    config: GraphQLSourceConfig,
+  ): GeneratedFile {
+    return generateGraphQLClientConfig(schema, config);
+  }
+
   /**
    * Generate TypeScript types from the schema and documents
    */
@@ -106,13 +137,16 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
    */
   generateFunctions(
     schema: GraphQLAdapterSchema,
-    _config: GraphQLSourceConfig,
+    config: GraphQLSourceConfig,
     options: FunctionsGenOptions,
   ): GeneratedFile {
     const content = generateFunctions({
       documents: schema.documents,
       clientImportPath: options.clientImportPath,
       typesImportPath: options.typesImportPath,
+      schema: schema.schema,
+      transport: config.transport,
+      persistedDocuments: config.persistedDocuments,
     });
 
     return {
@@ -121,6 +155,38 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
     };
   }
 
+  /**
+   * Generate the persisted documents manifest
+   */
+  generatePersistedDocuments(
+    schema: GraphQLAdapterSchema,
+    _config: GraphQLSourceConfig,
+  ): GeneratedFile {
+    return generatePersistedDocuments(schema.documents);
+  }
+
+  /**
+   * Generate the query key factories
+   */
+  generateKeys(
+    schema: GraphQLAdapterSchema,
+    _config: GraphQLSourceConfig,
+    options: KeysGenOptions,
+  ): GeneratedFile {
+    const content = generateGraphQLKeys({
+      documents: schema.documents,
+      schema: schema.schema,
+      typesImportPath: options.typesImportPath,
+      sourceName: options.sourceName,
+      queryOverrides: options.queryOverrides,
+    });
+
+    return {
+      filename: "keys.ts",
+      content,
+    };
+  }
+
   /**
    * Generate TanStack Query operation helpers
    */
@@ -133,9 +199,18 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
       documents: schema.documents,
       typesImportPath: options.typesImportPath,
       functionsImportPath: options.functionsImportPath,
+      keysImportPath: options.keysImportPath,
       sourceName: options.sourceName,
       schema: schema.schema,
       queryOverrides: options.queryOverrides,
+      framework: options.framework,
+      entities: hasOptimisticUpdates(options.queryOverrides)
+        ? discoverGraphQLEntities(
+            schema,
+            options.sourceName,
+            options.collectionOverrides,
+          ).entities
+        : undefined,
     });
 
     return {
@@ -181,7 +256,7 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
    */
   generateFormOptions(
     schema: GraphQLAdapterSchema,
-    _config: GraphQLSourceConfig,
+    config: GraphQLSourceConfig,
     options: FormGenOptions,
   ): GeneratedFile {
     // Filter to mutations only
@@ -189,6 +264,11 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
       (op) => op.operation === "mutation",
     );
 
+    // Variable defaults become the forms' initial values
+    const { schemas } = parseGraphQLToIR(schema.schema, schema.documents, {
+      scalars: getScalarsFromSource(config),
+    });
+
     // Build mutation info for form generation
     // For GraphQL, mutations use *MutationVariables schemas generated by the Zod generator
     const mutationOps = mutations
@@ -202,6 +282,11 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
         return {
           operationId: mutation.name,
           requestSchemaName: schemaName,
+          defaultValues: getSchemaDefaultValues(
+            toOperationVariablesTypeName(mutation.name, "mutation"),
+            schemas,
+          ),
+          doc: getOperationDoc(mutation, schema.schema),
         };
       })
       .filter((op): op is NonNullable<typeof op> => op !== null);
@@ -210,6 +295,7 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
       schemaImportPath: options.schemaImportPath,
       formOverrides: options.formOverrides,
       validatorLibrary: options.validatorLibrary,
+      framework: options.framework,
     });
 
     return {
@@ -224,10 +310,10 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
    */
   discoverCollectionEntities(
     schema: GraphQLAdapterSchema,
-    _config: GraphQLSourceConfig,
+    config: GraphQLSourceConfig,
     overrides?: Record<string, CollectionOverrideConfig>,
   ): CollectionDiscoveryResult {
-    return discoverGraphQLEntities(schema, overrides);
+    return discoverGraphQLEntities(schema, config.name, overrides);
   }
 
   /**
@@ -240,6 +326,7 @@ class GraphQLAdapterImpl implements IGraphQLAdapter {
   ): GeneratedFile {
     const { entities } = discoverGraphQLEntities(
       schema,
+      options.sourceName,
       options.collectionOverrides,
     );
     return generateGraphQLCollections(entities, options);
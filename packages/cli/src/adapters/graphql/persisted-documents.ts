@@ -0,0 +1,38 @@
+/**
+ * GraphQL persisted documents
+ *
+ * The persisted-documents.json manifest maps the ID of each operation (the
+ * sha256 hash of the text it is sent with) to that text, to upload to
+ * servers that allow-list operations. Generated functions send the IDs.
+ */
+
+import { getOperationText, getPersistedDocumentId } from "@/core/documents";
+
+import type { ParsedDocuments } from "@/core/documents";
+import type { GeneratedFile } from "../types";
+
+/**
+ * Name of the persisted documents manifest
+ */
+export const PERSISTED_DOCUMENTS_FILENAME = "persisted-documents.json";
+
+/**
+ * Generate the persisted documents manifest of all operations. Subscriptions
+ * are listed too, since they are sent with their full text.
+ */
+export function generatePersistedDocuments(
+  documents: ParsedDocuments,
+): GeneratedFile {
+  const { operations, fragments } = documents;
+  const manifest = Object.fromEntries(
+    operations.map((operation) => [
+      getPersistedDocumentId(operation, fragments),
+      getOperationText(operation, fragments),
+    ]),
+  );
+
+  return {
+    filename: PERSISTED_DOCUMENTS_FILENAME,
+    content: `${JSON.stringify(manifest, null, 2)}\n`,
+  };
+}
@@ -0,0 +1,550 @@
+/**
+ * GraphQL transports
+ *
+ * The clients a GraphQL client.ts can send queries and mutations with.
+ * graphql-request clients are returned by getClient; the other transports
+ * export executeQuery and executeMutation, which generated functions call
+ * with each document. Subscriptions use graphql-ws with every transport.
+ */
+
+import type { GraphQLTransport, PersistedDocumentsMode } from "@/core/config";
+
+/**
+ * How a client.ts sends queries and mutations with a transport other than
+ * graphql-request
+ */
+export interface GraphQLTransportBackend {
+  /** Value import of the transport */
+  imports: string;
+  /** Type import of the transport */
+  typeImports: string;
+  /**
+   * Whether requests run through the middleware of client.config.ts. An
+   * existing urql or Apollo client sends requests itself, through its own
+   * exchanges or links.
+   */
+  middleware: boolean;
+  /** Label of the client set in client.config.ts, for transports that route through one */
+  client?: string;
+  /** Members of ClientConfig added by the transport */
+  configMembers: string;
+  /**
+   * Format the module-level helpers, executeQuery, and executeMutation,
+   * sending persisted documents when a mode is set
+   */
+  formatCode: (persistedDocuments?: PersistedDocumentsMode) => string;
+}
+
+/**
+ * Get the transport of a GraphQL source
+ */
+export function getTransport(config: {
+  transport?: GraphQLTransport;
+}): GraphQLTransport {
+  return config.transport ?? "graphql-request";
+}
+
+/**
+ * Native fetch transport, following the GraphQL-over-HTTP spec
+ */
+const fetchCode = `
+/**
+ * A GraphQL error, with the extensions the server adds (e.g., extensions.code)
+ */
+export interface GraphQLFormattedError {
+	message: string
+	locations?: { line: number; column: number }[]
+	path?: (string | number)[]
+	extensions?: Record<string, unknown>
+}
+
+/**
+ * Error thrown when a GraphQL response has errors or no data, or when the
+ * server does not respond with GraphQL
+ */
+export class GraphQLResponseError extends Error {
+	/** Errors of the response, with their extensions */
+	readonly errors: GraphQLFormattedError[]
+	/** HTTP status of the response */
+	readonly status: number
+	/** Data the response has alongside its errors, if any */
+	readonly data: unknown
+
+	constructor(errors: GraphQLFormattedError[], status: number, data?: unknown) {
+		super(errors.map((error) => error.message).join("\\n"))
+		this.name = "GraphQLResponseError"
+		this.errors = errors
+		this.status = status
+		this.data = data
+	}
+}
+
+/**
+ * Params of a GraphQL-over-HTTP request
+ */
+interface GraphQLParams {
+	query?: string
+	documentId?: string
+	variables?: object
+	extensions?: Record<string, unknown>
+}
+
+/**
+ * Media types of GraphQL responses. application/graphql-response+json is
+ * preferred, since its status codes tell request errors apart.
+ */
+const accept = "application/graphql-response+json, application/json;q=0.9"
+
+/**
+ * Helper to send a GraphQL request over HTTP, following the GraphQL-over-HTTP
+ * spec. GET requests send the params as query params, with objects as JSON.
+ * @param method - Request method
+ * @param params - Request params
+ * @param options - Request options
+ * @returns Data of the response
+ */
+async function send<TData>(
+	method: "GET" | "POST",
+	params: GraphQLParams,
+	options: RequestOptions,
+): Promise<TData> {
+	const isGet = method === "GET"
+	const search = new URLSearchParams()
+	for (const [name, value] of Object.entries(params)) {
+		if (value === undefined) continue
+		search.set(name, typeof value === "string" ? value : JSON.stringify(value))
+	}
+	const url = isGet
+		? \`\${endpoint}\${endpoint.includes("?") ? "&" : "?"}\${search}\`
+		: endpoint
+
+	const response = await middlewareFetch(url, {
+		...options.fetchOptions,
+		method,
+		signal: getRequestSignal(options),
+		headers: {
+			Accept: accept,
+			...(isGet ? {} : { "Content-Type": "application/json" }),
+			...(await clientConfig.headers?.()),
+			...options.headers,
+		},
+		body: isGet ? undefined : JSON.stringify(params),
+	})
+
+	const contentType = response.headers.get("Content-Type") ?? ""
+	if (!/^application\\/(graphql-response\\+)?json/.test(contentType)) {
+		const message = response.ok
+			? \`Expected a GraphQL response, received \${contentType || "no content type"}\`
+			: \`Request failed with status \${response.status}\`
+		throw new GraphQLResponseError([{ message }], response.status)
+	}
+
+	const result = (await response.json()) as {
+		data?: TData | null
+		errors?: GraphQLFormattedError[]
+	}
+	if (result.errors?.length) {
+		throw new GraphQLResponseError(result.errors, response.status, result.data)
+	}
+	if (result.data === undefined || result.data === null) {
+		const message = \`Response has no data (status \${response.status})\`
+		throw new GraphQLResponseError([{ message }], response.status)
+	}
+	return result.data
+}
+`;
+
+/**
+ * executeQuery and executeMutation of the fetch transport, sending the full
+ * text of each document
+ */
+const fetchExecuteCode = `
+/**
+ * Sends a query, with clientConfig.queryMethod (POST by default).
+ * Throws a GraphQLResponseError when the response has errors.
+ * @param query - Query document
+ * @param variables - Query variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeQuery = <TData>(
+	query: string,
+	variables?: object,
+	options: RequestOptions = {},
+) =>
+	send<TData>(
+		clientConfig.queryMethod ?? "POST",
+		{ query, variables },
+		options,
+	)
+
+/**
+ * Sends a mutation, with POST.
+ * Throws a GraphQLResponseError when the response has errors.
+ * @param query - Mutation document
+ * @param variables - Mutation variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeMutation = <TData>(
+	query: string,
+	variables?: object,
+	options: RequestOptions = {},
+) => send<TData>("POST", { query, variables }, options)
+`;
+
+/**
+ * Format executeQuery and executeMutation of the fetch transport, sending
+ * persisted documents
+ */
+function formatPersistedExecuteCode(mode: PersistedDocumentsMode): string {
+  const documentType =
+    mode === "apq"
+      ? `
+/**
+ * A persisted document, listed in persisted-documents.json
+ */
+export interface PersistedDocument {
+	/** sha256 hash of the document's text */
+	id: string
+	/** Text of the document, sent when the server has not seen the hash yet */
+	query: string
+}
+`
+      : `
+/**
+ * A persisted document, listed in persisted-documents.json
+ */
+export interface PersistedDocument {
+	/** sha256 hash of the document's text */
+	id: string
+}
+`;
+
+  const sendPersisted =
+    mode === "apq"
+      ? `
+/**
+ * Check if a request failed because the server has not seen a persisted
+ * document's hash yet
+ */
+function isPersistedQueryNotFound(error: unknown): boolean {
+	return (
+		error instanceof GraphQLResponseError &&
+		error.errors.some(
+			({ message, extensions }) =>
+				message === "PersistedQueryNotFound" ||
+				extensions?.code === "PERSISTED_QUERY_NOT_FOUND",
+		)
+	)
+}
+
+/**
+ * Helper to send a persisted document with Automatic Persisted Queries: its
+ * hash first, then its full text when the server has not seen the hash yet,
+ * which registers it for the next requests
+ * @param method - Request method of the hash
+ * @param document - Persisted document
+ * @param variables - Operation variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+async function sendPersisted<TData>(
+	method: "GET" | "POST",
+	{ id, query }: PersistedDocument,
+	variables: object | undefined,
+	options: RequestOptions,
+): Promise<TData> {
+	const extensions = { persistedQuery: { version: 1, sha256Hash: id } }
+	try {
+		return await send<TData>(method, { variables, extensions }, options)
+	} catch (error) {
+		if (!isPersistedQueryNotFound(error)) throw error
+		// The full text is sent with POST, since it may not fit in a URL
+		return send<TData>("POST", { query, variables, extensions }, options)
+	}
+}
+`
+      : `
+/**
+ * Helper to send a persisted document by its ID, which the server looks up
+ * in its allow-list
+ * @param method - Request method
+ * @param document - Persisted document
+ * @param variables - Operation variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+function sendPersisted<TData>(
+	method: "GET" | "POST",
+	{ id }: PersistedDocument,
+	variables: object | undefined,
+	options: RequestOptions,
+): Promise<TData> {
+	return send<TData>(method, { documentId: id, variables }, options)
+}
+`;
+
+  return `${documentType}${sendPersisted}
+/**
+ * Sends a persisted query, with clientConfig.queryMethod (POST by default).
+ * Throws a GraphQLResponseError when the response has errors.
+ * @param document - Persisted query document
+ * @param variables - Query variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeQuery = <TData>(
+	document: PersistedDocument,
+	variables?: object,
+	options: RequestOptions = {},
+) =>
+	sendPersisted<TData>(
+		clientConfig.queryMethod ?? "POST",
+		document,
+		variables,
+		options,
+	)
+
+/**
+ * Sends a persisted mutation, with POST.
+ * Throws a GraphQLResponseError when the response has errors.
+ * @param document - Persisted mutation document
+ * @param variables - Mutation variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeMutation = <TData>(
+	document: PersistedDocument,
+	variables?: object,
+	options: RequestOptions = {},
+) => sendPersisted<TData>("POST", document, variables, options)
+`;
+}
+
+/**
+ * urql transport, routing through the client set in client.config.ts
+ */
+const urqlCode = `
+/**
+ * Helper to create the operation context of a request, with its fetch
+ * options, headers, and signal. urql replaces the client's fetchOptions with
+ * the context's, so the client's own are merged under them, and it aborts
+ * requests with its own signal, so the request's is added in fetch.
+ */
+async function getContext(
+	client: UrqlClient,
+	kind: "query" | "mutation",
+	query: string,
+	variables: AnyVariables,
+	options: RequestOptions,
+) {
+	const { fetch: clientFetch = fetch, fetchOptions } =
+		client.createRequestOperation(kind, createRequest(query, variables))
+			.context
+	const clientFetchOptions =
+		typeof fetchOptions === "function" ? fetchOptions() : fetchOptions
+	const headers = new Headers(clientFetchOptions?.headers)
+	for (const [name, value] of Object.entries({
+		...(await clientConfig.headers?.()),
+		...options.headers,
+	})) {
+		headers.set(name, value)
+	}
+	const signal = getRequestSignal(options)
+	return {
+		fetchOptions: { ...clientFetchOptions, ...options.fetchOptions, headers },
+		fetch: signal
+			? ((input: RequestInfo | URL, init?: RequestInit) =>
+					clientFetch(input, {
+						...init,
+						signal: init?.signal
+							? AbortSignal.any([init.signal, signal])
+							: signal,
+					})) as typeof fetch
+			: clientFetch,
+		// TanStack Query caches the results, so requests skip urql's cache
+		requestPolicy: "network-only" as const,
+	}
+}
+
+/**
+ * Helper to read the data of a result, throwing its CombinedError, which has
+ * the network error or the GraphQL errors (with their extensions)
+ */
+function getData<TData>({ data, error }: OperationResult<TData>): TData {
+	if (error) throw error
+	return data as TData
+}
+
+/**
+ * Sends a query with the urql client of client.config.ts
+ * @param query - Query document
+ * @param variables - Query variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeQuery = async <TData>(
+	query: string,
+	variables?: object,
+	options: RequestOptions = {},
+) => {
+	const client = clientConfig.client()
+	return getData(
+		await client
+			.query<TData, AnyVariables>(
+				query,
+				variables as AnyVariables,
+				await getContext(
+					client,
+					"query",
+					query,
+					variables as AnyVariables,
+					options,
+				),
+			)
+			.toPromise(),
+	)
+}
+
+/**
+ * Sends a mutation with the urql client of client.config.ts
+ * @param query - Mutation document
+ * @param variables - Mutation variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeMutation = async <TData>(
+	query: string,
+	variables?: object,
+	options: RequestOptions = {},
+) => {
+	const client = clientConfig.client()
+	return getData(
+		await client
+			.mutation<TData, AnyVariables>(
+				query,
+				variables as AnyVariables,
+				await getContext(
+					client,
+					"mutation",
+					query,
+					variables as AnyVariables,
+					options,
+				),
+			)
+			.toPromise(),
+	)
+}
+`;
+
+/**
+ * Apollo Client transport, routing through the client set in client.config.ts
+ */
+const apolloCode = `
+/**
+ * Helper to create the link context of a request, with its fetch options,
+ * headers, and signal
+ */
+async function getContext(options: RequestOptions) {
+	return {
+		fetchOptions: {
+			...options.fetchOptions,
+			signal: getRequestSignal(options),
+		},
+		headers: {
+			...(await clientConfig.headers?.()),
+			...options.headers,
+		},
+	}
+}
+
+/**
+ * Sends a query with the Apollo client of client.config.ts. GraphQL errors
+ * reject with Apollo's CombinedGraphQLErrors, which has their extensions.
+ * @param query - Query document
+ * @param variables - Query variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeQuery = async <TData>(
+	query: string,
+	variables?: object,
+	options: RequestOptions = {},
+) => {
+	const { data } = await clientConfig.client().query<TData>({
+		query: gql(query),
+		variables: variables as OperationVariables | undefined,
+		context: await getContext(options),
+		// TanStack Query caches the results, so requests skip Apollo's cache
+		fetchPolicy: "network-only",
+	})
+	return data as TData
+}
+
+/**
+ * Sends a mutation with the Apollo client of client.config.ts. GraphQL
+ * errors reject with Apollo's CombinedGraphQLErrors, which has their
+ * extensions.
+ * @param query - Mutation document
+ * @param variables - Mutation variables
+ * @param options - Request options
+ * @returns Data of the response
+ */
+export const executeMutation = async <TData>(
+	query: string,
+	variables?: object,
+	options: RequestOptions = {},
+) => {
+	const { data } = await clientConfig.client().mutate<TData>({
+		mutation: gql(query),
+		variables: variables as OperationVariables | undefined,
+		context: await getContext(options),
+	})
+	return data as TData
+}
+`;
+
+/**
+ * Transports exporting executeQuery and executeMutation
+ */
+export const transportBackends: Record<
+  Exclude<GraphQLTransport, "graphql-request">,
+  GraphQLTransportBackend
+> = {
+  fetch: {
+    imports: "",
+    typeImports: "",
+    middleware: true,
+    configMembers: `
+	/**
+	 * Method queries are sent with (default "POST"). GET lets browsers and
+	 * CDNs cache queries; mutations are always sent with POST.
+	 */
+	queryMethod?: "GET" | "POST"`,
+    formatCode: (persistedDocuments) =>
+      `${fetchCode}${persistedDocuments ? formatPersistedExecuteCode(persistedDocuments) : fetchExecuteCode}`,
+  },
+  urql: {
+    imports: 'import { createRequest } from "@urql/core"',
+    typeImports:
+      'import type { AnyVariables, Client as UrqlClient, OperationResult } from "@urql/core"',
+    middleware: false,
+    client: "urql",
+    configMembers: `
+	/** The urql client queries and mutations are sent with */
+	client: () => UrqlClient`,
+    formatCode: () => urqlCode,
+  },
+  apollo: {
+    imports: 'import { gql } from "@apollo/client"',
+    typeImports:
+      'import type { ApolloClient, OperationVariables } from "@apollo/client"',
+    middleware: false,
+    client: "Apollo",
+    configMembers: `
+	/** The Apollo client queries and mutations are sent with */
+	client: () => ApolloClient`,
+    formatCode: () => apolloCode,
+  },
+};
@@ -7,9 +7,13 @@ import { describe, expect, it } from "vitest";
 import {
   analyzeFilterCapabilities,
   analyzePaginationCapabilities,
+  analyzePaginationHeaders,
+  analyzePaginationResponse,
   analyzeQueryParameters,
   analyzeSortCapabilities,
   detectFilterStyle,
+  detectPageSizeParams,
+  detectPreviousPageParam,
   extractJsonApiFilterField,
   extractJsonApiFilterOperator,
   extractRestSimpleFilter,
@@ -241,6 +245,130 @@ describe("OpenAPI Analysis", () => {
     });
   });
 
+  describe("analyzePaginationResponse", () => {
+    it("should detect previous cursors of cursor pagination", () => {
+      const result = analyzePaginationResponse({
+        type: "object",
+        properties: {
+          items: { type: "array", items: { type: "string" } },
+          nextCursor: { type: "string" },
+          prevCursor: { type: "string" },
+        },
+      });
+
+      expect(result.style).toBe("cursor");
+      expect(result.nextCursorField).toBe("nextCursor");
+      expect(result.prevCursorField).toBe("prevCursor");
+    });
+
+    it("should leave out previous cursors that the response lacks", () => {
+      const result = analyzePaginationResponse({
+        type: "object",
+        properties: { nextCursor: { type: "string" } },
+      });
+
+      expect(result.style).toBe("cursor");
+      expect(result.prevCursorField).toBeUndefined();
+    });
+
+    it("should detect backward pagination of Relay page info", () => {
+      const result = analyzePaginationResponse({
+        type: "object",
+        properties: {
+          pageInfo: {
+            type: "object",
+            properties: {
+              hasNextPage: { type: "boolean" },
+              endCursor: { type: "string" },
+              hasPreviousPage: { type: "boolean" },
+              startCursor: { type: "string" },
+            },
+          },
+        },
+      });
+
+      expect(result.style).toBe("relay");
+      expect(result.hasPreviousPath).toEqual(["pageInfo", "hasPreviousPage"]);
+      expect(result.prevCursorPath).toEqual(["pageInfo", "startCursor"]);
+    });
+  });
+
+  describe("analyzePaginationHeaders", () => {
+    it("should detect Link header pagination", () => {
+      const result = analyzePaginationHeaders(["Link", "X-Total-Count"]);
+
+      expect(result.style).toBe("link");
+    });
+
+    it("should detect next cursor headers", () => {
+      const result = analyzePaginationHeaders(["X-Next-Cursor"]);
+
+      expect(result.style).toBe("cursor");
+      expect(result.nextCursorHeader).toBe("x-next-cursor");
+    });
+
+    it("should detect total count headers", () => {
+      const result = analyzePaginationHeaders(["X-Total-Count"]);
+
+      expect(result.style).toBe("offset");
+      expect(result.totalHeader).toBe("x-total-count");
+    });
+
+    it("should return none without pagination headers", () => {
+      const result = analyzePaginationHeaders(["ETag", "X-Request-Id"]);
+
+      expect(result.style).toBe("none");
+    });
+  });
+
+  describe("detectPreviousPageParam", () => {
+    const relayResponse = {
+      style: "relay" as const,
+      prevCursorPath: ["pageInfo", "startCursor"],
+    };
+
+    it("should detect the before param of Relay pagination", () => {
+      const params = [createParam("after"), createParam("before")];
+
+      expect(detectPreviousPageParam(params, relayResponse, "after")).toBe(
+        "before",
+      );
+    });
+
+    it("should return undefined without a before param", () => {
+      const params = [createParam("after")];
+
+      expect(
+        detectPreviousPageParam(params, relayResponse, "after"),
+      ).toBeUndefined();
+    });
+
+    it("should return undefined for responses without a start cursor", () => {
+      const params = [createParam("after"), createParam("before")];
+
+      expect(
+        detectPreviousPageParam(params, { style: "relay" }, "after"),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("detectPageSizeParams", () => {
+    it("should detect the first and last params", () => {
+      const params = [createParam("first"), createParam("last")];
+
+      expect(detectPageSizeParams(params)).toEqual({
+        first: "first",
+        last: "last",
+      });
+    });
+
+    it("should return undefined without a last param", () => {
+      const params = [createParam("first"), createParam("before")];
+
+      expect(detectPageSizeParams(params)).toBeUndefined();
+    });
+  });
+
   describe("detectFilterStyle", () => {
     it("should detect JSON:API style", () => {
       const paramNames = ["filter[status]", "filter[price][gte]"];
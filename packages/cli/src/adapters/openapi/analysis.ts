@@ -366,6 +366,19 @@ const cursorFieldNames = [
   "next_page_token",
 ];
 
+/** Common previous cursor field names in responses */
+const prevCursorFieldNames = [
+  "prevCursor",
+  "previousCursor",
+  "startCursor",
+  "before",
+  "prevPageToken",
+  "previousPageToken",
+  "prev_cursor",
+  "previous_cursor",
+  "prev_page_token",
+];
+
 /** Common hasMore field names in responses */
 const hasMoreFieldNames = [
   "hasMore",
@@ -388,12 +401,18 @@ const totalFieldNames = [
   "total_items",
 ];
 
+/** Common next cursor header names in responses */
+const cursorHeaderNames = ["x-next-cursor", "x-next-page-token", "x-cursor"];
+
+/** Common total count header names in responses */
+const totalHeaderNames = ["x-total-count", "x-total"];
+
 /**
  * Analyze response schema to detect pagination structure for infinite queries
  *
  * Detects common patterns:
- * - Cursor-based: { data: T[], nextCursor?: string }
- * - Relay-style: { edges: [...], pageInfo: { hasNextPage, endCursor } }
+ * - Cursor-based: { data: T[], nextCursor?: string, prevCursor?: string }
+ * - Relay-style: { edges: [...], pageInfo: { hasNextPage, endCursor, hasPreviousPage, startCursor } }
  * - HasMore-based: { items: T[], hasMore: boolean }
  * - Offset-based with total: { data: T[], total: number }
  */
@@ -424,11 +443,23 @@ export function analyzePaginationResponse(
       const endCursorKey = piPropNames.find(
         (p) => p.toLowerCase() === "endcursor",
       );
+      const hasPreviousPageKey = piPropNames.find(
+        (p) => p.toLowerCase() === "haspreviouspage",
+      );
+      const startCursorKey = piPropNames.find(
+        (p) => p.toLowerCase() === "startcursor",
+      );
 
       return {
         style: "relay",
         nextCursorPath: endCursorKey ? [pageInfoKey, endCursorKey] : undefined,
         hasMorePath: hasNextPageKey ? [pageInfoKey, hasNextPageKey] : undefined,
+        prevCursorPath: startCursorKey
+          ? [pageInfoKey, startCursorKey]
+          : undefined,
+        hasPreviousPath: hasPreviousPageKey
+          ? [pageInfoKey, hasPreviousPageKey]
+          : undefined,
       };
     }
   }
@@ -438,7 +469,10 @@ export function analyzePaginationResponse(
     cursorFieldNames.some((c) => p.toLowerCase() === c.toLowerCase()),
   );
   if (cursorField) {
-    return { style: "cursor", nextCursorField: cursorField };
+    const prevCursorField = propNames.find((p) =>
+      prevCursorFieldNames.some((c) => p.toLowerCase() === c.toLowerCase()),
+    );
+    return { style: "cursor", nextCursorField: cursorField, prevCursorField };
   }
 
   // Check for hasMore boolean at root level
@@ -467,6 +501,39 @@ export function analyzePaginationResponse(
   return { style: "none" };
 }
 
+/**
+ * Analyze the headers declared on a response to detect pagination sent
+ * outside the body, for APIs whose bodies are plain arrays
+ *
+ * Detects common patterns (by priority):
+ * - Link header (RFC 8288): `Link: <https://api.example.com/repos?page=2>; rel="next"`
+ * - Next cursor header: `X-Next-Cursor: abc123`
+ * - Total count header: `X-Total-Count: 240`
+ */
+export function analyzePaginationHeaders(
+  headerNames: string[],
+): PaginationResponseInfo {
+  const names = headerNames.map((name) => name.toLowerCase());
+
+  if (names.includes("link")) {
+    return { style: "link" };
+  }
+
+  const nextCursorHeader = names.find((name) =>
+    cursorHeaderNames.includes(name),
+  );
+  if (nextCursorHeader) {
+    return { style: "cursor", nextCursorHeader };
+  }
+
+  const totalHeader = names.find((name) => totalHeaderNames.includes(name));
+  if (totalHeader) {
+    return { style: "offset", totalHeader };
+  }
+
+  return { style: "none" };
+}
+
 /**
  * Determine the page parameter name from pagination capabilities
  */
@@ -522,3 +589,34 @@ export function detectPageParamFromQueryParams(
       return undefined;
   }
 }
+
+/**
+ * Determine the query param for previous pages of Relay-style pagination,
+ * whose previous cursor (startCursor) is sent as "before" rather than in the
+ * page param
+ */
+export function detectPreviousPageParam(
+  queryParams: ParameterObject[],
+  response: PaginationResponseInfo,
+  pageParamName: string,
+): string | undefined {
+  if (response.style !== "relay" || !response.prevCursorPath) {
+    return undefined;
+  }
+  return queryParams
+    .map((p) => p.name)
+    .find((p) => p.toLowerCase() === "before" && p !== pageParamName);
+}
+
+/**
+ * Determine the page size params of Relay-style pagination: "first" for next
+ * pages, and "last" for previous pages. Both are needed to page backward.
+ */
+export function detectPageSizeParams(
+  queryParams: ParameterObject[],
+): { first: string; last: string } | undefined {
+  const names = queryParams.map((p) => p.name);
+  const first = names.find((p) => p.toLowerCase() === "first");
+  const last = names.find((p) => p.toLowerCase() === "last");
+  return first && last ? { first, last } : undefined;
+}
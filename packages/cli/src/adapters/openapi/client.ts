@@ -1,14 +1,21 @@
 /**
  * OpenAPI client generation
- * Generates a better-fetch client for OpenAPI endpoints
+ * Generates a client for OpenAPI endpoints, sending requests with the
+ * source's HTTP client library (better-fetch by default)
  */
+import { generateClientConfig, middlewareCode } from "@/generators/middleware";
+import { getSafePropertyName } from "@/utils/naming";
 import { formatUrlForClient } from "@/utils/url";
+import { getHttpClient, responseClientBackends } from "./http-client";
+import { extractSecuritySchemes } from "./security";
 
 import type { OpenAPISourceConfig } from "@/core/config";
 import type { GeneratedFile, OpenAPIAdapterSchema } from "../types";
+import type { ResponseClientBackend } from "./http-client";
+import type { ParsedSecurityScheme } from "./security";
 
 /**
- * Generate the OpenAPI client file using better-fetch
+ * Generate the OpenAPI client file
  */
 export function generateOpenAPIClient(
   schema: OpenAPIAdapterSchema,
@@ -25,25 +32,79 @@ export function generateOpenAPIClient(
   }
 
   const formattedUrl = formatUrlForClient(url);
+  const securitySchemes = extractSecuritySchemes(schema.document);
+  const httpClient = getHttpClient(config);
+  const backend =
+    httpClient === "better-fetch"
+      ? undefined
+      : responseClientBackends[httpClient];
+
+  const imports = backend
+    ? [
+        backend.imports,
+        'import { clientConfig } from "./client.config"',
+        backend.typeImports,
+      ]
+    : [
+        'import { createFetch, parseStandardSchema } from "@better-fetch/fetch"',
+        'import { clientConfig } from "./client.config"',
+        'import type { BetterFetchPlugin, StandardSchemaV1 } from "@better-fetch/fetch"',
+      ];
 
   const content = `/* eslint-disable */
-/* OpenAPI Client - Generated once by tangrams. Customize as needed. */
+/* OpenAPI Client - Generated by tangrams. Customize the client in client.config.ts. */
 
-import { createFetch } from "@better-fetch/fetch"
+${imports.filter(Boolean).join("\n")}
 
 const baseURL = ${formattedUrl}
 
 /**
- * Returns a configured fetch client.
- * Customize this function to add dynamic headers (e.g., auth tokens).
+ * Per-call request options, merged over the client configuration
  */
-export const getClient = async () => {
-	return createFetch({
-		baseURL,
-		headers: {
-			// Add your headers here
-		},
-	})
+export interface RequestOptions {
+	/** Signal to cancel the request (TanStack Query passes one to queryFn) */
+	signal?: AbortSignal
+	/** Headers merged over the client's headers */
+	headers?: Record<string, string>
+	/** Milliseconds to wait before cancelling the request */
+	timeout?: number
+	/** Other ${backend?.label ?? "fetch"} options (e.g., ${backend?.fetchOptionsExamples ?? "cache, credentials"}) */
+	fetchOptions?: ${backend?.fetchOptionsType ?? 'Omit<RequestInit, "body" | "headers" | "method" | "signal">'}
+}
+${backend ? clientFetchTypes : ""}
+/**
+ * Client customizations, set in client.config.ts
+ */
+export interface ClientConfig {
+	/** Headers sent with every request (e.g., read from the current session) */
+	headers?: () => MaybePromise<Record<string, string>>
+	/** Set up the middleware run around every request */
+	middleware?: (builtins: BuiltinMiddleware) => Middleware[]
+}
+${middlewareCode}
+/**
+ * fetch running requests through the middleware of client.config.ts
+ */
+const middlewareFetch = createMiddlewareFetch(
+	clientConfig.middleware?.(builtinMiddleware) ?? [],
+)
+${backend?.setup ?? ""}
+${generateGetClient(securitySchemes, backend)}
+
+/**
+ * Helper to combine the signal and timeout of request options into the
+ * single signal fetch takes.
+ * @param options - Request options
+ * @returns Signal aborted by either, or undefined when neither is set
+ */
+function getRequestSignal({
+	signal,
+	timeout,
+}: RequestOptions): AbortSignal | undefined {
+	const timeoutSignal =
+		timeout === undefined ? undefined : AbortSignal.timeout(timeout)
+	if (signal && timeoutSignal) return AbortSignal.any([signal, timeoutSignal])
+	return signal ?? timeoutSignal
 }
 
 /**
@@ -85,6 +146,266 @@ export function buildQuery(
 		.map(([k, v]) => \`\${encodeURIComponent(k)}=\${encodeURIComponent(String(v))}\`)
 		.join("&")
 }
+
+type HeaderValue = string | number | boolean | null | undefined
+
+/**
+ * Helper to build request headers from header params.
+ * Drops null, undefined, and empty values; joins arrays with commas.
+ * @param params - Header parameters object
+ * @returns Headers object
+ *
+ * @example
+ * buildHeaders({ "X-Tenant-Id": "acme", "X-Trace": undefined }) // { "X-Tenant-Id": "acme" }
+ */
+export function buildHeaders(
+	params: Record<string, HeaderValue | HeaderValue[]>,
+): Record<string, string> {
+	const headers: Record<string, string> = {}
+	for (const [key, value] of Object.entries(params)) {
+		if (value === undefined || value === null || value === "") continue
+		headers[key] = Array.isArray(value) ? value.join(",") : String(value)
+	}
+	return headers
+}
+
+/**
+ * Helper to build a Cookie header value from cookie params.
+ * Note: browsers do not allow setting the Cookie header from fetch,
+ * so cookie params are only sent from server environments.
+ * @param params - Cookie parameters object
+ * @returns Cookie header value (empty string if no cookies)
+ *
+ * @example
+ * buildCookie({ session: "abc", theme: "dark" }) // "session=abc; theme=dark"
+ */
+export function buildCookie(params: Record<string, HeaderValue>): string {
+	return Object.entries(params)
+		.filter(([, v]) => v !== undefined && v !== null)
+		.map(([k, v]) => \`\${k}=\${encodeURIComponent(String(v))}\`)
+		.join("; ")
+}
+
+/**
+ * Convert a request body field value to its form representation.
+ * Dates become ISO strings; nested objects are JSON-encoded.
+ */
+function toFormValue(value: unknown): string {
+	if (value instanceof Date) return value.toISOString()
+	if (typeof value === "object") return JSON.stringify(value)
+	return String(value)
+}
+
+/**
+ * Helper to build a multipart/form-data body from a request body object.
+ * Files and blobs are appended as-is, arrays as repeated fields, and
+ * null/undefined fields are skipped. The Content-Type header (with its
+ * boundary) is set by fetch.
+ * @param body - Request body object
+ * @returns FormData instance
+ *
+ * @example
+ * buildFormData({ file: new File(["..."], "a.png"), tags: ["a", "b"] })
+ */
+export function buildFormData(body: object): FormData {
+	const formData = new FormData()
+	for (const [key, value] of Object.entries(body)) {
+		for (const item of Array.isArray(value) ? value : [value]) {
+			if (item === undefined || item === null) continue
+			formData.append(key, item instanceof Blob ? item : toFormValue(item))
+		}
+	}
+	return formData
+}
+
+/**
+ * Helper to build an application/x-www-form-urlencoded body from a request
+ * body object. Arrays become repeated fields; null/undefined fields are skipped.
+ * @param body - Request body object
+ * @returns URLSearchParams instance
+ *
+ * @example
+ * buildUrlEncoded({ username: "ada", remember: true }).toString() // "username=ada&remember=true"
+ */
+export function buildUrlEncoded(body: object): URLSearchParams {
+	const searchParams = new URLSearchParams()
+	for (const [key, value] of Object.entries(body)) {
+		for (const item of Array.isArray(value) ? value : [value]) {
+			if (item === undefined || item === null) continue
+			searchParams.append(key, toFormValue(item))
+		}
+	}
+	return searchParams
+}
+
+/**
+ * Response body types read without JSON parsing
+ */
+export interface BodyTypes {
+	text: string
+	blob: Blob
+	stream: ReadableStream<Uint8Array>
+}
+
+${backend ? responseReaders : betterFetchReaders}
+
+/**
+ * Helper to read a query param from a link of an RFC 8288 Link header,
+ * such as the page of its rel="next" link.
+ * @param link - Link header value
+ * @param rel - Relation of the link (e.g., "next", "prev")
+ * @param param - Query param to read from the link's URL
+ * @param parse - Converts the param value (e.g., Number for page numbers)
+ * @returns Param value, or undefined when the link or param is missing
+ *
+ * @example
+ * getLinkParam('<https://api.example.com/repos?page=2>; rel="next"', "next", "page", Number) // 2
+ */
+export function getLinkParam(
+	link: string | null | undefined,
+	rel: string,
+	param: string,
+): string | undefined
+export function getLinkParam<T>(
+	link: string | null | undefined,
+	rel: string,
+	param: string,
+	parse: (value: string) => T,
+): T | undefined
+export function getLinkParam<T>(
+	link: string | null | undefined,
+	rel: string,
+	param: string,
+	parse?: (value: string) => T,
+): T | string | undefined {
+	for (const [, url = "", attributes = ""] of (link ?? "").matchAll(/<([^>]*)>([^<]*)/g)) {
+		const match = /;\\s*rel=(?:"([^"]*)"|([^;,\\s]*))/i.exec(attributes)
+		const rels = (match?.[1] ?? match?.[2] ?? "").toLowerCase().split(/\\s+/)
+		if (!rels.includes(rel)) continue
+		const value = new URL(url, "http://localhost").searchParams.get(param)
+		if (value === null) return undefined
+		return parse ? parse(value) : value
+	}
+	return undefined
+}
+
+/**
+ * A Server-Sent Event parsed from a text/event-stream body
+ */
+export interface ServerSentEvent {
+	/** Event type ("message" unless the event sets one) */
+	event: string
+	/** Event data, with multiple data lines joined by newlines */
+	data: string
+	/** Last event ID seen on the stream */
+	id?: string
+	/** Reconnection time in milliseconds, when the event sets one */
+	retry?: number
+}
+
+/**
+ * Helper to parse a text/event-stream body into Server-Sent Events.
+ * Comments and events without data are skipped. The stream is cancelled
+ * when iteration stops early.
+ * @param stream - Response body stream
+ * @returns Async generator of parsed events
+ *
+ * @example
+ * for await (const event of parseEventStream(stream)) console.log(event.data)
+ */
+export async function* parseEventStream(
+	stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+	const reader = stream.getReader()
+	const decoder = new TextDecoder()
+	let buffer = ""
+	let event = ""
+	let data: string[] = []
+	let id: string | undefined
+	let retry: number | undefined
+	try {
+		while (true) {
+			const { done, value } = await reader.read()
+			if (done) return
+			buffer += decoder.decode(value, { stream: true })
+			// A trailing "\\r" may be the first half of "\\r\\n", so it stays buffered
+			const lines = buffer.split(/\\r\\n|\\r(?!$)|\\n/)
+			buffer = lines.pop() ?? ""
+			for (const line of lines) {
+				if (line === "") {
+					if (data.length > 0) {
+						yield { event: event || "message", data: data.join("\\n"), id, retry }
+					}
+					event = ""
+					data = []
+					retry = undefined
+					continue
+				}
+				if (line.startsWith(":")) continue
+				const colon = line.indexOf(":")
+				const field = colon === -1 ? line : line.slice(0, colon)
+				const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "")
+				if (field === "data") data.push(value)
+				else if (field === "event") event = value
+				else if (field === "id" && !value.includes("\\0")) id = value
+				else if (field === "retry" && /^\\d+$/.test(value)) retry = Number(value)
+			}
+		}
+	} finally {
+		await reader.cancel()
+	}
+}
+
+/**
+ * Helper to validate the data of a Server-Sent Event against a schema
+ * @param event - Parsed event
+ * @param schema - Schema for the event data
+ * @param json - Whether the data is JSON (false for plain string data)
+ * @returns Validated event data
+ *
+ * @example
+ * const progress = await parseEventData(event, progressEventSchema)
+ */
+export async function parseEventData<T>(
+	event: ServerSentEvent,
+	schema: StandardSchemaV1<unknown, T>,
+	json = true,
+): Promise<T> {
+	return parseStandardSchema(schema, json ? JSON.parse(event.data) : event.data)
+}
+
+type AnyApiError = ApiError<number, unknown, boolean>
+
+/**
+ * Error thrown by generated functions for non-2xx responses.
+ * \`valid\` is true when the body matched the schema declared for its status:
+ * narrow on \`valid\` and \`status\` to get the body type of that response.
+ */
+export class ApiError<TStatus extends number = number, TBody = unknown, TValid extends boolean = false> extends Error {
+	readonly status: TStatus
+	readonly statusText: string
+	readonly body: TBody
+	readonly valid: TValid
+
+	constructor(status: TStatus, statusText: string, body: TBody, valid = false as TValid) {
+		super(\`Request failed with status \${status}\${statusText ? \` \${statusText}\` : ""}\`)
+		this.name = "ApiError"
+		this.status = status
+		this.statusText = statusText
+		this.body = body
+		this.valid = valid
+	}
+
+	// Narrows \`instanceof\` checks to the ApiError members of an error union,
+	// rather than ApiError<any, any, any> for its Error member
+	static [Symbol.hasInstance]<T>(
+		value: T,
+	): value is [Extract<T, AnyApiError>] extends [never] ? T & AnyApiError : Extract<T, AnyApiError> {
+		return Function.prototype[Symbol.hasInstance].call(this, value)
+	}
+}
+
+${toApiErrorCode}
 `;
 
   return {
@@ -92,3 +413,576 @@ export function buildQuery(
     content,
   };
 }
+
+/**
+ * Generate the user-owned client config file, recording the HTTP client it
+ * was generated for
+ */
+export function generateOpenAPIClientConfig(
+  config: OpenAPISourceConfig,
+): GeneratedFile {
+  return generateClientConfig({
+    target: `httpClient "${getHttpClient(config)}"`,
+  });
+}
+
+/**
+ * getClient of APIs without security schemes
+ */
+const plainClient = `/**
+ * Returns a configured fetch client.
+ * Customize the client in client.config.ts.
+ * Per-call request options are merged over this configuration.
+ */
+export const getClient = async (options: RequestOptions = {}) => {
+	return createFetch({
+		baseURL,
+		...options.fetchOptions,
+		customFetchImpl: middlewareFetch,
+		signal: getRequestSignal(options),
+		headers: {
+			...(await clientConfig.headers?.()),
+			...options.headers,
+		},
+	})
+}`;
+
+/**
+ * Generate getClient, after the auth configuration API of APIs with security
+ * schemes. better-fetch clients are created with createFetch; the other
+ * backends return a function resolving to the Response of each request.
+ */
+function generateGetClient(
+  schemes: ParsedSecurityScheme[],
+  backend: ResponseClientBackend | undefined,
+): string {
+  const auth = schemes.length > 0;
+  if (!backend) {
+    return auth
+      ? `${generateAuthConfig(schemes)}\n\n${betterFetchAuthClient}`
+      : plainClient;
+  }
+  const getClient = formatResponseClient(backend, auth);
+  return auth
+    ? `${generateAuthConfig(schemes)}\n\n${withQueryHelper}\n\n${getClient}`
+    : getClient;
+}
+
+/**
+ * Generate the auth configuration API, which resolves the credentials of
+ * each operation's security requirements
+ */
+function generateAuthConfig(schemes: ParsedSecurityScheme[]): string {
+  const authConfig = schemes
+    .map((scheme) => {
+      const type =
+        scheme.credential === "basic"
+          ? "Credential<BasicCredentials>"
+          : "Credential";
+      return `\t/** ${scheme.description} (${scheme.name}) */\n\t${getSafePropertyName(scheme.name)}?: ${type}`;
+    })
+    .join("\n");
+  const locations = schemes
+    .map((scheme) => {
+      const prefix = scheme.prefix ? `, prefix: "${scheme.prefix}"` : "";
+      return `\t${getSafePropertyName(scheme.name)}: { in: "${scheme.in}", name: "${scheme.paramName}"${prefix} },`;
+    })
+    .join("\n");
+
+  return `/**
+ * Username and password for HTTP basic authentication
+ */
+export interface BasicCredentials {
+	username: string
+	password: string
+}
+
+/**
+ * A credential, or a function returning the current one (e.g., reading a
+ * token from storage). Undefined credentials are not sent.
+ */
+export type Credential<T = string> =
+	| T
+	| undefined
+	| (() => T | undefined | Promise<T | undefined>)
+
+/**
+ * Credentials of the API's security schemes, set with setAuth
+ */
+export interface AuthConfig {
+${authConfig}
+}
+
+/**
+ * Names of the API's security schemes
+ */
+export type SecurityScheme = keyof AuthConfig
+
+/**
+ * Where each security scheme sends its credential
+ */
+const securitySchemes: Record<
+	SecurityScheme,
+	{ in: "header" | "query" | "cookie"; name: string; prefix?: string }
+> = {
+${locations}
+}
+
+let authConfig: AuthConfig = {}
+
+/**
+ * Set the credentials sent by generated functions, replacing the ones set
+ * before. Each operation sends the credentials of the first of its security
+ * requirements with all of them set; public operations send none.
+ * @param config - Credentials keyed by security scheme
+ *
+ * @example
+ * setAuth({ ${getSafePropertyName(schemes[0]?.name ?? "")}: () => getToken() })
+ */
+export function setAuth(config: AuthConfig): void {
+	authConfig = config
+}
+
+/**
+ * Helper to resolve the credentials of an operation's security requirements
+ * into the headers, query params, and cookies that send them.
+ * @param security - Alternative requirements, each listing the schemes sent together
+ * @returns Params of the first requirement with all of its credentials set
+ */
+async function getAuthParams(security: SecurityScheme[][]) {
+	const params = {
+		headers: {} as Record<string, string>,
+		query: {} as Record<string, string>,
+		cookies: {} as Record<string, string>,
+	}
+	for (const requirement of security) {
+		const credentials = await Promise.all(
+			requirement.map(async (scheme) => {
+				const credential = authConfig[scheme]
+				return typeof credential === "function" ? await credential() : credential
+			}),
+		)
+		if (credentials.some((credential) => credential === undefined || credential === "")) {
+			continue
+		}
+		requirement.forEach((scheme, index) => {
+			const credential = credentials[index] as string | BasicCredentials
+			const { in: location, name, prefix = "" } = securitySchemes[scheme]
+			const value =
+				typeof credential === "string"
+					? credential
+					: encodeBasic(credential.username, credential.password)
+			if (location === "header") params.headers[name] = \`\${prefix}\${value}\`
+			else if (location === "query") params.query[name] = value
+			else params.cookies[name] = value
+		})
+		return params
+	}
+	return params
+}
+
+/**
+ * Encode a username and password for HTTP basic authentication
+ */
+function encodeBasic(username: string, password: string): string {
+	const bytes = new TextEncoder().encode(\`\${username}:\${password}\`)
+	return btoa(String.fromCharCode(...bytes))
+}`;
+}
+
+/**
+ * getClient of better-fetch clients of APIs with security schemes
+ */
+const betterFetchAuthClient = `/**
+ * Returns a configured fetch client.
+ * Customize the client in client.config.ts.
+ * Per-call request options are merged over this configuration, and the
+ * credentials set with setAuth are sent for the operation's security
+ * requirements.
+ */
+export const getClient = async (
+	options: RequestOptions = {},
+	security: SecurityScheme[][] = [],
+) => {
+	const auth = await getAuthParams(security)
+	const cookie = [options.headers?.Cookie, buildCookie(auth.cookies)]
+		.filter(Boolean)
+		.join("; ")
+	return createFetch({
+		baseURL,
+		...options.fetchOptions,
+		customFetchImpl: middlewareFetch,
+		signal: getRequestSignal(options),
+		query: auth.query,
+		headers: {
+			...(await clientConfig.headers?.()),
+			...auth.headers,
+			...options.headers,
+			...(cookie ? { Cookie: cookie } : {}),
+		},
+	})
+}`;
+
+/**
+ * Format getClient of the backends resolving to the Response of each
+ * request, sending the credentials of the operation's security requirements
+ * when the API has security schemes
+ */
+function formatResponseClient(
+  backend: ResponseClientBackend,
+  auth: boolean,
+): string {
+  const url = auth
+    ? // biome-ignore lint/suspicious/noTemplateCurlyInString: generating template literal output
+      "withQuery(`${baseURL}${path}`, auth.query)"
+    : // biome-ignore lint/suspicious/noTemplateCurlyInString: generating template literal output
+      "`${baseURL}${path}`";
+  const doc = auth
+    ? `Per-call request options are merged over this configuration, and the
+ * credentials set with setAuth are sent for the operation's security
+ * requirements.`
+    : "Per-call request options are merged over this configuration.";
+
+  return `/**
+ * Returns a function sending requests with ${backend.label}, which resolves to
+ * the Response of each request.
+ * Customize the client in client.config.ts.
+ * ${doc}
+ */
+export const getClient = async (
+	options: RequestOptions = {},${auth ? "\n\tsecurity: SecurityScheme[][] = []," : ""}
+): Promise<ClientFetch> => {${
+    auth
+      ? `
+	const auth = await getAuthParams(security)
+	const cookie = [options.headers?.Cookie, buildCookie(auth.cookies)]
+		.filter(Boolean)
+		.join("; ")`
+      : ""
+  }
+	const headers = {
+		...(await clientConfig.headers?.()),${auth ? "\n\t\t...auth.headers," : ""}
+		...options.headers,${auth ? "\n\t\t...(cookie ? { Cookie: cookie } : {})," : ""}
+	}
+	const signal = getRequestSignal(options)
+	return ${backend.formatSend(url)}
+}`;
+}
+
+/**
+ * Helper of the Response backends adding the query params of credentials
+ */
+const withQueryHelper = `/**
+ * Helper to add query params to a URL, after any it already has.
+ * @param url - Request URL
+ * @param params - Query parameters object
+ * @returns URL with the query params
+ */
+function withQuery(url: string, params: Record<string, string>): string {
+	const query = buildQuery(params)
+	if (!query) return url
+	return \`\${url}\${url.includes("?") ? "&" : "?"}\${query}\`
+}`;
+
+/**
+ * Request types of the backends resolving to the Response of each request
+ */
+const clientFetchTypes = `
+/**
+ * A request sent by generated functions
+ */
+export interface ClientRequest {
+	/** HTTP method (default GET) */
+	method?: string
+	/** JSON body, or an encoded FormData or URLSearchParams body */
+	body?: object
+}
+
+/**
+ * Sends a request to a path of the API, resolving to its Response
+ */
+export type ClientFetch = (
+	path: string,
+	request?: ClientRequest,
+) => Promise<Response>
+`;
+
+/**
+ * Response readers of better-fetch clients, run as per-request plugins
+ */
+const betterFetchReaders = `/**
+ * Helper to read a success response body as text, a Blob, or an unread
+ * stream instead of letting better-fetch parse it as JSON. Pass the plugin
+ * to $fetch, then call body() once the request has succeeded.
+ * @param type - How to read the body
+ * @returns Per-request plugin and a getter for the read body
+ *
+ * @example
+ * const reader = readBodyAs("blob")
+ * const { error } = await $fetch("/files/1", { plugins: [reader.plugin] })
+ * if (!error) return reader.body()
+ */
+export function readBodyAs<T extends keyof BodyTypes>(type: T) {
+	let body: Promise<BodyTypes[T]> | undefined
+	const plugin: BetterFetchPlugin = {
+		id: "read-body",
+		name: "Read body",
+		hooks: {
+			onResponse({ response }) {
+				if (!response.ok) return
+				const read =
+					type === "text"
+						? response.text()
+						: type === "blob"
+							? response.blob()
+							: Promise.resolve(response.body ?? new Blob().stream())
+				body = read as Promise<BodyTypes[T]>
+				// Hand better-fetch an empty copy so the real body is left unread
+				return new Response(null, {
+					status: response.status,
+					statusText: response.statusText,
+					headers: response.headers,
+				})
+			},
+		},
+	}
+	return {
+		plugin,
+		body: (): Promise<BodyTypes[T]> => {
+			if (!body) throw new Error("Response body was not read")
+			return body
+		},
+	}
+}
+
+/**
+ * Helper to read response headers alongside the parsed body, such as the
+ * Link or X-Total-Count headers of paginated responses. Pass the plugin to
+ * $fetch, then call get() once the request has succeeded.
+ * @param names - Lowercase names of the headers to read
+ * @returns Per-request plugin and a getter for the header values
+ *
+ * @example
+ * const responseHeaders = readHeaders(["link"])
+ * const { data, error } = await $fetch("/repos", { plugins: [responseHeaders.plugin] })
+ * if (!error) return { data, headers: responseHeaders.get() }
+ */
+export function readHeaders<T extends string>(names: T[]) {
+	let headers: Record<T, string | null> | undefined
+	const plugin: BetterFetchPlugin = {
+		id: "read-headers",
+		name: "Read headers",
+		hooks: {
+			onResponse({ response }) {
+				headers = Object.fromEntries(
+					names.map((name) => [name, response.headers.get(name)]),
+				) as Record<T, string | null>
+			},
+		},
+	}
+	return {
+		plugin,
+		get: (): Record<T, string | null> => {
+			if (!headers) throw new Error("Response headers were not read")
+			return headers
+		},
+	}
+}
+
+/**
+ * Helper to keep a copy of an error response. better-fetch merges the parsed
+ * body of an error response with its status, so toApiError reads the copy
+ * instead. Pass the plugin to $fetch, then call get() once the request has
+ * failed.
+ * @returns Per-request plugin and a getter for the error response
+ *
+ * @example
+ * const errorResponse = readErrorResponse()
+ * const { error } = await $fetch("/pets/1", { plugins: [errorResponse.plugin] })
+ * if (error) throw await toApiError(errorResponse.get())
+ */
+export function readErrorResponse() {
+	let response: Response | undefined
+	const plugin: BetterFetchPlugin = {
+		id: "read-error-response",
+		name: "Read error response",
+		hooks: {
+			onResponse(context) {
+				if (!context.response.ok) response = context.response.clone()
+			},
+		},
+	}
+	return {
+		plugin,
+		get: (): Response => {
+			if (!response) throw new Error("Error response was not read")
+			return response
+		},
+	}
+}`;
+
+/**
+ * Response readers and Standard Schema validation of the backends resolving
+ * to the Response of each request, which have no validation of their own
+ */
+const responseReaders = `/**
+ * The Standard Schema interface the generated schemas implement
+ * (see https://standardschema.dev)
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": {
+		readonly version: 1
+		readonly vendor: string
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+		readonly types?: { readonly input: Input; readonly output: Output } | undefined
+	}
+}
+
+type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/**
+ * A validation issue reported by a Standard Schema
+ */
+export interface StandardSchemaIssue {
+	readonly message: string
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+}
+
+/**
+ * Error thrown when a response body does not match its schema
+ */
+export class ValidationError extends Error {
+	readonly issues: ReadonlyArray<StandardSchemaIssue>
+
+	constructor(issues: ReadonlyArray<StandardSchemaIssue>) {
+		super(JSON.stringify(issues, null, 2))
+		this.name = "ValidationError"
+		this.issues = issues
+	}
+}
+
+/**
+ * Helper to validate a value against a schema
+ * @param schema - Standard Schema to validate against
+ * @param value - Value to validate
+ * @returns Validated value
+ * @throws ValidationError when the value does not match the schema
+ */
+export async function parseStandardSchema<T>(
+	schema: StandardSchemaV1<unknown, T>,
+	value: unknown,
+): Promise<T> {
+	const result = await schema["~standard"].validate(value)
+	if (result.issues) throw new ValidationError(result.issues)
+	return result.value
+}
+
+/**
+ * Helper to read a success response body as JSON (null when it is empty),
+ * validated against the schema of the response.
+ * @param response - Response of the request
+ * @param schema - Schema for the response body
+ * @returns Parsed body
+ *
+ * @example
+ * const response = await $fetch("/pets/1")
+ * if (response.ok) return parseResponse(response, petSchema)
+ */
+export async function parseResponse<T = unknown>(
+	response: Response,
+	schema?: StandardSchemaV1<unknown, T>,
+): Promise<T> {
+	const text = await response.text()
+	const data: unknown = text ? JSON.parse(text) : null
+	return schema ? parseStandardSchema(schema, data) : (data as T)
+}
+
+/**
+ * Helper to read a success response body as text, a Blob, or an unread
+ * stream instead of parsing it as JSON.
+ * @param response - Response of the request
+ * @param type - How to read the body
+ * @returns Read body
+ *
+ * @example
+ * const response = await $fetch("/files/1")
+ * if (response.ok) return readBody(response, "blob")
+ */
+export function readBody<T extends keyof BodyTypes>(
+	response: Response,
+	type: T,
+): Promise<BodyTypes[T]> {
+	const read =
+		type === "text"
+			? response.text()
+			: type === "blob"
+				? response.blob()
+				: Promise.resolve(response.body ?? new Blob().stream())
+	return read as Promise<BodyTypes[T]>
+}
+
+/**
+ * Helper to read response headers, such as the Link or X-Total-Count
+ * headers of paginated responses.
+ * @param response - Response of the request
+ * @param names - Lowercase names of the headers to read
+ * @returns Header values (null for missing headers)
+ *
+ * @example
+ * getHeaders(response, ["link"]) // { link: '<https://api.example.com/repos?page=2>; rel="next"' }
+ */
+export function getHeaders<T extends string>(
+	response: Response,
+	names: T[],
+): Record<T, string | null> {
+	return Object.fromEntries(
+		names.map((name) => [name, response.headers.get(name)]),
+	) as Record<T, string | null>
+}`;
+
+/**
+ * toApiError of every backend, converting an error Response (better-fetch
+ * clients keep a copy of it with readErrorResponse)
+ */
+const toApiErrorCode = `/**
+ * Helper to convert an error response into an ApiError.
+ * JSON bodies are validated against the schema declared for their status
+ * (exact code, then range such as "4XX", then "default"). Other bodies, such
+ * as a gateway's HTML error page, and JSON bodies that do not match are kept
+ * as received with \`valid\` false, so the ApiError always carries the status.
+ * @param response - Non-2xx response
+ * @param schemas - Error body schemas keyed by status
+ * @returns ApiError carrying the status, parsed body, and whether it is valid
+ *
+ * @example
+ * if (!response.ok) throw await toApiError(response, { 404: notFoundSchema })
+ */
+export async function toApiError(
+	response: Response,
+	schemas: Record<string, StandardSchemaV1> = {},
+): Promise<AnyApiError> {
+	const { status, statusText } = response
+	const text = await response.text()
+	const contentType = response.headers.get("Content-Type") ?? ""
+	if (!text || !/[/+]json\\b/i.test(contentType)) {
+		return new ApiError(status, statusText, text || undefined)
+	}
+	let body: unknown
+	try {
+		body = JSON.parse(text)
+	} catch {
+		return new ApiError(status, statusText, text)
+	}
+	const schema =
+		schemas[status] ??
+		schemas[\`\${Math.floor(status / 100)}XX\`] ??
+		schemas.default
+	if (!schema) return new ApiError(status, statusText, body)
+	const result = await schema["~standard"].validate(body)
+	if (result.issues) return new ApiError(status, statusText, body)
+	return new ApiError(status, statusText, result.value, true)
+}`;
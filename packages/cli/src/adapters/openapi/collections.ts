@@ -10,9 +10,20 @@ import {
   generatePredicateTranslator,
   needsPredicateTranslation,
 } from "@/generators/predicates";
-import { toCamelCase, toPascalCase } from "@/utils/naming";
+import {
+  formatCollectionQueryKey,
+  getCollectionKeyFactories,
+} from "@/generators/query-keys";
+import { getFrameworkPackages } from "@/utils/framework";
+import {
+  getSafePropertyName,
+  toCamelCase,
+  toPascalCase,
+  toQueryKeysName,
+} from "@/utils/naming";
 import { createWriter, writeImport } from "@/utils/writer";
 import { analyzeQueryParameters, hasQueryCapabilities } from "./analysis";
+import { getOpenAPIQueryKeyGroupName } from "./operations";
 
 import type CodeBlockWriter from "code-block-writer";
 import type { OpenAPIV3, OpenAPIV3_1 } from "openapi-types";
@@ -124,6 +135,7 @@ function findArrayInResponse(
 export function discoverOpenAPIEntities(
   schema: OpenAPIAdapterSchema,
   operations: ParsedOperation[],
+  sourceName: string,
   overrides?: Record<string, CollectionOverrideConfig>,
 ): CollectionDiscoveryResult {
   const warnings: string[] = [];
@@ -146,6 +158,7 @@ export function discoverOpenAPIEntities(
       listQuery,
       operations,
       schema.document,
+      sourceName,
       overrides,
       warnings,
     );
@@ -165,6 +178,7 @@ function discoverEntityFromListQuery(
   listQuery: ParsedOperation,
   allOperations: ParsedOperation[],
   document: OpenAPIAdapterSchema["document"],
+  sourceName: string,
   overrides?: Record<string, CollectionOverrideConfig>,
   warnings: string[] = [],
 ): CollectionEntity | null {
@@ -173,6 +187,14 @@ function discoverEntityFromListQuery(
     return null;
   }
 
+  // Collections call the list query without arguments
+  if (hasRequiredRequestParams(listQuery)) {
+    warnings.push(
+      `List query ${listQuery.operationId} has required header/cookie parameters - skipping collection generation`,
+    );
+    return null;
+  }
+
   // Find the array in the response (direct or wrapped)
   const arrayInfo = findArrayInResponse(responseSchema, warnings);
   if (!arrayInfo) {
@@ -204,9 +226,14 @@ function discoverEntityFromListQuery(
   const entityOverrides = overrides?.[entityName];
 
   // Use override for selectorPath if provided, otherwise use auto-detected
-  const selectorPath =
+  const bodySelectorPath =
     entityOverrides?.selectorPath ?? autoDetectedSelectorPath;
 
+  // List queries that paginate with headers return the body as data
+  const selectorPath = listQuery.responseHeaders
+    ? ["data", bodySelectorPath].filter(Boolean).join(".")
+    : bodySelectorPath;
+
   // Find key field
   const keyFieldOverride = entityOverrides?.keyField;
   const { keyField, keyFieldType } = findKeyField(
@@ -228,11 +255,17 @@ function discoverEntityFromListQuery(
     listQuery.path,
     allOperations,
     entityName,
+    warnings,
   );
 
   // Determine the TypeScript type name
   const typeName = toPascalCase(entityName);
 
+  // Read-only fields belong to the response type, not the request bodies
+  const readOnlyFields = Object.entries(itemSchema.properties ?? {})
+    .filter(([, propSchema]) => !("$ref" in propSchema) && propSchema.readOnly)
+    .map(([propName]) => propName);
+
   // Analyze query parameters for filter/sort/pagination capabilities
   const queryCapabilities = analyzeQueryParameters(listQuery.queryParams);
 
@@ -258,10 +291,19 @@ function discoverEntityFromListQuery(
     listQuery: {
       operationName: listQuery.operationId,
       queryKey: [entityName],
+      keyFactory: toQueryKeysName(
+        getOpenAPIQueryKeyGroupName(listQuery, sourceName),
+      ),
       paramsTypeName,
+      hasParams:
+        hasQueryParams ||
+        listQuery.pathParams.length > 0 ||
+        listQuery.headerParams.length > 0 ||
+        listQuery.cookieParams.length > 0,
       selectorPath: selectorPath ?? undefined,
     },
     mutations,
+    readOnlyFields: readOnlyFields.length > 0 ? readOnlyFields : undefined,
     // On-demand mode properties
     syncMode,
     predicateMapping:
@@ -450,6 +492,7 @@ function findCrudMutations(
   listPath: string,
   operations: ParsedOperation[],
   _entityName: string,
+  warnings: string[],
 ): CollectionMutation[] {
   const mutations: CollectionMutation[] = [];
 
@@ -462,6 +505,29 @@ function findCrudMutations(
   );
 
   for (const op of operations) {
+    // Persistence handlers only pass the key and body, so required
+    // header/cookie params cannot be supplied
+    const isCandidate =
+      (op.method === "post" && op.path === basePath) ||
+      (["put", "patch", "delete"].includes(op.method) &&
+        singleItemPattern.test(op.path));
+    if (isCandidate && hasRequiredRequestParams(op)) {
+      warnings.push(
+        `Mutation ${op.operationId} has required header/cookie parameters - skipping as a collection persistence handler`,
+      );
+      continue;
+    }
+    if (
+      isCandidate &&
+      op.requestBodyContentType &&
+      op.requestBodyContentType !== "application/json"
+    ) {
+      warnings.push(
+        `Mutation ${op.operationId} sends a ${op.requestBodyContentType} body - skipping as a collection persistence handler`,
+      );
+      continue;
+    }
+
     // Check for POST on the base path (create/insert)
     if (op.method === "post" && op.path === basePath) {
       mutations.push({
@@ -497,6 +563,13 @@ function findCrudMutations(
   return mutations;
 }
 
+/**
+ * Check if an operation has required header or cookie parameters
+ */
+function hasRequiredRequestParams(op: ParsedOperation): boolean {
+  return [...op.headerParams, ...op.cookieParams].some((p) => p.required);
+}
+
 /**
  * Escape special regex characters in a string
  */
@@ -526,6 +599,7 @@ export function generateOpenAPICollections(
   options: CollectionGenOptions,
 ): GeneratedFile {
   const writer = createWriter();
+  const packages = getFrameworkPackages(options.framework);
 
   // Check if any entities need predicate translation (on-demand mode)
   const hasOnDemandEntities = entities.some(needsPredicateTranslation);
@@ -541,7 +615,7 @@ export function generateOpenAPICollections(
     "@tanstack/query-db-collection",
     queryDbCollectionImports,
   );
-  writeImport(writer, "@tanstack/react-db", ["createCollection"]);
+  writeImport(writer, packages.db, ["createCollection"]);
 
   // Internal imports (sorted alphabetically)
   const queryFnImports = entities.map(
@@ -558,13 +632,18 @@ export function generateOpenAPICollections(
     writer.blankLine();
     writeImport(writer, options.functionsImportPath, allFunctionImports);
   }
+  writeImport(
+    writer,
+    options.keysImportPath,
+    getCollectionKeyFactories(entities),
+  );
 
   // Type imports (sorted alphabetically, always last with blank line)
   writer.blankLine();
   if (hasOnDemandEntities) {
     writeImport(writer, "@tanstack/db", ["LoadSubsetOptions"], true);
   }
-  writeImport(writer, "@tanstack/react-query", ["QueryClient"], true);
+  writeImport(writer, packages.query, ["QueryClient"], true);
 
   // Import params types for on-demand entities (these are actually used in predicate translators)
   const paramsTypeNames = entities
@@ -617,6 +696,10 @@ function writeEntityCollectionOptions(
   const isOnDemand = needsPredicateTranslation(entity);
   const translatorFn = `translate${entity.name}Predicates`;
   const selectorPath = entity.listQuery.selectorPath;
+  // The signal TanStack Query passes cancels the request
+  const fetchArgs = entity.listQuery.hasParams
+    ? "undefined, { signal }"
+    : "{ signal }";
 
   // JSDoc comment
   writer.writeLine("/**");
@@ -641,7 +724,7 @@ function writeEntityCollectionOptions(
       writer.newLine();
       writer.indent(() => {
         writer.writeLine(
-          `queryKey: ${JSON.stringify(entity.listQuery.queryKey)},`,
+          `queryKey: ${formatCollectionQueryKey(entity.listQuery)},`,
         );
 
         // Generate queryFn based on sync mode
@@ -653,25 +736,33 @@ function writeEntityCollectionOptions(
               `const params = ${translatorFn}(ctx.meta?.loadSubsetOptions)`,
             );
             if (selectorPath) {
-              writer.writeLine(`const response = await ${listQueryFn}(params)`);
+              writer.writeLine(
+                `const response = await ${listQueryFn}(params, { signal: ctx.signal })`,
+              );
               writer.writeLine(`return response.${selectorPath}`);
             } else {
-              writer.writeLine(`return ${listQueryFn}(params)`);
+              writer.writeLine(
+                `return ${listQueryFn}(params, { signal: ctx.signal })`,
+              );
             }
           });
           writer.write(",");
           writer.newLine();
         } else {
           if (selectorPath) {
-            writer.write("queryFn: async () => ");
+            writer.write("queryFn: async ({ signal }) => ");
             writer.inlineBlock(() => {
-              writer.writeLine(`const response = await ${listQueryFn}()`);
+              writer.writeLine(
+                `const response = await ${listQueryFn}(${fetchArgs})`,
+              );
               writer.writeLine(`return response.${selectorPath}`);
             });
             writer.write(",");
             writer.newLine();
           } else {
-            writer.writeLine(`queryFn: async () => ${listQueryFn}(),`);
+            writer.writeLine(
+              `queryFn: async ({ signal }) => ${listQueryFn}(${fetchArgs}),`,
+            );
           }
         }
 
@@ -689,12 +780,17 @@ function writeEntityCollectionOptions(
           (m) => m.type === "delete",
         );
 
+        // Read-only fields are left out of the request bodies
+        const omitReadOnly = getOmitReadOnlyPattern(entity);
+
         if (insertMutation) {
           const insertFn = toCamelCase(insertMutation.operationName);
           writer.write("onInsert: async ({ transaction }) => ");
           writer.inlineBlock(() => {
             writer.writeLine(
-              `await Promise.all(transaction.mutations.map((m) => ${insertFn}({ body: m.modified })))`,
+              omitReadOnly
+                ? `await Promise.all(transaction.mutations.map(({ modified: ${omitReadOnly} }) => ${insertFn}({ body })))`
+                : `await Promise.all(transaction.mutations.map((m) => ${insertFn}({ body: m.modified })))`,
             );
           });
           writer.write(",");
@@ -707,7 +803,9 @@ function writeEntityCollectionOptions(
           writer.write("onUpdate: async ({ transaction }) => ");
           writer.inlineBlock(() => {
             writer.writeLine(
-              `await Promise.all(transaction.mutations.map((m) => ${updateFn}({ ${pathParam}: m.original.${entity.keyField}, body: m.changes })))`,
+              omitReadOnly
+                ? `await Promise.all(transaction.mutations.map(({ original, changes: ${omitReadOnly} }) => ${updateFn}({ ${pathParam}: original.${entity.keyField}, body })))`
+                : `await Promise.all(transaction.mutations.map((m) => ${updateFn}({ ${pathParam}: m.original.${entity.keyField}, body: m.changes })))`,
             );
           });
           writer.write(",");
@@ -733,3 +831,17 @@ function writeEntityCollectionOptions(
     writer.write(")");
   });
 }
+
+/**
+ * Get a destructuring pattern that collects an entity's fields without its
+ * read-only fields into `body`
+ * e.g., `{ id: _id, createdAt: _createdAt, ...body }`
+ */
+function getOmitReadOnlyPattern(entity: CollectionEntity): string | null {
+  if (!entity.readOnlyFields?.length) return null;
+
+  const omitted = entity.readOnlyFields.map(
+    (field) => `${getSafePropertyName(field)}: _${toCamelCase(field)}`,
+  );
+  return `{ ${[...omitted, "...body"].join(", ")} }`;
+}
@@ -4,19 +4,35 @@
  * Generates standalone async fetch functions for OpenAPI operations.
  * These functions are imported by both operations.ts (for queryOptions/mutationOptions)
  * and collections.ts (for TanStack DB persistence handlers).
+ *
+ * better-fetch clients return { data, error } results and read non-JSON
+ * bodies with per-request plugins. The other HTTP client backends resolve to
+ * a Response, which functions check and read with the client's helpers.
  */
 
+import {
+  getSafePropertyAccess,
+  getSafePropertyName,
+  toApiErrorTypeName,
+  toErrorTypeName,
+} from "@/utils/naming";
 import {
   createWriter,
+  writeDocComment,
   writeHeader,
   writeImport,
   writeSectionComment,
 } from "@/utils/writer";
 
 import type CodeBlockWriter from "code-block-writer";
-import type { ValidatorLibrary } from "@/core/config";
+import type { HttpClient, ValidatorLibrary } from "@/core/config";
+import type { DocComment } from "@/utils/writer";
 import type { GeneratedFile } from "../types";
-import type { ParsedOperation } from "./schema";
+import type {
+  ParsedOperation,
+  RequestBodyContentType,
+  ResponseBodyType,
+} from "./schema";
 
 export interface OpenAPIFunctionsGenOptions {
   /** Relative import path to the client file */
@@ -25,8 +41,29 @@ export interface OpenAPIFunctionsGenOptions {
   schemaImportPath: string;
   /** Validation library (needed for Effect's Standard Schema wrapper) */
   validatorLibrary?: ValidatorLibrary;
+  /** HTTP client library of the client (default: "better-fetch") */
+  httpClient?: HttpClient;
 }
 
+/**
+ * How generated functions send requests and read their results
+ */
+interface FunctionStyle {
+  /** Whether schemas need Effect's Standard Schema wrapper */
+  isEffect: boolean;
+  /** Whether the client resolves to a Response rather than { data, error } */
+  response: boolean;
+}
+
+/**
+ * Client helpers that encode request bodies for non-JSON content types.
+ * JSON bodies are passed through and serialized by the client.
+ */
+const bodyEncoders: Partial<Record<RequestBodyContentType, string>> = {
+  "multipart/form-data": "buildFormData",
+  "application/x-www-form-urlencoded": "buildUrlEncoded",
+};
+
 /**
  * Generate standalone fetch functions from OpenAPI spec
  */
@@ -36,6 +73,10 @@ export function generateOpenAPIFunctions(
 ): GeneratedFile {
   const writer = createWriter();
   const isEffect = options.validatorLibrary === "effect";
+  const style: FunctionStyle = {
+    isEffect,
+    response: (options.httpClient ?? "better-fetch") !== "better-fetch",
+  };
 
   writeHeader(writer);
 
@@ -52,8 +93,41 @@ export function generateOpenAPIFunctions(
   );
 
   // Import client helpers (internal import)
+  const clientImports = ["getClient", "buildPath", "buildQuery", "toApiError"];
+  if (operations.some((op) => getRequestParams(op).length > 0)) {
+    clientImports.push("buildHeaders");
+  }
+  if (operations.some((op) => op.cookieParams.length > 0)) {
+    clientImports.push("buildCookie");
+  }
+  for (const [contentType, encoder] of Object.entries(bodyEncoders)) {
+    if (mutations.some((op) => op.requestBodyContentType === contentType)) {
+      clientImports.push(encoder);
+    }
+  }
+  if (
+    style.response &&
+    operations.some((op) => op.responseBodyType === "json")
+  ) {
+    clientImports.push("parseResponse");
+  }
+  if (operations.some((op) => getBodyReaderType(op))) {
+    clientImports.push(style.response ? "readBody" : "readBodyAs");
+  }
+  if (queries.some((op) => op.responseHeaders)) {
+    clientImports.push(style.response ? "getHeaders" : "readHeaders");
+  }
+  if (!style.response && operations.length > 0) {
+    clientImports.push("readErrorResponse");
+  }
+  if (operations.some((op) => op.responseBodyType === "event-stream")) {
+    clientImports.push("parseEventStream");
+  }
+  if (operations.some((op) => op.eventSchema)) {
+    clientImports.push("parseEventData");
+  }
   writer.writeLine(
-    `import { getClient, buildPath, buildQuery } from "${options.clientImportPath}"`,
+    `import { ${clientImports.join(", ")} } from "${options.clientImportPath}"`,
   );
 
   // Schema value imports (internal import)
@@ -64,18 +138,35 @@ export function generateOpenAPIFunctions(
   }
 
   // Type imports (always last, separated by blank line)
+  const needsApiErrorType = operations.some(
+    (op) => op.errorResponses.length > 0,
+  );
+  writer.blankLine();
+  writeImport(
+    writer,
+    options.clientImportPath,
+    needsApiErrorType ? ["ApiError", "RequestOptions"] : ["RequestOptions"],
+    true,
+  );
   if (typeImports.length > 0) {
-    writer.blankLine();
     writeImport(writer, options.schemaImportPath, typeImports, true);
   }
 
   writer.blankLine();
 
+  // Infinite query options read page params from Link headers with it
+  if (hasLinkPagination(queries)) {
+    writer.writeLine(
+      `export { getLinkParam } from "${options.clientImportPath}"`,
+    );
+    writer.blankLine();
+  }
+
   // Generate query functions for GET operations
   if (queries.length > 0) {
     writeSectionComment(writer, "Query Functions (GET operations)");
     for (const op of queries) {
-      writeQueryFunction(writer, op, isEffect);
+      writeQueryFunction(writer, op, style);
       writer.blankLine();
     }
   }
@@ -87,7 +178,7 @@ export function generateOpenAPIFunctions(
       "Mutation Functions (POST/PUT/PATCH/DELETE operations)",
     );
     for (const op of mutations) {
-      writeMutationFunction(writer, op, isEffect);
+      writeMutationFunction(writer, op, style);
       writer.blankLine();
     }
   }
@@ -110,7 +201,10 @@ function generateImports(operations: ParsedOperation[]): {
 
   for (const op of operations) {
     const baseName = toPascalCase(op.operationId);
-    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0;
+    const hasParams =
+      op.pathParams.length > 0 ||
+      op.queryParams.length > 0 ||
+      getRequestParams(op).length > 0;
 
     // Response type and schema
     if (op.responseSchema) {
@@ -118,14 +212,29 @@ function generateImports(operations: ParsedOperation[]): {
       schemaImportsSet.add(toSchemaName(`${baseName}Response`));
     }
 
+    // Event data type and schema
+    if (op.eventSchema) {
+      typeImportsSet.add(`${baseName}Event`);
+      schemaImportsSet.add(toSchemaName(`${baseName}Event`));
+    }
+
+    // Error body types and schemas
+    for (const errorResponse of op.errorResponses) {
+      if (!errorResponse.schema) continue;
+      const errorName = toErrorTypeName(op.operationId, errorResponse.status);
+      typeImportsSet.add(errorName);
+      schemaImportsSet.add(toSchemaName(errorName));
+    }
+
     // Request body type
     if (op.requestBody) {
       typeImportsSet.add(`${baseName}Request`);
     }
 
-    // Params type - only for GET operations (queries use the Params type, mutations use inline types)
+    // Params type - GET operations use the Params type, mutations inline their
+    // types and only reference Params for header/cookie param types
     const isQuery = op.method === "get";
-    if (hasParams && isQuery) {
+    if (hasParams && (isQuery || getRequestParams(op).length > 0)) {
       typeImportsSet.add(`${baseName}Params`);
     }
   }
@@ -136,31 +245,380 @@ function generateImports(operations: ParsedOperation[]): {
   };
 }
 
+/**
+ * Check if any query paginates with Link headers
+ */
+export function hasLinkPagination(queries: ParsedOperation[]): boolean {
+  return queries.some(
+    (op) => op.responseHeaders && op.paginationInfo?.response.style === "link",
+  );
+}
+
+/**
+ * Get the header and cookie parameters for an operation.
+ * These are sent on the request rather than in the URL.
+ */
+function getRequestParams(
+  op: ParsedOperation,
+): ParsedOperation["headerParams"] {
+  return [...op.headerParams, ...op.cookieParams];
+}
+
+/**
+ * Build the headers expression for an operation's header and cookie params
+ * e.g., `buildHeaders({ "X-Tenant-Id": params["X-Tenant-Id"] })`
+ */
+function buildHeadersExpr(
+  op: ParsedOperation,
+  paramsVar: string,
+  optional: boolean,
+): string | null {
+  if (getRequestParams(op).length === 0) return null;
+
+  const entries = op.headerParams.map(
+    (p) =>
+      `${getSafePropertyName(p.name)}: ${getSafePropertyAccess(paramsVar, p.name, optional)}`,
+  );
+
+  if (op.cookieParams.length > 0) {
+    const cookieEntries = op.cookieParams
+      .map(
+        (p) =>
+          `${getSafePropertyName(p.name)}: ${getSafePropertyAccess(paramsVar, p.name, optional)}`,
+      )
+      .join(", ");
+    entries.push(`Cookie: buildCookie({ ${cookieEntries} })`);
+  }
+
+  return `buildHeaders({ ${entries.join(", ")} })`;
+}
+
+/**
+ * Get a function's signature, with the per-call request options as the last
+ * parameter
+ * e.g., `(params: GetPetParams, options?: RequestOptions)`
+ */
+function getSignature(param?: string): string {
+  const options = "options?: RequestOptions";
+  return param ? `(${param}, ${options})` : `(${options})`;
+}
+
+/**
+ * Write the statement getting the client for a function's request, with the
+ * per-call request options. Header and cookie params are merged into the
+ * headers so they don't replace the client's own. Operations with security
+ * requirements pass them, so the client sends their credentials.
+ */
+function writeGetClient(
+  writer: CodeBlockWriter,
+  op: ParsedOperation,
+  headersExpr: string | null,
+): void {
+  const options = headersExpr
+    ? `{ ...options, headers: { ...${headersExpr}, ...options?.headers } }`
+    : "options";
+  const security = op.security
+    ? `, [${op.security.map((names) => `[${names.map((name) => `"${name}"`).join(", ")}]`).join(", ")}]`
+    : "";
+  writer.writeLine(`const $fetch = await getClient(${options}${security})`);
+}
+
+/**
+ * Get the inline variables type for a mutation function
+ * e.g., `{ petId: string; "If-Match": UpdatePetParams["If-Match"]; body: UpdatePetRequest }`
+ *
+ * Returns "void" if the mutation takes no variables.
+ */
+export function getMutationVariablesType(op: ParsedOperation): string {
+  const baseName = toPascalCase(op.operationId);
+
+  const members = op.pathParams.map((p) => `${p.name}: string`);
+  for (const param of getRequestParams(op)) {
+    const modifier = param.required ? "" : "?";
+    members.push(
+      `${getSafePropertyName(param.name)}${modifier}: ${baseName}Params["${param.name}"]`,
+    );
+  }
+  if (op.requestBody) {
+    members.push(`body: ${baseName}Request`);
+  }
+
+  return members.length > 0 ? `{ ${members.join("; ")} }` : "void";
+}
+
+/**
+ * Check if a query function's params argument can be omitted
+ * (no path params and no required header/cookie params)
+ */
+export function hasOptionalQueryParams(op: ParsedOperation): boolean {
+  return (
+    op.pathParams.length === 0 && !getRequestParams(op).some((p) => p.required)
+  );
+}
+
+/**
+ * Get the status type argument for ApiError from a declared status
+ * e.g., "404" -> "404", "4XX" -> "number", "default" -> "number"
+ */
+function getStatusType(status: string): string {
+  return /^\d+$/.test(status) ? status : "number";
+}
+
+/**
+ * Get the error type a function throws: its ApiError union when the
+ * operation declares error responses, otherwise a plain ApiError
+ */
+export function getApiErrorType(op: ParsedOperation): string {
+  return op.errorResponses.length > 0
+    ? toApiErrorTypeName(op.operationId)
+    : "ApiError";
+}
+
+/**
+ * Write the ApiError union type for an operation's declared error responses,
+ * followed by the errors it can throw for any other status, invalid error
+ * body, failed response validation, or network failure
+ * e.g., `export type GetPetApiError = ApiError<404, GetPet404Error, true> | ApiError<number, unknown> | Error`
+ */
+function writeApiErrorType(writer: CodeBlockWriter, op: ParsedOperation): void {
+  if (op.errorResponses.length === 0) return;
+
+  const members = op.errorResponses.map((errorResponse) => {
+    const status = getStatusType(errorResponse.status);
+    return errorResponse.schema
+      ? `ApiError<${status}, ${toErrorTypeName(op.operationId, errorResponse.status)}, true>`
+      : `ApiError<${status}, unknown>`;
+  });
+  const unionMembers = [
+    ...new Set([...members, "ApiError<number, unknown>", "Error"]),
+  ];
+  writer.writeLine(
+    `export type ${toApiErrorTypeName(op.operationId)} = ${unionMembers.join(" | ")}`,
+  );
+  writer.blankLine();
+}
+
+/**
+ * Write the statement that converts an error Response (kept by the
+ * readErrorResponse plugin of better-fetch clients) into an ApiError, passing the error body schemas keyed by status
+ */
+function writeThrowApiError(
+  writer: CodeBlockWriter,
+  op: ParsedOperation,
+  { isEffect, response }: FunctionStyle,
+): void {
+  const entries = op.errorResponses.flatMap((errorResponse) => {
+    if (!errorResponse.schema) return [];
+    const rawSchema = toSchemaName(
+      toErrorTypeName(op.operationId, errorResponse.status),
+    );
+    // Effect schemas need to be wrapped with Schema.standardSchemaV1() for Standard Schema compliance
+    const schema = isEffect
+      ? `Schema.standardSchemaV1(${rawSchema})`
+      : rawSchema;
+    return [`${getSafePropertyName(errorResponse.status)}: ${schema}`];
+  });
+
+  const schemasArg = entries.length > 0 ? `, { ${entries.join(", ")} }` : "";
+  if (response) {
+    writer.writeLine(
+      `if (!response.ok) throw await toApiError(response${schemasArg})`,
+    );
+    return;
+  }
+  writer.writeLine(
+    `if (error) throw await toApiError(errorResponse.get()${schemasArg})`,
+  );
+}
+
+/**
+ * Get the readBodyAs mode for responses that are not parsed as JSON
+ */
+function getBodyReaderType(
+  op: ParsedOperation,
+): Exclude<ResponseBodyType, "json" | "event-stream" | "void"> | null {
+  switch (op.responseBodyType) {
+    case "json":
+    case "void":
+      return null;
+    case "event-stream":
+      return "stream";
+    default:
+      return op.responseBodyType;
+  }
+}
+
+/**
+ * Get the per-request plugins of a better-fetch call: the body and header
+ * readers an operation needs, and the error response reader of every call
+ * e.g., `[reader.plugin, errorResponse.plugin]`
+ */
+function getPlugins(op: ParsedOperation, style: FunctionStyle): string | null {
+  if (style.response) return null;
+  const plugins: string[] = [];
+  if (getBodyReaderType(op)) plugins.push("reader.plugin");
+  if (op.responseHeaders) plugins.push("responseHeaders.plugin");
+  plugins.push("errorResponse.plugin");
+  return `[${plugins.join(", ")}]`;
+}
+
+/**
+ * Get the type of each event yielded for an event-stream operation
+ */
+export function getEventType(op: ParsedOperation): string {
+  return op.eventSchema ? `${toPascalCase(op.operationId)}Event` : "string";
+}
+
+/**
+ * Get the documentation of an operation from its `summary`, `description`,
+ * and `deprecated` flag
+ */
+export function getOperationDoc(op: ParsedOperation): DocComment {
+  return {
+    summary: op.operation.summary,
+    description: op.operation.description,
+    deprecated: op.operation.deprecated,
+  };
+}
+
+/**
+ * Write the start of an operation's function. Event-stream operations are
+ * async generators yielding each event; others are async arrow functions.
+ */
+function writeFunctionStart(
+  writer: CodeBlockWriter,
+  op: ParsedOperation,
+  fnName: string,
+  signature: string,
+): CodeBlockWriter {
+  writeDocComment(writer, getOperationDoc(op));
+  if (op.responseBodyType === "event-stream") {
+    return writer.write(
+      `export async function* ${fnName}${signature}: AsyncGenerator<${getEventType(op)}>`,
+    );
+  }
+  return writer.write(`export const ${fnName} = async ${signature} =>`);
+}
+
+/**
+ * Get the start of the $fetch call statement for an operation.
+ * Only JSON responses read `data`; other bodies are returned by the reader.
+ * Response backends read the body from the Response after checking it.
+ */
+function getFetchCall(
+  op: ParsedOperation,
+  responseType: string,
+  style: FunctionStyle,
+): string {
+  if (style.response) return "const response = await $fetch";
+  return op.responseBodyType === "json"
+    ? `const { data, error } = await $fetch<${responseType}>`
+    : "const { error } = await $fetch";
+}
+
+/**
+ * Write the return statement for an operation's response body, with the
+ * response headers of operations that paginate with them
+ */
+function writeReturn(
+  writer: CodeBlockWriter,
+  op: ParsedOperation,
+  style: FunctionStyle,
+): void {
+  const { isEffect } = style;
+  if (op.responseBodyType === "event-stream") {
+    const stream = style.response
+      ? 'await readBody(response, "stream")'
+      : "await reader.body()";
+    writer
+      .write(`for await (const event of parseEventStream(${stream}))`)
+      .block(() => {
+        if (!op.eventSchema) {
+          writer.writeLine("yield event.data");
+          return;
+        }
+        const rawSchema = toSchemaName(`${toPascalCase(op.operationId)}Event`);
+        const schema = isEffect
+          ? `Schema.standardSchemaV1(${rawSchema})`
+          : rawSchema;
+        // Plain string events are validated as-is rather than parsed as JSON
+        const jsonArg = op.eventSchema.type === "string" ? ", false" : "";
+        writer.writeLine(
+          `yield await parseEventData(event, ${schema}${jsonArg})`,
+        );
+      });
+  } else if (style.response) {
+    writeResponseReturn(writer, op, isEffect);
+  } else if (op.responseHeaders) {
+    writer.writeLine("return { data, headers: responseHeaders.get() }");
+  } else if (op.responseBodyType === "json") {
+    writer.writeLine("return data");
+  } else if (getBodyReaderType(op)) {
+    writer.writeLine("return reader.body()");
+  }
+}
+
+/**
+ * Write the return statement reading the body of a success Response
+ */
+function writeResponseReturn(
+  writer: CodeBlockWriter,
+  op: ParsedOperation,
+  isEffect: boolean,
+): void {
+  const bodyReaderType = getBodyReaderType(op);
+  if (bodyReaderType) {
+    writer.writeLine(`return readBody(response, "${bodyReaderType}")`);
+    return;
+  }
+  if (op.responseBodyType !== "json") return;
+
+  const schema = getResponseSchema(op, isEffect);
+  const data = `parseResponse(response${schema ? `, ${schema}` : ""})`;
+  if (op.responseHeaders) {
+    const names = op.responseHeaders.map((name) => `"${name}"`).join(", ");
+    writer.writeLine(
+      `return { data: await ${data}, headers: getHeaders(response, [${names}]) }`,
+    );
+    return;
+  }
+  writer.writeLine(`return ${data}`);
+}
+
+/**
+ * Get the schema expression of an operation's response body
+ */
+function getResponseSchema(
+  op: ParsedOperation,
+  isEffect: boolean,
+): string | null {
+  if (!op.responseSchema) return null;
+  const rawSchema = toSchemaName(`${toPascalCase(op.operationId)}Response`);
+  // Effect schemas need to be wrapped with Schema.standardSchemaV1() for Standard Schema compliance
+  return isEffect ? `Schema.standardSchemaV1(${rawSchema})` : rawSchema;
+}
+
 /**
  * Write a standalone async function for a GET operation
  */
 function writeQueryFunction(
   writer: CodeBlockWriter,
   op: ParsedOperation,
-  isEffect: boolean,
+  style: FunctionStyle,
 ): void {
+  writeApiErrorType(writer, op);
+
   const baseName = toPascalCase(op.operationId);
   const fnName = toCamelCase(op.operationId);
   const hasPathParams = op.pathParams.length > 0;
   const hasQueryParams = op.queryParams.length > 0;
-  const hasParams = hasPathParams || hasQueryParams;
+  const hasRequestParams = getRequestParams(op).length > 0;
+  const hasParams = hasPathParams || hasQueryParams || hasRequestParams;
   const hasResponse = !!op.responseSchema;
 
   const paramsType = hasParams ? `${baseName}Params` : null;
   const responseType = hasResponse ? `${baseName}Response` : "unknown";
-  const rawResponseSchema = hasResponse
-    ? toSchemaName(`${baseName}Response`)
-    : null;
-  // Effect schemas need to be wrapped with Schema.standardSchemaV1() for Standard Schema compliance
-  const responseSchema =
-    rawResponseSchema && isEffect
-      ? `Schema.standardSchemaV1(${rawResponseSchema})`
-      : rawResponseSchema;
+  const responseSchema = getResponseSchema(op, style.isEffect);
 
   // Build path expression
   let pathExpr: string;
@@ -174,8 +632,45 @@ function writeQueryFunction(
     pathExpr = `"${op.path}"`;
   }
 
-  // Build fetch options
-  const fetchOptions = responseSchema ? `{ output: ${responseSchema} }` : "";
+  // Params are optional unless a path or required header/cookie param exists
+  const paramsOptional = hasOptionalQueryParams(op);
+  const paramModifier = paramsOptional ? "?" : "";
+
+  // Build fetch options (Response backends read and validate the body after
+  // checking the Response)
+  const fetchOptionEntries: string[] = [];
+  if (responseSchema && !style.response) {
+    fetchOptionEntries.push(`output: ${responseSchema}`);
+  }
+  const headersExpr = buildHeadersExpr(op, "params", paramsOptional);
+  const bodyReaderType = style.response ? null : getBodyReaderType(op);
+  const readsHeaders = !style.response && !!op.responseHeaders;
+  const plugins = getPlugins(op, style);
+  if (plugins) {
+    fetchOptionEntries.push(`plugins: ${plugins}`);
+  }
+  const fetchOptions =
+    fetchOptionEntries.length > 0 ? `{ ${fetchOptionEntries.join(", ")} }` : "";
+  const fetchCall = getFetchCall(op, responseType, style);
+
+  const writeFetchCall = (urlExpr: string) => {
+    if (bodyReaderType) {
+      writer.writeLine(`const reader = readBodyAs("${bodyReaderType}")`);
+    }
+    if (readsHeaders && op.responseHeaders) {
+      writer.writeLine(
+        `const responseHeaders = readHeaders([${op.responseHeaders.map((name) => `"${name}"`).join(", ")}])`,
+      );
+    }
+    if (!style.response) {
+      writer.writeLine("const errorResponse = readErrorResponse()");
+    }
+    if (fetchOptions) {
+      writer.writeLine(`${fetchCall}(${urlExpr}, ${fetchOptions})`);
+    } else {
+      writer.writeLine(`${fetchCall}(${urlExpr})`);
+    }
+  };
 
   // Generate the function
   if (hasQueryParams) {
@@ -184,63 +679,49 @@ function writeQueryFunction(
       .map((n) => `${n}: params?.${n}`)
       .join(", ");
 
-    writer
-      .write(`export const ${fnName} = async (params?: ${paramsType}) =>`)
-      .block(() => {
-        writer.writeLine("const $fetch = await getClient()");
-        writer.writeLine(`const path = ${pathExpr}`);
-        writer.writeLine(`const query = buildQuery({ ${queryParamsObj} })`);
-        // biome-ignore lint/suspicious/noTemplateCurlyInString: generating template literal output
-        writer.writeLine("const url = query ? `${path}?${query}` : path");
-        if (fetchOptions) {
-          writer.writeLine(
-            `const { data, error } = await $fetch<${responseType}>(url, ${fetchOptions})`,
-          );
-        } else {
-          writer.writeLine(
-            `const { data, error } = await $fetch<${responseType}>(url)`,
-          );
-        }
-        writer.writeLine("if (error) throw error");
-        writer.writeLine("return data");
-      });
+    writeFunctionStart(
+      writer,
+      op,
+      fnName,
+      getSignature(`params${paramModifier}: ${paramsType}`),
+    ).block(() => {
+      writeGetClient(writer, op, headersExpr);
+      writer.writeLine(`const path = ${pathExpr}`);
+      writer.writeLine(`const query = buildQuery({ ${queryParamsObj} })`);
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: generating template literal output
+      writer.writeLine("const url = query ? `${path}?${query}` : path");
+      writeFetchCall("url");
+      writeThrowApiError(writer, op, style);
+      writeReturn(writer, op, style);
+    });
     return;
   }
 
-  if (hasPathParams) {
-    writer
-      .write(`export const ${fnName} = async (params: ${paramsType}) =>`)
-      .block(() => {
-        writer.writeLine("const $fetch = await getClient()");
+  if (hasParams) {
+    writeFunctionStart(
+      writer,
+      op,
+      fnName,
+      getSignature(`params${paramModifier}: ${paramsType}`),
+    ).block(() => {
+      writeGetClient(writer, op, headersExpr);
+      if (hasPathParams) {
         writer.writeLine(`const path = ${pathExpr}`);
-        if (fetchOptions) {
-          writer.writeLine(
-            `const { data, error } = await $fetch<${responseType}>(path, ${fetchOptions})`,
-          );
-        } else {
-          writer.writeLine(
-            `const { data, error } = await $fetch<${responseType}>(path)`,
-          );
-        }
-        writer.writeLine("if (error) throw error");
-        writer.writeLine("return data");
-      });
+        writeFetchCall("path");
+      } else {
+        writeFetchCall(pathExpr);
+      }
+      writeThrowApiError(writer, op, style);
+      writeReturn(writer, op, style);
+    });
     return;
   }
 
-  writer.write(`export const ${fnName} = async () =>`).block(() => {
-    writer.writeLine("const $fetch = await getClient()");
-    if (fetchOptions) {
-      writer.writeLine(
-        `const { data, error } = await $fetch<${responseType}>(${pathExpr}, ${fetchOptions})`,
-      );
-    } else {
-      writer.writeLine(
-        `const { data, error } = await $fetch<${responseType}>(${pathExpr})`,
-      );
-    }
-    writer.writeLine("if (error) throw error");
-    writer.writeLine("return data");
+  writeFunctionStart(writer, op, fnName, getSignature()).block(() => {
+    writeGetClient(writer, op, headersExpr);
+    writeFetchCall(pathExpr);
+    writeThrowApiError(writer, op, style);
+    writeReturn(writer, op, style);
   });
 }
 
@@ -250,120 +731,78 @@ function writeQueryFunction(
 function writeMutationFunction(
   writer: CodeBlockWriter,
   op: ParsedOperation,
-  isEffect: boolean,
+  style: FunctionStyle,
 ): void {
+  writeApiErrorType(writer, op);
+
   const baseName = toPascalCase(op.operationId);
   const fnName = toCamelCase(op.operationId);
   const hasPathParams = op.pathParams.length > 0;
+  const hasRequestParams = getRequestParams(op).length > 0;
   const hasBody = !!op.requestBody;
   const hasResponse = !!op.responseSchema;
 
-  const requestType = hasBody ? `${baseName}Request` : null;
   const responseType = hasResponse ? `${baseName}Response` : "unknown";
-  const rawResponseSchema = hasResponse
-    ? toSchemaName(`${baseName}Response`)
-    : null;
-  // Effect schemas need to be wrapped with Schema.standardSchemaV1() for Standard Schema compliance
-  const responseSchema =
-    rawResponseSchema && isEffect
-      ? `Schema.standardSchemaV1(${rawResponseSchema})`
-      : rawResponseSchema;
-
-  // Build fetch options
-  const writeFetchOptions = (w: CodeBlockWriter, includeBody: boolean) => {
-    w.write("{").newLine();
-    w.indent(() => {
-      w.writeLine(`method: "${op.method.toUpperCase()}",`);
-      if (responseSchema) {
-        w.writeLine(`output: ${responseSchema},`);
-      }
-      if (includeBody) {
-        w.writeLine("body,");
-      }
-    });
-    w.write("}");
-  };
-
-  // Generate the function body based on params/body combinations
-  if (hasPathParams && hasBody) {
-    const pathParamNames = op.pathParams.map((p) => p.name);
-    const pathParamsObj = pathParamNames.join(", ");
-    const paramsList = pathParamNames
-      .map((n) => `${n}: string`)
-      .concat([`body: ${requestType}`]);
-
-    writer
-      .write(
-        `export const ${fnName} = async ({ ${pathParamNames.join(", ")}, body }: { ${paramsList.join("; ")} }) =>`,
-      )
-      .block(() => {
-        writer.writeLine("const $fetch = await getClient()");
-        writer.writeLine(
-          `const path = buildPath("${op.path}", { ${pathParamsObj} })`,
-        );
-        writer.write(
-          `const { data, error } = await $fetch<${responseType}>(path, `,
-        );
-        writeFetchOptions(writer, true);
-        writer.write(")").newLine();
-        writer.writeLine("if (error) throw error");
-        writer.writeLine("return data");
-      });
-    return;
+  const responseSchema = getResponseSchema(op, style.isEffect);
+
+  // Path params and body are destructured; header/cookie params are collected
+  // into a rest object so non-identifier names (e.g. "If-Match") need no alias
+  const pathParamNames = op.pathParams.map((p) => p.name);
+  const destructured = hasBody ? [...pathParamNames, "body"] : pathParamNames;
+  const variablesType = getMutationVariablesType(op);
+
+  let signature: string;
+  if (variablesType === "void") {
+    signature = getSignature();
+  } else if (destructured.length === 0) {
+    signature = getSignature(`params: ${variablesType}`);
+  } else {
+    const rest = hasRequestParams ? ", ...params" : "";
+    signature = getSignature(
+      `{ ${destructured.join(", ")}${rest} }: ${variablesType}`,
+    );
   }
 
-  if (hasPathParams) {
-    const pathParamNames = op.pathParams.map((p) => p.name);
-    const pathParamsObj = pathParamNames.join(", ");
-    const paramsList = pathParamNames.map((n) => `${n}: string`);
+  const headersExpr = buildHeadersExpr(op, "params", false);
 
-    writer
-      .write(
-        `export const ${fnName} = async ({ ${pathParamNames.join(", ")} }: { ${paramsList.join("; ")} }) =>`,
-      )
-      .block(() => {
-        writer.writeLine("const $fetch = await getClient()");
-        writer.writeLine(
-          `const path = buildPath("${op.path}", { ${pathParamsObj} })`,
-        );
-        writer.write(
-          `const { data, error } = await $fetch<${responseType}>(path, `,
-        );
-        writeFetchOptions(writer, false);
-        writer.write(")").newLine();
-        writer.writeLine("if (error) throw error");
-        writer.writeLine("return data");
-      });
-    return;
-  }
-
-  if (hasBody) {
-    writer
-      .write(
-        `export const ${fnName} = async ({ body }: { body: ${requestType} }) =>`,
-      )
-      .block(() => {
-        writer.writeLine("const $fetch = await getClient()");
-        writer.write(
-          `const { data, error } = await $fetch<${responseType}>("${op.path}", `,
-        );
-        writeFetchOptions(writer, true);
-        writer.write(")").newLine();
-        writer.writeLine("if (error) throw error");
-        writer.writeLine("return data");
-      });
-    return;
-  }
-
-  writer.write(`export const ${fnName} = async () =>`).block(() => {
-    writer.writeLine("const $fetch = await getClient()");
-    writer.write(
-      `const { data, error } = await $fetch<${responseType}>("${op.path}", `,
-    );
-    writeFetchOptions(writer, false);
+  writeFunctionStart(writer, op, fnName, signature).block(() => {
+    writeGetClient(writer, op, headersExpr);
+    let urlExpr = `"${op.path}"`;
+    if (hasPathParams) {
+      writer.writeLine(
+        `const path = buildPath("${op.path}", { ${pathParamNames.join(", ")} })`,
+      );
+      urlExpr = "path";
+    }
+    const bodyReaderType = style.response ? null : getBodyReaderType(op);
+    if (bodyReaderType) {
+      writer.writeLine(`const reader = readBodyAs("${bodyReaderType}")`);
+    }
+    if (!style.response) {
+      writer.writeLine("const errorResponse = readErrorResponse()");
+    }
+    const plugins = getPlugins(op, style);
+    writer.write(`${getFetchCall(op, responseType, style)}(${urlExpr}, `);
+    writer.write("{").newLine();
+    writer.indent(() => {
+      writer.writeLine(`method: "${op.method.toUpperCase()}",`);
+      if (responseSchema && !style.response) {
+        writer.writeLine(`output: ${responseSchema},`);
+      }
+      if (hasBody) {
+        const encoder = op.requestBodyContentType
+          ? bodyEncoders[op.requestBodyContentType]
+          : undefined;
+        writer.writeLine(encoder ? `body: ${encoder}(body),` : "body,");
+      }
+      if (plugins) {
+        writer.writeLine(`plugins: ${plugins},`);
+      }
+    });
+    writer.write("}");
     writer.write(")").newLine();
-    writer.writeLine("if (error) throw error");
-    writer.writeLine("return data");
+    writeThrowApiError(writer, op, style);
+    writeReturn(writer, op, style);
   });
 }
 
@@ -0,0 +1,188 @@
+/**
+ * OpenAPI HTTP client backends
+ *
+ * The libraries an OpenAPI client can send requests with. better-fetch
+ * clients return its { data, error } results; the other backends resolve to
+ * the standard Response of each request, which generated functions read with
+ * the client's response helpers. Every backend sends requests through the
+ * middleware of client.config.ts.
+ */
+
+import type { HttpClient } from "@/core/config";
+
+/**
+ * How a client.ts sends requests with an HTTP client library other than
+ * better-fetch
+ */
+export interface ResponseClientBackend {
+  /** Library name, for doc comments (e.g., "ky") */
+  label: string;
+  /** Value import of the library */
+  imports: string;
+  /** Type import of the library's options */
+  typeImports: string;
+  /** Type of RequestOptions.fetchOptions */
+  fetchOptionsType: string;
+  /** Examples of the library's options, for the fetchOptions doc comment */
+  fetchOptionsExamples: string;
+  /** Module-level setup and helpers of the library */
+  setup: string;
+  /**
+   * Format the function getClient returns, sending a request to a URL
+   * (e.g., `${baseURL}${path}`) with the `headers` and `signal` in scope
+   */
+  formatSend: (url: string) => string;
+}
+
+/**
+ * Get the HTTP client library of an OpenAPI source
+ */
+export function getHttpClient(config: { httpClient?: HttpClient }): HttpClient {
+  return config.httpClient ?? "better-fetch";
+}
+
+/**
+ * Helper of the fetch and ky backends, which serialize JSON bodies themselves
+ */
+const rawBodyHelper = `
+/**
+ * Check if a request body is sent as-is (FormData and URLSearchParams, whose
+ * Content-Type is set by fetch) rather than serialized as JSON
+ */
+function isRawBody(
+	body: object | undefined,
+): body is FormData | URLSearchParams | undefined {
+	return (
+		body === undefined ||
+		body instanceof FormData ||
+		body instanceof URLSearchParams
+	)
+}
+`;
+
+/**
+ * Backends resolving to the Response of each request
+ */
+export const responseClientBackends: Record<
+  Exclude<HttpClient, "better-fetch">,
+  ResponseClientBackend
+> = {
+  fetch: {
+    label: "fetch",
+    imports: "",
+    typeImports: "",
+    fetchOptionsType:
+      'Omit<RequestInit, "body" | "headers" | "method" | "signal">',
+    fetchOptionsExamples: "cache, credentials",
+    setup: rawBodyHelper,
+    formatSend: (url) => `(path, { method = "GET", body } = {}) =>
+		middlewareFetch(${url}, {
+			...options.fetchOptions,
+			method,
+			signal,
+			...(isRawBody(body)
+				? { body, headers }
+				: {
+						body: JSON.stringify(body),
+						headers: { "Content-Type": "application/json", ...headers },
+					}),
+		})`,
+  },
+  ky: {
+    label: "ky",
+    imports: 'import ky from "ky"',
+    typeImports: 'import type { Options } from "ky"',
+    fetchOptionsType:
+      'Omit<Options, "body" | "fetch" | "headers" | "json" | "method" | "signal" | "throwHttpErrors">',
+    fetchOptionsExamples: "hooks, credentials",
+    setup: rawBodyHelper,
+    formatSend: (url) => `(path, { method = "GET", body } = {}) =>
+		ky(${url}, {
+			// Retries and timeouts are left to the retry middleware and RequestOptions
+			retry: 0,
+			timeout: false,
+			...options.fetchOptions,
+			method,
+			signal,
+			headers,
+			...(isRawBody(body) ? { body } : { json: body }),
+			fetch: middlewareFetch,
+			throwHttpErrors: false,
+		})`,
+  },
+  ofetch: {
+    label: "ofetch",
+    imports: 'import { ofetch } from "ofetch"',
+    typeImports: 'import type { FetchOptions } from "ofetch"',
+    fetchOptionsType:
+      'Omit<FetchOptions, "body" | "headers" | "ignoreResponseError" | "method" | "responseType" | "signal">',
+    fetchOptionsExamples: "hooks, credentials",
+    setup: `
+/**
+ * ofetch instance sending requests through the middleware of client.config.ts.
+ * Retries are left to the retry middleware.
+ */
+const $ofetch = ofetch.create(
+	{ retry: 0 },
+	{ fetch: middlewareFetch as typeof fetch },
+)
+`,
+    formatSend: (url) => `(path, { method = "GET", body } = {}) =>
+		$ofetch.raw(${url}, {
+			...options.fetchOptions,
+			method,
+			signal,
+			headers,
+			body,
+			ignoreResponseError: true,
+			// Leave the body unread, so generated functions read it
+			responseType: "stream",
+		})`,
+  },
+  axios: {
+    label: "axios",
+    imports: 'import axios from "axios"',
+    typeImports:
+      'import type { AxiosRequestConfig, AxiosResponse } from "axios"',
+    fetchOptionsType:
+      'Omit<AxiosRequestConfig, "adapter" | "data" | "env" | "headers" | "method" | "responseType" | "signal" | "url" | "validateStatus">',
+    fetchOptionsExamples: "withCredentials, xsrfCookieName",
+    setup: `
+/**
+ * Helper to convert an axios response with an unread body stream into a
+ * standard Response
+ */
+function toResponse({
+	data,
+	status,
+	statusText,
+	headers,
+}: AxiosResponse<ReadableStream<Uint8Array> | null>): Response {
+	const responseHeaders = new Headers()
+	for (const [name, value] of Object.entries(headers)) {
+		if (value !== undefined && value !== null) {
+			responseHeaders.set(name, String(value))
+		}
+	}
+	return new Response(data, { status, statusText, headers: responseHeaders })
+}
+`,
+    formatSend: (url) => `async (path, { method = "GET", body } = {}) => {
+		const response = await axios.request<ReadableStream<Uint8Array> | null>({
+			...options.fetchOptions,
+			url: ${url},
+			method,
+			signal,
+			headers,
+			data: body,
+			// Send with fetch, through the middleware of client.config.ts, and
+			// leave the body unread, so generated functions read it
+			adapter: "fetch",
+			env: { fetch: middlewareFetch },
+			responseType: "stream",
+			validateStatus: () => true,
+		})
+		return toResponse(response)
+	}`,
+  },
+};
@@ -9,15 +9,18 @@ import { getEmitter } from "@/generators/emitters";
 import {
   generateFormOptionsCode,
   getOpenAPIRequestSchemaName,
+  getSchemaDefaultValues,
 } from "@/generators/form-options";
 import { parseOpenAPIToIR } from "@/generators/ir";
-import { generateOpenAPIClient } from "./client";
+import { hasOptimisticUpdates } from "@/generators/optimistic";
+import { toPascalCase } from "@/utils/naming";
+import { generateOpenAPIClient, generateOpenAPIClientConfig } from "./client";
 import {
   discoverOpenAPIEntities,
   generateOpenAPICollections,
 } from "./collections";
-import { generateOpenAPIFunctions } from "./functions";
-import { generateOpenAPIOperations } from "./operations";
+import { generateOpenAPIFunctions, getOperationDoc } from "./functions";
+import { generateOpenAPIKeys, generateOpenAPIOperations } from "./operations";
 import { extractOperations, loadOpenAPISpec } from "./schema";
 
 import type {
@@ -31,6 +34,7 @@ import type {
   FunctionsGenOptions,
   GeneratedFile,
   OpenAPIAdapter as IOpenAPIAdapter,
+  KeysGenOptions,
   OpenAPIAdapterSchema,
   OperationGenOptions,
   SchemaGenOptions,
@@ -50,7 +54,7 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
   }
 
   /**
-   * Generate the better-fetch client file
+   * Generate the client file
    */
   generateClient(
     schema: OpenAPIAdapterSchema,
@@ -59,12 +63,22 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
     return generateOpenAPIClient(schema, config);
   }
 
+  /**
+   * Generate the user-owned client config file
+   */
+  generateClientConfig(
+    _schema: OpenAPIAdapterSchema,
+    config: OpenAPISourceConfig,
+  ): GeneratedFile {
+    return generateOpenAPIClientConfig(config);
+  }
+
   /**
    * Generate standalone fetch functions
    */
   generateFunctions(
     schema: OpenAPIAdapterSchema,
-    _config: OpenAPISourceConfig,
+    config: OpenAPISourceConfig,
     options: FunctionsGenOptions,
   ): GeneratedFile {
     const operations = extractOperations(schema.document);
@@ -72,9 +86,22 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
       clientImportPath: options.clientImportPath,
       schemaImportPath: options.typesImportPath,
       validatorLibrary: options.validatorLibrary,
+      httpClient: config.httpClient,
     });
   }
 
+  /**
+   * Generate the query key factories
+   */
+  generateKeys(
+    schema: OpenAPIAdapterSchema,
+    _config: OpenAPISourceConfig,
+    options: KeysGenOptions,
+  ): GeneratedFile {
+    const operations = extractOperations(schema.document);
+    return generateOpenAPIKeys(operations, options);
+  }
+
   /**
    * Generate TanStack Query operation helpers
    */
@@ -84,9 +111,18 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
     options: OperationGenOptions,
   ): GeneratedFile {
     const operations = extractOperations(schema.document);
+    const entities = hasOptimisticUpdates(options.queryOverrides)
+      ? discoverOpenAPIEntities(
+          schema,
+          operations,
+          options.sourceName,
+          options.collectionOverrides,
+        ).entities
+      : undefined;
     const result = generateOpenAPIOperations(schema, config, operations, {
       ...options,
       queryOverrides: options.queryOverrides,
+      entities,
     });
     return {
       filename: result.filename,
@@ -143,16 +179,25 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
       (op) => mutationMethods.has(op.method) && op.requestBody,
     );
 
+    // Request schema defaults become the forms' initial values
+    const { schemas } = parseOpenAPIToIR(document, operations);
+
     // Build mutation info for form generation
     const mutationOps = mutations.map((op) => ({
       operationId: op.operationId,
       requestSchemaName: getOpenAPIRequestSchemaName(op.operationId),
+      defaultValues: getSchemaDefaultValues(
+        `${toPascalCase(op.operationId)}Request`,
+        schemas,
+      ),
+      doc: getOperationDoc(op),
     }));
 
     const result = generateFormOptionsCode(mutationOps, {
       schemaImportPath: options.schemaImportPath,
       formOverrides: options.formOverrides,
       validatorLibrary: options.validatorLibrary,
+      framework: options.framework,
     });
 
     return {
@@ -167,11 +212,11 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
    */
   discoverCollectionEntities(
     schema: OpenAPIAdapterSchema,
-    _config: OpenAPISourceConfig,
+    config: OpenAPISourceConfig,
     overrides?: Record<string, CollectionOverrideConfig>,
   ): CollectionDiscoveryResult {
     const operations = extractOperations(schema.document);
-    return discoverOpenAPIEntities(schema, operations, overrides);
+    return discoverOpenAPIEntities(schema, operations, config.name, overrides);
   }
 
   /**
@@ -186,6 +231,7 @@ class OpenAPIAdapterImpl implements IOpenAPIAdapter {
     const { entities } = discoverOpenAPIEntities(
       schema,
       operations,
+      options.sourceName,
       options.collectionOverrides,
     );
     return generateOpenAPICollections(entities, options);
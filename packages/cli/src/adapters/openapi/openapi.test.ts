@@ -6,7 +6,7 @@ import { supportedValidators } from "@/generators/emitters";
 import { openapiAdapter } from "./index";
 import { extractOperations } from "./schema";
 
-import type { OpenAPISourceConfig } from "@/core/config";
+import type { OpenAPISourceConfig, QueryOverridesConfig } from "@/core/config";
 import type { ValidatorLibrary } from "@/generators/emitters";
 import type { OpenAPIAdapterSchema, SchemaGenOptions } from "../types";
 
@@ -138,8 +138,71 @@ describe("OpenAPI Adapter", () => {
       expect(result.content).toContain("https://api.petstore.example.com/v1");
       expect(result.content).toContain("buildPath");
       expect(result.content).toContain("buildQuery");
+      expect(result.content).toContain("export function buildHeaders(");
+      expect(result.content).toContain("export function buildCookie(");
+      expect(result.content).toContain("export function buildFormData(");
+      expect(result.content).toContain("export function buildUrlEncoded(");
+      expect(result.content).toContain("export function readBodyAs<");
+      expect(result.content).toContain("export function readHeaders<");
+      expect(result.content).toContain("export function readErrorResponse(");
+      expect(result.content).toContain("export function getLinkParam<");
+      expect(result.content).toContain(
+        "export async function* parseEventStream(",
+      );
+      expect(result.content).toContain("export async function parseEventData<");
+      expect(result.content).toContain("export class ApiError<");
+      expect(result.content).toContain("export async function toApiError(");
+      // Only JSON error bodies are validated; others are kept as received
+      expect(result.content).toContain(
+        "if (!text || !/[/+]json\\b/i.test(contentType)) {",
+      );
       // Should export async getClient function for dynamic headers
-      expect(result.content).toContain("export const getClient = async ()");
+      expect(result.content).toContain(
+        "export const getClient = async (options: RequestOptions = {})",
+      );
+    });
+
+    it("merges per-call request options over the client configuration", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateClient(schema, testConfig);
+
+      expect(result.content).toContain("export interface RequestOptions {");
+      expect(result.content).toContain("...options.fetchOptions,");
+      expect(result.content).toContain("signal: getRequestSignal(options),");
+      expect(result.content).toContain("...options.headers,");
+      expect(result.content).toContain("AbortSignal.timeout(timeout)");
+    });
+
+    it("runs requests through the middleware of client.config.ts", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateClient(schema, testConfig);
+
+      expect(result.content).toContain(
+        'import { clientConfig } from "./client.config"',
+      );
+      expect(result.content).toContain("export interface ClientConfig {");
+      expect(result.content).toContain(
+        "export function createMiddlewareFetch(",
+      );
+      expect(result.content).toContain(
+        "clientConfig.middleware?.(builtinMiddleware) ?? [],",
+      );
+      expect(result.content).toContain("customFetchImpl: middlewareFetch,");
+      expect(result.content).toContain("...(await clientConfig.headers?.()),");
+    });
+
+    it("generates a client config without connection params", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateClientConfig(schema, testConfig);
+
+      expect(result.filename).toBe("client.config.ts");
+      expect(result.content).toContain(
+        'import type { ClientConfig } from "./client"',
+      );
+      expect(result.content).not.toContain("connectionParams");
+      expect(result.content).toContain(
+        'Generated once by tangrams for httpClient "better-fetch".',
+      );
     });
 
     it("uses config.baseUrl over spec servers when provided", async () => {
@@ -175,6 +238,7 @@ describe("OpenAPI Adapter", () => {
       const result = openapiAdapter.generateOperations(schema, testConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -187,11 +251,26 @@ describe("OpenAPI Adapter", () => {
       expect(result.content).toContain("getPetQueryOptions");
     });
 
+    it("passes the query signal to each function", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateOperations(schema, testConfig, {
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+      });
+
+      expect(result.content).toContain(
+        "queryFn: ({ signal }) => getPet(params, { signal }),",
+      );
+    });
+
     it("generates TanStack mutation options for non-GET operations", async () => {
       const schema = await openapiAdapter.loadSchema(testConfig);
       const result = openapiAdapter.generateOperations(schema, testConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -208,6 +287,7 @@ describe("OpenAPI Adapter", () => {
       const result = openapiAdapter.generateOperations(schema, testConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -219,6 +299,7 @@ describe("OpenAPI Adapter", () => {
       const result = openapiAdapter.generateOperations(schema, testConfig, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -226,6 +307,43 @@ describe("OpenAPI Adapter", () => {
       // Functions are always imported from hardcoded ../functions path
       expect(result.content).toContain('from "../functions"');
     });
+
+    it("imports query helpers from the configured framework package", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateOperations(schema, testConfig, {
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+        framework: "vue",
+      });
+
+      expect(result.content).toContain(
+        'import { mutationOptions, queryOptions } from "@tanstack/vue-query"',
+      );
+      expect(result.content).not.toContain("@tanstack/react-query");
+    });
+
+    it("declares local option helpers for the core framework target", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateOperations(schema, testConfig, {
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+        framework: "core",
+      });
+
+      expect(result.content).toContain(
+        'import type { MutationOptions, QueryObserverOptions } from "@tanstack/query-core"',
+      );
+      expect(result.content).toContain(
+        "const queryOptions = <T extends QueryObserverOptions<any, any, any, any, any>>(options: T) => options",
+      );
+      expect(result.content).toContain(
+        "const mutationOptions = <T extends MutationOptions<any, any, any, any>>(options: T) => options",
+      );
+    });
   });
 
   describe("generateOperations - infinite queries", () => {
@@ -244,6 +362,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -262,6 +381,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -279,6 +399,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -296,6 +417,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -313,6 +435,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -327,7 +450,7 @@ describe("OpenAPI Adapter", () => {
       );
     });
 
-    it('includes "infinite" segment in query key', async () => {
+    it("uses the infinite query key", async () => {
       const schema = await openapiAdapter.loadSchema(paginationConfig);
       const result = openapiAdapter.generateOperations(
         schema,
@@ -335,11 +458,14 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
 
-      expect(result.content).toContain('"infinite"');
+      expect(result.content).toContain(
+        "queryKey: petsKeys.listPetsCursorInfinite(params),",
+      );
     });
 
     it("uses Omit type for params excluding page param", async () => {
@@ -350,6 +476,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
         },
       );
@@ -366,6 +493,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
           queryOverrides: {
             operations: {
@@ -390,6 +518,7 @@ describe("OpenAPI Adapter", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "api",
           queryOverrides: {
             operations: {
@@ -406,6 +535,131 @@ describe("OpenAPI Adapter", () => {
       expect(result.content).toContain("lastPage.meta?.nextCursor");
     });
   });
+
+  describe("generateKeys", () => {
+    const keysConfig: OpenAPISourceConfig = {
+      name: "api",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, "query-keys.json"),
+    };
+
+    it("generates a key factory for the source", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateKeys(schema, testConfig, {
+        typesImportPath: "./schema",
+        sourceName: "petstore",
+      });
+
+      expect(result.filename).toBe("keys.ts");
+      expect(result.content).toContain(
+        'import type { GetPetParams, ListPetsParams } from "./schema"',
+      );
+      expect(result.content).toContain(
+        'export const petstoreKeys = {\n  all: ["petstore"] as const,\n}',
+      );
+    });
+
+    it("groups operations by their first path segment", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateKeys(schema, testConfig, {
+        typesImportPath: "./schema",
+        sourceName: "petstore",
+      });
+
+      expect(result.content).toContain("export const petsKeys = {");
+      expect(result.content).toContain(
+        'all: [...petstoreKeys.all, "pets"] as const,',
+      );
+      expect(result.content).toContain(
+        'lists: () => [...petsKeys.all, "list"] as const,',
+      );
+      expect(result.content).toContain(
+        'details: () => [...petsKeys.all, "detail"] as const,',
+      );
+      expect(result.content).toContain(
+        'listPets: (params?: ListPetsParams) => [...petsKeys.lists(), "listPets", params] as const,',
+      );
+    });
+
+    it("nests operations on a single resource under its detail key", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateKeys(schema, testConfig, {
+        typesImportPath: "./schema",
+        sourceName: "petstore",
+      });
+
+      expect(result.content).toContain(
+        'detail: (id: GetPetParams["petId"]) => [...petsKeys.details(), id] as const,',
+      );
+      expect(result.content).toContain(
+        'getPet: (params: GetPetParams) => [...petsKeys.detail(params.petId), "getPet", params] as const,',
+      );
+    });
+
+    it("groups operations by their first tag", async () => {
+      const schema = await openapiAdapter.loadSchema(keysConfig);
+      const result = openapiAdapter.generateKeys(schema, keysConfig, {
+        typesImportPath: "./schema",
+        sourceName: "api",
+      });
+
+      expect(result.content).toContain("export const storeOrdersKeys = {");
+      expect(result.content).toContain(
+        'listOrders: () => [...storeOrdersKeys.lists(), "listOrders"] as const,',
+      );
+      expect(result.content).not.toContain("adminKeys");
+    });
+
+    it("skips api and version prefixes in path segments", async () => {
+      const schema = await openapiAdapter.loadSchema(keysConfig);
+      const result = openapiAdapter.generateKeys(schema, keysConfig, {
+        typesImportPath: "./schema",
+        sourceName: "api",
+      });
+
+      expect(result.content).toContain(
+        'getUser: (params: GetUserParams) => [...usersKeys.detail(params.userId), "getUser", params] as const,',
+      );
+      expect(result.content).toContain(
+        'all: [...apiKeys.all, "health"] as const,',
+      );
+      expect(result.content).not.toContain("v1Keys");
+    });
+
+    it("generates infinite query keys without the page param", async () => {
+      const paginationConfig: OpenAPISourceConfig = {
+        name: "pagination",
+        type: "openapi",
+        generates: ["query"],
+        spec: join(fixturesDir, "pagination.json"),
+      };
+      const schema = await openapiAdapter.loadSchema(paginationConfig);
+      const result = openapiAdapter.generateKeys(schema, paginationConfig, {
+        typesImportPath: "./schema",
+        sourceName: "api",
+      });
+
+      expect(result.content).toContain(
+        'listPetsCursorInfinite: (params?: Omit<ListPetsCursorParams, "cursor">) => [...petsKeys.lists(), "listPetsCursor", "infinite", params] as const,',
+      );
+      expect(result.content).not.toContain("listPetsNoInfoInfinite");
+    });
+
+    it("uses the key factories in query options", async () => {
+      const schema = await openapiAdapter.loadSchema(testConfig);
+      const result = openapiAdapter.generateOperations(schema, testConfig, {
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+      });
+
+      expect(result.content).toContain('import { petsKeys } from "../keys"');
+      expect(result.content).toContain("queryKey: petsKeys.listPets(params),");
+      expect(result.content).toContain("queryKey: petsKeys.getPet(params),");
+    });
+  });
 });
 
 describe("OpenAPI Schema Loading", () => {
@@ -518,6 +772,7 @@ describe("Remote OpenAPI Spec Loading", () => {
         {
           typesImportPath: "./types",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "petstore",
         },
       );
@@ -555,11 +810,13 @@ describe("Remote OpenAPI Spec Loading", () => {
       const ops1 = openapiAdapter.generateOperations(schema1, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
       const ops2 = openapiAdapter.generateOperations(schema2, config, {
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -1583,6 +1840,7 @@ describe("OpenAPI Extended Types Generation", () => {
     const result = openapiAdapter.generateOperations(schema, extendedConfig, {
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "petstore-extended",
     });
 
@@ -1604,6 +1862,7 @@ describe("OpenAPI Operations Generation Edge Cases", () => {
     const result = openapiAdapter.generateOperations(schema, config, {
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "petstore",
     });
 
@@ -1624,6 +1883,7 @@ describe("OpenAPI Operations Generation Edge Cases", () => {
     const result = openapiAdapter.generateOperations(schema, config, {
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "petstore",
     });
 
@@ -1644,6 +1904,7 @@ describe("OpenAPI Operations Generation Edge Cases", () => {
     const result = openapiAdapter.generateOperations(schema, config, {
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "petstore",
     });
 
@@ -1831,6 +2092,19 @@ describe("generateFormOptions", () => {
 
     expect(result.content).toContain('from "../schema/api/types"');
   });
+
+  it("imports formOptions from the configured framework package", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFormOptions(schema, config, {
+      schemaImportPath: "../schema",
+      sourceName: "petstore",
+      framework: "svelte",
+    });
+
+    expect(result.content).toContain(
+      'import { formOptions } from "@tanstack/svelte-form"',
+    );
+  });
 });
 
 describe("generateFunctions (OpenAPI standalone functions)", () => {
@@ -1947,10 +2221,12 @@ describe("generateFunctions (OpenAPI standalone functions)", () => {
     );
 
     // Should use getClient() to get $fetch instance
-    expect(result.content).toContain("const $fetch = await getClient()");
+    expect(result.content).toContain("const $fetch = await getClient(options)");
     expect(result.content).toContain("await $fetch");
     expect(result.content).toContain("output:");
-    expect(result.content).toContain("if (error) throw error");
+    expect(result.content).toContain(
+      "if (error) throw await toApiError(errorResponse.get())",
+    );
     expect(result.content).toContain("return data");
   });
 
@@ -2026,7 +2302,9 @@ describe("generateFunctions (OpenAPI standalone functions)", () => {
     );
 
     // Should generate async function without params
-    expect(result.content).toContain("export const getHealth = async ()");
+    expect(result.content).toContain(
+      "export const getHealth = async (options?: RequestOptions)",
+    );
   });
 
   it("handles mutations with only body (no path params)", async () => {
@@ -2130,111 +2408,2158 @@ describe("generateFunctions (OpenAPI standalone functions)", () => {
     );
 
     // Should generate async function without params
-    expect(result.content).toContain("export const triggerAction = async ()");
+    expect(result.content).toContain(
+      "export const triggerAction = async (options?: RequestOptions)",
+    );
   });
 });
 
-describe("OpenAPI Collection Discovery", () => {
+describe("header and cookie parameters", () => {
   const config: OpenAPISourceConfig = {
-    name: "petstore",
+    name: "items",
     type: "openapi",
     generates: ["query", "db"],
-    spec: join(fixturesDir, "petstore.json"),
+    spec: join(fixturesDir, "request-params.json"),
   };
 
-  describe("discoverCollectionEntities", () => {
-    it("discovers entities from GET operations returning arrays", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+  it("extracts header and cookie parameters", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
 
-      expect(result.entities.length).toBeGreaterThan(0);
+    const listItems = operations.find((op) => op.operationId === "listItems");
+    expect(listItems?.headerParams.map((p) => p.name)).toEqual(["X-Tenant-Id"]);
+    expect(listItems?.cookieParams.map((p) => p.name)).toEqual(["session"]);
+    expect(listItems?.queryParams.map((p) => p.name)).toEqual(["limit"]);
+  });
 
-      // Should discover Pet entity from listPets
-      const petEntity = result.entities.find((e) => e.name === "Pet");
-      expect(petEntity).toBeDefined();
-      expect(petEntity?.typeName).toBe("Pet");
-    });
+  it("includes header and cookie params in the Params schema", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
 
-    it("auto-detects id field as key field", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+    expect(result.content).toContain("export const listItemsParamsSchema");
+    expect(result.content).toContain('"X-Tenant-Id": z.string()');
+    expect(result.content).toContain("session: z.string().nullish()");
+    expect(result.content).toContain("export const getSessionParamsSchema");
+  });
 
-      const petEntity = result.entities.find((e) => e.name === "Pet");
-      expect(petEntity?.keyField).toBe("id");
-      expect(petEntity?.keyFieldType).toBe("string");
+  it("sends header and cookie params from query functions", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
     });
 
-    it("discovers list query from GET operation", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+    expect(result.content).toContain(
+      'import { getClient, buildPath, buildQuery, toApiError, buildHeaders, buildCookie, readErrorResponse } from "../client"',
+    );
+    // Required header makes params required
+    expect(result.content).toContain(
+      "export const listItems = async (params: ListItemsParams, options?: RequestOptions)",
+    );
+    expect(result.content).toContain(
+      'const $fetch = await getClient({ ...options, headers: { ...buildHeaders({ "X-Tenant-Id": params["X-Tenant-Id"], Cookie: buildCookie({ session: params.session }) }), ...options?.headers } })',
+    );
+    // Header-only query without path or query params
+    expect(result.content).toContain(
+      "export const getSession = async (params: GetSessionParams, options?: RequestOptions)",
+    );
+  });
 
-      const petEntity = result.entities.find((e) => e.name === "Pet");
-      expect(petEntity?.listQuery.operationName).toBe("listPets");
-      expect(petEntity?.listQuery.queryKey).toEqual(["Pet"]);
+  it("sends header params from mutation functions", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
     });
 
-    it("discovers CRUD mutations for entities", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.discoverCollectionEntities(schema, config);
-
-      const petEntity = result.entities.find((e) => e.name === "Pet");
-      expect(petEntity?.mutations).toBeDefined();
-
-      // Should have insert mutation (POST /pets)
-      const insertMutation = petEntity?.mutations.find(
-        (m) => m.type === "insert",
-      );
-      expect(insertMutation).toBeDefined();
-      expect(insertMutation?.operationName).toBe("createPet");
-
-      // Should have update mutation (PUT /pets/{petId})
-      const updateMutation = petEntity?.mutations.find(
-        (m) => m.type === "update",
-      );
-      expect(updateMutation).toBeDefined();
-      expect(updateMutation?.operationName).toBe("updatePet");
+    expect(result.content).toContain(
+      'export const updateItem = async ({ itemId, body, ...params }: { itemId: string; "If-Match": UpdateItemParams["If-Match"]; body: UpdateItemRequest }, options?: RequestOptions)',
+    );
+    expect(result.content).toContain(
+      'const $fetch = await getClient({ ...options, headers: { ...buildHeaders({ "If-Match": params["If-Match"] }), ...options?.headers } })',
+    );
+    expect(result.content).toContain(
+      '"Idempotency-Key"?: CreateItemParams["Idempotency-Key"]',
+    );
+    expect(result.content).toContain("UpdateItemParams");
+  });
 
-      // Should have delete mutation (DELETE /pets/{petId})
-      const deleteMutation = petEntity?.mutations.find(
-        (m) => m.type === "delete",
-      );
-      expect(deleteMutation).toBeDefined();
-      expect(deleteMutation?.operationName).toBe("deletePet");
+  it("does not import header helpers when no operation needs them", async () => {
+    const petstoreConfig: OpenAPISourceConfig = {
+      name: "petstore",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, "petstore.json"),
+    };
+    const schema = await openapiAdapter.loadSchema(petstoreConfig);
+    const result = openapiAdapter.generateFunctions(schema, petstoreConfig, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
     });
 
-    it("supports keyField override via config", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.discoverCollectionEntities(schema, config, {
-        Pet: { keyField: "name" },
-      });
+    expect(result.content).not.toContain("buildHeaders");
+    expect(result.content).not.toContain("buildCookie");
+  });
 
-      const petEntity = result.entities.find((e) => e.name === "Pet");
-      expect(petEntity?.keyField).toBe("name");
+  it("matches mutation variables types in mutationOptions", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "items",
     });
 
-    it("returns warning when key field not found", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.discoverCollectionEntities(schema, config, {
-        Pet: { keyField: "nonExistentField" },
-      });
-
-      expect(result.warnings.length).toBeGreaterThan(0);
-      expect(result.warnings.some((w) => w.includes("nonExistentField"))).toBe(
-        true,
-      );
-    });
+    expect(result.content).toContain(
+      'mutationFn: (variables: { itemId: string; "If-Match": UpdateItemParams["If-Match"]; body: UpdateItemRequest }) => updateItem(variables),',
+    );
+    expect(result.content).toContain(
+      "export const listItemsQueryOptions = (params: ListItemsParams) =>",
+    );
   });
 
-  describe("generateCollections", () => {
-    it("generates collection options code", async () => {
-      const schema = await openapiAdapter.loadSchema(config);
-      const result = openapiAdapter.generateCollections(schema, config, {
-        typesImportPath: "./schema",
-        functionsImportPath: "../functions",
-        sourceName: "petstore",
-      });
+  it("skips collections whose list query requires header params", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.discoverCollectionEntities(schema, config);
 
-      expect(result.filename).toBe("collections.ts");
+    expect(result.entities).toHaveLength(0);
+    expect(result.warnings).toContain(
+      "List query listItems has required header/cookie parameters - skipping collection generation",
+    );
+  });
+});
+
+describe("form request bodies", () => {
+  const config: OpenAPISourceConfig = {
+    name: "documents",
+    type: "openapi",
+    generates: ["query", "form", "db"],
+    spec: join(fixturesDir, "form-bodies.json"),
+  };
+
+  it("detects multipart and urlencoded request bodies", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const contentTypes = Object.fromEntries(
+      operations.map((op) => [op.operationId, op.requestBodyContentType]),
+    );
+
+    expect(contentTypes).toEqual({
+      listDocuments: undefined,
+      uploadDocument: "multipart/form-data",
+      replaceAttachments: "multipart/form-data",
+      // JSON is preferred when an operation accepts several content types
+      addNote: "application/json",
+      login: "application/x-www-form-urlencoded",
+    });
+  });
+
+  it("maps binary strings to File | Blob schemas", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const uploadDocumentRequestSchema",
+    );
+    expect(result.content).toContain(
+      "file: z.union([z.instanceof(File), z.instanceof(Blob)])",
+    );
+    expect(result.content).toContain(
+      "files: z.array(z.union([z.instanceof(File), z.instanceof(Blob)]))",
+    );
+    expect(result.content).toContain("export const loginRequestSchema");
+  });
+
+  it("encodes form bodies in mutation functions", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      'import { getClient, buildPath, buildQuery, toApiError, buildFormData, buildUrlEncoded, readErrorResponse } from "../client"',
+    );
+    expect(result.content).toContain(
+      "export const uploadDocument = async ({ body }: { body: UploadDocumentRequest }, options?: RequestOptions)",
+    );
+    expect(result.content).toContain("body: buildFormData(body),");
+    expect(result.content).toContain("body: buildUrlEncoded(body),");
+    // JSON bodies are passed through unchanged
+    expect(result.content).toMatch(/addNote[\s\S]*?body,\n/);
+  });
+
+  it("does not import form helpers when no operation needs them", async () => {
+    const petstoreConfig: OpenAPISourceConfig = {
+      name: "petstore",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, "petstore.json"),
+    };
+    const schema = await openapiAdapter.loadSchema(petstoreConfig);
+    const result = openapiAdapter.generateFunctions(schema, petstoreConfig, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).not.toContain("buildFormData");
+    expect(result.content).not.toContain("buildUrlEncoded");
+  });
+
+  it("generates form options for form-encoded mutations", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFormOptions(schema, config, {
+      schemaImportPath: "../schema",
+      sourceName: "documents",
+    });
+
+    expect(result.content).toContain("uploadDocumentFormOptions");
+    expect(result.content).toContain("replaceAttachmentsFormOptions");
+    expect(result.content).toContain("loginFormOptions");
+    expect(result.content).toContain(
+      "onSubmitAsync: uploadDocumentRequestSchema",
+    );
+  });
+
+  it("skips form-encoded mutations as collection persistence handlers", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.discoverCollectionEntities(schema, config);
+
+    const documentEntity = result.entities.find((e) => e.name === "Document");
+    expect(documentEntity?.mutations).toEqual([]);
+    expect(result.warnings).toContain(
+      "Mutation uploadDocument sends a multipart/form-data body - skipping as a collection persistence handler",
+    );
+  });
+});
+
+describe("typed error responses", () => {
+  const config: OpenAPISourceConfig = {
+    name: "tasks",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "error-responses.json"),
+  };
+
+  it("extracts 4xx/5xx and default error responses", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const statuses = Object.fromEntries(
+      operations.map((op) => [
+        op.operationId,
+        op.errorResponses.map((r) => r.status),
+      ]),
+    );
+
+    expect(statuses).toEqual({
+      listTasks: ["400", "5XX"],
+      createTask: ["409", "422"],
+      getTask: ["404", "default"],
+      deleteTask: ["404"],
+      getHealth: [],
+    });
+    const deleteTask = operations.find((op) => op.operationId === "deleteTask");
+    expect(deleteTask?.errorResponses[0]?.schema).toBeUndefined();
+  });
+
+  it("treats default as the success response when no 200/201 exists", () => {
+    const operations = extractOperations({
+      openapi: "3.0.3",
+      info: { title: "Default API", version: "1.0.0" },
+      paths: {
+        "/status": {
+          get: {
+            operationId: "getStatus",
+            responses: {
+              default: {
+                description: "Status",
+                content: {
+                  "application/json": { schema: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(operations[0]?.responseSchema).toEqual({ type: "string" });
+    expect(operations[0]?.errorResponses).toEqual([]);
+  });
+
+  it("generates error body schemas", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const listTasks400ErrorSchema = problemSchema",
+    );
+    expect(result.content).toContain(
+      "export const listTasks5XXErrorSchema = errorSchema",
+    );
+    expect(result.content).toContain(
+      "export const getTaskDefaultErrorSchema = errorSchema",
+    );
+    expect(result.content).toContain("export const createTask409ErrorSchema");
+    expect(result.content).toContain(
+      "export type CreateTask409Error = z.infer<typeof createTask409ErrorSchema>",
+    );
+    // Error responses without a JSON body get no schema
+    expect(result.content).not.toContain("deleteTask404ErrorSchema");
+  });
+
+  it("throws ApiError with error body schemas keyed by status", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      'import type { ApiError, RequestOptions } from "../client"',
+    );
+    expect(result.content).toContain(
+      "export type GetTaskApiError = ApiError<404, GetTask404Error, true> | ApiError<number, GetTaskDefaultError, true> | ApiError<number, unknown> | Error",
+    );
+    expect(result.content).toContain(
+      'if (error) throw await toApiError(errorResponse.get(), { "404": getTask404ErrorSchema, default: getTaskDefaultErrorSchema })',
+    );
+    expect(result.content).toContain(
+      'if (error) throw await toApiError(errorResponse.get(), { "400": listTasks400ErrorSchema, "5XX": listTasks5XXErrorSchema })',
+    );
+    // Declared status without a body
+    expect(result.content).toContain(
+      "export type DeleteTaskApiError = ApiError<404, unknown> | ApiError<number, unknown> | Error",
+    );
+    expect(result.content).not.toContain("GetHealthApiError");
+  });
+
+  it("wraps error body schemas for Effect", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+      validatorLibrary: "effect",
+    });
+
+    expect(result.content).toContain(
+      '"409": Schema.standardSchemaV1(createTask409ErrorSchema)',
+    );
+  });
+
+  it("types query and mutation errors with the ApiError union", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "tasks",
+    });
+
+    expect(result.content).toContain(
+      'import type { CreateTaskApiError, DeleteTaskApiError, GetTaskApiError, ListTasksApiError } from "../functions"',
+    );
+    expect(result.content).toContain(
+      "queryOptions<GetTaskResponse, GetTaskApiError>({",
+    );
+    expect(result.content).toContain(
+      "mutationOptions<CreateTaskResponse, CreateTaskApiError, { body: CreateTaskRequest }>({",
+    );
+    expect(result.content).toContain(
+      "mutationOptions<void, DeleteTaskApiError, { taskId: string }>({",
+    );
+    expect(result.content).toContain(
+      "infiniteQueryOptions<ListTasksResponse, ListTasksApiError, InfiniteData<ListTasksResponse, string | undefined>, QueryKey, string | undefined>({",
+    );
+    expect(result.content).toContain(
+      'import type { InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query"',
+    );
+    // Operations without declared errors keep inferred options
+    expect(result.content).toContain(
+      "export const getHealthQueryOptions = () =>\n  queryOptions({",
+    );
+  });
+
+  it("skips error type arguments for the core framework target", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "tasks",
+      framework: "core",
+    });
+
+    expect(result.content).not.toContain("ApiError");
+    expect(result.content).toContain("queryOptions({");
+  });
+});
+
+describe("response body types", () => {
+  const config: OpenAPISourceConfig = {
+    name: "files",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "response-types.json"),
+  };
+
+  it("picks a body type per success content type", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const bodyTypes = Object.fromEntries(
+      operations.map((op) => [op.operationId, op.responseBodyType]),
+    );
+
+    expect(bodyTypes).toEqual({
+      listFiles: "json",
+      exportFiles: "text",
+      getFile: "json",
+      deleteFile: "void",
+      downloadFile: "blob",
+      scanFile: "json",
+      createReport: "blob",
+      getHealth: "text",
+      streamEvents: "event-stream",
+    });
+  });
+
+  it("reads the response schema from any 2xx status and +json types", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const scanFile = operations.find((op) => op.operationId === "scanFile");
+    const getFile = operations.find((op) => op.operationId === "getFile");
+
+    expect(scanFile?.responseSchema).toMatchObject({ required: ["jobId"] });
+    expect(getFile?.responseSchema).toBeDefined();
+  });
+
+  it("prefers the lowest 2xx status over default", () => {
+    const operations = extractOperations({
+      openapi: "3.0.3",
+      info: { title: "Jobs API", version: "1.0.0" },
+      paths: {
+        "/jobs": {
+          post: {
+            operationId: "createJob",
+            responses: {
+              "202": {
+                description: "Accepted",
+                content: {
+                  "application/json": { schema: { type: "string" } },
+                },
+              },
+              "200": { description: "Already done" },
+              default: {
+                description: "Error",
+                content: {
+                  "application/json": { schema: { type: "object" } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(operations[0]?.responseBodyType).toBe("void");
+    expect(operations[0]?.errorResponses.map((r) => r.status)).toEqual([
+      "default",
+    ]);
+  });
+
+  it("reads non-JSON bodies with readBodyAs", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      'import { getClient, buildPath, buildQuery, toApiError, readBodyAs, readErrorResponse, parseEventStream, parseEventData } from "../client"',
+    );
+    expect(result.content).toContain('const reader = readBodyAs("text")');
+    expect(result.content).toContain('const reader = readBodyAs("blob")');
+    expect(result.content).toContain(
+      "const { error } = await $fetch(path, { plugins: [reader.plugin, errorResponse.plugin] })",
+    );
+    expect(result.content).toContain("return reader.body()");
+    expect(result.content).toMatch(
+      /createReport[\s\S]*?body,\n\s*plugins: \[reader\.plugin, errorResponse\.plugin\],/,
+    );
+  });
+
+  it("returns nothing for empty responses", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).toMatch(
+      /export const deleteFile = [\s\S]*?const \{ error \} = await \$fetch\(path, \{\n\s*method: "DELETE",\n\s*plugins: \[errorResponse\.plugin\],\n\s*\}\)\n\s*if \(error\) throw await toApiError\(errorResponse\.get\(\), [^\n]*\)\n\}/,
+    );
+  });
+
+  it("does not import readBodyAs when every response is JSON", async () => {
+    const petstoreConfig: OpenAPISourceConfig = {
+      name: "petstore",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, "petstore.json"),
+    };
+    const schema = await openapiAdapter.loadSchema(petstoreConfig);
+    const result = openapiAdapter.generateFunctions(schema, petstoreConfig, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).not.toContain("readBodyAs");
+  });
+
+  it("types query and mutation data to match the body type", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "files",
+    });
+
+    expect(result.content).toContain(
+      "queryOptions<Blob, DownloadFileApiError>({",
+    );
+    expect(result.content).toContain(
+      "mutationOptions<void, DeleteFileApiError, { fileId: string }>({",
+    );
+  });
+});
+
+describe("event streams", () => {
+  const config: OpenAPISourceConfig = {
+    name: "jobs",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "event-streams.json"),
+  };
+
+  it("reads the event data schema from text/event-stream responses", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const watch = operations.find(
+      (op) => op.operationId === "watchJobProgress",
+    );
+    const ticks = operations.find((op) => op.operationId === "streamTicks");
+
+    expect(watch?.responseBodyType).toBe("event-stream");
+    expect(watch?.responseSchema).toBeUndefined();
+    expect(watch?.eventSchema).toMatchObject({
+      required: ["percent", "status"],
+    });
+    expect(ticks?.eventSchema).toBeUndefined();
+  });
+
+  it("prefers itemSchema over schema", () => {
+    // itemSchema was added in OpenAPI 3.2
+    const document = {
+      openapi: "3.1.0",
+      info: { title: "Item Schema API", version: "1.0.0" },
+      paths: {
+        "/events": {
+          get: {
+            operationId: "streamEvents",
+            responses: {
+              "200": {
+                description: "Events",
+                content: {
+                  "text/event-stream": {
+                    schema: { type: "array" },
+                    itemSchema: { type: "object" },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const operations = extractOperations(
+      document as OpenAPIAdapterSchema["document"],
+    );
+    expect(operations[0]?.eventSchema).toEqual({ type: "object" });
+  });
+
+  it("generates event data schemas", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const watchJobProgressEventSchema = jobProgressSchema",
+    );
+    expect(result.content).toContain(
+      "export const tailLogsEventSchema = z.string()",
+    );
+  });
+
+  it("generates async generators that validate each event", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      'import { getClient, buildPath, buildQuery, toApiError, readBodyAs, readErrorResponse, parseEventStream, parseEventData } from "../client"',
+    );
+    expect(result.content).toContain(
+      "export async function* watchJobProgress(params: WatchJobProgressParams, options?: RequestOptions): AsyncGenerator<WatchJobProgressEvent> {",
+    );
+    expect(result.content).toContain(
+      "for await (const event of parseEventStream(await reader.body())) {",
+    );
+    expect(result.content).toContain(
+      "yield await parseEventData(event, watchJobProgressEventSchema)",
+    );
+    // String events are not parsed as JSON
+    expect(result.content).toContain(
+      "yield await parseEventData(event, tailLogsEventSchema, false)",
+    );
+    // Events without a schema yield their raw data
+    expect(result.content).toContain(
+      "export async function* streamTicks(options?: RequestOptions): AsyncGenerator<string> {",
+    );
+    expect(result.content).toContain("yield event.data");
+  });
+
+  it("generates streamedQuery query options", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "jobs",
+    });
+
+    expect(result.content).toContain(
+      'import { experimental_streamedQuery as streamedQuery, mutationOptions, queryOptions } from "@tanstack/react-query"',
+    );
+    expect(result.content).toContain(
+      "queryOptions<WatchJobProgressEvent[], WatchJobProgressApiError>({",
+    );
+    expect(result.content).toContain(
+      "queryFn: streamedQuery({ streamFn: ({ signal }) => watchJobProgress(params, { signal }) }),",
+    );
+    expect(result.content).toContain(
+      "queryFn: streamedQuery({ streamFn: ({ signal }) => streamTicks({ signal }) }),",
+    );
+    expect(result.content).toContain(
+      "mutationFn: async (variables: { body: SendChatMessageRequest }) => sendChatMessage(variables),",
+    );
+  });
+
+  it("does not import streamedQuery without event-stream queries", async () => {
+    const petstoreConfig: OpenAPISourceConfig = {
+      name: "petstore",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, "petstore.json"),
+    };
+    const schema = await openapiAdapter.loadSchema(petstoreConfig);
+    const result = openapiAdapter.generateOperations(schema, petstoreConfig, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "petstore",
+    });
+
+    expect(result.content).not.toContain("streamedQuery");
+  });
+});
+
+describe("discriminators", () => {
+  const config: OpenAPISourceConfig = {
+    name: "pets",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "discriminator.json"),
+  };
+
+  it("tags referenced variants with their mapped values", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      'export const petSchema = z.discriminatedUnion("petType", [catSchema.extend({ petType: z.literal("cat") }), dogSchema.extend({ petType: z.enum(["dog", "puppy"]) }), lizardSchema.extend({ petType: z.literal("Lizard") })])',
+    );
+  });
+
+  it("reads inline variant values from the discriminator property", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      'export const eventSchema = z.discriminatedUnion("type", [z.object({\n  type: z.enum(["user.created", "user.updated"]),',
+    );
+    expect(result.content).toContain('type: z.literal("order.placed"),');
+  });
+
+  it("falls back to a plain union with a warning", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain("export const shapeSchema = z.union([");
+    expect(result.warnings).toEqual([
+      'Discriminator "kind" on "Shape" was ignored because a variant is not a plain object schema with a known "kind" value. Generated a plain union instead.',
+      'Discriminator "kind" on "Vehicle" was ignored because a variant is not a plain object schema with a known "kind" value. Generated a plain union instead.',
+    ]);
+  });
+
+  it("falls back to a plain union for variants with property count constraints", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const vehicleSchema = z.union([carSchema, bikeSchema])",
+    );
+    expect(result.content).not.toContain("carSchema.extend(");
+  });
+
+  it.each([
+    [
+      "valibot",
+      'v.variant("petType", [v.object({ ...catSchema.entries, petType: v.literal("cat") })',
+    ],
+    ["arktype", 'catSchema.and(type({ "petType": "\'cat\'" }))'],
+    [
+      "effect",
+      'Schema.Union(Schema.Struct({ ...catSchema.fields, petType: Schema.Literal("cat") })',
+    ],
+  ] as const)("generates %s discriminated unions", async (validator, expected) => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(schema, config, {
+      validator,
+    });
+
+    expect(result.content).toContain(expected);
+  });
+});
+
+describe("recursive schemas", () => {
+  const config: OpenAPISourceConfig = {
+    name: "recursive",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "recursive.json"),
+  };
+
+  it("generates lazy self-references with explicit types", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "parent: z.lazy((): z.ZodType<Category> => categorySchema).nullish(),",
+    );
+    expect(result.content).toContain(
+      "export type Category = {\n  id: string\n  name: string\n  parent?: Category | null\n  children?: Category[] | null\n}",
+    );
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it("declares discriminated union members before the recursive union", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "children: z.array(z.lazy((): z.ZodType<TreeNode> => treeNodeSchema))",
+    );
+    expect(result.content).toContain(
+      'export const treeNodeSchema = z.discriminatedUnion("kind", [treeLeafSchema.extend({ kind: z.literal("leaf") }), treeBranchSchema.extend({ kind: z.literal("branch") })])',
+    );
+    expect(result.content).toContain(
+      'export type TreeNode = (TreeLeaf & { kind: "leaf" }) | (TreeBranch & { kind: "branch" })',
+    );
+  });
+
+  it("generates mutually recursive schemas", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "employees: z.array(z.lazy((): z.ZodType<Person> => personSchema))",
+    );
+    expect(result.content).toContain("employer: companySchema.nullish(),");
+    expect(result.content).toContain(
+      "export type Person = {\n  name: string\n  employer?: Company | null\n  address?: Address | null\n}",
+    );
+  });
+
+  it.each([
+    [
+      "valibot",
+      "v.array(v.lazy((): v.GenericSchema<Comment> => commentSchema))",
+    ],
+    [
+      "effect",
+      "Schema.mutable(Schema.Array(Schema.suspend((): Schema.Schema<Comment> => commentSchema)))",
+    ],
+    ["arktype", '"replies": "commentSchema[]"'],
+  ] as const)("generates %s recursive schemas", async (validator, expected) => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(schema, config, {
+      validator,
+    });
+
+    expect(result.content).toContain(expected);
+  });
+});
+
+describe("readOnly and writeOnly properties", () => {
+  const config: OpenAPISourceConfig = {
+    name: "users",
+    type: "openapi",
+    generates: ["query", "form", "db"],
+    spec: join(fixturesDir, "read-write.json"),
+  };
+
+  it("leaves readOnly properties out of input variants", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const userInputSchema = z.object({\n  email: z.email(),\n  password: z.string().nullish(),\n  profile: profileInputSchema,\n  tags: z.array(tagSchema).nullish()\n})",
+    );
+    expect(result.content).toContain(
+      "export const profileInputSchema = z.object({\n  displayName: z.string()\n})",
+    );
+    expect(result.content).toContain(
+      "export const createUserRequestSchema = userInputSchema",
+    );
+    expect(result.content).toContain(
+      "export const updateUserRequestSchema = userUpdateInputSchema",
+    );
+  });
+
+  it("leaves writeOnly properties out of output variants", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const userSchema = z.object({\n  id: z.string(),\n  email: z.email(),\n  profile: profileSchema,\n  tags: z.array(tagSchema).nullish(),\n  createdAt: z.iso.datetime()\n})",
+    );
+    expect(result.content).toContain(
+      "export const createUserResponseSchema = userSchema",
+    );
+    // Only used as a request body
+    expect(result.content).not.toContain("export const userUpdateSchema");
+  });
+
+  it("shares schemas without readOnly or writeOnly properties", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const createTagRequestSchema = tagSchema",
+    );
+    expect(result.content).toContain(
+      "export const createTagResponseSchema = tagSchema",
+    );
+    expect(result.content).not.toContain("tagInputSchema");
+  });
+
+  it("uses the input variant for form options", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFormOptions(schema, config, {
+      schemaImportPath: "../schema",
+      sourceName: "users",
+    });
+
+    expect(result.content).toContain("defaultValues: {} as CreateUserRequest,");
+    expect(result.content).toContain("onSubmitAsync: createUserRequestSchema,");
+  });
+
+  it("leaves readOnly fields out of collection insert and update bodies", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateCollections(schema, config, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "users",
+    });
+
+    expect(result.content).toContain(
+      "transaction.mutations.map(({ modified: { id: _id, createdAt: _createdAt, ...body } }) => createUser({ body }))",
+    );
+    expect(result.content).toContain(
+      "transaction.mutations.map(({ original, changes: { id: _id, createdAt: _createdAt, ...body } }) => updateUser({ id: original.id, body }))",
+    );
+  });
+});
+
+describe("default values", () => {
+  const config: OpenAPISourceConfig = {
+    name: "posts",
+    type: "openapi",
+    generates: ["query", "form"],
+    spec: join(fixturesDir, "defaults.json"),
+  };
+
+  it("emits property and parameter defaults", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "  tags: z.array(z.string()).default(() => []),\n  priority: z.number().default(1.5),",
+    );
+    expect(result.content).toContain(
+      'export const listPostsParamsSchema = z.object({\n  limit: z.number().int().default(20),\n  sort: z.enum(["new", "top"]).default("new")\n})',
+    );
+  });
+
+  it("applies component defaults where the component is referenced", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      'export const postStatusSchema = z.enum(["draft", "published"])\n',
+    );
+    expect(result.content).toContain(
+      'status: postStatusSchema.default("draft"),',
+    );
+  });
+
+  it("infers request and params types from the schema input", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export type CreatePostRequest = z.input<typeof createPostRequestSchema>",
+    );
+    expect(result.content).toContain(
+      "export type ListPostsParams = z.input<typeof listPostsParamsSchema>",
+    );
+    expect(result.content).toContain(
+      "export type Post = z.infer<typeof postSchema>",
+    );
+  });
+
+  it("generates form default values from the request schema", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFormOptions(schema, config, {
+      schemaImportPath: "../schema",
+      sourceName: "posts",
+    });
+
+    expect(result.content).toContain(
+      'defaultValues: { status: "draft", tags: [], priority: 1.5, metadata: { source: "web" }, settings: { comments: true, visibility: "public" } } as unknown as CreatePostRequest,',
+    );
+  });
+});
+
+describe("constraints", () => {
+  const config: OpenAPISourceConfig = {
+    name: "products",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "constraints.json"),
+  };
+
+  it("emits string, number, array, and object constraints", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "sku: z.string().regex(/^[A-Z]{3}\\/\\d{4}$/),",
+    );
+    expect(result.content).toContain("name: z.string().min(1).max(80),");
+    expect(result.content).toContain(
+      "price: z.number().max(10000).gt(0).multipleOf(0.01),",
+    );
+    expect(result.content).toContain(
+      "quantity: z.int32().min(0).multipleOf(5).nullish(),",
+    );
+    expect(result.content).toContain(
+      'tags: z.array(z.string()).min(1).max(5).refine((items) => new Set(items).size === items.length, "Items must be unique"),',
+    );
+    expect(result.content).toContain(
+      '.refine((value) => Object.keys(value).length >= 1, "Must have at least 1 property")',
+    );
+  });
+
+  it("emits const values as literals", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain('kind: z.literal("product").nullish(),');
+  });
+
+  it("emits string formats", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain("thumbnail: z.base64().nullish(),");
+    expect(result.content).toContain("supplierHost: z.hostname().nullish(),");
+    expect(result.content).toContain("warranty: z.iso.duration().nullish(),");
+    expect(result.content).toContain("manualUrl: z.string().nullish(),");
+  });
+
+  it("warns about constraints the validator can't express", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(schema, config, {
+      validator: "arktype",
+    });
+
+    expect(result.warnings).toContain(
+      "ArkType does not support non-integer multipleOf (0.01). This constraint will not be validated.",
+    );
+    expect(result.warnings).toContain(
+      'ArkType does not support the "hostname" string format. Values will be validated as plain strings.',
+    );
+  });
+
+  it("converts OpenAPI 3.0 boolean exclusive bounds", () => {
+    const schema: OpenAPIAdapterSchema = {
+      baseUrl: "https://api.example.com",
+      document: {
+        openapi: "3.0.0",
+        info: { title: "Test API", version: "1.0.0" },
+        paths: {
+          "/scores": {
+            get: {
+              operationId: "listScores",
+              responses: {
+                "200": {
+                  description: "Scores",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "number",
+                        minimum: 0,
+                        exclusiveMinimum: true,
+                        maximum: 100,
+                        exclusiveMaximum: false,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "export const listScoresResponseSchema = z.number().max(100).gt(0)",
+    );
+  });
+});
+
+describe("documentation", () => {
+  const config: OpenAPISourceConfig = {
+    name: "books",
+    type: "openapi",
+    generates: ["query", "form"],
+    spec: join(fixturesDir, "documented.json"),
+  };
+
+  it("documents schemas and properties with their descriptions", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain(
+      "/** A book to add to the catalog */\nexport const newBookSchema = z.object({",
+    );
+    expect(result.content).toContain(
+      '}).describe("A book to add to the catalog")',
+    );
+    expect(result.content).toContain(
+      "/** A book to add to the catalog */\nexport type NewBook =",
+    );
+    expect(result.content).toContain(
+      "  /** The book's title */\n  title: z.string().describe(\"The book's title\"),",
+    );
+    expect(result.content).toContain(
+      "  /**\n   * ISBN-13, without dashes.\n   * For example: 9780140449136\n   */\n  isbn:",
+    );
+    expect(result.content).toContain(
+      "  /**\n   * Shelf the book is stored on\n   * @deprecated\n   */\n  shelf:",
+    );
+    // "*/" in a description would end the comment
+    expect(result.content).toContain(
+      "/** Free text. Comments like /* this *\\/ are kept */",
+    );
+  });
+
+  it("leaves references documented by the schema they point to", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateSchemas(
+      schema,
+      config,
+      defaultSchemaOptions,
+    );
+
+    expect(result.content).toContain("  genre: genreSchema.nullish(),");
+    expect(result.content).toContain(
+      "export const createBookRequestSchema = newBookSchema\n",
+    );
+    // Parameters keep their own descriptions
+    expect(result.content).toContain(
+      '  /** Only return books in this genre */\n  genre: genreSchema.describe("Only return books in this genre").nullish(),',
+    );
+    expect(result.content).toContain(
+      "  /**\n   * Filter by author name\n   * @deprecated\n   */\n  author:",
+    );
+  });
+
+  it("documents operations with their summary and description", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const functions = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+    });
+    const options = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "books",
+    });
+
+    const listDoc =
+      "/**\n * List books\n *\n * Returns books in the catalog, newest first.\n * Archived books are left out.\n */\n";
+    expect(functions.content).toContain(
+      `${listDoc}export const listBooks = async`,
+    );
+    expect(options.content).toContain(
+      `${listDoc}export const listBooksQueryOptions =`,
+    );
+    expect(options.content).toContain(
+      "/** Add a book to the catalog */\nexport const createBookMutationOptions =",
+    );
+    expect(functions.content).toContain(
+      "/**\n * Replace a book\n * @deprecated\n */\nexport const replaceBook = async",
+    );
+  });
+
+  it("documents form options with their operation", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFormOptions(schema, config, {
+      schemaImportPath: "../schema",
+      sourceName: "books",
+    });
+
+    expect(result.content).toContain(
+      "/** Add a book to the catalog */\nexport const createBookFormOptions =",
+    );
+    expect(result.content).toContain(
+      "/**\n * Replace a book\n * @deprecated\n */\nexport const replaceBookFormOptions =",
+    );
+  });
+});
+
+describe("mutation invalidation", () => {
+  const config: OpenAPISourceConfig = {
+    name: "petstore",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "petstore.json"),
+  };
+
+  const generate = async (queryOverrides?: QueryOverridesConfig) => {
+    const schema = await openapiAdapter.loadSchema(config);
+    return openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "petstore",
+      queryOverrides,
+    });
+  };
+
+  it("invalidates list queries on the path a mutation creates in", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'createPet: (): QueryKey[] => [\n    [...petsKeys.lists(), "listPets"],\n  ],',
+    );
+  });
+
+  it("narrows single-resource queries to the mutated resource", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'updatePet: (variables: { petId: string; body: UpdatePetRequest }): QueryKey[] => [\n    [...petsKeys.lists(), "listPets"],\n    [...petsKeys.detail(variables.petId), "getPet"],\n  ],',
+    );
+    expect(result.content).toContain(
+      'deletePet: (variables: { petId: string }): QueryKey[] => [\n    [...petsKeys.lists(), "listPets"],\n    [...petsKeys.detail(variables.petId), "getPet"],\n  ],',
+    );
+  });
+
+  it("invalidates parent resources of nested paths", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'addVaccination: (variables: { petId: string; body: AddVaccinationRequest }): QueryKey[] => [\n    [...petsKeys.lists(), "listPets"],\n    [...petsKeys.detail(variables.petId), "getPet"],\n  ],',
+    );
+  });
+
+  it("invalidates queries from mutationOptions given a query client", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'import type { QueryClient, QueryKey } from "@tanstack/react-query"',
+    );
+    expect(result.content).toContain(
+      "export const createPetMutationOptions = (queryClient?: QueryClient) =>",
+    );
+    expect(result.content).toContain(
+      "onSuccess: () => invalidateQueries(queryClient, mutationInvalidations.createPet()),",
+    );
+    expect(result.content).toContain(
+      "onSuccess: (_data, variables) => invalidateQueries(queryClient, mutationInvalidations.updatePet(variables)),",
+    );
+  });
+
+  it("adds and suppresses targets with overrides", async () => {
+    const result = await generate({
+      operations: {
+        createPet: { invalidation: { include: ["getPet"] } },
+        updatePet: { invalidation: { exclude: ["listPets"] } },
+      },
+    });
+
+    expect(result.content).toContain(
+      'createPet: (): QueryKey[] => [\n    [...petsKeys.lists(), "listPets"],\n    petsKeys.details(),\n  ],',
+    );
+    expect(result.content).toContain(
+      'updatePet: (variables: { petId: string; body: UpdatePetRequest }): QueryKey[] => [\n    [...petsKeys.detail(variables.petId), "getPet"],\n  ],',
+    );
+  });
+
+  it("skips invalidation for mutations with it disabled", async () => {
+    const result = await generate({
+      operations: { createPet: { invalidation: { disabled: true } } },
+    });
+
+    expect(result.content).not.toContain("createPet: (): QueryKey[]");
+    expect(result.content).toContain(
+      "export const createPetMutationOptions = () =>",
+    );
+  });
+
+  it("warns about included queries that do not exist", async () => {
+    const result = await generate({
+      operations: { createPet: { invalidation: { include: ["listCats"] } } },
+    });
+
+    expect(result.warnings).toContainEqual(
+      expect.stringContaining('Query "listCats"'),
+    );
+  });
+
+  it("leaves out the invalidation map without mutations", async () => {
+    const keysConfig: OpenAPISourceConfig = {
+      ...config,
+      spec: join(fixturesDir, "query-keys.json"),
+    };
+    const schema = await openapiAdapter.loadSchema(keysConfig);
+    const result = openapiAdapter.generateOperations(schema, keysConfig, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "api",
+    });
+
+    expect(result.content).not.toContain("mutationInvalidations");
+    expect(result.content).not.toContain("QueryClient");
+  });
+});
+
+describe("optimistic updates", () => {
+  const config: OpenAPISourceConfig = {
+    name: "petstore",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "petstore.json"),
+  };
+
+  const generate = async (
+    queryOverrides?: QueryOverridesConfig,
+    spec = config.spec,
+  ) => {
+    const specConfig = { ...config, spec };
+    const schema = await openapiAdapter.loadSchema(specConfig);
+    return openapiAdapter.generateOperations(schema, specConfig, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "petstore",
+      queryOverrides,
+    });
+  };
+
+  it("leaves out optimistic updates unless a mutation opts in", async () => {
+    const result = await generate();
+
+    expect(result.content).not.toContain("optimisticUpdates");
+    expect(result.content).not.toContain("onMutate");
+  });
+
+  it("patches the list and detail queries of an updated entity", async () => {
+    const result = await generate({
+      operations: { updatePet: { optimistic: true } },
+    });
+
+    expect(result.content).toContain("export type OptimisticContext = {");
+    expect(result.content).toContain(
+      "export type OptimisticUpdate<TValue = never> = {",
+    );
+    expect(result.content).not.toMatch(/\bany\b/);
+    expect(result.content).toMatch(
+      /import type \{[^}]*\bGetPetResponse\b[^}]*\bListPetsResponse\b[^}]*\} from "\.\/schema"/,
+    );
+    expect(result.content).toContain(
+      'updatePet: (variables: { petId: string; body: UpdatePetRequest }): OptimisticUpdate[] => [\n    {\n      queryKey: [...petsKeys.lists(), "listPets"],\n      path: [],\n      update: (items: ListPetsResponse) => items.map((item) => String(item.id) === String(variables.petId) ? { ...item, ...variables.body } : item),\n    },\n    {\n      queryKey: [...petsKeys.detail(variables.petId), "getPet"],\n      path: [],\n      update: (item: GetPetResponse) => ({ ...item, ...variables.body }),\n    },\n  ],',
+    );
+  });
+
+  it("removes a deleted entity from its list query", async () => {
+    const result = await generate({
+      operations: { deletePet: { optimistic: true } },
+    });
+
+    expect(result.content).toContain(
+      'deletePet: (variables: { petId: string }): OptimisticUpdate[] => [\n    {\n      queryKey: [...petsKeys.lists(), "listPets"],\n      path: [],\n      update: (items: ListPetsResponse) => items.filter((item) => String(item.id) !== String(variables.petId)),\n    },\n  ],',
+    );
+  });
+
+  it("patches the array of wrapped list responses", async () => {
+    const result = await generate(
+      { operations: { updatePet: { optimistic: true } } },
+      join(fixturesDir, "petstore-wrapped.json"),
+    );
+
+    expect(result.content).toContain(
+      'queryKey: [...petsKeys.lists(), "listPets"],\n      path: ["data"],\n      update: (items: NonNullable<ListPetsResponse["data"]>) =>',
+    );
+  });
+
+  it("applies and rolls back updates from mutationOptions", async () => {
+    const result = await generate({
+      operations: { updatePet: { optimistic: true } },
+    });
+
+    expect(result.content).toContain(
+      "export const updatePetMutationOptions = (queryClient?: QueryClient) =>",
+    );
+    expect(result.content).toContain(
+      "onMutate: (variables) => applyOptimisticUpdates(queryClient, optimisticUpdates.updatePet(variables)),",
+    );
+    expect(result.content).toContain(
+      "onError: (_error, _variables, context) => rollbackOptimisticUpdates(queryClient, context),",
+    );
+    expect(result.content).toContain(
+      "onSettled: (_data, _error, variables) => invalidateQueries(queryClient, mutationInvalidations.updatePet(variables)),",
+    );
+    expect(result.content).not.toContain(
+      "onSuccess: (_data, variables) => invalidateQueries(queryClient, mutationInvalidations.updatePet(variables)),",
+    );
+  });
+
+  it("types the onMutate context of typed error mutations", async () => {
+    const result = await generate(
+      { operations: { deleteTask: { optimistic: true } } },
+      join(fixturesDir, "error-responses.json"),
+    );
+
+    expect(result.content).toContain(
+      "mutationOptions<void, DeleteTaskApiError, { taskId: string }, OptimisticContext>({",
+    );
+  });
+
+  it("warns about mutations that do not update or delete an entity", async () => {
+    const result = await generate({
+      operations: { createPet: { optimistic: true } },
+    });
+
+    expect(result.warnings).toContainEqual(
+      expect.stringContaining(
+        "Mutation \"createPet\" in 'overrides.query.operations' does not update or delete a discovered entity",
+      ),
+    );
+    expect(result.content).not.toContain("optimisticUpdates");
+  });
+});
+
+describe("suspense queries", () => {
+  const generate = async (
+    queryOverrides?: QueryOverridesConfig,
+    spec = "petstore.json",
+  ) => {
+    const config: OpenAPISourceConfig = {
+      name: "petstore",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, spec),
+    };
+    const schema = await openapiAdapter.loadSchema(config);
+    return openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "petstore",
+      queryOverrides,
+    });
+  };
+
+  it("leaves out suspense options unless opted in", async () => {
+    const result = await generate();
+
+    expect(result.content).not.toContain("SuspenseQueryOptions");
+    expect(result.content).not.toContain("SkipToken");
+  });
+
+  it("generates suspense variants of query options", async () => {
+    const result = await generate({ suspense: true });
+
+    expect(result.content).toContain(
+      'queryFn: Exclude<TOptions["queryFn"], SkipToken | undefined>',
+    );
+    expect(result.content).toContain(
+      "export const getPetSuspenseQueryOptions = (params: GetPetParams) =>\n  suspenseOptions(getPetQueryOptions(params))",
+    );
+    expect(result.content).toContain(
+      "export const listPetsSuspenseQueryOptions = (params?: ListPetsParams) =>\n  suspenseOptions(listPetsQueryOptions(params))",
+    );
+    expect(result.content).toContain(
+      'import type { QueryClient, QueryKey, SkipToken } from "@tanstack/react-query"',
+    );
+  });
+
+  it("generates ensure helpers for route loaders", async () => {
+    const result = await generate({ suspense: true });
+
+    expect(result.content).toContain(
+      "export const ensureGetPetQueryData = (queryClient: QueryClient, params: GetPetParams) =>\n  queryClient.ensureQueryData(getPetQueryOptions(params))",
+    );
+  });
+
+  it("generates suspense variants of infinite query options", async () => {
+    const result = await generate({ suspense: true }, "pagination.json");
+
+    expect(result.content).toContain(
+      'export const listPetsCursorSuspenseInfiniteQueryOptions = (params?: Omit<ListPetsCursorParams, "cursor">) =>\n  suspenseOptions(listPetsCursorInfiniteQueryOptions(params))',
+    );
+    expect(result.content).toContain(
+      'export const ensureListPetsCursorInfiniteQueryData = (queryClient: QueryClient, params?: Omit<ListPetsCursorParams, "cursor">) =>\n  queryClient.ensureInfiniteQueryData(listPetsCursorInfiniteQueryOptions(params))',
+    );
+  });
+
+  it("skips event stream queries", async () => {
+    const result = await generate({ suspense: true }, "event-streams.json");
+
+    expect(result.content).not.toContain("SuspenseQueryOptions");
+    expect(result.content).not.toContain("ensure");
+  });
+});
+
+describe("bidirectional infinite queries", () => {
+  const generate = async (
+    queryOverrides?: QueryOverridesConfig,
+    spec = "bidirectional-pagination.json",
+  ) => {
+    const config: OpenAPISourceConfig = {
+      name: "chat",
+      type: "openapi",
+      generates: ["query"],
+      spec: join(fixturesDir, spec),
+    };
+    const schema = await openapiAdapter.loadSchema(config);
+    return openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "chat",
+      queryOverrides,
+    });
+  };
+
+  it("pages backward with the previous cursor of cursor pagination", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      "getPreviousPageParam: (firstPage) => firstPage.prevCursor,",
+    );
+  });
+
+  it("pages Relay connections backward with the before and last params", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'export const listChannelMessagesInfiniteQueryOptions = (params: Omit<ListChannelMessagesParams, "after" | "before" | "last">) =>',
+    );
+    expect(result.content).toContain(
+      "queryFn: ({ pageParam, signal }) => listChannelMessages({ ...params, ...pageParam }, { signal }),",
+    );
+    expect(result.content).toContain(
+      'initialPageParam: {} as Pick<ListChannelMessagesParams, "after" | "before" | "first" | "last">,',
+    );
+    expect(result.content).toContain(
+      "getNextPageParam: (lastPage) => lastPage.pageInfo?.hasNextPage ? { after: lastPage.pageInfo?.endCursor ?? undefined, before: undefined, first: params.first, last: undefined } : undefined,",
+    );
+    // Previous pages take the last edges before their cursor
+    expect(result.content).toContain(
+      "getPreviousPageParam: (firstPage) => firstPage.pageInfo?.hasPreviousPage ? { after: undefined, before: firstPage.pageInfo?.startCursor ?? undefined, first: undefined, last: params.first } : undefined,",
+    );
+  });
+
+  it("leaves out getPreviousPageParam for page pagination", async () => {
+    const result = await generate();
+    const listEvents = result.content.slice(
+      result.content.indexOf("listEventsInfiniteQueryOptions ="),
+    );
+
+    expect(listEvents).toContain("getNextPageParam");
+    expect(listEvents).not.toContain("getPreviousPageParam");
+  });
+
+  it("limits cached pages with maxPages", async () => {
+    const result = await generate({
+      operations: {
+        listMessages: { maxPages: 3 },
+        listChannelMessages: { maxPages: 5 },
+      },
+    });
+
+    expect(result.content).toContain(
+      "getPreviousPageParam: (firstPage) => firstPage.prevCursor,\n  maxPages: 3,",
+    );
+    expect(result.content).toContain("maxPages: 5,");
+    expect(result.warnings ?? []).not.toContainEqual(
+      expect.stringContaining("maxPages"),
+    );
+  });
+
+  it("reads the previous page param from a path override", async () => {
+    const result = await generate({
+      operations: {
+        listChannelMessages: {
+          getNextPageParamPath: "pageInfo.endCursor",
+          getPreviousPageParamPath: "pageInfo.startCursor",
+        },
+      },
+    });
+
+    expect(result.content).toContain(
+      "getPreviousPageParam: (firstPage) => firstPage.pageInfo?.startCursor,",
+    );
+    expect(result.content).toContain(
+      'export const listChannelMessagesInfiniteQueryOptions = (params: Omit<ListChannelMessagesParams, "after">) =>',
+    );
+  });
+
+  it("warns about maxPages without a previous page param", async () => {
+    const result = await generate({
+      operations: { listEvents: { maxPages: 3 } },
+    });
+
+    expect(result.content).toContain("maxPages: 3,");
+    expect(result.warnings).toContainEqual(
+      expect.stringContaining(
+        'Operation "listEvents" sets maxPages but its previous page param could not be determined',
+      ),
+    );
+  });
+});
+
+describe("header pagination", () => {
+  const config: OpenAPISourceConfig = {
+    name: "github",
+    type: "openapi",
+    generates: ["query", "db"],
+    spec: join(fixturesDir, "header-pagination.json"),
+  };
+
+  const generateOperations = async (queryOverrides?: QueryOverridesConfig) => {
+    const schema = await openapiAdapter.loadSchema(config);
+    return openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "github",
+      queryOverrides,
+    });
+  };
+
+  it("detects pagination from the declared response headers", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const getOperation = (operationId: string) =>
+      operations.find((op) => op.operationId === operationId);
+
+    expect(getOperation("listRepos")?.paginationInfo?.response).toEqual({
+      style: "link",
+    });
+    expect(getOperation("listEvents")?.paginationInfo?.response).toEqual({
+      style: "cursor",
+      nextCursorHeader: "x-next-cursor",
+    });
+    expect(getOperation("listUsers")?.paginationInfo?.response).toEqual({
+      style: "offset",
+      totalHeader: "x-total-count",
+    });
+    expect(getOperation("listUsers")?.responseHeaders).toEqual([
+      "x-total-count",
+      "x-request-id",
+    ]);
+  });
+
+  it("only returns headers from operations that paginate with them", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const getUser = operations.find((op) => op.operationId === "getUser");
+
+    expect(getUser?.responseHeaders).toBeUndefined();
+  });
+
+  it("returns response headers alongside data from generated functions", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "../client",
+      typesImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      'import { getClient, buildPath, buildQuery, toApiError, readHeaders, readErrorResponse } from "../client"',
+    );
+    expect(result.content).toContain(
+      'export { getLinkParam } from "../client"',
+    );
+    expect(result.content).toContain(
+      'const responseHeaders = readHeaders(["link"])',
+    );
+    expect(result.content).toContain(
+      "const { data, error } = await $fetch<ListReposResponse>(url, { output: listReposResponseSchema, plugins: [responseHeaders.plugin, errorResponse.plugin] })",
+    );
+    expect(result.content).toContain(
+      "return { data, headers: responseHeaders.get() }",
+    );
+    expect(result.content).toMatch(
+      /export const getUser = [\s\S]*?return data\n\}/,
+    );
+  });
+
+  it("reads page params from Link headers in both directions", async () => {
+    const result = await generateOperations();
+
+    expect(result.content).toContain(
+      'import { createUser, deleteUser, getLinkParam, getUser, listEvents, listIssues, listRepos, listUsers } from "../functions"',
+    );
+    expect(result.content).toContain(
+      'getNextPageParam: (lastPage) => getLinkParam(lastPage.headers.link, "next", "page", Number),',
+    );
+    expect(result.content).toContain(
+      'getPreviousPageParam: (firstPage) => getLinkParam(firstPage.headers.link, "prev", "page", Number),',
+    );
+  });
+
+  it("reads next cursors and total counts from headers", async () => {
+    const result = await generateOperations();
+
+    expect(result.content).toContain(
+      'getNextPageParam: (lastPage) => lastPage.headers["x-next-cursor"] ?? undefined,',
+    );
+    expect(result.content).toContain(
+      'getNextPageParam: (lastPage, _allPages, lastPageParam) => (lastPageParam ?? 0) + (params?.limit ?? 20) < Number(lastPage.headers["x-total-count"]) ? (lastPageParam ?? 0) + (params?.limit ?? 20) : undefined,',
+    );
+    expect(result.content).toContain(
+      'getNextPageParam: (lastPage, _allPages, lastPageParam) => (lastPageParam ?? 1) * (params?.per_page ?? 20) < Number(lastPage.headers["x-total-count"]) ? (lastPageParam ?? 1) + 1 : undefined,',
+    );
+  });
+
+  it("types typed errors with the data and headers returned", async () => {
+    const result = await generateOperations();
+
+    expect(result.content).toContain(
+      "infiniteQueryOptions<Awaited<ReturnType<typeof listRepos>>, ListReposApiError, InfiniteData<Awaited<ReturnType<typeof listRepos>>, number>, QueryKey, number>({",
+    );
+    expect(result.content).not.toContain("ListReposResponse");
+  });
+
+  it("reads collection items from the returned data", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateCollections(schema, config, {
+      typesImportPath: "./schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "github",
+    });
+
+    expect(result.content).toMatch(
+      /userCollectionOptions[\s\S]*?const response = await listUsers\(undefined, \{ signal \}\)\n\s*return response\.data/,
+    );
+  });
+
+  it("updates the returned data optimistically", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateOperations(schema, config, {
+      typesImportPath: "../schema",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "github",
+      queryOverrides: { operations: { deleteUser: { optimistic: true } } },
+    });
+
+    expect(result.content).toContain(
+      'queryKey: [...usersKeys.lists(), "listUsers"],\n      path: ["data"],',
+    );
+  });
+});
+
+describe("security schemes", () => {
+  const config: OpenAPISourceConfig = {
+    name: "secured",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "security.json"),
+  };
+
+  const generateFunctions = async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    return openapiAdapter.generateFunctions(schema, config, {
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+    });
+  };
+
+  it("resolves the security requirements of each operation", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const operations = extractOperations(schema.document);
+    const getSecurity = (operationId: string) =>
+      operations.find((op) => op.operationId === operationId)?.security;
+
+    // Operations without their own security inherit the document's
+    expect(getSecurity("listPets")).toEqual([["bearerAuth"]]);
+    expect(getSecurity("createPet")).toEqual([["oauth2"], ["apiKey"]]);
+    expect(getSecurity("getStats")).toEqual([["basicAuth", "apiKey"]]);
+    // Public operations and anonymous alternatives need no credentials
+    expect(getSecurity("getHealth")).toBeUndefined();
+    expect(getSecurity("searchPetNames")).toEqual([["api-key-query"]]);
+  });
+
+  it("generates a typed auth configuration in the client", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateClient(schema, config);
+
+    expect(result.content).toContain("export interface AuthConfig {");
+    expect(result.content).toContain(
+      "/** JWT bearer token (bearerAuth) */\n\tbearerAuth?: Credential",
+    );
+    expect(result.content).toContain(
+      "basicAuth?: Credential<BasicCredentials>",
+    );
+    expect(result.content).toContain('"api-key-query"?: Credential');
+    expect(result.content).toContain(
+      "/** OAuth2 access token, sent as a bearer token (oauth2) */",
+    );
+    expect(result.content).toContain(
+      "export function setAuth(config: AuthConfig): void {",
+    );
+  });
+
+  it("sends each scheme's credential where the spec declares it", async () => {
+    const schema = await openapiAdapter.loadSchema(config);
+    const result = openapiAdapter.generateClient(schema, config);
+
+    expect(result.content).toContain(
+      'bearerAuth: { in: "header", name: "Authorization", prefix: "Bearer " },',
+    );
+    expect(result.content).toContain(
+      'basicAuth: { in: "header", name: "Authorization", prefix: "Basic " },',
+    );
+    expect(result.content).toContain(
+      'apiKey: { in: "header", name: "X-API-Key" },',
+    );
+    expect(result.content).toContain(
+      '"api-key-query": { in: "query", name: "api_key" },',
+    );
+    expect(result.content).toContain('session: { in: "cookie", name: "sid" },');
+    expect(result.content).toContain("security: SecurityScheme[][] = [],");
+    expect(result.content).toContain("query: auth.query,");
+  });
+
+  it("leaves out the auth configuration without security schemes", async () => {
+    const petstoreConfig: OpenAPISourceConfig = {
+      ...config,
+      spec: join(fixturesDir, "petstore.json"),
+    };
+    const schema = await openapiAdapter.loadSchema(petstoreConfig);
+    const result = openapiAdapter.generateClient(schema, petstoreConfig);
+
+    expect(result.content).not.toContain("setAuth");
+    expect(result.content).not.toContain("SecurityScheme");
+  });
+
+  it("passes each operation's security requirements to getClient", async () => {
+    const result = await generateFunctions();
+
+    expect(result.content).toContain(
+      'const $fetch = await getClient(options, [["bearerAuth"]])',
+    );
+    expect(result.content).toContain(
+      'const $fetch = await getClient(options, [["oauth2"], ["apiKey"]])',
+    );
+    expect(result.content).toContain(
+      'const $fetch = await getClient(options, [["basicAuth", "apiKey"]])',
+    );
+    expect(result.content).toContain('...options?.headers } }, [["session"]])');
+  });
+
+  it("sends no credentials for public operations", async () => {
+    const result = await generateFunctions();
+
+    expect(result.content).toMatch(
+      /export const getHealth = [^\n]*\n\s*const \$fetch = await getClient\(options\)\n/,
+    );
+  });
+});
+
+describe("http clients", () => {
+  const config: OpenAPISourceConfig = {
+    name: "petstore",
+    type: "openapi",
+    generates: ["query"],
+    spec: join(fixturesDir, "petstore.json"),
+    httpClient: "fetch",
+  };
+
+  const generate = async (overrides: Partial<OpenAPISourceConfig> = {}) => {
+    const sourceConfig = { ...config, ...overrides };
+    const schema = await openapiAdapter.loadSchema(sourceConfig);
+    return {
+      client: openapiAdapter.generateClient(schema, sourceConfig).content,
+      functions: openapiAdapter.generateFunctions(schema, sourceConfig, {
+        clientImportPath: "./client",
+        typesImportPath: "./schema",
+      }).content,
+    };
+  };
+
+  it("generates a native fetch client without dependencies", async () => {
+    const { client } = await generate();
+
+    expect(client).not.toContain("@better-fetch/fetch");
+    expect(client).toMatch(/^import [^\n]*$/m);
+    expect(client).toContain('import { clientConfig } from "./client.config"');
+    expect(client).toContain("): Promise<ClientFetch> => {");
+    expect(client).toContain("middlewareFetch(`${baseURL}${path}`, {");
+    expect(client).toContain(
+      'headers: { "Content-Type": "application/json", ...headers },',
+    );
+    expect(client).toContain("export interface StandardSchemaV1<");
+    expect(client).toContain("export class ValidationError extends Error {");
+    expect(client).toContain(
+      "export async function parseResponse<T = unknown>(",
+    );
+    expect(client).toContain(
+      "export async function toApiError(\n\tresponse: Response,",
+    );
+    // Error pages that are not JSON are kept as text rather than validated
+    expect(client).toContain(
+      "return new ApiError(status, statusText, text || undefined)",
+    );
+    expect(client).toContain(
+      'const result = await schema["~standard"].validate(body)',
+    );
+    // Only bodies that match their schema are typed with it
+    expect(client).toContain(
+      "if (result.issues) return new ApiError(status, statusText, body)",
+    );
+    expect(client).toContain(
+      "return new ApiError(status, statusText, result.value, true)",
+    );
+    expect(client).toContain("static [Symbol.hasInstance]<T>(");
+    expect(client).not.toContain("parseStandardSchema(schema, body)");
+  });
+
+  it("generates functions that check and read the Response", async () => {
+    const { functions } = await generate();
+
+    expect(functions).toContain(
+      'import { getClient, buildPath, buildQuery, toApiError, parseResponse } from "./client"',
+    );
+    expect(functions).toContain("const response = await $fetch(url)");
+    expect(functions).toContain(
+      "if (!response.ok) throw await toApiError(response)",
+    );
+    expect(functions).toContain(
+      "return parseResponse(response, listPetsResponseSchema)",
+    );
+    expect(functions).toContain(
+      'const response = await $fetch("/pets", {\n    method: "POST",\n    body,\n  })',
+    );
+    expect(functions).not.toContain("output:");
+    expect(functions).not.toContain("{ data, error }");
+  });
+
+  it("reads non-JSON bodies and response headers from the Response", async () => {
+    const { functions: bodies } = await generate({
+      spec: join(fixturesDir, "response-types.json"),
+    });
+    expect(bodies).toContain('return readBody(response, "blob")');
+    expect(bodies).toContain(
+      'parseEventStream(await readBody(response, "stream"))',
+    );
+    expect(bodies).not.toContain("readBodyAs");
+
+    const { functions: headers } = await generate({
+      spec: join(fixturesDir, "header-pagination.json"),
+    });
+    expect(headers).toContain(
+      'return { data: await parseResponse(response, listReposResponseSchema), headers: getHeaders(response, ["link"]) }',
+    );
+    expect(headers).not.toContain("readHeaders");
+  });
+
+  it("adds the query params of credentials to the URL", async () => {
+    const { client } = await generate({
+      spec: join(fixturesDir, "security.json"),
+    });
+
+    expect(client).toContain("security: SecurityScheme[][] = [],");
+    expect(client).toContain("function withQuery(url: string");
+    expect(client).toContain(
+      "middlewareFetch(withQuery(`${baseURL}${path}`, auth.query), {",
+    );
+  });
+
+  it.each([
+    ["ky", 'import ky from "ky"', "fetch: middlewareFetch,"],
+    [
+      "ofetch",
+      'import { ofetch } from "ofetch"',
+      "{ fetch: middlewareFetch as typeof fetch },",
+    ],
+    ["axios", 'import axios from "axios"', "env: { fetch: middlewareFetch },"],
+  ] as const)("sends requests with %s through the middleware", async (httpClient, importLine, middleware) => {
+    const { client, functions } = await generate({ httpClient });
+
+    expect(client).toContain(importLine);
+    expect(client).toContain(middleware);
+    expect(client).toContain(
+      `Returns a function sending requests with ${httpClient}`,
+    );
+    expect(client).not.toContain("@better-fetch/fetch");
+    expect(functions).toContain(
+      "if (!response.ok) throw await toApiError(response)",
+    );
+  });
+
+  it("keeps better-fetch as the default", async () => {
+    const { client, functions } = await generate({ httpClient: undefined });
+
+    expect(client).toContain(
+      'import { createFetch, parseStandardSchema } from "@better-fetch/fetch"',
+    );
+    expect(client).toContain("customFetchImpl: middlewareFetch,");
+    expect(client).not.toContain("ClientFetch");
+    expect(functions).toContain(
+      "const { data, error } = await $fetch<ListPetsResponse>",
+    );
+  });
+});
+
+describe("OpenAPI Collection Discovery", () => {
+  const config: OpenAPISourceConfig = {
+    name: "petstore",
+    type: "openapi",
+    generates: ["query", "db"],
+    spec: join(fixturesDir, "petstore.json"),
+  };
+
+  describe("discoverCollectionEntities", () => {
+    it("discovers entities from GET operations returning arrays", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+
+      expect(result.entities.length).toBeGreaterThan(0);
+
+      // Should discover Pet entity from listPets
+      const petEntity = result.entities.find((e) => e.name === "Pet");
+      expect(petEntity).toBeDefined();
+      expect(petEntity?.typeName).toBe("Pet");
+    });
+
+    it("auto-detects id field as key field", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+
+      const petEntity = result.entities.find((e) => e.name === "Pet");
+      expect(petEntity?.keyField).toBe("id");
+      expect(petEntity?.keyFieldType).toBe("string");
+    });
+
+    it("discovers list query from GET operation", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+
+      const petEntity = result.entities.find((e) => e.name === "Pet");
+      expect(petEntity?.listQuery.operationName).toBe("listPets");
+      expect(petEntity?.listQuery.queryKey).toEqual(["Pet"]);
+    });
+
+    it("discovers CRUD mutations for entities", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.discoverCollectionEntities(schema, config);
+
+      const petEntity = result.entities.find((e) => e.name === "Pet");
+      expect(petEntity?.mutations).toBeDefined();
+
+      // Should have insert mutation (POST /pets)
+      const insertMutation = petEntity?.mutations.find(
+        (m) => m.type === "insert",
+      );
+      expect(insertMutation).toBeDefined();
+      expect(insertMutation?.operationName).toBe("createPet");
+
+      // Should have update mutation (PUT /pets/{petId})
+      const updateMutation = petEntity?.mutations.find(
+        (m) => m.type === "update",
+      );
+      expect(updateMutation).toBeDefined();
+      expect(updateMutation?.operationName).toBe("updatePet");
+
+      // Should have delete mutation (DELETE /pets/{petId})
+      const deleteMutation = petEntity?.mutations.find(
+        (m) => m.type === "delete",
+      );
+      expect(deleteMutation).toBeDefined();
+      expect(deleteMutation?.operationName).toBe("deletePet");
+    });
+
+    it("supports keyField override via config", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.discoverCollectionEntities(schema, config, {
+        Pet: { keyField: "name" },
+      });
+
+      const petEntity = result.entities.find((e) => e.name === "Pet");
+      expect(petEntity?.keyField).toBe("name");
+    });
+
+    it("returns warning when key field not found", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.discoverCollectionEntities(schema, config, {
+        Pet: { keyField: "nonExistentField" },
+      });
+
+      expect(result.warnings.length).toBeGreaterThan(0);
+      expect(result.warnings.some((w) => w.includes("nonExistentField"))).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("generateCollections", () => {
+    it("generates collection options code", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.generateCollections(schema, config, {
+        typesImportPath: "./schema",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+      });
+
+      expect(result.filename).toBe("collections.ts");
       expect(result.content).toContain("queryCollectionOptions");
       expect(result.content).toContain("@tanstack/query-db-collection");
     });
@@ -2244,6 +4569,7 @@ describe("OpenAPI Collection Discovery", () => {
       const result = openapiAdapter.generateCollections(schema, config, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -2253,11 +4579,31 @@ describe("OpenAPI Collection Discovery", () => {
       expect(result.content).toContain("@tanstack/react-db");
     });
 
+    it("imports from the configured framework packages", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.generateCollections(schema, config, {
+        typesImportPath: "./schema",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+        framework: "core",
+      });
+
+      expect(result.content).toContain(
+        'import { createCollection } from "@tanstack/db"',
+      );
+      expect(result.content).toContain(
+        'import type { QueryClient } from "@tanstack/query-core"',
+      );
+      expect(result.content).not.toContain("@tanstack/react-");
+    });
+
     it("does not import unused entity types from types file", async () => {
       const schema = await openapiAdapter.loadSchema(config);
       const result = openapiAdapter.generateCollections(schema, config, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -2271,6 +4617,7 @@ describe("OpenAPI Collection Discovery", () => {
       const result = openapiAdapter.generateCollections(schema, config, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -2284,19 +4631,38 @@ describe("OpenAPI Collection Discovery", () => {
       const result = openapiAdapter.generateCollections(schema, config, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
       expect(result.content).toContain("queryKey:");
-      expect(result.content).toContain("queryFn:");
+      expect(result.content).toContain(
+        "queryFn: async ({ signal }) => listPets(undefined, { signal }),",
+      );
       expect(result.content).toContain("getKey:");
     });
 
+    it("nests the collection queryKey under its key factory's lists", async () => {
+      const schema = await openapiAdapter.loadSchema(config);
+      const result = openapiAdapter.generateCollections(schema, config, {
+        typesImportPath: "./schema",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "petstore",
+      });
+
+      expect(result.content).toContain('import { petsKeys } from "../keys"');
+      expect(result.content).toContain(
+        'queryKey: [...petsKeys.lists(), "Pet"],',
+      );
+    });
+
     it("generates persistence handlers (onInsert, onUpdate, onDelete) when mutations available", async () => {
       const schema = await openapiAdapter.loadSchema(config);
       const result = openapiAdapter.generateCollections(schema, config, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -2311,6 +4677,7 @@ describe("OpenAPI Collection Discovery", () => {
       const result = openapiAdapter.generateCollections(schema, config, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore",
       });
 
@@ -2407,6 +4774,7 @@ describe("OpenAPI Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "filterable",
           collectionOverrides: {
             Product: { syncMode: "on-demand" },
@@ -2437,6 +4805,7 @@ describe("OpenAPI Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "filterable",
           collectionOverrides: {
             Product: { syncMode: "on-demand" },
@@ -2457,6 +4826,7 @@ describe("OpenAPI Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "filterable",
           collectionOverrides: {
             Product: { syncMode: "on-demand", predicateMapping: "jsonapi" },
@@ -2477,6 +4847,7 @@ describe("OpenAPI Collection Discovery", () => {
         {
           typesImportPath: "./schema",
           functionsImportPath: "../functions",
+          keysImportPath: "../keys",
           sourceName: "filterable",
         },
       );
@@ -2555,11 +4926,14 @@ describe("OpenAPI Collection Discovery", () => {
       const result = openapiAdapter.generateCollections(schema, wrappedConfig, {
         typesImportPath: "./schema",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "petstore-wrapped",
       });
 
       // Should generate response selector in queryFn
-      expect(result.content).toContain("const response = await listPets()");
+      expect(result.content).toContain(
+        "queryFn: async ({ signal }) => {\n        const response = await listPets(undefined, { signal })",
+      );
       expect(result.content).toContain("return response.data");
     });
 
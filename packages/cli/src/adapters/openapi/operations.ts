@@ -6,26 +6,87 @@
  */
 
 import {
+  resolveInvalidatedQueries,
+  writeInvalidationMap,
+  writeInvalidationOnSuccess,
+} from "@/generators/invalidation";
+import {
+  OPTIMISTIC_CONTEXT_TYPE,
+  writeOptimisticHandlers,
+  writeOptimisticUpdates,
+} from "@/generators/optimistic";
+import {
+  canFetchPreviousPages,
+  formatLinkPageParam,
+  formatPreviousPageParam,
+  formatRelayPageParamType,
+  formatRelayPageParams,
+  getPageParamNames,
+  getRelayCursorParams,
+  getRelayPageSizeWarning,
+} from "@/generators/page-params";
+import {
+  addQueryKey,
+  generateQueryKeysCode,
+  getQueryKeyCall,
+  getQueryKeyPrefix,
+  isDetailQueryKey,
+  toQueryKeyGroupName,
+} from "@/generators/query-keys";
+import {
+  formatOptionsParam,
+  writeSuspenseQueries,
+} from "@/generators/suspense";
+import {
+  STREAMED_QUERY_IMPORT,
+  getFrameworkPackages,
+  writeCoreQueryHelpers,
+  writeQueryHelperImports,
+} from "@/utils/framework";
+import {
+  getSafePropertyAccess,
+  toApiErrorTypeName,
   toCamelCase,
+  toInfiniteQueryKeyName,
   toInfiniteQueryOptionsName,
   toPascalCase,
+  toQueryKeysName,
 } from "@/utils/naming";
 import {
   createWriter,
+  writeDocComment,
   writeHeader,
   writeImport,
   writeSectionComment,
 } from "@/utils/writer";
+import {
+  getEventType,
+  getMutationVariablesType,
+  getOperationDoc,
+  hasLinkPagination,
+  hasOptionalQueryParams,
+} from "./functions";
 
 import type CodeBlockWriter from "code-block-writer";
 import type {
+  Framework,
   InfiniteQueryOverrideConfig,
   OpenAPISourceConfig,
   QueryOverridesConfig,
 } from "@/core/config";
+import type { MutationInvalidation } from "@/generators/invalidation";
+import type {
+  MutationOptimisticUpdate,
+  OptimisticQueryUpdate,
+} from "@/generators/optimistic";
+import type { RelayCursorParams } from "@/generators/page-params";
+import type { QueryKeyGroup } from "@/generators/query-keys";
+import type { OptionsParam, SuspenseQuery } from "@/generators/suspense";
 import type {
+  CollectionEntity,
   GeneratedFile,
   InfiniteQueryPaginationInfo,
+  KeysGenOptions,
   OpenAPIAdapterSchema,
   OperationGenOptions,
 } from "../types";
@@ -37,6 +98,8 @@ import type { ParsedOperation } from "./schema";
 export interface OpenAPIOperationGenOptions extends OperationGenOptions {
   /** Query overrides from config */
   queryOverrides?: QueryOverridesConfig;
+  /** Discovered entities, for optimistic updates */
+  entities?: CollectionEntity[];
 }
 
 /**
@@ -68,11 +131,38 @@ export function generateOpenAPIOperations(
   );
 
   // Check which queries have infinite query options
-  const infiniteQueries = queries.filter((op) => {
-    const override = options.queryOverrides?.operations?.[op.operationId];
-    if (override?.disabled) return false;
-    return canGenerateInfiniteQuery(op, override, warnings);
-  });
+  const infiniteQueries = getInfiniteQueries(
+    queries,
+    options.queryOverrides,
+    warnings,
+  );
+  const keyGroups = getOpenAPIQueryKeyGroups(
+    queries,
+    infiniteQueries,
+    options.sourceName,
+  );
+  const invalidations = getOpenAPIMutationInvalidations(
+    queries,
+    mutations,
+    keyGroups,
+    options.queryOverrides,
+    warnings,
+  );
+  const optimisticUpdates = getOpenAPIOptimisticUpdates(
+    queries,
+    mutations,
+    keyGroups,
+    options.entities ?? [],
+    options.queryOverrides,
+    warnings,
+  );
+  const suspenseQueries = options.queryOverrides?.suspense
+    ? getOpenAPISuspenseQueries(
+        queries,
+        infiniteQueries,
+        options.queryOverrides,
+      )
+    : [];
 
   // External imports (sorted alphabetically)
   const tanstackImports: string[] = [];
@@ -80,35 +170,98 @@ export function generateOpenAPIOperations(
   if (mutations.length > 0) tanstackImports.push("mutationOptions");
   if (queries.length > 0) tanstackImports.push("queryOptions");
 
+  const valueImports = queries.some(
+    (op) => op.responseBodyType === "event-stream",
+  )
+    ? [STREAMED_QUERY_IMPORT]
+    : [];
+
   if (tanstackImports.length > 0) {
-    writeImport(writer, "@tanstack/react-query", tanstackImports);
+    writeQueryHelperImports(
+      writer,
+      options.framework,
+      tanstackImports,
+      valueImports,
+    );
   }
 
   // Internal imports (sorted alphabetically)
-  const functionImports = getFunctionImports(operations);
+  const functionImports = getFunctionImports(operations, infiniteQueries);
   if (functionImports.length > 0) {
     writer.blankLine();
     writeImport(writer, options.functionsImportPath, functionImports);
   }
+  if (keyGroups.length > 0) {
+    writeImport(
+      writer,
+      options.keysImportPath,
+      keyGroups.map((group) => toQueryKeysName(group.name)),
+    );
+  }
 
   // Type imports (sorted alphabetically, always last with blank line)
-  const typeImports = generateTypeImports(operations, infiniteQueries);
-  if (typeImports.length > 0) {
+  const typedErrors = hasTypedErrors(options.framework);
+  const queryTypeImports = new Set<string>();
+  if (
+    typedErrors &&
+    infiniteQueries.some((op) =>
+      getInfiniteQueryGenerics(
+        op,
+        options.queryOverrides?.operations?.[op.operationId],
+      ),
+    )
+  ) {
+    queryTypeImports.add("InfiniteData").add("QueryKey");
+  }
+  if (invalidations.length > 0 || optimisticUpdates.length > 0) {
+    queryTypeImports.add("QueryClient").add("QueryKey");
+  }
+  if (suspenseQueries.length > 0) {
+    queryTypeImports.add("QueryClient").add("SkipToken");
+  }
+  const errorTypeImports = typedErrors
+    ? operations
+        .filter((op) => op.errorResponses.length > 0)
+        .map((op) => toApiErrorTypeName(op.operationId))
+    : [];
+  const typeImports = generateTypeImports(
+    operations,
+    infiniteQueries,
+    typedErrors,
+    optimisticUpdates.flatMap((u) => u.queries.map((q) => q.dataType)),
+  );
+  if (
+    queryTypeImports.size > 0 ||
+    errorTypeImports.length > 0 ||
+    typeImports.length > 0
+  ) {
     writer.blankLine();
-    writeImport(writer, options.typesImportPath, typeImports, true);
   }
+  writeImport(
+    writer,
+    getFrameworkPackages(options.framework).query,
+    [...queryTypeImports].sort(),
+    true,
+  );
+  writeImport(writer, options.functionsImportPath, errorTypeImports, true);
+  writeImport(writer, options.typesImportPath, typeImports, true);
 
   writer.blankLine();
 
-  // Always include source name in query keys for consistency
-  const queryKeyPrefix = `"${options.sourceName}", `;
+  if (options.framework === "core" && tanstackImports.length > 0) {
+    writeCoreQueryHelpers(writer, tanstackImports);
+    writer.blankLine();
+  }
+
+  // Always include source name in mutation keys for consistency
+  const mutationKeyPrefix = `"${options.sourceName}", `;
 
   // Generate query options for GET operations
   if (queries.length > 0) {
     writeSectionComment(writer, "Query Options (GET operations)");
     writer.blankLine();
     for (const op of queries) {
-      writeQueryOption(writer, op, queryKeyPrefix);
+      writeQueryOption(writer, op, keyGroups, typedErrors);
       writer.blankLine();
     }
   }
@@ -122,11 +275,29 @@ export function generateOpenAPIOperations(
     writer.blankLine();
     for (const op of infiniteQueries) {
       const override = options.queryOverrides?.operations?.[op.operationId];
-      writeInfiniteQueryOption(writer, op, queryKeyPrefix, override);
+      writeInfiniteQueryOption(writer, op, keyGroups, typedErrors, override);
       writer.blankLine();
     }
   }
 
+  // Generate suspense options and ensure helpers when opted in
+  if (suspenseQueries.length > 0) {
+    writeSuspenseQueries(writer, suspenseQueries);
+    writer.blankLine();
+  }
+
+  // Generate the queries each mutation invalidates
+  if (invalidations.length > 0) {
+    writeInvalidationMap(writer, invalidations);
+    writer.blankLine();
+  }
+
+  // Generate the optimistic updates of mutations that opt in
+  if (optimisticUpdates.length > 0) {
+    writeOptimisticUpdates(writer, optimisticUpdates);
+    writer.blankLine();
+  }
+
   // Generate mutation options for POST/PUT/PATCH/DELETE operations
   if (mutations.length > 0) {
     writeSectionComment(
@@ -135,7 +306,15 @@ export function generateOpenAPIOperations(
     );
     writer.blankLine();
     for (const op of mutations) {
-      writeMutationOption(writer, op, queryKeyPrefix);
+      const name = toCamelCase(op.operationId);
+      writeMutationOption(
+        writer,
+        op,
+        mutationKeyPrefix,
+        typedErrors,
+        invalidations.find((i) => i.name === name),
+        optimisticUpdates.find((u) => u.name === name),
+      );
       writer.blankLine();
     }
   }
@@ -150,8 +329,15 @@ export function generateOpenAPIOperations(
 /**
  * Get function import names for all operations
  */
-function getFunctionImports(operations: ParsedOperation[]): string[] {
-  return operations.map((op) => toCamelCase(op.operationId));
+function getFunctionImports(
+  operations: ParsedOperation[],
+  infiniteQueries: ParsedOperation[],
+): string[] {
+  const imports = operations.map((op) => toCamelCase(op.operationId));
+  if (hasLinkPagination(infiniteQueries)) {
+    imports.push("getLinkParam");
+  }
+  return imports;
 }
 
 /**
@@ -160,21 +346,42 @@ function getFunctionImports(operations: ParsedOperation[]): string[] {
 function generateTypeImports(
   operations: ParsedOperation[],
   _infiniteQueries: ParsedOperation[],
+  typedErrors: boolean,
+  optimisticDataTypes: string[],
 ): string[] {
   const typeImportsSet = new Set<string>();
 
   for (const op of operations) {
     const baseName = toPascalCase(op.operationId);
     const isQuery = op.method === "get";
-    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0;
+    const hasRequestParams =
+      op.headerParams.length > 0 || op.cookieParams.length > 0;
+    const hasParams =
+      op.pathParams.length > 0 || op.queryParams.length > 0 || hasRequestParams;
+
+    // Response and event types (used as type arguments alongside typed errors)
+    if (typedErrors && op.errorResponses.length > 0) {
+      if (op.responseSchema && !op.responseHeaders) {
+        typeImportsSet.add(`${baseName}Response`);
+      }
+      if (op.eventSchema) {
+        typeImportsSet.add(`${baseName}Event`);
+      }
+    }
+
+    // Response types of the queries patched by optimistic updates
+    if (optimisticDataTypes.includes(`${baseName}Response`)) {
+      typeImportsSet.add(`${baseName}Response`);
+    }
 
     // Request body type (only for mutations)
     if (op.requestBody) {
       typeImportsSet.add(`${baseName}Request`);
     }
 
-    // Params type (only for queries - mutations inline their types)
-    if (hasParams && isQuery) {
+    // Params type (queries use it directly - mutations inline their types and
+    // only reference Params for header/cookie param types)
+    if (hasParams && (isQuery || hasRequestParams)) {
       typeImportsSet.add(`${baseName}Params`);
     }
   }
@@ -182,6 +389,128 @@ function generateTypeImports(
   return [...typeImportsSet].sort();
 }
 
+/**
+ * Check if options helpers accept explicit type arguments for typed errors.
+ * The "core" target's local identity helpers take a single options type.
+ */
+function hasTypedErrors(framework?: Framework): boolean {
+  return framework !== "core";
+}
+
+/**
+ * Get the type returned by an operation's fetch function
+ */
+function getResponseDataType(op: ParsedOperation): string {
+  // Operations that paginate with headers return them alongside the data
+  if (op.responseHeaders) {
+    return `Awaited<ReturnType<typeof ${toCamelCase(op.operationId)}>>`;
+  }
+  switch (op.responseBodyType) {
+    case "void":
+      return "void";
+    case "text":
+      return "string";
+    case "blob":
+      return "Blob";
+    case "stream":
+      return "ReadableStream<Uint8Array>";
+    case "event-stream":
+      return `AsyncGenerator<${getEventType(op)}>`;
+    default:
+      return op.responseSchema
+        ? `${toPascalCase(op.operationId)}Response`
+        : "unknown";
+  }
+}
+
+/**
+ * Get the type arguments for queryOptions/mutationOptions that type the
+ * error as the operation's ApiError union (empty when it declares no errors)
+ * e.g., `<GetPetResponse, GetPetApiError>`
+ */
+function getErrorGenerics(op: ParsedOperation, ...rest: string[]): string {
+  if (op.errorResponses.length === 0) return "";
+  const generics = [
+    getResponseDataType(op),
+    toApiErrorTypeName(op.operationId),
+    ...rest,
+  ];
+  return `<${generics.join(", ")}>`;
+}
+
+/**
+ * Get the type arguments for infiniteQueryOptions that type the error as the
+ * operation's ApiError union. Returns an empty string when the operation
+ * declares no errors, or null when the page param type cannot be determined.
+ * e.g., `<ListPetsResponse, ListPetsApiError, InfiniteData<ListPetsResponse, number>, QueryKey, number>`
+ */
+function getInfiniteQueryGenerics(
+  op: ParsedOperation,
+  override?: InfiniteQueryOverrideConfig,
+): string | null {
+  if (op.errorResponses.length === 0 || !op.paginationInfo) return "";
+
+  const initialPageParam =
+    override?.initialPageParam ?? getDefaultInitialPageParam(op.paginationInfo);
+  const cursorParams = getRelayCursorParams(op.paginationInfo, override);
+  let pageParamType: string;
+  if (cursorParams) {
+    pageParamType = formatRelayPageParamType(
+      `${toPascalCase(op.operationId)}Params`,
+      cursorParams,
+    );
+  } else if (typeof initialPageParam === "number") {
+    pageParamType = "number";
+  } else if (typeof initialPageParam === "string") {
+    pageParamType = "string";
+  } else if (
+    initialPageParam === undefined &&
+    (op.paginationInfo.params.style === "cursor" ||
+      op.paginationInfo.params.style === "relay")
+  ) {
+    pageParamType = "string | undefined";
+  } else {
+    return null;
+  }
+
+  const dataType = getResponseDataType(op);
+  return `<${dataType}, ${toApiErrorTypeName(op.operationId)}, InfiniteData<${dataType}, ${pageParamType}>, QueryKey, ${pageParamType}>`;
+}
+
+/**
+ * Get the GET operations that have infinite query options
+ */
+export function getInfiniteQueries(
+  queries: ParsedOperation[],
+  queryOverrides: QueryOverridesConfig | undefined,
+  warnings: string[],
+): ParsedOperation[] {
+  return queries.filter((op) => {
+    const override = queryOverrides?.operations?.[op.operationId];
+    if (override?.disabled) return false;
+    if (!canGenerateInfiniteQuery(op, override, warnings)) return false;
+    const pageSizeWarning =
+      op.paginationInfo &&
+      getRelayPageSizeWarning(
+        `Operation "${op.operationId}"`,
+        op.paginationInfo,
+        override,
+      );
+    if (pageSizeWarning) warnings.push(pageSizeWarning);
+    if (
+      override?.maxPages &&
+      !canFetchPreviousPages(op.paginationInfo, override)
+    ) {
+      warnings.push(
+        `Operation "${op.operationId}" sets maxPages but its previous page param could not be determined, ` +
+          `so pages dropped by maxPages cannot be fetched again. ` +
+          `Configure 'overrides.query.operations.${op.operationId}.getPreviousPageParamPath' to enable.`,
+      );
+    }
+    return true;
+  });
+}
+
 /**
  * Check if we can generate infinite query options for an operation
  */
@@ -215,110 +544,185 @@ function canGenerateInfiniteQuery(
   return true;
 }
 
+/**
+ * Get the params of a GET operation's queryOptions (undefined when it has
+ * none). Query params are optional, path and required header/cookie params
+ * are required.
+ */
+function getQueryParam(op: ParsedOperation): OptionsParam | undefined {
+  const hasParams =
+    op.pathParams.length > 0 ||
+    op.queryParams.length > 0 ||
+    op.headerParams.length > 0 ||
+    op.cookieParams.length > 0;
+  if (!hasParams) return undefined;
+  return {
+    name: "params",
+    type: `${toPascalCase(op.operationId)}Params`,
+    optional: hasOptionalQueryParams(op),
+  };
+}
+
+/**
+ * Get the params of a paginated GET operation's infiniteQueryOptions, which
+ * omit the page param (undefined when it has no other params)
+ */
+function getInfiniteQueryParam(
+  op: ParsedOperation,
+  pageParamNames: string[],
+): OptionsParam | undefined {
+  const hasOtherParams =
+    op.pathParams.length > 0 ||
+    op.queryParams.some((p) => !pageParamNames.includes(p.name)) ||
+    op.headerParams.length > 0 ||
+    op.cookieParams.length > 0;
+  if (!hasOtherParams) return undefined;
+  return {
+    name: "params",
+    type: `Omit<${toPascalCase(op.operationId)}Params, ${pageParamNames.map((name) => `"${name}"`).join(" | ")}>`,
+    optional: hasOptionalQueryParams(op),
+  };
+}
+
+/**
+ * Get the queries with suspense options: every query and infinite query,
+ * except event streams, whose data is never complete
+ */
+function getOpenAPISuspenseQueries(
+  queries: ParsedOperation[],
+  infiniteQueries: ParsedOperation[],
+  queryOverrides: QueryOverridesConfig | undefined,
+): SuspenseQuery[] {
+  const suspenseQueries: SuspenseQuery[] = queries
+    .filter((op) => op.responseBodyType !== "event-stream")
+    .map((op) => ({
+      name: op.operationId,
+      infinite: false,
+      param: getQueryParam(op),
+    }));
+  for (const op of infiniteQueries) {
+    if (!op.paginationInfo) continue;
+    suspenseQueries.push({
+      name: op.operationId,
+      infinite: true,
+      param: getInfiniteQueryParam(
+        op,
+        getPageParamNames(
+          op.paginationInfo,
+          queryOverrides?.operations?.[op.operationId],
+        ),
+      ),
+    });
+  }
+  return suspenseQueries;
+}
+
 /**
  * Write queryOptions for a GET operation
  */
 function writeQueryOption(
   writer: CodeBlockWriter,
   op: ParsedOperation,
-  keyPrefix: string,
+  keyGroups: QueryKeyGroup[],
+  typedErrors: boolean,
 ): void {
-  const baseName = toPascalCase(op.operationId);
   const optionsFnName = `${toCamelCase(op.operationId)}QueryOptions`;
   const fetchFnName = toCamelCase(op.operationId);
-  const hasPathParams = op.pathParams.length > 0;
-  const hasQueryParams = op.queryParams.length > 0;
-  const hasParams = hasPathParams || hasQueryParams;
-
-  const paramsType = hasParams ? `${baseName}Params` : null;
+  const param = getQueryParam(op);
+  const hasParams = !!param;
 
-  // Build query key
-  const queryKey = hasParams
-    ? `[${keyPrefix}"${op.operationId}", params]`
-    : `[${keyPrefix}"${op.operationId}"]`;
-
-  if (!hasParams) {
-    writer.write(`export const ${optionsFnName} = () =>`).newLine();
-    writer
-      .indent()
-      .write("queryOptions(")
-      .inlineBlock(() => {
-        writer.writeLine(`queryKey: ${queryKey},`);
-        writer.writeLine(`queryFn: () => ${fetchFnName}(),`);
-      })
-      .write(")");
-    return;
+  // Event streams are collected into an array of events by streamedQuery
+  const isStreamed = op.responseBodyType === "event-stream";
+  let generics = typedErrors ? getErrorGenerics(op) : "";
+  if (generics && isStreamed) {
+    generics = `<${getEventType(op)}[], ${toApiErrorTypeName(op.operationId)}>`;
   }
+  // The signal TanStack Query passes cancels the request
+  const fetchArgs = hasParams ? "params, { signal }" : "{ signal }";
+  const fetchCall = `${fetchFnName}(${fetchArgs})`;
+  const queryFn = isStreamed
+    ? `streamedQuery({ streamFn: ({ signal }) => ${fetchCall} })`
+    : `({ signal }) => ${fetchCall}`;
 
-  // Query params are optional, path params are required
-  const paramModifier = hasPathParams ? "" : "?";
+  // Build query key from the key factory
+  const queryKey = getQueryKeyCall(
+    keyGroups,
+    toCamelCase(op.operationId),
+    hasParams ? "params" : "",
+  );
 
+  writeDocComment(writer, getOperationDoc(op));
   writer
-    .write(
-      `export const ${optionsFnName} = (params${paramModifier}: ${paramsType}) =>`,
-    )
+    .write(`export const ${optionsFnName} = (${formatOptionsParam(param)}) =>`)
     .newLine();
   writer
     .indent()
-    .write("queryOptions(")
+    .write(`queryOptions${generics}(`)
     .inlineBlock(() => {
       writer.writeLine(`queryKey: ${queryKey},`);
-      writer.writeLine(`queryFn: () => ${fetchFnName}(params),`);
+      writer.writeLine(`queryFn: ${queryFn},`);
     })
     .write(")");
 }
 
 /**
- * Write mutationOptions for POST/PUT/PATCH/DELETE operations
+ * Write mutationOptions for POST/PUT/PATCH/DELETE operations. Mutations that
+ * invalidate or optimistically update queries take an optional query client
+ * to do so with.
  */
 function writeMutationOption(
   writer: CodeBlockWriter,
   op: ParsedOperation,
   keyPrefix: string,
+  typedErrors: boolean,
+  invalidation?: MutationInvalidation,
+  optimisticUpdate?: MutationOptimisticUpdate,
 ): void {
-  const baseName = toPascalCase(op.operationId);
   const optionsFnName = `${toCamelCase(op.operationId)}MutationOptions`;
   const fetchFnName = toCamelCase(op.operationId);
-  const hasPathParams = op.pathParams.length > 0;
-  const hasBody = !!op.requestBody;
-
-  const requestType = hasBody ? `${baseName}Request` : null;
 
   // Build mutation key
   const mutationKey = `[${keyPrefix}"${op.operationId}"]`;
 
-  // Determine mutationFn variables type
-  let variablesType: string;
-  if (hasPathParams && hasBody) {
-    // Extract path param names for the type
-    const pathParamTypes = op.pathParams
-      .map((p) => `${p.name}: string`)
-      .join("; ");
-    variablesType = `{ ${pathParamTypes}; body: ${requestType} }`;
-  } else if (hasPathParams) {
-    const pathParamTypes = op.pathParams
-      .map((p) => `${p.name}: string`)
-      .join("; ");
-    variablesType = `{ ${pathParamTypes} }`;
-  } else if (hasBody && requestType) {
-    variablesType = `{ body: ${requestType} }`;
-  } else {
-    variablesType = "void";
+  // Determine mutationFn variables type (shared with the functions.ts signature)
+  const variablesType = getMutationVariablesType(op);
+  let generics = "";
+  if (typedErrors) {
+    if (variablesType === "void") {
+      generics = getErrorGenerics(op);
+    } else if (optimisticUpdate) {
+      generics = getErrorGenerics(op, variablesType, OPTIMISTIC_CONTEXT_TYPE);
+    } else {
+      generics = getErrorGenerics(op, variablesType);
+    }
   }
 
-  writer.write(`export const ${optionsFnName} = () =>`).newLine();
+  // Event-stream functions are async generators, so mutationFn wraps them in
+  // a promise resolving to the (unconsumed) generator
+  const asyncModifier = op.responseBodyType === "event-stream" ? "async " : "";
+
+  const param =
+    invalidation || optimisticUpdate ? "queryClient?: QueryClient" : "";
+
+  writeDocComment(writer, getOperationDoc(op));
+  writer.write(`export const ${optionsFnName} = (${param}) =>`).newLine();
   writer
     .indent()
-    .write("mutationOptions(")
+    .write(`mutationOptions${generics}(`)
     .inlineBlock(() => {
       writer.writeLine(`mutationKey: ${mutationKey},`);
       if (variablesType === "void") {
-        writer.writeLine(`mutationFn: () => ${fetchFnName}(),`);
+        writer.writeLine(`mutationFn: ${asyncModifier}() => ${fetchFnName}(),`);
       } else {
         writer.writeLine(
-          `mutationFn: (variables: ${variablesType}) => ${fetchFnName}(variables),`,
+          `mutationFn: ${asyncModifier}(variables: ${variablesType}) => ${fetchFnName}(variables),`,
         );
       }
+      if (optimisticUpdate) {
+        writeOptimisticHandlers(writer, optimisticUpdate, invalidation);
+      } else if (invalidation) {
+        writeInvalidationOnSuccess(writer, invalidation);
+      }
     })
     .write(")");
 }
@@ -333,71 +737,86 @@ function writeMutationOption(
 function writeInfiniteQueryOption(
   writer: CodeBlockWriter,
   op: ParsedOperation,
-  keyPrefix: string,
+  keyGroups: QueryKeyGroup[],
+  typedErrors: boolean,
   override?: InfiniteQueryOverrideConfig,
 ): void {
   const paginationInfo = op.paginationInfo;
   if (!paginationInfo) return;
 
-  const baseName = toPascalCase(op.operationId);
+  const generics = typedErrors
+    ? (getInfiniteQueryGenerics(op, override) ?? "")
+    : "";
+
   const optionsFnName = toInfiniteQueryOptionsName(op.operationId);
   const fetchFnName = toCamelCase(op.operationId);
   const pageParamName = paginationInfo.pageParamName;
-
-  // Determine if we have other params besides the page param
-  const hasPathParams = op.pathParams.length > 0;
-  const otherQueryParams = op.queryParams.filter(
-    (p) => p.name !== pageParamName,
+  const param = getInfiniteQueryParam(
+    op,
+    getPageParamNames(paginationInfo, override),
   );
-  const hasOtherParams = hasPathParams || otherQueryParams.length > 0;
 
-  // Determine params type (Omit the page param if we have other params)
-  let paramsType: string | null = null;
-  if (hasOtherParams) {
-    paramsType = `Omit<${baseName}Params, "${pageParamName}">`;
-  }
-
-  // Build query key (excludes page param, includes "infinite" segment)
-  const queryKey = paramsType
-    ? `[${keyPrefix}"${op.operationId}", "infinite", params]`
-    : `[${keyPrefix}"${op.operationId}", "infinite"]`;
+  // Build query key from the key factory (excludes page param)
+  const queryKey = getQueryKeyCall(
+    keyGroups,
+    toInfiniteQueryKeyName(op.operationId),
+    param ? "params" : "",
+  );
 
   // Determine initialPageParam
   const initialPageParam =
     override?.initialPageParam ?? getDefaultInitialPageParam(paginationInfo);
 
-  // Generate getNextPageParam expression
-  const getNextPageParamExpr = override?.getNextPageParamPath
-    ? generateAccessorFromPath(override.getNextPageParamPath)
-    : generateGetNextPageParam(paginationInfo);
-
-  // Write the function
-  if (!paramsType) {
-    writer.write(`export const ${optionsFnName} = () =>`).newLine();
-  } else {
-    // Query params are optional, path params are required
-    const paramModifier = hasPathParams ? "" : "?";
+  // Relay pagination that pages backward holds both cursors in its page param
+  const cursorParams = getRelayCursorParams(paginationInfo, override);
+  if (cursorParams) {
+    writeDocComment(writer, getOperationDoc(op));
     writer
       .write(
-        `export const ${optionsFnName} = (params${paramModifier}: ${paramsType}) =>`,
+        `export const ${optionsFnName} = (${formatOptionsParam(param)}) =>`,
       )
       .newLine();
+    writeRelayInfiniteQueryOptions(
+      writer,
+      op,
+      paginationInfo,
+      cursorParams,
+      queryKey,
+      generics,
+      override,
+    );
+    return;
   }
 
+  // Generate getNextPageParam and getPreviousPageParam expressions
+  const getNextPageParamExpr = override?.getNextPageParamPath
+    ? generateAccessorFromPath(override.getNextPageParamPath)
+    : generateGetNextPageParam(paginationInfo);
+  const getPreviousPageParamExpr = formatPreviousPageParam(
+    paginationInfo,
+    override,
+  );
+
+  // Write the function
+  writeDocComment(writer, getOperationDoc(op));
+  writer
+    .write(`export const ${optionsFnName} = (${formatOptionsParam(param)}) =>`)
+    .newLine();
+
   writer
     .indent()
-    .write("infiniteQueryOptions(")
+    .write(`infiniteQueryOptions${generics}(`)
     .inlineBlock(() => {
       writer.writeLine(`queryKey: ${queryKey},`);
 
       // queryFn with pageParam
-      if (paramsType) {
+      if (param) {
         writer.writeLine(
-          `queryFn: ({ pageParam }) => ${fetchFnName}({ ...params, ${pageParamName}: pageParam }),`,
+          `queryFn: ({ pageParam, signal }) => ${fetchFnName}({ ...params, ${pageParamName}: pageParam }, { signal }),`,
         );
       } else {
         writer.writeLine(
-          `queryFn: ({ pageParam }) => ${fetchFnName}({ ${pageParamName}: pageParam }),`,
+          `queryFn: ({ pageParam, signal }) => ${fetchFnName}({ ${pageParamName}: pageParam }, { signal }),`,
         );
       }
 
@@ -431,6 +850,69 @@ function writeInfiniteQueryOption(
       writer.writeLine(
         `getNextPageParam: ${getNextPageParamArgs} => ${getNextPageParamExpr},`,
       );
+      if (getPreviousPageParamExpr) {
+        writer.writeLine(
+          `getPreviousPageParam: (firstPage) => ${getPreviousPageParamExpr},`,
+        );
+      }
+      if (override?.maxPages) {
+        writer.writeLine(`maxPages: ${override.maxPages},`);
+      }
+    })
+    .write(")");
+}
+
+/**
+ * Write the infiniteQueryOptions call of Relay pagination that pages
+ * backward. Next pages pass their cursor as "after", and previous pages pass
+ * theirs as "before", with the page size as "last".
+ */
+function writeRelayInfiniteQueryOptions(
+  writer: CodeBlockWriter,
+  op: ParsedOperation,
+  paginationInfo: InfiniteQueryPaginationInfo,
+  cursorParams: RelayCursorParams,
+  queryKey: string,
+  generics: string,
+  override?: InfiniteQueryOverrideConfig,
+): void {
+  const fetchFnName = toCamelCase(op.operationId);
+  const { next, first, last } = cursorParams;
+  const pageParamType = formatRelayPageParamType(
+    `${toPascalCase(op.operationId)}Params`,
+    cursorParams,
+  );
+  // The options take "first" with their other params
+  const param = getInfiniteQueryParam(op, [next, cursorParams.previous, last]);
+  const pageSize = `params${param?.optional ? "?." : "."}${first}`;
+  const pageParams = formatRelayPageParams(
+    paginationInfo,
+    cursorParams,
+    pageSize,
+  );
+  const initialPageParam =
+    typeof override?.initialPageParam === "string"
+      ? `{ ${next}: ${JSON.stringify(override.initialPageParam)} }`
+      : "{}";
+
+  writer
+    .indent()
+    .write(`infiniteQueryOptions${generics}(`)
+    .inlineBlock(() => {
+      writer.writeLine(`queryKey: ${queryKey},`);
+      writer.writeLine(
+        `queryFn: ({ pageParam, signal }) => ${fetchFnName}({ ...params, ...pageParam }, { signal }),`,
+      );
+      writer.writeLine(
+        `initialPageParam: ${initialPageParam} as ${pageParamType},`,
+      );
+      writer.writeLine(`getNextPageParam: (lastPage) => ${pageParams.next},`);
+      writer.writeLine(
+        `getPreviousPageParam: (firstPage) => ${pageParams.previous},`,
+      );
+      if (override?.maxPages) {
+        writer.writeLine(`maxPages: ${override.maxPages},`);
+      }
     })
     .write(")");
 }
@@ -464,8 +946,14 @@ function generateGetNextPageParam(
 
   switch (response.style) {
     case "cursor":
+      if (response.nextCursorHeader) {
+        return `${getSafePropertyAccess("lastPage.headers", response.nextCursorHeader)} ?? undefined`;
+      }
       return `lastPage.${response.nextCursorField}`;
 
+    case "link":
+      return formatLinkPageParam(paginationInfo, "lastPage", "next");
+
     case "relay": {
       const hasMorePath =
         response.hasMorePath?.join("?.") ?? "pageInfo?.hasNextPage";
@@ -498,6 +986,23 @@ function generateGetNextPageParam(
           `? (lastPageParam ?? 0) + (params?.${limitParam} ?? 20) : undefined`
         );
       }
+      // Total count header, for offset or page pagination
+      if (response.totalHeader) {
+        const total = `Number(${getSafePropertyAccess("lastPage.headers", response.totalHeader)})`;
+        if (params.style === "page") {
+          const perPageParam =
+            params.perPageParam ?? params.limitParam ?? "perPage";
+          return (
+            `(lastPageParam ?? 1) * (params?.${perPageParam} ?? 20) < ${total} ` +
+            "? (lastPageParam ?? 1) + 1 : undefined"
+          );
+        }
+        const limitParam = params.limitParam ?? "limit";
+        return (
+          `(lastPageParam ?? 0) + (params?.${limitParam} ?? 20) < ${total} ` +
+          `? (lastPageParam ?? 0) + (params?.${limitParam} ?? 20) : undefined`
+        );
+      }
       return "undefined";
     }
 
@@ -513,3 +1018,391 @@ function generateAccessorFromPath(path: string): string {
   const parts = path.split(".");
   return `lastPage.${parts.join("?.")}`;
 }
+
+// =============================================================================
+// Query Keys Generation
+// =============================================================================
+
+/**
+ * Generate the query key factories of an OpenAPI source
+ */
+export function generateOpenAPIKeys(
+  operations: ParsedOperation[],
+  options: KeysGenOptions,
+): GeneratedFile {
+  const queries = operations.filter((op) => op.method === "get");
+  const infiniteQueries = getInfiniteQueries(
+    queries,
+    options.queryOverrides,
+    [],
+  );
+  const keyGroups = getOpenAPIQueryKeyGroups(
+    queries,
+    infiniteQueries,
+    options.sourceName,
+  );
+
+  const typeImports = queries
+    .filter(hasParams)
+    .map((op) => `${toPascalCase(op.operationId)}Params`);
+
+  return {
+    filename: "keys.ts",
+    content: generateQueryKeysCode(keyGroups, {
+      sourceName: options.sourceName,
+      typesImportPath: options.typesImportPath,
+      typeImports,
+    }),
+  };
+}
+
+/**
+ * Get the query key group of an operation: its first tag, or else the first
+ * path segment that is not a parameter, `api`, or a version
+ * e.g., "/v1/pets/{petId}" -> "pets"
+ */
+export function getOpenAPIQueryKeyGroupName(
+  op: ParsedOperation,
+  sourceName: string,
+): string {
+  const tag = op.operation.tags?.[0];
+  if (tag) {
+    return toQueryKeyGroupName(tag, sourceName);
+  }
+  const segment = getPathSegments(op.path).find(isResourceSegment);
+  return toQueryKeyGroupName(segment ?? "", sourceName);
+}
+
+/**
+ * Group the query keys of GET operations. Operations whose path ends in a
+ * parameter are details, keyed by that parameter; the others are lists.
+ */
+function getOpenAPIQueryKeyGroups(
+  queries: ParsedOperation[],
+  infiniteQueries: ParsedOperation[],
+  sourceName: string,
+): QueryKeyGroup[] {
+  const groups = new Map<string, QueryKeyGroup>();
+
+  for (const op of queries) {
+    const groupName = getOpenAPIQueryKeyGroupName(op, sourceName);
+    const paramsType = `${toPascalCase(op.operationId)}Params`;
+    const detailParam = op.path.match(/\{([^}]+)\}$/)?.[1];
+    const scope = detailParam ? "details" : "lists";
+    const detailId = detailParam
+      ? getSafePropertyAccess("params", detailParam)
+      : undefined;
+    const detailIdType = `${paramsType}[${JSON.stringify(detailParam)}]`;
+
+    addQueryKey(
+      groups,
+      groupName,
+      {
+        name: toCamelCase(op.operationId),
+        scope,
+        segments: [op.operationId],
+        param: hasParams(op)
+          ? {
+              name: "params",
+              type: paramsType,
+              optional: hasOptionalQueryParams(op),
+            }
+          : undefined,
+        detailId,
+      },
+      detailIdType,
+    );
+
+    const pageParamName = op.paginationInfo?.pageParamName;
+    if (!pageParamName || !infiniteQueries.includes(op)) continue;
+
+    // Infinite keys leave out the page param, like their options
+    const hasOtherParams =
+      op.pathParams.length > 0 ||
+      op.queryParams.some((p) => p.name !== pageParamName) ||
+      op.headerParams.length > 0 ||
+      op.cookieParams.length > 0;
+    addQueryKey(groups, groupName, {
+      name: toInfiniteQueryKeyName(op.operationId),
+      scope,
+      segments: [op.operationId, "infinite"],
+      param: hasOtherParams
+        ? {
+            name: "params",
+            type: `Omit<${paramsType}, "${pageParamName}">`,
+            optional: hasOptionalQueryParams(op),
+          }
+        : undefined,
+      detailId,
+    });
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Check if an operation takes path, query, header, or cookie params
+ */
+function hasParams(op: ParsedOperation): boolean {
+  return (
+    op.pathParams.length > 0 ||
+    op.queryParams.length > 0 ||
+    op.headerParams.length > 0 ||
+    op.cookieParams.length > 0
+  );
+}
+
+// =============================================================================
+// Mutation Invalidation
+// =============================================================================
+
+/**
+ * Path segments that only prefix resources, like `api` and versions
+ */
+const PATH_PREFIX_PATTERN = /^(api|v\d+(\.\d+)*)$/i;
+
+/**
+ * Infer the queries each mutation invalidates from shared path prefixes:
+ * the queries on the mutated path or above it (`POST /pets` -> `GET /pets`),
+ * and when the mutation targets a single resource, the queries below it
+ * (`DELETE /pets/{petId}` -> `GET /pets/{petId}/photos`). Queries on a
+ * single resource are narrowed to the mutated one when the mutation takes
+ * its id.
+ */
+function getOpenAPIMutationInvalidations(
+  queries: ParsedOperation[],
+  mutations: ParsedOperation[],
+  keyGroups: QueryKeyGroup[],
+  queryOverrides: QueryOverridesConfig | undefined,
+  warnings: string[],
+): MutationInvalidation[] {
+  const queryNames = queries.map((op) => op.operationId);
+  const invalidations: MutationInvalidation[] = [];
+
+  for (const mutation of mutations) {
+    // Invalidating an event stream would restart it, so only do so when asked
+    const inferred = queries
+      .filter(
+        (query) =>
+          query.responseBodyType !== "event-stream" &&
+          isRelatedPath(query.path, mutation.path),
+      )
+      .map((query) => query.operationId);
+    const targets = resolveInvalidatedQueries(
+      mutation.operationId,
+      inferred,
+      queryNames,
+      queryOverrides?.operations?.[mutation.operationId]?.invalidation,
+      warnings,
+    );
+    if (targets.length === 0) continue;
+
+    const queryKeys = new Set<string>();
+    let usesVariables = false;
+    for (const query of queries) {
+      if (!targets.includes(query.operationId)) continue;
+      const entryName = toCamelCase(query.operationId);
+      const idParam = getMutatedDetailParam(query.path, mutation.path);
+      if (idParam && isDetailQueryKey(keyGroups, entryName)) {
+        usesVariables = true;
+      }
+      queryKeys.add(
+        getQueryKeyPrefix(
+          keyGroups,
+          entryName,
+          idParam ? getSafePropertyAccess("variables", idParam) : undefined,
+        ),
+      );
+    }
+
+    invalidations.push({
+      name: toCamelCase(mutation.operationId),
+      queryKeys: [...queryKeys],
+      variablesType: usesVariables
+        ? getMutationVariablesType(mutation)
+        : undefined,
+    });
+  }
+
+  return invalidations;
+}
+
+// =============================================================================
+// Optimistic Updates
+// =============================================================================
+
+/**
+ * Get the optimistic updates of the mutations that opt in through
+ * `overrides.query.operations`. Updates and deletes of a discovered entity
+ * patch its list query, and updates also patch the detail query on the
+ * mutation's path.
+ */
+function getOpenAPIOptimisticUpdates(
+  queries: ParsedOperation[],
+  mutations: ParsedOperation[],
+  keyGroups: QueryKeyGroup[],
+  entities: CollectionEntity[],
+  queryOverrides: QueryOverridesConfig | undefined,
+  warnings: string[],
+): MutationOptimisticUpdate[] {
+  const updates: MutationOptimisticUpdate[] = [];
+
+  for (const mutation of mutations) {
+    if (!queryOverrides?.operations?.[mutation.operationId]?.optimistic) {
+      continue;
+    }
+
+    const entity = entities.find((e) =>
+      e.mutations.some((m) => m.operationName === mutation.operationId),
+    );
+    const entityMutation = entity?.mutations.find(
+      (m) => m.operationName === mutation.operationId,
+    );
+    if (
+      !entity ||
+      !entityMutation?.pathParamName ||
+      entityMutation.type === "insert"
+    ) {
+      warnings.push(
+        `Mutation "${mutation.operationId}" in 'overrides.query.operations' does not update or delete a discovered entity. ` +
+          `It will not be applied optimistically.`,
+      );
+      continue;
+    }
+    if (entityMutation.type === "update" && !mutation.requestBody) {
+      warnings.push(
+        `Mutation "${mutation.operationId}" in 'overrides.query.operations' has no request body to apply. ` +
+          `It will not be applied optimistically.`,
+      );
+      continue;
+    }
+
+    const id = getSafePropertyAccess("variables", entityMutation.pathParamName);
+    const queryUpdates: OptimisticQueryUpdate[] = [];
+    const listQuery = queries.find(
+      (q) => q.operationId === entity.listQuery.operationName,
+    );
+    if (listQuery) {
+      queryUpdates.push({
+        queryKey: getQueryKeyPrefix(
+          keyGroups,
+          toCamelCase(listQuery.operationId),
+        ),
+        dataType: getResponseDataType(listQuery),
+        path: entity.listQuery.selectorPath?.split(".") ?? [],
+        list: true,
+      });
+    }
+
+    // A deleted entity's detail is left for invalidation to refetch
+    const mutationSegments = getPathSegments(mutation.path);
+    const detailQuery = queries.find((q) => {
+      const segments = getPathSegments(q.path);
+      return (
+        segments.length === mutationSegments.length &&
+        isPathPrefix(segments, mutationSegments) &&
+        isDetailQueryKey(keyGroups, toCamelCase(q.operationId))
+      );
+    });
+    if (detailQuery && entityMutation.type === "update") {
+      queryUpdates.push({
+        queryKey: getQueryKeyPrefix(
+          keyGroups,
+          toCamelCase(detailQuery.operationId),
+          id,
+        ),
+        dataType: getResponseDataType(detailQuery),
+        path: [],
+        list: false,
+      });
+    }
+
+    updates.push({
+      name: toCamelCase(mutation.operationId),
+      variablesType: getMutationVariablesType(mutation),
+      type: entityMutation.type,
+      keyField: entity.keyField,
+      id,
+      changes: entityMutation.type === "update" ? "variables.body" : undefined,
+      queries: queryUpdates,
+    });
+  }
+
+  return updates;
+}
+
+/**
+ * Check if a query shares a resource with a mutation: the query's path is a
+ * prefix of the mutation's, or the mutation's path ends in a parameter and is
+ * a prefix of the query's. Parameters match whatever their names.
+ */
+function isRelatedPath(queryPath: string, mutationPath: string): boolean {
+  const querySegments = getPathSegments(queryPath);
+  const mutationSegments = getPathSegments(mutationPath);
+
+  const shared = querySegments.slice(0, mutationSegments.length);
+  if (!shared.some(isResourceSegment)) {
+    return false;
+  }
+
+  return (
+    isPathPrefix(querySegments, mutationSegments) ||
+    (isPathParam(mutationSegments.at(-1)) &&
+      isPathPrefix(mutationSegments, querySegments))
+  );
+}
+
+/**
+ * Get the mutation's path parameter holding the id of the single resource a
+ * query fetches, when the query's path is a prefix of the mutation's
+ * e.g., ("/pets/{petId}", "/pets/{id}/photos") -> "id"
+ */
+function getMutatedDetailParam(
+  queryPath: string,
+  mutationPath: string,
+): string | undefined {
+  const querySegments = getPathSegments(queryPath);
+  const mutationSegments = getPathSegments(mutationPath);
+  if (
+    !isPathParam(querySegments.at(-1)) ||
+    !isPathPrefix(querySegments, mutationSegments)
+  ) {
+    return undefined;
+  }
+  return mutationSegments[querySegments.length - 1]?.slice(1, -1);
+}
+
+/**
+ * Check if every segment of a path matches the start of another path
+ */
+function isPathPrefix(prefix: string[], segments: string[]): boolean {
+  return (
+    prefix.length <= segments.length &&
+    prefix.every((segment, i) => {
+      const other = segments[i];
+      return isPathParam(segment) ? isPathParam(other) : segment === other;
+    })
+  );
+}
+
+/**
+ * Split a path into its non-empty segments
+ */
+function getPathSegments(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+/**
+ * Check if a path segment is a parameter (e.g., "{petId}")
+ */
+function isPathParam(segment: string | undefined): boolean {
+  return !!segment?.startsWith("{");
+}
+
+/**
+ * Check if a path segment names a resource, rather than being a parameter,
+ * `api`, or a version
+ */
+function isResourceSegment(segment: string): boolean {
+  return !isPathParam(segment) && !PATH_PREFIX_PATTERN.test(segment);
+}
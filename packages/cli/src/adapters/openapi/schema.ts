@@ -7,15 +7,20 @@ import micromatch from "micromatch";
 
 import {
   analyzePaginationCapabilities,
+  analyzePaginationHeaders,
   analyzePaginationResponse,
   detectPageParamFromQueryParams,
+  detectPageSizeParams,
+  detectPreviousPageParam,
 } from "./analysis";
+import { extractSecuritySchemes, getOperationSecurity } from "./security";
 
 import type { OpenAPIV3, OpenAPIV3_1 } from "openapi-types";
 import type { OpenAPISourceConfig } from "@/core/config";
 import type {
   InfiniteQueryPaginationInfo,
   OpenAPIAdapterSchema,
+  PaginationResponseInfo,
 } from "../types";
 
 export type OpenAPIDocument = OpenAPIV3.Document | OpenAPIV3_1.Document;
@@ -127,6 +132,45 @@ function filterPaths(
   }
 }
 
+/**
+ * Request body content types that generated functions can send, in order of
+ * preference when an operation accepts several
+ */
+const requestBodyContentTypes = [
+  "application/json",
+  "multipart/form-data",
+  "application/x-www-form-urlencoded",
+] as const;
+
+export type RequestBodyContentType = (typeof requestBodyContentTypes)[number];
+
+/**
+ * How a success response body is read:
+ * - json: parsed (and validated when a schema exists)
+ * - text: read as a string (text/*, XML)
+ * - blob: read as a Blob (binary and other content types)
+ * - stream: left unread as a ReadableStream (e.g., NDJSON)
+ * - event-stream: parsed into Server-Sent Events (text/event-stream)
+ * - void: no content (e.g., 204)
+ */
+export type ResponseBodyType =
+  | "json"
+  | "text"
+  | "blob"
+  | "stream"
+  | "event-stream"
+  | "void";
+
+/**
+ * An error response declared by an operation
+ */
+export interface ParsedErrorResponse {
+  /** Status key as declared in the spec (e.g., "404", "4XX", "default") */
+  status: string;
+  /** JSON body schema (if any) */
+  schema?: OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+}
+
 /**
  * Get all operations from an OpenAPI document
  */
@@ -143,12 +187,34 @@ export interface ParsedOperation {
   pathParams: (OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject)[];
   /** Query parameters */
   queryParams: (OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject)[];
+  /** Header parameters (sent as request headers) */
+  headerParams: (OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject)[];
+  /** Cookie parameters (sent in the Cookie request header) */
+  cookieParams: (OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject)[];
   /** Request body schema (if any) */
   requestBody?: OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+  /** Content type the request body is sent as (set when requestBody is) */
+  requestBodyContentType?: RequestBodyContentType;
   /** Response schema (for success response) */
   responseSchema?: OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+  /** How the success response body is read */
+  responseBodyType: ResponseBodyType;
+  /** Schema of each event's data (for event-stream responses) */
+  eventSchema?: OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+  /** 4xx/5xx responses, plus "default" when it is not the success response */
+  errorResponses: ParsedErrorResponse[];
   /** Pagination info for infinite query generation (GET operations only) */
   paginationInfo?: InfiniteQueryPaginationInfo;
+  /**
+   * Lowercase names of the success response's declared headers, returned
+   * alongside the data (set when the operation paginates with headers)
+   */
+  responseHeaders?: string[];
+  /**
+   * Security requirements: alternatives, each listing the schemes whose
+   * credentials are sent together (undefined for public operations)
+   */
+  security?: string[][];
 }
 
 const httpMethods = ["get", "post", "put", "patch", "delete"] as const;
@@ -163,6 +229,8 @@ export function extractOperations(
 
   if (!document.paths) return operations;
 
+  const securitySchemes = extractSecuritySchemes(document);
+
   for (const [path, pathItem] of Object.entries(document.paths)) {
     if (!pathItem) continue;
 
@@ -186,66 +254,107 @@ export function extractOperations(
 
       const pathParams = allParams.filter((p) => p.in === "path");
       const queryParams = allParams.filter((p) => p.in === "query");
+      const headerParams = allParams.filter((p) => p.in === "header");
+      const cookieParams = allParams.filter((p) => p.in === "cookie");
 
       // Extract request body schema
       let requestBody:
         | OpenAPIV3.SchemaObject
         | OpenAPIV3_1.SchemaObject
         | undefined;
+      let requestBodyContentType: RequestBodyContentType | undefined;
       if (operation.requestBody) {
         const body = operation.requestBody as
           | OpenAPIV3.RequestBodyObject
           | OpenAPIV3_1.RequestBodyObject;
-        const content = body.content?.["application/json"];
-        if (content?.schema) {
-          requestBody = content.schema as
-            | OpenAPIV3.SchemaObject
-            | OpenAPIV3_1.SchemaObject;
+        for (const contentType of requestBodyContentTypes) {
+          const content = body.content?.[contentType];
+          if (content?.schema) {
+            requestBody = content.schema as
+              | OpenAPIV3.SchemaObject
+              | OpenAPIV3_1.SchemaObject;
+            requestBodyContentType = contentType;
+            break;
+          }
         }
       }
 
-      // Extract response schema (from 200/201/default)
+      // Extract response schema (from the first 2xx response, or default)
       let responseSchema:
         | OpenAPIV3.SchemaObject
         | OpenAPIV3_1.SchemaObject
         | undefined;
-      if (operation.responses) {
-        const successResponse =
-          operation.responses["200"] ||
-          operation.responses["201"] ||
-          operation.responses.default;
-
-        if (successResponse) {
-          const response = successResponse as
-            | OpenAPIV3.ResponseObject
-            | OpenAPIV3_1.ResponseObject;
-          const content = response.content?.["application/json"];
-          if (content?.schema) {
-            responseSchema = content.schema as
-              | OpenAPIV3.SchemaObject
-              | OpenAPIV3_1.SchemaObject;
-          }
+      let responseBodyType: ResponseBodyType = "json";
+      let eventSchema:
+        | OpenAPIV3.SchemaObject
+        | OpenAPIV3_1.SchemaObject
+        | undefined;
+      let successHeaderNames: string[] = [];
+      const errorResponses: ParsedErrorResponse[] = [];
+      const responses = operation.responses;
+      if (responses) {
+        const successStatus = getSuccessStatus(Object.keys(responses));
+
+        if (successStatus) {
+          const body = getResponseBody(responses[successStatus]);
+          responseSchema = body.schema;
+          responseBodyType = body.type;
+          eventSchema = body.eventSchema;
+          successHeaderNames = getResponseHeaderNames(responses[successStatus]);
+        }
+
+        // Extract error responses (from 4xx/5xx codes and ranges, and default)
+        for (const [status, response] of Object.entries(responses)) {
+          const isErrorStatus =
+            /^[45](\d\d|XX)$/i.test(status) ||
+            (status === "default" && successStatus !== "default");
+          if (!isErrorStatus) continue;
+
+          errorResponses.push({
+            status: status === "default" ? status : status.toUpperCase(),
+            schema: getResponseBody(response).schema,
+          });
         }
       }
 
       // Analyze pagination for GET operations
       let paginationInfo: InfiniteQueryPaginationInfo | undefined;
+      let responseHeaders: string[] | undefined;
       if (method === "get" && queryParams.length > 0) {
         const paginationParams = analyzePaginationCapabilities(queryParams);
 
         if (paginationParams.style !== "none") {
-          const paginationResponse = analyzePaginationResponse(responseSchema);
+          // Fall back to the response headers when the body has no pagination
+          let paginationResponse = analyzePaginationResponse(responseSchema);
+          if (
+            paginationResponse.style === "none" &&
+            responseBodyType === "json"
+          ) {
+            paginationResponse = analyzePaginationHeaders(successHeaderNames);
+          }
           const pageParamName = detectPageParamFromQueryParams(
             queryParams,
             paginationParams.style,
           );
 
           if (pageParamName) {
+            const previousPageParamName = detectPreviousPageParam(
+              queryParams,
+              paginationResponse,
+              pageParamName,
+            );
             paginationInfo = {
               params: paginationParams,
               response: paginationResponse,
               pageParamName,
+              previousPageParamName,
+              pageSizeParamNames: previousPageParamName
+                ? detectPageSizeParams(queryParams)
+                : undefined,
             };
+            if (isHeaderPagination(paginationResponse)) {
+              responseHeaders = successHeaderNames;
+            }
           }
         }
       }
@@ -257,9 +366,17 @@ export function extractOperations(
         operation,
         pathParams,
         queryParams,
+        headerParams,
+        cookieParams,
         requestBody,
+        requestBodyContentType,
         responseSchema,
+        responseBodyType,
+        eventSchema,
+        errorResponses,
         paginationInfo,
+        responseHeaders,
+        security: getOperationSecurity(document, operation, securitySchemes),
       });
     }
   }
@@ -267,6 +384,124 @@ export function extractOperations(
   return operations;
 }
 
+/**
+ * Pick the success status of an operation: the lowest 2xx code, then a
+ * "2XX" range, then "default"
+ */
+function getSuccessStatus(statuses: string[]): string | undefined {
+  const codes = statuses.filter((status) => /^2\d\d$/.test(status)).sort();
+  return (
+    codes[0] ??
+    statuses.find((status) => status.toUpperCase() === "2XX") ??
+    statuses.find((status) => status === "default")
+  );
+}
+
+/**
+ * Get the lowercase names of the headers declared on a response
+ */
+function getResponseHeaderNames(response: unknown): string[] {
+  const headers =
+    (response as OpenAPIV3.ResponseObject | OpenAPIV3_1.ResponseObject)
+      .headers ?? {};
+  return Object.keys(headers).map((name) => name.toLowerCase());
+}
+
+/**
+ * Check if pagination was detected from response headers
+ */
+function isHeaderPagination(response: PaginationResponseInfo): boolean {
+  return (
+    response.style === "link" ||
+    !!response.nextCursorHeader ||
+    !!response.totalHeader
+  );
+}
+
+/**
+ * Check if a media type is JSON (application/json or a +json suffix type)
+ */
+function isJsonContentType(contentType: string): boolean {
+  const mediaType = getMediaType(contentType);
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+/**
+ * Strip parameters from a content type and lowercase it
+ * e.g., "text/plain; charset=utf-8" -> "text/plain"
+ */
+function getMediaType(contentType: string): string {
+  return (contentType.split(";")[0] ?? "").trim().toLowerCase();
+}
+
+/**
+ * Get how a non-JSON media type is read
+ */
+function getBodyTypeForMediaType(mediaType: string): ResponseBodyType {
+  if (mediaType === "text/event-stream") {
+    return "event-stream";
+  }
+  if (mediaType === "application/x-ndjson") {
+    return "stream";
+  }
+  if (
+    mediaType.startsWith("text/") ||
+    mediaType === "application/xml" ||
+    mediaType.endsWith("+xml")
+  ) {
+    return "text";
+  }
+  return "blob";
+}
+
+/**
+ * Get the body type of a response and its JSON schema (if any).
+ * JSON content is preferred when several content types are declared.
+ * For event streams, the event data schema is read from `itemSchema`
+ * (OpenAPI 3.2) or `schema`.
+ */
+function getResponseBody(response: unknown): {
+  type: ResponseBodyType;
+  schema?: OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+  eventSchema?: OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+} {
+  const content =
+    (response as OpenAPIV3.ResponseObject | OpenAPIV3_1.ResponseObject)
+      .content ?? {};
+  const contentTypes = Object.keys(content);
+  const [firstContentType] = contentTypes;
+  if (!firstContentType) {
+    return { type: "void" };
+  }
+
+  const jsonContentType = contentTypes.find(isJsonContentType);
+  if (jsonContentType) {
+    return {
+      type: "json",
+      schema: content[jsonContentType]?.schema as
+        | OpenAPIV3.SchemaObject
+        | OpenAPIV3_1.SchemaObject
+        | undefined,
+    };
+  }
+
+  const type = getBodyTypeForMediaType(getMediaType(firstContentType));
+  if (type === "event-stream") {
+    const mediaTypeObject = content[firstContentType] as
+      | { itemSchema?: unknown; schema?: unknown }
+      | undefined;
+    return {
+      type,
+      eventSchema: (mediaTypeObject?.itemSchema ?? mediaTypeObject?.schema) as
+        | OpenAPIV3.SchemaObject
+        | OpenAPIV3_1.SchemaObject
+        | undefined,
+    };
+  }
+
+  return { type };
+}
+
 /**
  * Generate an operation ID from method and path
  * e.g., GET /users/{id} -> getUsersById
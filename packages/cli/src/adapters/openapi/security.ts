@@ -0,0 +1,156 @@
+/**
+ * OpenAPI security scheme parsing
+ *
+ * Resolves the credentials each security scheme sends and where it sends
+ * them, and the security requirements each operation applies. The client
+ * takes the credentials with setAuth, and generated functions pass their
+ * operation's requirements to getClient.
+ */
+
+import type { OpenAPIV3, OpenAPIV3_1 } from "openapi-types";
+import type { OpenAPIDocument } from "./schema";
+
+type SecuritySchemeObject =
+  | OpenAPIV3.SecuritySchemeObject
+  | OpenAPIV3_1.SecuritySchemeObject;
+
+type SecurityRequirementObject =
+  | OpenAPIV3.SecurityRequirementObject
+  | OpenAPIV3_1.SecurityRequirementObject;
+
+/**
+ * A security scheme whose credential the client sends
+ */
+export interface ParsedSecurityScheme {
+  /** Scheme name from components.securitySchemes (e.g., "bearerAuth") */
+  name: string;
+  /**
+   * Credential the scheme takes:
+   * - token: a bearer token (HTTP bearer, OAuth2, OpenID Connect)
+   * - basic: a username and password (HTTP basic)
+   * - value: a value sent as-is (API keys and other HTTP schemes)
+   */
+  credential: "token" | "basic" | "value";
+  /** Where the credential is sent */
+  in: "header" | "query" | "cookie";
+  /** Header, query param, or cookie name (e.g., "Authorization") */
+  paramName: string;
+  /** Prefix of the header value (e.g., "Bearer ") */
+  prefix?: string;
+  /** Description of the credential, for its AuthConfig doc comment */
+  description: string;
+}
+
+/**
+ * Extract the security schemes of an OpenAPI document. Mutual TLS schemes
+ * are left out, since certificates are configured outside of fetch.
+ */
+export function extractSecuritySchemes(
+  document: OpenAPIDocument,
+): ParsedSecurityScheme[] {
+  const schemes = document.components?.securitySchemes ?? {};
+  return Object.entries(schemes).flatMap(([name, scheme]) => {
+    const parsed = parseSecurityScheme(name, scheme as SecuritySchemeObject);
+    return parsed ? [parsed] : [];
+  });
+}
+
+/**
+ * Parse how a security scheme sends its credential
+ */
+function parseSecurityScheme(
+  name: string,
+  scheme: SecuritySchemeObject,
+): ParsedSecurityScheme | undefined {
+  switch (scheme.type) {
+    case "http": {
+      const httpScheme = scheme.scheme.toLowerCase();
+      if (httpScheme === "bearer") {
+        return {
+          name,
+          credential: "token",
+          in: "header",
+          paramName: "Authorization",
+          prefix: "Bearer ",
+          description: scheme.bearerFormat
+            ? `${scheme.bearerFormat} bearer token`
+            : "Bearer token",
+        };
+      }
+      if (httpScheme === "basic") {
+        return {
+          name,
+          credential: "basic",
+          in: "header",
+          paramName: "Authorization",
+          prefix: "Basic ",
+          description: "Username and password for HTTP basic authentication",
+        };
+      }
+      return {
+        name,
+        credential: "value",
+        in: "header",
+        paramName: "Authorization",
+        prefix: `${scheme.scheme} `,
+        description: `Credentials for HTTP ${scheme.scheme} authentication`,
+      };
+    }
+    case "apiKey": {
+      const location = {
+        header: "header",
+        query: "query param",
+        cookie: "cookie",
+      }[scheme.in];
+      if (!location) return undefined;
+      return {
+        name,
+        credential: "value",
+        in: scheme.in as ParsedSecurityScheme["in"],
+        paramName: scheme.name,
+        description: `API key, sent in the "${scheme.name}" ${location}`,
+      };
+    }
+    case "oauth2":
+    case "openIdConnect": {
+      const kind = scheme.type === "oauth2" ? "OAuth2" : "OpenID Connect";
+      return {
+        name,
+        credential: "token",
+        in: "header",
+        paramName: "Authorization",
+        prefix: "Bearer ",
+        description: `${kind} access token, sent as a bearer token`,
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the security requirements of an operation: alternatives, each listing
+ * the schemes whose credentials are sent together. The operation's own
+ * `security` replaces the document's, so `security: []` makes it public.
+ * Returns undefined for public operations.
+ */
+export function getOperationSecurity(
+  document: OpenAPIDocument,
+  operation: OpenAPIV3.OperationObject | OpenAPIV3_1.OperationObject,
+  schemes: ParsedSecurityScheme[],
+): string[][] | undefined {
+  const requirements = (operation.security ??
+    document.security ??
+    []) as SecurityRequirementObject[];
+  const schemeNames = new Set(schemes.map((scheme) => scheme.name));
+
+  // Anonymous alternatives ({}) need no credentials, so they are left out:
+  // the client sends nothing when no other alternative has its credentials
+  const security = requirements
+    .map((requirement) =>
+      Object.keys(requirement).filter((name) => schemeNames.has(name)),
+    )
+    .filter((names) => names.length > 0);
+
+  return security.length > 0 ? security : undefined;
+}
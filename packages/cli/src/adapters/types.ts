@@ -1,6 +1,7 @@
 import type {
   CollectionOverrideConfig,
   FormOverridesConfig,
+  Framework,
   GraphQLSourceConfig,
   OpenAPISourceConfig,
   PredicateMappingPreset,
@@ -73,8 +74,11 @@ export interface PaginationCapabilities {
  * Used for generating infiniteQueryOptions
  */
 export interface PaginationResponseInfo {
-  /** Pagination pattern detected from response schema */
-  style: "cursor" | "offset" | "page" | "relay" | "hasMore" | "none";
+  /**
+   * Pagination pattern detected from response schema, or from response
+   * headers ("link" for RFC 8288 Link headers)
+   */
+  style: "cursor" | "offset" | "page" | "relay" | "hasMore" | "link" | "none";
   /** Field containing the next cursor/page token (e.g., "nextCursor") */
   nextCursorField?: string;
   /** Path to next cursor if nested (e.g., ["pageInfo", "endCursor"]) */
@@ -83,8 +87,18 @@ export interface PaginationResponseInfo {
   hasMoreField?: string;
   /** Path to hasMore if nested (e.g., ["pageInfo", "hasNextPage"]) */
   hasMorePath?: string[];
+  /** Field containing the previous cursor (e.g., "prevCursor") */
+  prevCursorField?: string;
+  /** Path to previous cursor if nested (e.g., ["pageInfo", "startCursor"]) */
+  prevCursorPath?: string[];
+  /** Path to hasPrevious if nested (e.g., ["pageInfo", "hasPreviousPage"]) */
+  hasPreviousPath?: string[];
   /** Total count field if present (for offset calculation) */
   totalField?: string;
+  /** Response header containing the next cursor (e.g., "x-next-cursor") */
+  nextCursorHeader?: string;
+  /** Response header containing the total count (e.g., "x-total-count") */
+  totalHeader?: string;
 }
 
 /**
@@ -97,6 +111,17 @@ export interface InfiniteQueryPaginationInfo {
   response: PaginationResponseInfo;
   /** The query param name used for pagination (cursor, offset, page, etc.) */
   pageParamName: string;
+  /**
+   * The query param name used for previous pages, when it differs from
+   * pageParamName (e.g., "before" for Relay-style pagination)
+   */
+  previousPageParamName?: string;
+  /**
+   * The page size params of Relay-style pagination: "first" for next pages,
+   * and "last" for previous pages, which need the last edges before their
+   * cursor rather than the first ones
+   */
+  pageSizeParamNames?: { first: string; last: string };
 }
 
 /**
@@ -128,6 +153,18 @@ export interface FunctionsGenOptions {
   validatorLibrary?: ValidatorLibrary;
 }
 
+/**
+ * Options for query key factory generation
+ */
+export interface KeysGenOptions {
+  /** Relative import path to the types/schema file */
+  typesImportPath: string;
+  /** The source name, the first segment of every query key */
+  sourceName: string;
+  /** Query overrides from config (for infinite query keys) */
+  queryOverrides?: QueryOverridesConfig;
+}
+
 /**
  * Options for operation generation
  */
@@ -136,10 +173,16 @@ export interface OperationGenOptions {
   typesImportPath: string;
   /** Relative import path to the functions file */
   functionsImportPath: string;
+  /** Relative import path to the query keys file */
+  keysImportPath: string;
   /** The source name to include in query/mutation keys */
   sourceName: string;
   /** Query overrides from config (for infinite query generation) */
   queryOverrides?: QueryOverridesConfig;
+  /** Per-entity overrides from config (for the key fields of optimistic updates) */
+  collectionOverrides?: Record<string, CollectionOverrideConfig>;
+  /** Framework target for TanStack Query imports (default: "react") */
+  framework?: Framework;
 }
 
 /**
@@ -164,6 +207,8 @@ export interface FormGenOptions {
   formOverrides?: FormOverridesConfig;
   /** Validation library (needed for Effect's Standard Schema wrapper) */
   validatorLibrary?: ValidatorLibrary;
+  /** Framework target for TanStack Form imports (default: "react") */
+  framework?: Framework;
 }
 
 // =============================================================================
@@ -208,10 +253,17 @@ export interface CollectionEntity {
   listQuery: {
     /** Operation name */
     operationName: string;
-    /** Query key for TanStack Query */
+    /**
+     * Query key segments for TanStack Query, nested under the lists of the
+     * key factory when one is set
+     */
     queryKey: string[];
+    /** Key factory of the list query's group (e.g., "petKeys") */
+    keyFactory?: string;
     /** The params type name for the list query function (if it accepts params) */
     paramsTypeName?: string;
+    /** Whether the list query function takes params before its request options */
+    hasParams?: boolean;
     /**
      * Selector path for wrapped array responses (e.g., "data" for { data: Pet[], total: number })
      * If null/undefined, the response is a direct array
@@ -220,6 +272,8 @@ export interface CollectionEntity {
   };
   /** Available mutations for this entity */
   mutations: CollectionMutation[];
+  /** Server-owned fields (OpenAPI `readOnly`) left out of insert and update bodies */
+  readOnlyFields?: string[];
 
   // === TanStack DB On-Demand Mode Properties ===
 
@@ -253,10 +307,14 @@ export interface CollectionGenOptions {
   typesImportPath: string;
   /** Relative import path to the functions file */
   functionsImportPath: string;
+  /** Relative import path to the query keys file */
+  keysImportPath: string;
   /** The source name */
   sourceName: string;
   /** Per-entity overrides from config (includes keyField, syncMode, predicateMapping) */
   collectionOverrides?: Record<string, CollectionOverrideConfig>;
+  /** Framework target for TanStack DB and Query imports (default: "react") */
+  framework?: Framework;
 }
 
 /**
@@ -266,7 +324,7 @@ export interface CollectionGenOptions {
  * 1. Loading/parsing its schema from the configured source
  * 2. Generating a client for making requests
  * 3. Generating standalone fetch functions
- * 4. Generating TanStack Query operation helpers
+ * 4. Generating TanStack Query operation helpers and query key factories
  * 5. Generating Zod schemas for validation (OpenAPI always, GraphQL when form/db enabled)
  * 6. Generating TanStack Form options for mutations
  * 7. (GraphQL only) Generating TypeScript types for operations
@@ -293,6 +351,15 @@ export interface SourceAdapter<
    */
   generateClient(schema: TSchema, config: TConfig): GeneratedFile;
 
+  /**
+   * Generate the user-owned client config file, which customizes the client
+   * and is only written when it does not exist
+   * @param schema The loaded schema
+   * @param config The source configuration
+   * @returns Generated client config file
+   */
+  generateClientConfig(schema: TSchema, config: TConfig): GeneratedFile;
+
   /**
    * Generate standalone fetch functions
    * @param schema The loaded schema
@@ -306,6 +373,19 @@ export interface SourceAdapter<
     options: FunctionsGenOptions,
   ): GeneratedFile;
 
+  /**
+   * Generate the query key factories used by operations and collections
+   * @param schema The loaded schema
+   * @param config The source configuration
+   * @param options Keys generation options
+   * @returns Generated keys file
+   */
+  generateKeys(
+    schema: TSchema,
+    config: TConfig,
+    options: KeysGenOptions,
+  ): GeneratedFile;
+
   /**
    * Generate TanStack Query operation helpers
    * @param schema The loaded schema
@@ -391,6 +471,18 @@ export interface GraphQLAdapter
     config: GraphQLSourceConfig,
     options: TypeGenOptions,
   ): GeneratedFile;
+
+  /**
+   * Generate the persisted documents manifest, mapping the ID of each
+   * operation to its text (GraphQL only)
+   * @param schema The loaded schema
+   * @param config The source configuration
+   * @returns Generated manifest file
+   */
+  generatePersistedDocuments(
+    schema: GraphQLAdapterSchema,
+    config: GraphQLSourceConfig,
+  ): GeneratedFile;
 }
 
 /**
@@ -456,7 +456,7 @@ export const generateCommand = defineCommand({
     force: {
       type: "boolean",
       alias: "f",
-      description: "Force regeneration of all files including client",
+      description: "Force regeneration of all files including legacy clients",
       default: false,
     },
     watch: {
@@ -212,5 +212,23 @@ describe("init command logic", () => {
       const content = await readFile(configPath, "utf-8");
       expect(content).not.toContain("validator:");
     });
+
+    it("includes framework when not react", async () => {
+      const configContent = generateConfigFromOptions({
+        validator: "zod",
+        framework: "solid",
+        source: {
+          type: "openapi",
+          name: "rest-api",
+          spec: "./openapi.yaml",
+          generates: ["query", "db"],
+        },
+      });
+
+      await writeFile(configPath, configContent, "utf-8");
+
+      const content = await readFile(configPath, "utf-8");
+      expect(content).toContain('framework: "solid"');
+    });
   });
 });
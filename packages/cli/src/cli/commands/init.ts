@@ -12,6 +12,7 @@ import {
 
 import type {
   ConfigGenerationOptions,
+  Framework,
   GraphQLSourceOptions,
   OpenAPISourceOptions,
   ValidatorLibrary,
@@ -46,6 +47,28 @@ async function runInteractivePrompts(): Promise<ConfigGenerationOptions | null>
     return null;
   }
 
+  // Prompt for framework target
+  const framework = await consola.prompt("Which framework?", {
+    type: "select",
+    options: [
+      { value: "react", label: "React", hint: "default" },
+      { value: "vue", label: "Vue" },
+      { value: "solid", label: "Solid" },
+      { value: "svelte", label: "Svelte" },
+      { value: "angular", label: "Angular" },
+      {
+        value: "core",
+        label: "None",
+        hint: "framework-agnostic core packages",
+      },
+    ],
+    initial: "react",
+  });
+
+  if (!isValidPromptResult(framework)) {
+    return null;
+  }
+
   // Prompt for source type
   const sourceType = await consola.prompt("What type of API source?", {
     type: "select",
@@ -246,6 +269,7 @@ async function runInteractivePrompts(): Promise<ConfigGenerationOptions | null>
 
   return {
     validator: validator as ValidatorLibrary,
+    framework: framework as Framework,
     source,
   };
 }
@@ -30,6 +30,7 @@ function createTestConfig(sources: TangramsConfig["sources"]): TangramsConfig {
   return {
     output: testDir, // Relative path
     validator: "zod",
+    framework: "react",
     sources,
   };
 }
@@ -19,6 +19,8 @@ import {
   loadTangramsConfig,
   normalizeGenerates,
   openApiSourceSchema,
+  operationQueryOverrideSchema,
+  queryOverridesSchema,
   sourceGeneratesForm,
   sourceGeneratesQuery,
 } from "./config";
@@ -296,6 +298,65 @@ describe("graphqlSourceSchema", () => {
     const result = graphqlSourceSchema.safeParse(source);
     expect(result.success).toBe(false);
   });
+
+  it("validates with transport", () => {
+    const source = {
+      name: "main-api",
+      type: "graphql",
+      schema: { url: "http://localhost:4000/graphql" },
+      documents: "./src/graphql/**/*.graphql",
+      transport: "fetch",
+      generates: ["query"],
+    };
+    const result = graphqlSourceSchema.safeParse(source);
+    expect(result.success).toBe(true);
+  });
+
+  it("fails with unknown transport", () => {
+    const source = {
+      name: "main-api",
+      type: "graphql",
+      schema: { url: "http://localhost:4000/graphql" },
+      documents: "./src/graphql/**/*.graphql",
+      transport: "relay",
+      generates: ["query"],
+    };
+    const result = graphqlSourceSchema.safeParse(source);
+    expect(result.success).toBe(false);
+  });
+
+  it("validates persistedDocuments with the fetch transport", () => {
+    const source = {
+      name: "main-api",
+      type: "graphql",
+      schema: { url: "http://localhost:4000/graphql" },
+      documents: "./src/graphql/**/*.graphql",
+      transport: "fetch",
+      persistedDocuments: "apq",
+      generates: ["query"],
+    };
+    const result = graphqlSourceSchema.safeParse(source);
+    expect(result.success).toBe(true);
+  });
+
+  it("fails with persistedDocuments on other transports", () => {
+    const source = {
+      name: "main-api",
+      type: "graphql",
+      schema: { url: "http://localhost:4000/graphql" },
+      documents: "./src/graphql/**/*.graphql",
+      persistedDocuments: "documentId",
+      generates: ["query"],
+    };
+    const result = graphqlSourceSchema.safeParse(source);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe(
+        'persistedDocuments requires transport "fetch"',
+      );
+      expect(result.error.issues[0]?.path).toEqual(["persistedDocuments"]);
+    }
+  });
 });
 
 describe("openApiSourceSchema", () => {
@@ -393,6 +454,30 @@ describe("openApiSourceSchema", () => {
       expect(result.error.issues[0]?.message).toContain("Invalid");
     }
   });
+
+  it("validates with httpClient", () => {
+    const source = {
+      name: "users-api",
+      type: "openapi",
+      spec: "./specs/openapi.yaml",
+      httpClient: "fetch",
+      generates: ["query"],
+    };
+    const result = openApiSourceSchema.safeParse(source);
+    expect(result.success).toBe(true);
+  });
+
+  it("fails with unknown httpClient", () => {
+    const source = {
+      name: "users-api",
+      type: "openapi",
+      spec: "./specs/openapi.yaml",
+      httpClient: "superagent",
+      generates: ["query"],
+    };
+    const result = openApiSourceSchema.safeParse(source);
+    expect(result.success).toBe(false);
+  });
 });
 
 describe("generatesSchema", () => {
@@ -598,6 +683,72 @@ describe("configSchema", () => {
     const result = configSchema.safeParse(config);
     expect(result.success).toBe(false);
   });
+
+  it("defaults framework to react", () => {
+    const config = {
+      sources: [
+        {
+          name: "graphql",
+          type: "graphql",
+          schema: { url: "http://localhost:4000/graphql" },
+          documents: "./src/graphql/**/*.graphql",
+          generates: ["query"],
+        },
+      ],
+    };
+    const result = configSchema.safeParse(config);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.framework).toBe("react");
+    }
+  });
+
+  it("validates all supported frameworks", () => {
+    const frameworks = [
+      "react",
+      "vue",
+      "solid",
+      "svelte",
+      "angular",
+      "core",
+    ] as const;
+    for (const framework of frameworks) {
+      const config = {
+        framework,
+        sources: [
+          {
+            name: "graphql",
+            type: "graphql",
+            schema: { url: "http://localhost:4000/graphql" },
+            documents: "./src/graphql/**/*.graphql",
+            generates: ["query"],
+          },
+        ],
+      };
+      const result = configSchema.safeParse(config);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.framework).toBe(framework);
+      }
+    }
+  });
+
+  it("rejects invalid framework", () => {
+    const config = {
+      framework: "ember",
+      sources: [
+        {
+          name: "graphql",
+          type: "graphql",
+          schema: { url: "http://localhost:4000/graphql" },
+          documents: "./src/graphql/**/*.graphql",
+          generates: ["query"],
+        },
+      ],
+    };
+    const result = configSchema.safeParse(config);
+    expect(result.success).toBe(false);
+  });
 });
 
 describe("defineConfig", () => {
@@ -764,6 +915,38 @@ describe("generateConfigFromOptions", () => {
       expect(result).toContain('validator: "effect"');
     });
 
+    it("omits framework when react (default)", () => {
+      const result = generateConfigFromOptions({
+        validator: "zod",
+        framework: "react",
+        source: {
+          type: "graphql",
+          name: "api",
+          schema: { type: "url", url: "https://api.example.com/graphql" },
+          documents: "./src/graphql/**/*.graphql",
+          generates: ["query"],
+        },
+      });
+
+      expect(result).not.toContain("framework:");
+    });
+
+    it("generates config with non-default framework", () => {
+      const result = generateConfigFromOptions({
+        validator: "valibot",
+        framework: "vue",
+        source: {
+          type: "graphql",
+          name: "api",
+          schema: { type: "url", url: "https://api.example.com/graphql" },
+          documents: "./src/graphql/**/*.graphql",
+          generates: ["query"],
+        },
+      });
+
+      expect(result).toContain('validator: "valibot",\n\tframework: "vue",');
+    });
+
     it("generates config with all generators", () => {
       const result = generateConfigFromOptions({
         validator: "zod",
@@ -961,6 +1144,7 @@ describe("utility functions", () => {
   const multiSourceConfig: TangramsConfig = {
     output: ".",
     validator: "zod",
+    framework: "react",
     sources: [
       {
         name: "main-api",
@@ -987,6 +1171,7 @@ describe("utility functions", () => {
   const singleSourceConfig: TangramsConfig = {
     output: ".",
     validator: "zod",
+    framework: "react",
     sources: [
       {
         name: "graphql",
@@ -1495,3 +1680,67 @@ describe("collectionOverrideSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("operationQueryOverrideSchema", () => {
+  it("validates invalidation overrides", () => {
+    const result = operationQueryOverrideSchema.safeParse({
+      invalidation: { include: ["getPet"], exclude: ["listPets"] },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.invalidation?.include).toEqual(["getPet"]);
+    expect(result.data?.invalidation?.exclude).toEqual(["listPets"]);
+  });
+
+  it("validates infinite query and invalidation overrides together", () => {
+    const result = operationQueryOverrideSchema.safeParse({
+      getNextPageParamPath: "meta.nextCursor",
+      invalidation: { disabled: true },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.getNextPageParamPath).toBe("meta.nextCursor");
+    expect(result.data?.invalidation?.disabled).toBe(true);
+  });
+
+  it("validates optimistic update opt-ins", () => {
+    const result = operationQueryOverrideSchema.safeParse({
+      optimistic: true,
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.optimistic).toBe(true);
+  });
+
+  it("validates bidirectional infinite query overrides", () => {
+    const result = operationQueryOverrideSchema.safeParse({
+      getPreviousPageParamPath: "meta.prevCursor",
+      maxPages: 5,
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.getPreviousPageParamPath).toBe("meta.prevCursor");
+    expect(result.data?.maxPages).toBe(5);
+  });
+
+  it("fails with a non-positive maxPages", () => {
+    const result = operationQueryOverrideSchema.safeParse({ maxPages: 0 });
+    expect(result.success).toBe(false);
+  });
+
+  it("fails with non-array invalidation targets", () => {
+    const result = operationQueryOverrideSchema.safeParse({
+      invalidation: { include: "getPet" },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("queryOverridesSchema", () => {
+  it("validates the suspense opt-in", () => {
+    const result = queryOverridesSchema.safeParse({ suspense: true });
+    expect(result.success).toBe(true);
+    expect(result.data?.suspense).toBe(true);
+  });
+
+  it("fails with a non-boolean suspense opt-in", () => {
+    const result = queryOverridesSchema.safeParse({ suspense: "yes" });
+    expect(result.success).toBe(false);
+  });
+});
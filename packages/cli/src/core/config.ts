@@ -172,6 +172,17 @@ export const infiniteQueryOverrideSchema = z.object({
    * e.g., "pageInfo.endCursor", "meta.nextCursor"
    */
   getNextPageParamPath: z.string().optional(),
+  /**
+   * Path to extract previous page param from response (dot notation), sent
+   * in the same param as the next page param
+   * e.g., "meta.prevCursor"
+   */
+  getPreviousPageParamPath: z.string().optional(),
+  /**
+   * Maximum number of pages to keep in the cache (e.g., for chat-style
+   * timelines). Pages beyond it are dropped from the other end.
+   */
+  maxPages: z.number().int().positive().optional(),
   /** Disable infinite query generation for this operation */
   disabled: z.boolean().optional(),
 });
@@ -180,12 +191,50 @@ export type InfiniteQueryOverrideConfig = z.infer<
   typeof infiniteQueryOverrideSchema
 >;
 
+/**
+ * Per-mutation cache invalidation override configuration
+ */
+export const invalidationOverrideSchema = z.object({
+  /** Query operations to invalidate in addition to the inferred ones */
+  include: z.array(z.string()).optional(),
+  /** Inferred query operations not to invalidate */
+  exclude: z.array(z.string()).optional(),
+  /** Disable cache invalidation for this mutation */
+  disabled: z.boolean().optional(),
+});
+
+export type InvalidationOverrideConfig = z.infer<
+  typeof invalidationOverrideSchema
+>;
+
+/**
+ * Per-operation query override configuration
+ */
+export const operationQueryOverrideSchema = infiniteQueryOverrideSchema.extend({
+  /** Queries invalidated when this mutation succeeds (mutations only) */
+  invalidation: invalidationOverrideSchema.optional(),
+  /**
+   * Optimistically update cached detail and list data before this mutation
+   * settles, rolling back on error (update and delete mutations only)
+   */
+  optimistic: z.boolean().optional(),
+});
+
+export type OperationQueryOverrideConfig = z.infer<
+  typeof operationQueryOverrideSchema
+>;
+
 /**
  * Query-specific overrides
  */
 export const queryOverridesSchema = z.object({
-  /** Per-operation infinite query overrides (key: operationId/operationName) */
-  operations: z.record(z.string(), infiniteQueryOverrideSchema).optional(),
+  /**
+   * Generate suspense variants of query options, and ensure helpers that load
+   * query data in route loaders (default: false)
+   */
+  suspense: z.boolean().optional(),
+  /** Per-operation query overrides (key: operationId/operationName) */
+  operations: z.record(z.string(), operationQueryOverrideSchema).optional(),
 });
 
 export type QueryOverridesConfig = z.infer<typeof queryOverridesSchema>;
@@ -272,6 +321,35 @@ export type GraphQLSchemaUrlConfig = z.infer<typeof graphqlSchemaUrlConfig>;
 export type GraphQLSchemaFileConfig = z.infer<typeof graphqlSchemaFileConfig>;
 export type GraphQLSchemaConfig = z.infer<typeof graphqlSchemaConfig>;
 
+/**
+ * Transports that GraphQL clients send queries and mutations with
+ *
+ * - "graphql-request" - graphql-request (default)
+ * - "fetch" - native fetch over GraphQL-over-HTTP, with no dependencies
+ * - "urql" - an existing urql client, set in client.config.ts
+ * - "apollo" - an existing Apollo Client v4+, set in client.config.ts
+ */
+export const graphqlTransportSchema = z.enum([
+  "graphql-request",
+  "fetch",
+  "urql",
+  "apollo",
+]);
+
+export type GraphQLTransport = z.infer<typeof graphqlTransportSchema>;
+
+/**
+ * How GraphQL clients send persisted documents, the sha256 hashes of their
+ * operations listed in persisted-documents.json
+ *
+ * - "documentId" - only the hash, for servers that allow-list operations
+ * - "apq" - Automatic Persisted Queries, sending the full text when the
+ *   server has not seen the hash yet
+ */
+export const persistedDocumentsSchema = z.enum(["documentId", "apq"]);
+
+export type PersistedDocumentsMode = z.infer<typeof persistedDocumentsSchema>;
+
 /**
  * GraphQL source configuration (base schema without refinements)
  */
@@ -288,6 +366,10 @@ const graphqlSourceBaseSchema = z.object({
    * Supports env var templates: "${API_URL}" or "${API_URL}/graphql"
    */
   url: z.string().optional(),
+  /** Transport the generated client sends queries and mutations with (default: "graphql-request") */
+  transport: graphqlTransportSchema.optional(),
+  /** Send queries and mutations as persisted documents (requires the "fetch" transport) */
+  persistedDocuments: persistedDocumentsSchema.optional(),
   /** Glob pattern(s) for GraphQL document files */
   documents: z.union([z.string(), z.array(z.string())]),
   /** What to generate from this source */
@@ -324,10 +406,38 @@ export const graphqlSourceSchema = graphqlSourceBaseSchema
         });
       }
     }
+    // Persisted documents change the request body, which only the fetch
+    // transport builds itself
+    if (data.persistedDocuments && data.transport !== "fetch") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'persistedDocuments requires transport "fetch"',
+        path: ["persistedDocuments"],
+      });
+    }
   });
 
 export type GraphQLSourceConfig = z.infer<typeof graphqlSourceSchema>;
 
+/**
+ * HTTP client libraries that OpenAPI clients send requests with
+ *
+ * - "better-fetch" - @better-fetch/fetch (default)
+ * - "fetch" - native fetch, with no dependencies
+ * - "ky" - ky v1+
+ * - "ofetch" - ofetch v1+
+ * - "axios" - axios v1.12+, with its fetch adapter
+ */
+export const httpClientSchema = z.enum([
+  "better-fetch",
+  "fetch",
+  "ky",
+  "ofetch",
+  "axios",
+]);
+
+export type HttpClient = z.infer<typeof httpClientSchema>;
+
 /**
  * OpenAPI source configuration (base schema without refinements)
  */
@@ -345,6 +455,8 @@ const openApiSourceBaseSchema = z.object({
    * Supports env var templates: "${API_URL}" or "${API_URL}/v1"
    */
   baseUrl: z.string().optional(),
+  /** HTTP client library the generated client sends requests with (default: "better-fetch") */
+  httpClient: httpClientSchema.optional(),
   /** Glob patterns for paths to include (e.g., ["/users/**", "/posts/*"]) */
   include: z.array(z.string()).optional(),
   /** Glob patterns for paths to exclude */
@@ -406,6 +518,31 @@ export const validatorLibrarySchema = z.enum([
 
 export type ValidatorLibrary = z.infer<typeof validatorLibrarySchema>;
 
+// =============================================================================
+// Framework Schema
+// =============================================================================
+
+/**
+ * Supported framework targets for generated TanStack imports
+ *
+ * - "react" - @tanstack/react-query, @tanstack/react-db, @tanstack/react-form (default)
+ * - "vue" - @tanstack/vue-query, @tanstack/vue-db, @tanstack/vue-form
+ * - "solid" - @tanstack/solid-query, @tanstack/solid-db, @tanstack/solid-form
+ * - "svelte" - @tanstack/svelte-query, @tanstack/svelte-db, @tanstack/svelte-form
+ * - "angular" - @tanstack/angular-query-experimental, @tanstack/angular-db, @tanstack/angular-form
+ * - "core" - framework-agnostic @tanstack/query-core, @tanstack/db, @tanstack/form-core
+ */
+export const frameworkSchema = z.enum([
+  "react",
+  "vue",
+  "solid",
+  "svelte",
+  "angular",
+  "core",
+]);
+
+export type Framework = z.infer<typeof frameworkSchema>;
+
 // =============================================================================
 // Main Config Schema
 // =============================================================================
@@ -423,6 +560,12 @@ export const tangramsConfigSchema = z.object({
    * work with any tool that accepts Standard Schema validators (TanStack Form, etc.)
    */
   validator: validatorLibrarySchema.default("zod"),
+  /**
+   * Framework to target for TanStack Query, DB, and Form imports (default: "react")
+   *
+   * Use "core" to import from the framework-agnostic packages.
+   */
+  framework: frameworkSchema.default("react"),
   /** Array of data sources to generate from */
   sources: z
     .array(sourceSchema)
@@ -551,6 +694,8 @@ export interface OpenAPISourceOptions {
  */
 export interface ConfigGenerationOptions {
   validator: ValidatorLibrary;
+  /** Framework target (omitted from the generated config when "react") */
+  framework?: Framework;
   source: GraphQLSourceOptions | OpenAPISourceOptions;
 }
 
@@ -567,10 +712,12 @@ export interface ConfigGenerationOptions {
 export function generateConfigFromOptions(
   options: ConfigGenerationOptions,
 ): string {
-  const { validator, source } = options;
+  const { validator, framework = "react", source } = options;
 
   const validatorLine =
     validator === "zod" ? "" : `\n\tvalidator: "${validator}",`;
+  const frameworkLine =
+    framework === "react" ? "" : `\n\tframework: "${framework}",`;
   const generatesArray = JSON.stringify(source.generates);
 
   if (source.type === "graphql") {
@@ -590,7 +737,7 @@ export function generateConfigFromOptions(
 
     return `import { defineConfig } from "tangrams"
 
-export default defineConfig({${validatorLine}
+export default defineConfig({${validatorLine}${frameworkLine}
 	sources: [
 		{
 			name: ${safeName},
@@ -610,7 +757,7 @@ export default defineConfig({${validatorLine}
 
   return `import { defineConfig } from "tangrams"
 
-export default defineConfig({${validatorLine}
+export default defineConfig({${validatorLine}${frameworkLine}
 	sources: [
 		{
 			name: ${safeName},
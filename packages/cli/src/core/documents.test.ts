@@ -1,8 +1,17 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
 
+import { buildSchema } from "graphql";
 import { describe, expect, it } from "vitest";
 
-import { getFragmentDependencies, loadDocuments } from "./documents";
+import {
+  addTypenameToDocuments,
+  getFragmentDependencies,
+  getOperationText,
+  getPersistedDocumentId,
+  loadDocuments,
+} from "./documents";
 
 const fixturesDir = resolve(__dirname, "../test/fixtures/graphql");
 
@@ -62,8 +71,8 @@ describe("loadDocuments", () => {
       `${fixturesDir}/subscription.graphql`,
     ]);
 
-    // Should have operations from user.graphql and post.graphql
-    expect(result.operations.length).toBeGreaterThanOrEqual(2);
+    // Should have operations from all three files
+    expect(result.operations.length).toBeGreaterThanOrEqual(4);
   });
 
   it("throws when no files match the pattern", async () => {
@@ -78,11 +87,16 @@ describe("loadDocuments", () => {
     ).rejects.toThrow("All operations must have a name");
   });
 
-  it("skips subscription operations", async () => {
+  it("extracts subscription operations", async () => {
     const result = await loadDocuments(`${fixturesDir}/subscription.graphql`);
 
-    // Subscriptions should be skipped, so no operations
-    expect(result.operations).toHaveLength(0);
+    expect(result.operations.map((op) => op.name)).toEqual([
+      "OnUserCreated",
+      "OnPostPublished",
+    ]);
+    expect(
+      result.operations.every((op) => op.operation === "subscription"),
+    ).toBe(true);
   });
 
   it("handles files with only fragments", async () => {
@@ -185,3 +199,85 @@ describe("getFragmentDependencies", () => {
     expect(depNames).toHaveLength(uniqueNames.length);
   });
 });
+
+describe("getOperationText", () => {
+  it("appends the documents of fragment dependencies", async () => {
+    const docs = await loadDocuments(`${fixturesDir}/user.graphql`);
+
+    const getUser = docs.operations.find((op) => op.name === "GetUser");
+    const userFields = docs.fragments.find((f) => f.name === "UserFields");
+    if (!getUser || !userFields) throw new Error("GetUser not found");
+
+    expect(getOperationText(getUser, docs.fragments)).toBe(
+      `\n${getUser.document}\n\n${userFields.document}\n`,
+    );
+  });
+});
+
+describe("getPersistedDocumentId", () => {
+  it("hashes the operation text with sha256", async () => {
+    const docs = await loadDocuments(`${fixturesDir}/user.graphql`);
+
+    const getUser = docs.operations.find((op) => op.name === "GetUser");
+    if (!getUser) throw new Error("GetUser operation not found");
+
+    const text = getOperationText(getUser, docs.fragments);
+    expect(getPersistedDocumentId(getUser, docs.fragments)).toBe(
+      createHash("sha256").update(text).digest("hex"),
+    );
+  });
+});
+
+describe("addTypenameToDocuments", () => {
+  const loadSchema = async () =>
+    buildSchema(await readFile(`${fixturesDir}/schema.graphql`, "utf-8"));
+
+  it("adds __typename to union selections", async () => {
+    const docs = addTypenameToDocuments(
+      await loadDocuments(`${fixturesDir}/union.graphql`),
+      await loadSchema(),
+    );
+
+    const searchContent = docs.operations.find(
+      (op) => op.name === "SearchContent",
+    );
+    expect(searchContent?.document).toMatch(
+      /search\(query: \$query\) \{[\s\S]*__typename\n {2}\}/,
+    );
+  });
+
+  it("adds __typename to interface selections and fragments", async () => {
+    const docs = addTypenameToDocuments(
+      await loadDocuments(`${fixturesDir}/interface.graphql`),
+      await loadSchema(),
+    );
+
+    const getNodeMinimal = docs.operations.find(
+      (op) => op.name === "GetNodeMinimal",
+    );
+    const nodeFields = docs.fragments.find((f) => f.name === "NodeFields");
+    expect(getNodeMinimal?.document).toContain("id\n    __typename");
+    expect(nodeFields?.document).toContain("__typename");
+  });
+
+  it("does not duplicate an existing __typename", async () => {
+    const docs = await loadDocuments(`${fixturesDir}/union.graphql`);
+    const result = addTypenameToDocuments(docs, await loadSchema());
+
+    const searchMinimal = result.operations.find(
+      (op) => op.name === "SearchMinimal",
+    );
+    expect(searchMinimal?.document.match(/__typename/g)).toHaveLength(1);
+    expect(searchMinimal).toBe(
+      docs.operations.find((op) => op.name === "SearchMinimal"),
+    );
+  });
+
+  it("leaves object type selections unchanged", async () => {
+    const docs = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = addTypenameToDocuments(docs, await loadSchema());
+
+    expect(result.operations).toEqual(docs.operations);
+    expect(result.fragments).toEqual(docs.fragments);
+  });
+});
@@ -1,13 +1,25 @@
+import { createHash } from "node:crypto";
 import { readFile } from "node:fs/promises";
 
 import fg from "fast-glob";
-import { Kind, parse } from "graphql";
+import {
+  Kind,
+  TypeInfo,
+  isAbstractType,
+  parse,
+  print,
+  visit,
+  visitWithTypeInfo,
+} from "graphql";
 
 import type {
   DocumentNode,
   FragmentDefinitionNode,
+  GraphQLSchema,
   OperationDefinitionNode,
+  SelectionSetNode,
 } from "graphql";
+import type { DocComment } from "@/utils/writer";
 
 export interface ParsedOperation {
   name: string;
@@ -63,6 +75,70 @@ export async function loadDocuments(
   return { operations, fragments };
 }
 
+/**
+ * Add `__typename` to every selection set on a union or interface type so
+ * generated schemas can tell the possible types apart. Definitions that
+ * change are re-printed; the rest keep their original source text.
+ */
+export function addTypenameToDocuments(
+  documents: ParsedDocuments,
+  schema: GraphQLSchema,
+): ParsedDocuments {
+  return {
+    operations: documents.operations.map((operation) => {
+      const node = addTypenameToDefinition(operation.node, schema);
+      return node === operation.node
+        ? operation
+        : { ...operation, node, document: print(node) };
+    }),
+    fragments: documents.fragments.map((fragment) => {
+      const node = addTypenameToDefinition(fragment.node, schema);
+      return node === fragment.node
+        ? fragment
+        : { ...fragment, node, document: print(node) };
+    }),
+  };
+}
+
+/**
+ * Add `__typename` to the polymorphic selection sets of a definition,
+ * returning the same node when nothing changes
+ */
+function addTypenameToDefinition<
+  T extends OperationDefinitionNode | FragmentDefinitionNode,
+>(node: T, schema: GraphQLSchema): T {
+  const typeInfo = new TypeInfo(schema);
+
+  return visit(
+    node,
+    visitWithTypeInfo(typeInfo, {
+      SelectionSet(selectionSet): SelectionSetNode | undefined {
+        const parentType = typeInfo.getParentType();
+        if (!parentType || !isAbstractType(parentType)) return undefined;
+
+        const hasTypename = selectionSet.selections.some(
+          (selection) =>
+            selection.kind === Kind.FIELD &&
+            selection.name.value === "__typename" &&
+            !selection.alias,
+        );
+        if (hasTypename) return undefined;
+
+        return {
+          ...selectionSet,
+          selections: [
+            ...selectionSet.selections,
+            {
+              kind: Kind.FIELD,
+              name: { kind: Kind.NAME, value: "__typename" },
+            },
+          ],
+        };
+      },
+    }),
+  );
+}
+
 /**
  * Extract operations and fragments from a parsed document
  */
@@ -81,15 +157,9 @@ function extractDefinitions(
         );
       }
 
-      const operationType = definition.operation;
-      if (operationType === "subscription") {
-        // We'll support subscriptions later
-        continue;
-      }
-
       ops.push({
         name: definition.name.value,
-        operation: operationType,
+        operation: definition.operation,
         node: definition,
         document: extractOperationSource(source, definition.name.value),
       });
@@ -130,6 +200,44 @@ function extractFragmentSource(source: string, name: string): string {
   return match ? match[0] : "";
 }
 
+/**
+ * Get the documentation of an operation from the root fields it selects.
+ * An operation selecting a single field takes that field's description, and
+ * an operation is deprecated when any of its root fields are.
+ */
+export function getOperationDoc(
+  operation: ParsedOperation,
+  schema: GraphQLSchema,
+): DocComment {
+  const rootType = schema.getRootType(operation.node.operation);
+  if (!rootType) return {};
+
+  const rootFields = rootType.getFields();
+  const fields = operation.node.selectionSet.selections.flatMap((selection) =>
+    selection.kind === Kind.FIELD && rootFields[selection.name.value]
+      ? [rootFields[selection.name.value]!]
+      : [],
+  );
+
+  const deprecatedFields = fields.filter(
+    (field) => field.deprecationReason != null,
+  );
+  let deprecated: boolean | string | undefined;
+  if (fields.length === 1 && deprecatedFields.length === 1) {
+    deprecated = deprecatedFields[0]!.deprecationReason || true;
+  } else if (deprecatedFields.length > 0) {
+    deprecated = deprecatedFields
+      .map((field) => `${field.name}: ${field.deprecationReason}`)
+      .join("; ");
+  }
+
+  return {
+    description:
+      fields.length === 1 ? (fields[0]!.description ?? undefined) : undefined,
+    deprecated,
+  };
+}
+
 /**
  * Get the fragment dependencies for an operation
  */
@@ -161,6 +269,34 @@ export function getFragmentDependencies(
   return deps;
 }
 
+/**
+ * Get the text an operation is sent with: its document, then the documents
+ * of its fragment dependencies. Matches the document constants of the
+ * generated functions, which interpolate the fragments into the operation.
+ */
+export function getOperationText(
+  operation: ParsedOperation,
+  allFragments: ParsedFragment[],
+): string {
+  const fragments = getFragmentDependencies(operation, allFragments)
+    .map((fragment) => `\n${fragment.document}\n`)
+    .join("");
+  return `\n${operation.document}\n${fragments}`;
+}
+
+/**
+ * Get the persisted document ID of an operation: the sha256 hash (hex) of
+ * the text it is sent with
+ */
+export function getPersistedDocumentId(
+  operation: ParsedOperation,
+  allFragments: ParsedFragment[],
+): string {
+  return createHash("sha256")
+    .update(getOperationText(operation, allFragments))
+    .digest("hex");
+}
+
 /**
  * Find all fragment spread names in a node
  */
@@ -1,8 +1,14 @@
 import { constants } from "node:fs";
-import { access, mkdir, writeFile } from "node:fs/promises";
+import { access, mkdir, readFile, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 
 import { getAdapter } from "@/adapters";
+import { PERSISTED_DOCUMENTS_FILENAME } from "@/adapters/graphql/persisted-documents";
+import {
+  CLIENT_CONFIG_FILENAME,
+  LEGACY_CLIENT_MARKER,
+  getClientConfigTarget,
+} from "@/generators/middleware";
 import { defaultLogger } from "@/utils/logger";
 import { getRelativeImportPath } from "@/utils/paths";
 import {
@@ -13,8 +19,14 @@ import {
   normalizeGenerates,
 } from "./config";
 
+import type { GraphQLAdapter, GraphQLAdapterSchema } from "@/adapters/types";
 import type { TangramsLogger } from "@/utils/logger";
-import type { SourceConfig, TangramsConfig, ValidatorLibrary } from "./config";
+import type {
+  Framework,
+  SourceConfig,
+  TangramsConfig,
+  ValidatorLibrary,
+} from "./config";
 
 // =============================================================================
 // Hardcoded File Names
@@ -25,8 +37,11 @@ import type { SourceConfig, TangramsConfig, ValidatorLibrary } from "./config";
  */
 const FILES = {
   client: "client.ts",
+  clientConfig: CLIENT_CONFIG_FILENAME,
   schema: "schema.ts",
   functions: "functions.ts",
+  persistedDocuments: PERSISTED_DOCUMENTS_FILENAME,
+  keys: "keys.ts",
   query: {
     types: "types.ts",
     options: "options.ts",
@@ -96,8 +111,10 @@ async function fileExists(path: string): Promise<boolean> {
  * Output structure:
  *   <output>/tangrams/<source-name>/
  *     ├── client.ts          # shared client (always)
+ *     ├── client.config.ts   # client customizations (written once, yours to edit)
  *     ├── schema.ts          # zod schemas + inferred types (when query/form/db enabled)
  *     ├── functions.ts       # standalone fetch functions (when query/db enabled)
+ *     ├── keys.ts            # query key factories (when query/db enabled)
  *     ├── query/
  *     │   └── options.ts     # TanStack Query options
  *     ├── form/
@@ -171,11 +188,12 @@ export async function generate(
     // Track paths for import resolution
     let schemaPath: string | undefined;
     let functionsPath: string | undefined;
+    let keysPath: string | undefined;
     const clientPath = join(sourceOutputDir, FILES.client);
 
-    // Step 1: Generate client (always, at source root)
-    // client.ts is always tracked in manifest even if skipped (already exists)
-    sourceFiles.push(FILES.client);
+    // Step 1: Generate client and its config (always, at source root)
+    // Both are always tracked in manifest even if skipped (already exist)
+    sourceFiles.push(FILES.client, FILES.clientConfig);
     await generateClientFile({
       source,
       sourceOutputDir,
@@ -210,21 +228,51 @@ export async function generate(
       sourceFiles.push(FILES.functions);
     }
 
-    // Step 4: Generate query files if enabled
-    if (generates.query && functionsPath) {
+    // Step 3b: Generate the persisted documents manifest the functions send
+    // the IDs of (GraphQL only)
+    if (
+      generates.query &&
+      source.type === "graphql" &&
+      source.persistedDocuments
+    ) {
+      await generatePersistedDocumentsFile({
+        source,
+        sourceOutputDir,
+        schema,
+        logger,
+      });
+      sourceFiles.push(FILES.persistedDocuments);
+    }
+
+    // Step 4: Generate query key factories if query is enabled (at source root)
+    if (generates.query && schemaPath) {
+      keysPath = await generateKeysFile({
+        source,
+        sourceOutputDir,
+        schema,
+        schemaPath,
+        logger,
+      });
+      sourceFiles.push(FILES.keys);
+    }
+
+    // Step 5: Generate query files if enabled
+    if (generates.query && functionsPath && keysPath) {
       await generateQueryFiles({
         source,
         sourceOutputDir,
         schema,
         schemaPath,
         functionsPath,
+        keysPath,
+        framework: config.framework,
         logger,
       });
       sourceFiles.push(`query/${FILES.query.options}`);
       querySourceNames.push(source.name);
     }
 
-    // Step 5: Generate form files if enabled
+    // Step 6: Generate form files if enabled
     if (generates.form && schemaPath) {
       await generateFormFiles({
         source,
@@ -232,20 +280,23 @@ export async function generate(
         schema,
         schemaPath,
         validatorLibrary: config.validator,
+        framework: config.framework,
         logger,
       });
       sourceFiles.push(`form/${FILES.form.options}`);
       formSourceNames.push(source.name);
     }
 
-    // Step 6: Generate db files if enabled
-    if (generates.db && functionsPath && schemaPath) {
+    // Step 7: Generate db files if enabled
+    if (generates.db && functionsPath && schemaPath && keysPath) {
       await generateDbFiles({
         source,
         sourceOutputDir,
         schema,
         typesPath: schemaPath,
         functionsPath,
+        keysPath,
+        framework: config.framework,
         logger,
       });
       sourceFiles.push(`db/${FILES.db.collections}`);
@@ -294,28 +345,52 @@ interface GenerateClientFileOptions {
 }
 
 /**
- * Generate client file for a source
- * Outputs to: <source-name>/client.ts
+ * Generate client file and its config for a source
+ * Outputs to: <source-name>/client.ts and <source-name>/client.config.ts
+ *
+ * client.ts is regenerated on every run, except for clients from earlier
+ * versions, which were customized in place. client.config.ts holds the
+ * customizations, so it is only written when it does not exist. An existing
+ * one generated for another transport or HTTP client is kept with a warning.
  */
 async function generateClientFile(
   options: GenerateClientFileOptions,
 ): Promise<void> {
   const { source, sourceOutputDir, schema, force, logger } = options;
+  const adapter = getAdapter(source.type);
 
   const clientPath = join(sourceOutputDir, FILES.client);
   const clientExists = await fileExists(clientPath);
+  const isLegacyClient =
+    clientExists &&
+    (await readFile(clientPath, "utf-8")).includes(LEGACY_CLIENT_MARKER);
 
-  if (clientExists && !force) {
-    logger.info(
-      `Skipping ${FILES.client} (already exists, use --force to regenerate)`,
+  if (isLegacyClient && !force) {
+    logger.warn(
+      `Skipping ${FILES.client} (customized by an earlier version). Move your customizations to ${FILES.clientConfig}, then use --force to regenerate it`,
     );
-    return;
+  } else {
+    const clientResult = adapter.generateClient(schema, source);
+    await writeFile(clientPath, clientResult.content, "utf-8");
+    logger.success(`Generated ${source.name}/${FILES.client}`);
   }
 
-  const adapter = getAdapter(source.type);
-  const clientResult = adapter.generateClient(schema, source);
-  await writeFile(clientPath, clientResult.content, "utf-8");
-  logger.success(`Generated ${source.name}/${FILES.client}`);
+  const configPath = join(sourceOutputDir, FILES.clientConfig);
+  const configResult = adapter.generateClientConfig(schema, source);
+  if (await fileExists(configPath)) {
+    const existingTarget = getClientConfigTarget(
+      await readFile(configPath, "utf-8"),
+    );
+    const target = getClientConfigTarget(configResult.content);
+    if (existingTarget && target && existingTarget !== target) {
+      logger.warn(
+        `${source.name}/${FILES.clientConfig} was generated for ${existingTarget}, but the source now uses ${target}. Update it to match, or delete it to regenerate it`,
+      );
+    }
+    return;
+  }
+  await writeFile(configPath, configResult.content, "utf-8");
+  logger.success(`Generated ${source.name}/${FILES.clientConfig}`);
 }
 
 // =============================================================================
@@ -415,6 +490,77 @@ async function generateFunctionsFile(
   return functionsPath;
 }
 
+// =============================================================================
+// Persisted Documents Generation
+// =============================================================================
+
+interface GeneratePersistedDocumentsFileOptions {
+  source: SourceConfig;
+  sourceOutputDir: string;
+  schema: unknown;
+  logger: TangramsLogger;
+}
+
+/**
+ * Generate the persisted documents manifest for a GraphQL source
+ * Outputs to: <source-name>/persisted-documents.json
+ */
+async function generatePersistedDocumentsFile(
+  options: GeneratePersistedDocumentsFileOptions,
+): Promise<void> {
+  const { source, sourceOutputDir, schema, logger } = options;
+  if (source.type !== "graphql") return;
+
+  const adapter = getAdapter(source.type) as GraphQLAdapter;
+  const manifestPath = join(sourceOutputDir, FILES.persistedDocuments);
+
+  const manifestResult = adapter.generatePersistedDocuments(
+    schema as GraphQLAdapterSchema,
+    source,
+  );
+
+  await writeFile(manifestPath, manifestResult.content, "utf-8");
+  logger.success(`Generated ${source.name}/${FILES.persistedDocuments}`);
+}
+
+// =============================================================================
+// Query Keys Generation
+// =============================================================================
+
+interface GenerateKeysFileOptions {
+  source: SourceConfig;
+  sourceOutputDir: string;
+  schema: unknown;
+  schemaPath: string;
+  logger: TangramsLogger;
+}
+
+/**
+ * Generate query key factories file for a source
+ * Outputs to: <source-name>/keys.ts
+ * Returns the absolute path to the generated keys file
+ */
+async function generateKeysFile(
+  options: GenerateKeysFileOptions,
+): Promise<string> {
+  const { source, sourceOutputDir, schema, schemaPath, logger } = options;
+
+  const adapter = getAdapter(source.type);
+  const keysPath = join(sourceOutputDir, FILES.keys);
+  const typesImportPath = getRelativeImportPath(dirname(keysPath), schemaPath);
+
+  const keysResult = adapter.generateKeys(schema, source, {
+    typesImportPath,
+    sourceName: source.name,
+    queryOverrides: getQueryOverrides(source),
+  });
+
+  await writeFile(keysPath, keysResult.content, "utf-8");
+  logger.success(`Generated ${source.name}/${FILES.keys}`);
+
+  return keysPath;
+}
+
 // =============================================================================
 // Query Generation
 // =============================================================================
@@ -427,6 +573,9 @@ interface GenerateQueryFilesOptions {
   schemaPath?: string;
   /** Path to functions file */
   functionsPath: string;
+  /** Path to query keys file */
+  keysPath: string;
+  framework: Framework;
   logger: TangramsLogger;
 }
 
@@ -438,8 +587,16 @@ interface GenerateQueryFilesOptions {
 async function generateQueryFiles(
   options: GenerateQueryFilesOptions,
 ): Promise<void> {
-  const { source, sourceOutputDir, schema, schemaPath, functionsPath, logger } =
-    options;
+  const {
+    source,
+    sourceOutputDir,
+    schema,
+    schemaPath,
+    functionsPath,
+    keysPath,
+    framework,
+    logger,
+  } = options;
 
   logger.info(`Generating query files for: ${source.name}`);
 
@@ -463,13 +620,25 @@ async function generateQueryFiles(
   const optionsDir = dirname(optionsPath);
   const typesImportPath = getRelativeImportPath(optionsDir, schemaPath);
   const functionsImportPath = getRelativeImportPath(optionsDir, functionsPath);
+  const keysImportPath = getRelativeImportPath(optionsDir, keysPath);
 
   const optionsResult = adapter.generateOperations(schema, source, {
     typesImportPath,
     functionsImportPath,
+    keysImportPath,
     sourceName: source.name,
     queryOverrides: getQueryOverrides(source),
+    collectionOverrides: getDbCollectionOverrides(source),
+    framework,
   });
+
+  // Log any warnings (deduplicated)
+  if (optionsResult.warnings) {
+    for (const warning of [...new Set(optionsResult.warnings)]) {
+      logger.warn(warning);
+    }
+  }
+
   await writeFile(optionsPath, optionsResult.content, "utf-8");
   logger.success(`Generated ${source.name}/query/${FILES.query.options}`);
 }
@@ -484,6 +653,7 @@ interface GenerateFormFilesOptions {
   schema: unknown;
   schemaPath: string;
   validatorLibrary: ValidatorLibrary;
+  framework: Framework;
   logger: TangramsLogger;
 }
 
@@ -500,6 +670,7 @@ async function generateFormFiles(
     schema,
     schemaPath,
     validatorLibrary,
+    framework,
     logger,
   } = options;
 
@@ -523,6 +694,7 @@ async function generateFormFiles(
     sourceName: source.name,
     formOverrides: getFormOverrides(source),
     validatorLibrary,
+    framework,
   });
 
   // Log any warnings (deduplicated)
@@ -548,6 +720,9 @@ interface GenerateDbFilesOptions {
   typesPath: string;
   /** Path to functions file */
   functionsPath: string;
+  /** Path to query keys file */
+  keysPath: string;
+  framework: Framework;
   logger: TangramsLogger;
 }
 
@@ -556,8 +731,16 @@ interface GenerateDbFilesOptions {
  * Outputs to: <source-name>/db/collections.ts
  */
 async function generateDbFiles(options: GenerateDbFilesOptions): Promise<void> {
-  const { source, sourceOutputDir, schema, typesPath, functionsPath, logger } =
-    options;
+  const {
+    source,
+    sourceOutputDir,
+    schema,
+    typesPath,
+    functionsPath,
+    keysPath,
+    framework,
+    logger,
+  } = options;
 
   logger.info(`Generating db files for: ${source.name}`);
 
@@ -577,12 +760,15 @@ async function generateDbFiles(options: GenerateDbFilesOptions): Promise<void> {
     collectionsDir,
     functionsPath,
   );
+  const keysImportPath = getRelativeImportPath(collectionsDir, keysPath);
 
   const dbResult = adapter.generateCollections(schema, source, {
     typesImportPath,
     functionsImportPath,
+    keysImportPath,
     sourceName: source.name,
     collectionOverrides: getDbCollectionOverrides(source),
+    framework,
   });
 
   // Log any warnings (deduplicated)
@@ -6,16 +6,43 @@
  * ArkType uses a string-based DSL for type definitions, which is different
  * from Zod/Valibot's method chaining approach. We use the `type()` function
  * with object syntax for complex types.
+ *
+ * Descriptions are only written as JSDoc: ArkType uses a type's description
+ * in its validation errors, so attaching one would replace the messages.
  */
 
 import { toFragmentSchemaName, toSchemaName } from "@/utils/naming";
-import { createWriter, writeHeader, writeSectionComment } from "@/utils/writer";
-
+import {
+  createWriter,
+  writeDocComment,
+  writeHeader,
+  writeSectionComment,
+} from "@/utils/writer";
+import {
+  extractDependencies,
+  getDiscriminatorValueSchema,
+  tagObjectMember,
+} from "../ir/utils";
+import {
+  UNIQUE_ITEMS_MESSAGE,
+  formatDefaultValue,
+  formatRegex,
+  getDefaultedInputSchemas,
+  getNumberBounds,
+  getPropertyCountChecks,
+  getUniqueItemsCheck,
+  hasDefaultValue,
+  withFieldDoc,
+} from "./utils";
+
+import type CodeBlockWriter from "code-block-writer";
 import type {
   ArraySchemaIR,
+  DiscriminatedUnionSchemaIR,
   EnumSchemaIR,
   IntersectionSchemaIR,
   NamedSchemaIR,
+  NumberSchemaIR,
   ObjectSchemaIR,
   RecordSchemaIR,
   SchemaIR,
@@ -39,22 +66,42 @@ export const arktypeEmitter: Emitter = {
     return `export type ${typeName} = typeof ${schemaVarName}.infer`;
   },
 
+  getInputTypeInference(schemaVarName: string, typeName: string): string {
+    return `export type ${typeName} = typeof ${schemaVarName}.inferIn`;
+  },
+
   emit(schemas: NamedSchemaIR[], _options?: EmitterOptions): EmitterResult {
     const warnings: string[] = [];
     const writer = createWriter();
 
     writeHeader(writer);
-    writer.writeLine(this.getImportStatement());
+    writer.writeLine(
+      schemas.some((entry) => entry.recursive)
+        ? 'import { scope, type } from "arktype"'
+        : this.getImportStatement(),
+    );
     writer.blankLine();
 
     // Generate schemas
     if (schemas.length > 0) {
       writeSectionComment(writer, "ArkType Schemas");
       for (let i = 0; i < schemas.length; i++) {
-        const { name, schema } = schemas[i]!;
-        const schemaVarName = toSchemaName(name);
-        const schemaCode = emitSchemaIR(schema, warnings);
-        writer.writeLine(`export const ${schemaVarName} = ${schemaCode}`);
+        const { name, schema, recursive } = schemas[i]!;
+
+        if (recursive) {
+          // Recursive schemas are declared together in a scope (sorting keeps
+          // the schemas of a cycle together)
+          let end = i;
+          while (schemas[end + 1]?.recursive) end++;
+          writeScope(writer, schemas.slice(i, end + 1), warnings);
+          i = end;
+        } else {
+          const schemaVarName = toSchemaName(name);
+          const schemaCode = emitSchemaIR(schema, warnings);
+          writeDocComment(writer, schema);
+          writer.writeLine(`export const ${schemaVarName} = ${schemaCode}`);
+        }
+
         // Add blank line between schemas, but not after the last one
         if (i < schemas.length - 1) {
           writer.blankLine();
@@ -69,9 +116,15 @@ export const arktypeEmitter: Emitter = {
         writer,
         "TypeScript Types (inferred from ArkType schemas)",
       );
-      for (const { name } of schemas) {
+      const inputSchemas = getDefaultedInputSchemas(schemas);
+      for (const { name, schema } of schemas) {
         const schemaVarName = toSchemaName(name);
-        writer.writeLine(this.getTypeInference(schemaVarName, name));
+        writeDocComment(writer, schema);
+        writer.writeLine(
+          inputSchemas.has(name)
+            ? this.getInputTypeInference(schemaVarName, name)
+            : this.getTypeInference(schemaVarName, name),
+        );
       }
     }
 
@@ -86,16 +139,236 @@ export const arktypeEmitter: Emitter = {
 // IR to ArkType Conversion
 // ============================================================================
 
+/**
+ * Write recursive schemas as a scope. Scope aliases can reference each other
+ * (and themselves) by name, and ArkType infers the resulting cyclic types.
+ */
+function writeScope(
+  writer: CodeBlockWriter,
+  schemas: NamedSchemaIR[],
+  warnings: string[],
+): void {
+  const aliases = new Set(schemas.map((entry) => entry.name));
+  const schemaVarNames = schemas.map((entry) => toSchemaName(entry.name));
+  const scopeVarName = schemaVarNames[0]!.replace(/Schema$/, "Scope");
+
+  writer.writeLine(`const ${scopeVarName} = scope({`);
+  for (const [i, { schema }] of schemas.entries()) {
+    const definition = getDefinition(schema, aliases, warnings, "  ");
+    writer.writeLine(`  ${schemaVarNames[i]}: ${definition},`);
+  }
+  writer.writeLine("})");
+
+  // Resolve each alias with `.type()`, since `.export()` doesn't validate
+  // cyclic unions
+  for (const [i, { schema }] of schemas.entries()) {
+    const schemaVarName = schemaVarNames[i]!;
+    writeDocComment(writer, schema);
+    writer.writeLine(
+      `export const ${schemaVarName} = ${scopeVarName}.type("${schemaVarName}")`,
+    );
+  }
+}
+
+/**
+ * Get a scope definition for a schema. Definitions that reference scope
+ * aliases are built from strings, object literals, and tuple expressions
+ * (e.g., `[def, "|", "null"]`), since `type()` can't resolve the aliases.
+ */
+function getDefinition(
+  schema: SchemaIR,
+  aliases: Set<string>,
+  warnings: string[],
+  indent: string,
+): string {
+  if (!referencesAlias(schema, aliases)) {
+    return getTypeString(schema, warnings);
+  }
+
+  const define = (s: SchemaIR) => getDefinition(s, aliases, warnings, indent);
+
+  switch (schema.kind) {
+    case "ref":
+      return `"${toSchemaName(schema.name)}"`;
+
+    case "object":
+      warnScopeConstraints(schema, warnings);
+      return getObjectDefinition(schema, aliases, warnings, indent);
+
+    case "array": {
+      warnScopeConstraints(schema, warnings);
+      const itemDefinition = define(schema.items);
+      return isStringDefinition(itemDefinition)
+        ? `"${itemDefinition.slice(1, -1)}[]"`
+        : `[${itemDefinition}, "[]"]`;
+    }
+
+    case "tuple":
+      return `[${schema.items.map(define).join(", ")}]`;
+
+    case "record":
+      warnScopeConstraints(schema, warnings);
+      return `{ "[string]": ${define(schema.valueType)} }`;
+
+    case "union":
+      return joinDefinitions(schema.members.map(define), "|");
+
+    case "intersection":
+      return joinDefinitions(schema.members.map(define), "&");
+
+    case "discriminatedUnion": {
+      const { discriminator } = schema;
+      const memberDefinitions = schema.members.map(
+        ({ values, schema: member }) => {
+          if (member.kind === "object") {
+            return getObjectDefinition(
+              tagObjectMember(member, discriminator, values),
+              aliases,
+              warnings,
+              indent,
+            );
+          }
+          const tagType = getTypeString(
+            getDiscriminatorValueSchema(values),
+            warnings,
+          );
+          return `[${define(member)}, "&", { "${discriminator}": ${tagType} }]`;
+        },
+      );
+      return joinDefinitions(memberDefinitions, "|");
+    }
+
+    default:
+      return getTypeString(schema, warnings);
+  }
+}
+
+/**
+ * Warn about size constraints on a scope definition that references an
+ * alias, since they're only applied to `type()` schemas
+ */
+function warnScopeConstraints(
+  schema: ArraySchemaIR | ObjectSchemaIR | RecordSchemaIR,
+  warnings: string[],
+): void {
+  const constrained =
+    schema.kind === "array"
+      ? schema.minItems !== undefined ||
+        schema.maxItems !== undefined ||
+        schema.uniqueItems
+      : schema.minProperties !== undefined ||
+        schema.maxProperties !== undefined;
+  if (constrained) {
+    warnings.push(
+      "ArkType scopes do not support item or property count constraints on recursive schemas. These constraints will not be validated.",
+    );
+  }
+}
+
+/**
+ * Get an object literal definition, with optional properties nullable like
+ * `emitObject`
+ */
+function getObjectDefinition(
+  schema: ObjectSchemaIR,
+  aliases: Set<string>,
+  warnings: string[],
+  indent: string,
+): string {
+  const propIndent = `${indent}  `;
+  const fields: string[] = [];
+
+  for (const [propName, prop] of Object.entries(schema.properties)) {
+    const definition = getDefinition(
+      prop.schema,
+      aliases,
+      warnings,
+      propIndent,
+    );
+    if (hasDefaultValue(prop.schema)) {
+      fields.push(
+        withFieldDoc(
+          `"${propName}": [${definition}, "=", ${formatDefaultValue(prop.schema.default)}]`,
+          prop.schema,
+          propIndent,
+        ),
+      );
+      continue;
+    }
+    const keyStr = prop.required ? `"${propName}"` : `"${propName}?"`;
+    fields.push(
+      withFieldDoc(
+        `${keyStr}: ${prop.required ? definition : joinDefinitions([definition, '"null"'], "|")}`,
+        prop.schema,
+        propIndent,
+      ),
+    );
+  }
+
+  if (schema.additionalProperties === true) {
+    fields.push('"+": "ignore"');
+  } else if (
+    typeof schema.additionalProperties === "object" &&
+    schema.additionalProperties !== null
+  ) {
+    const valueDefinition = getDefinition(
+      schema.additionalProperties,
+      aliases,
+      warnings,
+      propIndent,
+    );
+    fields.push(`"[string]": ${valueDefinition}`);
+  }
+
+  return `{\n${fields.map((f) => `${propIndent}${f}`).join(",\n")}\n${indent}}`;
+}
+
+/**
+ * Join definitions with a union or intersection operator, as one string when
+ * possible and as nested tuple expressions otherwise
+ */
+function joinDefinitions(definitions: string[], operator: "|" | "&"): string {
+  if (definitions.every(isStringDefinition)) {
+    return `"${definitions.map((d) => d.slice(1, -1)).join(` ${operator} `)}"`;
+  }
+
+  const [first, ...rest] = definitions;
+  if (!first) {
+    return '"never"';
+  }
+  return rest.reduce(
+    (result, definition) => `[${result}, "${operator}", ${definition}]`,
+    first,
+  );
+}
+
+/**
+ * Check if a definition is a string definition (e.g., `"string[]"`)
+ */
+function isStringDefinition(definition: string): boolean {
+  return definition.startsWith('"') && definition.endsWith('"');
+}
+
+/**
+ * Check if a schema references any of the given scope aliases
+ */
+function referencesAlias(schema: SchemaIR, aliases: Set<string>): boolean {
+  for (const dep of extractDependencies(schema)) {
+    if (aliases.has(dep)) return true;
+  }
+  return false;
+}
+
 /**
  * Convert a SchemaIR to ArkType code string
  */
 function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
   switch (schema.kind) {
     case "string":
-      return emitString(schema);
+      return emitString(schema, warnings);
 
     case "number":
-      return schema.integer ? 'type("number.integer")' : 'type("number")';
+      return emitNumber(schema, warnings);
 
     case "boolean":
       return 'type("boolean")';
@@ -118,6 +391,9 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "date":
       return 'type("Date")';
 
+    case "file":
+      return 'type("File | Blob")';
+
     case "object":
       return emitObject(schema, warnings);
 
@@ -139,6 +415,9 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "union":
       return emitUnion(schema, warnings);
 
+    case "discriminatedUnion":
+      return emitDiscriminatedUnion(schema, warnings);
+
     case "intersection":
       return emitIntersection(schema, warnings);
 
@@ -157,29 +436,19 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
 }
 
 /**
- * Emit string schema with format support
+ * Emit string schema with format and length/pattern constraints
  */
-function emitString(schema: StringSchemaIR): string {
-  switch (schema.format) {
-    case "email":
-      return 'type("string.email")';
-    case "url":
-      return 'type("string.url")';
-    case "uuid":
-      return 'type("string.uuid")';
-    case "datetime":
-      return 'type("string.date.iso")';
-    case "date":
-      return 'type("string.date.iso")'; // ArkType doesn't have separate date-only
-    case "time":
-      return 'type("string")'; // ArkType doesn't have native time support
-    case "ipv4":
-      return 'type("string.ip.v4")';
-    case "ipv6":
-      return 'type("string.ip.v6")';
-    default:
-      return 'type("string")';
-  }
+function emitString(schema: StringSchemaIR, warnings: string[]): string {
+  const typeStr = getStringTypeString(schema, warnings);
+  return isStringDefinition(typeStr) ? `type(${typeStr})` : typeStr;
+}
+
+/**
+ * Emit number schema with integer format and range constraints
+ */
+function emitNumber(schema: NumberSchemaIR, warnings: string[]): string {
+  const typeStr = getNumberTypeString(schema, warnings);
+  return isStringDefinition(typeStr) ? `type(${typeStr})` : typeStr;
 }
 
 /**
@@ -222,19 +491,31 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
 
   // Add regular properties
   for (const [propName, prop] of Object.entries(schema.properties)) {
+    // Get the type as a string for ArkType's object syntax
+    const typeStr = getTypeString(prop.schema, warnings);
+
+    // Fields with a default can be omitted and parse to the default
+    if (hasDefaultValue(prop.schema)) {
+      fields.push(
+        withFieldDoc(
+          `"${propName}": [${typeStr}, "=", ${formatDefaultValue(prop.schema.default)}]`,
+          prop.schema,
+        ),
+      );
+      continue;
+    }
+
     // For ArkType, we use string keys with "?" suffix for optional
     const keyStr = prop.required ? `"${propName}"` : `"${propName}?"`;
 
-    // Get the type as a string for ArkType's object syntax
-    let typeStr = getTypeString(prop.schema, warnings);
-
     // For optional fields, make them nullish (type | null) to match Zod/Valibot behavior
     // This allows both omission and explicit null values
-    if (!prop.required) {
-      typeStr = makeNullable(typeStr);
-    }
-
-    fields.push(`${keyStr}: ${typeStr}`);
+    fields.push(
+      withFieldDoc(
+        `${keyStr}: ${prop.required ? typeStr : makeNullable(typeStr)}`,
+        prop.schema,
+      ),
+    );
   }
 
   // Handle additionalProperties
@@ -260,7 +541,7 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     }
   }
 
-  return result;
+  return withPropertyCountChecks(result, schema);
 }
 
 /**
@@ -289,10 +570,10 @@ function makeNullable(typeStr: string): string {
 function getTypeString(schema: SchemaIR, warnings: string[]): string {
   switch (schema.kind) {
     case "string":
-      return getStringTypeString(schema);
+      return getStringTypeString(schema, warnings);
 
     case "number":
-      return schema.integer ? '"number.integer"' : '"number"';
+      return getNumberTypeString(schema, warnings);
 
     case "boolean":
       return '"boolean"';
@@ -315,10 +596,14 @@ function getTypeString(schema: SchemaIR, warnings: string[]): string {
     case "date":
       return '"Date"';
 
+    case "file":
+      // Parenthesized so array syntax produces "(File | Blob)[]"
+      return '"(File | Blob)"';
+
     case "array": {
       const itemType = getTypeString(schema.items, warnings);
       // If item type is a string literal, we can use array syntax
-      if (itemType.startsWith('"') && itemType.endsWith('"')) {
+      if (isStringDefinition(itemType) && !hasArrayConstraints(schema)) {
         const innerType = itemType.slice(1, -1);
         return `"${innerType}[]"`;
       }
@@ -349,9 +634,42 @@ function getTypeString(schema: SchemaIR, warnings: string[]): string {
 }
 
 /**
- * Get string type string for ArkType
+ * Get string type string for ArkType. Length and pattern constraints are
+ * chained onto a `type()`, so constrained strings return an expression.
+ */
+function getStringTypeString(
+  schema: StringSchemaIR,
+  warnings: string[],
+): string {
+  const typeStr = getStringFormatTypeString(schema, warnings);
+  if (
+    schema.minLength === undefined &&
+    schema.maxLength === undefined &&
+    schema.pattern === undefined
+  ) {
+    return typeStr;
+  }
+
+  let code = `type(${typeStr})`;
+  if (schema.minLength !== undefined) {
+    code = `${code}.atLeastLength(${schema.minLength})`;
+  }
+  if (schema.maxLength !== undefined) {
+    code = `${code}.atMostLength(${schema.maxLength})`;
+  }
+  if (schema.pattern !== undefined) {
+    code = `${code}.matching(${formatRegex(schema.pattern)})`;
+  }
+  return code;
+}
+
+/**
+ * Get the type string for a string format
  */
-function getStringTypeString(schema: StringSchemaIR): string {
+function getStringFormatTypeString(
+  schema: StringSchemaIR,
+  warnings: string[],
+): string {
   switch (schema.format) {
     case "email":
       return '"string.email"';
@@ -369,25 +687,113 @@ function getStringTypeString(schema: StringSchemaIR): string {
       return '"string.ip.v4"';
     case "ipv6":
       return '"string.ip.v6"';
+    case "byte":
+      return '"string.base64"';
+    case "hostname":
+    case "duration":
+    case "uri-reference":
+      warnings.push(
+        `ArkType does not support the "${schema.format}" string format. Values will be validated as plain strings.`,
+      );
+      return '"string"';
     default:
       return '"string"';
   }
 }
 
+/**
+ * Get number type string for ArkType. Range constraints are chained onto a
+ * `type()`, so constrained numbers return an expression.
+ */
+function getNumberTypeString(
+  schema: NumberSchemaIR,
+  warnings: string[],
+): string {
+  let typeStr = '"number"';
+  if (schema.format === "int64") {
+    // Parenthesized so array syntax produces "(number.integer & number.safe)[]"
+    typeStr = '"(number.integer & number.safe)"';
+  } else if (schema.integer) {
+    typeStr = '"number.integer"';
+  }
+
+  const { min, max, exclusiveMin, exclusiveMax } = getNumberBounds(schema);
+  const constraints: string[] = [];
+  if (min !== undefined) {
+    constraints.push(`.atLeast(${min})`);
+  }
+  if (max !== undefined) {
+    constraints.push(`.atMost(${max})`);
+  }
+  if (exclusiveMin !== undefined) {
+    constraints.push(`.moreThan(${exclusiveMin})`);
+  }
+  if (exclusiveMax !== undefined) {
+    constraints.push(`.lessThan(${exclusiveMax})`);
+  }
+  if (schema.multipleOf !== undefined) {
+    // ArkType divisors must be integers
+    if (Number.isInteger(schema.multipleOf)) {
+      constraints.push(`.divisibleBy(${schema.multipleOf})`);
+    } else {
+      warnings.push(
+        `ArkType does not support non-integer multipleOf (${schema.multipleOf}). This constraint will not be validated.`,
+      );
+    }
+  }
+
+  return constraints.length > 0
+    ? `type(${typeStr})${constraints.join("")}`
+    : typeStr;
+}
+
 /**
  * Emit array schema
  */
 function emitArray(schema: ArraySchemaIR, warnings: string[]): string {
   const itemType = getTypeString(schema.items, warnings);
 
-  // If item type is a simple string, use array syntax
-  if (itemType.startsWith('"') && itemType.endsWith('"')) {
-    const innerType = itemType.slice(1, -1);
-    return `type("${innerType}[]")`;
+  // If item type is a simple string, use array syntax, and for complex
+  // items, use type composition
+  let code = isStringDefinition(itemType)
+    ? `type("${itemType.slice(1, -1)}[]")`
+    : `${itemType}.array()`;
+
+  if (schema.minItems !== undefined) {
+    code = `${code}.atLeastLength(${schema.minItems})`;
   }
+  if (schema.maxItems !== undefined) {
+    code = `${code}.atMostLength(${schema.maxItems})`;
+  }
+  if (schema.uniqueItems) {
+    code = `${code}.narrow((items, ctx) => ${getUniqueItemsCheck(schema.items)} || ctx.reject({ message: "${UNIQUE_ITEMS_MESSAGE}" }))`;
+  }
+  return code;
+}
+
+/**
+ * Check if an array schema has item count or uniqueness constraints
+ */
+function hasArrayConstraints(schema: ArraySchemaIR): boolean {
+  return (
+    schema.minItems !== undefined ||
+    schema.maxItems !== undefined ||
+    schema.uniqueItems === true
+  );
+}
 
-  // For complex items, use type composition
-  return `${itemType}.array()`;
+/**
+ * Narrow an object or record schema to its property count constraints
+ */
+function withPropertyCountChecks(
+  code: string,
+  schema: ObjectSchemaIR | RecordSchemaIR,
+): string {
+  let result = code;
+  for (const { check, message } of getPropertyCountChecks(schema)) {
+    result = `${result}.narrow((value, ctx) => ${check} || ctx.reject({ message: "${message}" }))`;
+  }
+  return result;
 }
 
 /**
@@ -408,7 +814,7 @@ function emitRecord(schema: RecordSchemaIR, warnings: string[]): string {
   const valueType = getTypeString(schema.valueType, warnings);
 
   // ArkType uses { "[string]": valueType } for records
-  return `type({ "[string]": ${valueType} })`;
+  return withPropertyCountChecks(`type({ "[string]": ${valueType} })`, schema);
 }
 
 /**
@@ -564,6 +970,39 @@ function emitUnionTypeString(
   return emitUnion(schema, warnings);
 }
 
+/**
+ * Emit discriminated union schema
+ *
+ * ArkType discriminates unions of objects with literal properties on its own,
+ * so members are tagged and joined with `.or()`. Referenced members are
+ * narrowed to their literal discriminator with `.and()`.
+ */
+function emitDiscriminatedUnion(
+  schema: DiscriminatedUnionSchemaIR,
+  warnings: string[],
+): string {
+  const { discriminator } = schema;
+  const memberCodes = schema.members.map(({ values, schema: member }) => {
+    if (member.kind === "object") {
+      return emitObject(
+        tagObjectMember(member, discriminator, values),
+        warnings,
+      );
+    }
+    const tagType = getTypeString(
+      getDiscriminatorValueSchema(values),
+      warnings,
+    );
+    return `${toSchemaName(member.name)}.and(type({ "${discriminator}": ${tagType} }))`;
+  });
+
+  const [first, ...rest] = memberCodes;
+  if (!first) {
+    return 'type("never")';
+  }
+  return rest.reduce((result, member) => `${result}.or(${member})`, first);
+}
+
 /**
  * Emit intersection schema
  */
@@ -14,13 +14,33 @@ import {
   toFragmentSchemaName,
   toSchemaName,
 } from "@/utils/naming";
-import { createWriter, writeHeader, writeSectionComment } from "@/utils/writer";
+import {
+  createWriter,
+  writeDocComment,
+  writeHeader,
+  writeSectionComment,
+} from "@/utils/writer";
+import { getDiscriminatorValueSchema, tagObjectMember } from "../ir/utils";
+import { emitTypeScriptType } from "./typescript";
+import {
+  UNIQUE_ITEMS_MESSAGE,
+  formatDefaultValue,
+  formatRegex,
+  getDefaultedInputSchemas,
+  getNumberBounds,
+  getPropertyCountChecks,
+  getUniqueItemsCheck,
+  hasDefaultValue,
+  withFieldDoc,
+} from "./utils";
 
 import type {
   ArraySchemaIR,
+  DiscriminatedUnionSchemaIR,
   EnumSchemaIR,
   IntersectionSchemaIR,
   NamedSchemaIR,
+  NumberSchemaIR,
   ObjectSchemaIR,
   RecordSchemaIR,
   SchemaIR,
@@ -44,6 +64,10 @@ export const effectEmitter: Emitter = {
     return `export type ${typeName} = typeof ${schemaVarName}.Type`;
   },
 
+  getInputTypeInference(schemaVarName: string, typeName: string): string {
+    return `export type ${typeName} = typeof ${schemaVarName}.Encoded`;
+  },
+
   emit(schemas: NamedSchemaIR[], _options?: EmitterOptions): EmitterResult {
     const warnings: string[] = [];
     const writer = createWriter();
@@ -59,6 +83,7 @@ export const effectEmitter: Emitter = {
         const { name, schema } = schemas[i]!;
         const schemaVarName = toSchemaName(name);
         const schemaCode = emitSchemaIR(schema, warnings);
+        writeDocComment(writer, schema);
         writer.writeLine(`export const ${schemaVarName} = ${schemaCode}`);
         // Add blank line between schemas, but not after the last one
         if (i < schemas.length - 1) {
@@ -74,9 +99,22 @@ export const effectEmitter: Emitter = {
         writer,
         "TypeScript Types (inferred from Effect schemas)",
       );
-      for (const { name } of schemas) {
+      const inputSchemas = getDefaultedInputSchemas(schemas);
+      for (const { name, schema, recursive } of schemas) {
+        writeDocComment(writer, schema);
+        // Recursive schemas can't be inferred, so their types are declared
+        if (recursive) {
+          writer.writeLine(
+            `export type ${name} = ${emitTypeScriptType(schema)}`,
+          );
+          continue;
+        }
         const schemaVarName = toSchemaName(name);
-        writer.writeLine(this.getTypeInference(schemaVarName, name));
+        writer.writeLine(
+          inputSchemas.has(name)
+            ? this.getInputTypeInference(schemaVarName, name)
+            : this.getTypeInference(schemaVarName, name),
+        );
       }
     }
 
@@ -92,17 +130,26 @@ export const effectEmitter: Emitter = {
 // ============================================================================
 
 /**
- * Convert a SchemaIR to Effect Schema code string
+ * Convert a SchemaIR to Effect Schema code string, attaching its description with
+ * the `description` annotation
  */
 function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
+  const code = emitSchemaKind(schema, warnings);
+  return schema.description
+    ? `${code}.annotations({ description: ${JSON.stringify(schema.description)} })`
+    : code;
+}
+
+/**
+ * Convert a SchemaIR's kind to Effect Schema code string
+ */
+function emitSchemaKind(schema: SchemaIR, warnings: string[]): string {
   switch (schema.kind) {
     case "string":
-      return emitString(schema);
+      return emitString(schema, warnings);
 
     case "number":
-      return schema.integer
-        ? "Schema.Number.pipe(Schema.int())"
-        : "Schema.Number";
+      return emitNumber(schema);
 
     case "boolean":
       return "Schema.Boolean";
@@ -125,6 +172,9 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "date":
       return "Schema.Date";
 
+    case "file":
+      return "Schema.Union(Schema.instanceOf(File), Schema.instanceOf(Blob))";
+
     case "object":
       return emitObject(schema, warnings);
 
@@ -146,11 +196,17 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "union":
       return emitUnion(schema, warnings);
 
+    case "discriminatedUnion":
+      return emitDiscriminatedUnion(schema, warnings);
+
     case "intersection":
       return emitIntersection(schema, warnings);
 
     case "ref":
-      return toSchemaName(schema.name);
+      // References to recursive schemas declared later are resolved lazily
+      return schema.lazy
+        ? `Schema.suspend((): Schema.Schema<${schema.name}> => ${toSchemaName(schema.name)})`
+        : toSchemaName(schema.name);
 
     case "raw":
       // Raw code is validator-specific, but we'll emit it as-is
@@ -164,42 +220,130 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
 }
 
 /**
- * Emit string schema with format support
+ * Emit string schema with format and length/pattern constraints
  *
  * Effect Schema has limited built-in format validators compared to Zod/Valibot.
  * We use available built-ins and fall back to pattern validation where needed.
  */
-function emitString(schema: StringSchemaIR): string {
-  const base = "Schema.String";
+function emitString(schema: StringSchemaIR, warnings: string[]): string {
+  // Effect has built-in UUID
+  const base = schema.format === "uuid" ? "Schema.UUID" : "Schema.String";
+
+  const filters: string[] = [];
+  const formatFilter = getStringFormatFilter(schema, warnings);
+  if (formatFilter) {
+    filters.push(formatFilter);
+  }
+  if (schema.minLength !== undefined) {
+    filters.push(`Schema.minLength(${schema.minLength})`);
+  }
+  if (schema.maxLength !== undefined) {
+    filters.push(`Schema.maxLength(${schema.maxLength})`);
+  }
+  if (schema.pattern !== undefined) {
+    filters.push(`Schema.pattern(${formatRegex(schema.pattern)})`);
+  }
+  return withFilters(base, filters);
+}
 
+/**
+ * Get the pattern filter for a string format
+ */
+function getStringFormatFilter(
+  schema: StringSchemaIR,
+  warnings: string[],
+): string | undefined {
   switch (schema.format) {
     case "email":
       // Effect Schema doesn't have built-in email, use pattern
-      return `${base}.pipe(Schema.pattern(/^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/))`;
+      return "Schema.pattern(/^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/)";
     case "url":
       // Effect Schema doesn't have built-in URL validation
-      return `${base}.pipe(Schema.pattern(/^https?:\\/\\/.+/))`;
-    case "uuid":
-      // Effect has built-in UUID
-      return "Schema.UUID";
+      return "Schema.pattern(/^https?:\\/\\/.+/)";
     case "datetime":
       // ISO 8601 datetime pattern
-      return `${base}.pipe(Schema.pattern(/^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:\\d{2})?$/))`;
+      return "Schema.pattern(/^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:\\d{2})?$/)";
     case "date":
       // ISO 8601 date-only pattern
-      return `${base}.pipe(Schema.pattern(/^\\d{4}-\\d{2}-\\d{2}$/))`;
+      return "Schema.pattern(/^\\d{4}-\\d{2}-\\d{2}$/)";
     case "time":
       // ISO 8601 time pattern
-      return `${base}.pipe(Schema.pattern(/^\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?$/))`;
+      return "Schema.pattern(/^\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?$/)";
     case "ipv4":
       // IPv4 pattern
-      return `${base}.pipe(Schema.pattern(/^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/))`;
+      return "Schema.pattern(/^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/)";
     case "ipv6":
       // Simplified IPv6 pattern (full validation is complex)
-      return `${base}.pipe(Schema.pattern(/^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/))`;
+      return "Schema.pattern(/^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/)";
+    case "byte":
+      // Base64 pattern (Schema.StringFromBase64 would decode the value)
+      return "Schema.pattern(/^[A-Za-z0-9+\\/]*={0,2}$/)";
+    case "hostname":
+      // RFC 1123 hostname pattern
+      return "Schema.pattern(/^(?=.{1,253}$)[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/)";
+    case "duration":
+      // ISO 8601 duration pattern
+      return "Schema.pattern(/^P(?!$)(\\d+Y)?(\\d+M)?(\\d+W)?(\\d+D)?(T(?=\\d)(\\d+H)?(\\d+M)?(\\d+(\\.\\d+)?S)?)?$/)";
+    case "uri-reference":
+      warnings.push(
+        'Effect Schema does not support the "uri-reference" string format. Values will be validated as plain strings.',
+      );
+      return undefined;
     default:
-      return base;
+      return undefined;
+  }
+}
+
+/**
+ * Emit number schema with integer format and range constraints
+ */
+function emitNumber(schema: NumberSchemaIR): string {
+  const filters: string[] = [];
+  if (schema.integer) {
+    filters.push("Schema.int()");
+  }
+  if (schema.format === "int64") {
+    filters.push(
+      "Schema.between(Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER)",
+    );
+  }
+
+  const { min, max, exclusiveMin, exclusiveMax } = getNumberBounds(schema);
+  if (min !== undefined) {
+    filters.push(`Schema.greaterThanOrEqualTo(${min})`);
   }
+  if (max !== undefined) {
+    filters.push(`Schema.lessThanOrEqualTo(${max})`);
+  }
+  if (exclusiveMin !== undefined) {
+    filters.push(`Schema.greaterThan(${exclusiveMin})`);
+  }
+  if (exclusiveMax !== undefined) {
+    filters.push(`Schema.lessThan(${exclusiveMax})`);
+  }
+  if (schema.multipleOf !== undefined) {
+    filters.push(`Schema.multipleOf(${schema.multipleOf})`);
+  }
+  return withFilters("Schema.Number", filters);
+}
+
+/**
+ * Pipe a schema through its filters, if it has any
+ */
+function withFilters(code: string, filters: string[]): string {
+  return filters.length > 0 ? `${code}.pipe(${filters.join(", ")})` : code;
+}
+
+/**
+ * Get the filters for an object or record's property count
+ */
+function getPropertyCountFilters(
+  schema: ObjectSchemaIR | RecordSchemaIR,
+): string[] {
+  return getPropertyCountChecks(schema).map(
+    ({ check, message }) =>
+      `Schema.filter((value) => ${check}, { message: () => "${message}" })`,
+  );
 }
 
 /**
@@ -225,15 +369,28 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     const safeName = getSafePropertyName(propName);
     const propCode = emitSchemaIR(prop.schema, warnings);
 
-    if (prop.required) {
-      fields.push(`${safeName}: ${propCode}`);
+    if (hasDefaultValue(prop.schema)) {
+      // Fields with a default can be omitted and decode to the default
+      fields.push(
+        withFieldDoc(
+          `${safeName}: Schema.optionalWith(${propCode}, { default: ${formatDefaultValue(prop.schema.default, true)} })`,
+          prop.schema,
+        ),
+      );
+    } else if (prop.required) {
+      fields.push(withFieldDoc(`${safeName}: ${propCode}`, prop.schema));
     } else {
       // Use Schema.optional(Schema.NullOr(...)) for optional fields.
       // This makes the key truly optional in TypeScript (key?: T | null | undefined)
       // which is required for compatibility with Partial<T> used by TanStack DB.
       // Schema.NullishOr would make the key required but accept null/undefined values,
       // which has different TypeScript semantics.
-      fields.push(`${safeName}: Schema.optional(Schema.NullOr(${propCode}))`);
+      fields.push(
+        withFieldDoc(
+          `${safeName}: Schema.optional(Schema.NullOr(${propCode}))`,
+          prop.schema,
+        ),
+      );
     }
   }
 
@@ -256,7 +413,7 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     objectCode = `Schema.extend(${objectCode}, Schema.Record({ key: Schema.String, value: ${addPropCode} }))`;
   }
 
-  return objectCode;
+  return withFilters(objectCode, getPropertyCountFilters(schema));
 }
 
 /**
@@ -268,7 +425,19 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
  */
 function emitArray(schema: ArraySchemaIR, warnings: string[]): string {
   const itemCode = emitSchemaIR(schema.items, warnings);
-  return `Schema.mutable(Schema.Array(${itemCode}))`;
+  const filters: string[] = [];
+  if (schema.minItems !== undefined) {
+    filters.push(`Schema.minItems(${schema.minItems})`);
+  }
+  if (schema.maxItems !== undefined) {
+    filters.push(`Schema.maxItems(${schema.maxItems})`);
+  }
+  if (schema.uniqueItems) {
+    filters.push(
+      `Schema.filter((items) => ${getUniqueItemsCheck(schema.items)}, { message: () => "${UNIQUE_ITEMS_MESSAGE}" })`,
+    );
+  }
+  return withFilters(`Schema.mutable(Schema.Array(${itemCode}))`, filters);
 }
 
 /**
@@ -288,7 +457,10 @@ function emitTuple(
 function emitRecord(schema: RecordSchemaIR, warnings: string[]): string {
   const keyCode = emitSchemaIR(schema.keyType, warnings);
   const valueCode = emitSchemaIR(schema.valueType, warnings);
-  return `Schema.Record({ key: ${keyCode}, value: ${valueCode} })`;
+  return withFilters(
+    `Schema.Record({ key: ${keyCode}, value: ${valueCode} })`,
+    getPropertyCountFilters(schema),
+  );
 }
 
 /**
@@ -373,6 +545,28 @@ function emitUnion(schema: UnionSchemaIR, warnings: string[]): string {
   return `Schema.Union(${memberCodes.join(", ")})`;
 }
 
+/**
+ * Emit discriminated union schema as a union of tagged structs
+ * Referenced members are re-declared with their literal discriminator.
+ */
+function emitDiscriminatedUnion(
+  schema: DiscriminatedUnionSchemaIR,
+  warnings: string[],
+): string {
+  const { discriminator } = schema;
+  const memberCodes = schema.members.map(({ values, schema: member }) => {
+    if (member.kind === "object") {
+      return emitObject(
+        tagObjectMember(member, discriminator, values),
+        warnings,
+      );
+    }
+    const tagCode = emitSchemaIR(getDiscriminatorValueSchema(values), warnings);
+    return `Schema.Struct({ ...${toSchemaName(member.name)}.fields, ${getSafePropertyName(discriminator)}: ${tagCode} })`;
+  });
+  return `Schema.Union(${memberCodes.join(", ")})`;
+}
+
 /**
  * Emit intersection schema
  */
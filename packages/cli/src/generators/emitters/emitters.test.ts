@@ -1416,4 +1416,593 @@ describe("Cross-Emitter Consistency", () => {
       expect(result.content).toContain("export type Pet");
     }
   });
+
+  it("all emitters map file schemas to File | Blob", () => {
+    const expected = {
+      zod: "z.union([z.instanceof(File), z.instanceof(Blob)])",
+      valibot: "v.union([v.file(), v.blob()])",
+      arktype: '"(File | Blob)[]"',
+      effect: "Schema.Union(Schema.instanceOf(File), Schema.instanceOf(Blob))",
+    } as const;
+    const schemas: NamedSchemaIR[] = [
+      createNamedSchema("Upload", {
+        kind: "object",
+        properties: {
+          files: {
+            schema: { kind: "array", items: { kind: "file" } },
+            required: true,
+          },
+        },
+      }),
+    ];
+
+    for (const validator of supportedValidators) {
+      const result = getEmitter(validator).emit(schemas);
+
+      expect(result.content).toContain(expected[validator]);
+      expect(result.warnings).toHaveLength(0);
+    }
+  });
+});
+
+// ============================================================================
+// Discriminated Union Tests
+// ============================================================================
+
+describe("Discriminated Unions", () => {
+  const schemas: NamedSchemaIR[] = [
+    createNamedSchema("Cat", {
+      kind: "object",
+      properties: {
+        petType: { schema: { kind: "string" }, required: true },
+        lives: { schema: { kind: "number", integer: true }, required: true },
+      },
+    }),
+    createNamedSchema("Pet", {
+      kind: "discriminatedUnion",
+      discriminator: "petType",
+      members: [
+        { values: ["cat"], schema: { kind: "ref", name: "Cat" } },
+        {
+          values: ["dog", "puppy"],
+          schema: {
+            kind: "object",
+            properties: {
+              barks: { schema: { kind: "boolean" }, required: true },
+            },
+          },
+        },
+      ],
+    }),
+  ];
+
+  it("emits Zod discriminatedUnion", () => {
+    const result = zodEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'z.discriminatedUnion("petType", [catSchema.extend({ petType: z.literal("cat") }), z.object({\n  petType: z.enum(["dog", "puppy"]),',
+    );
+  });
+
+  it("emits Valibot variant", () => {
+    const result = valibotEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'v.variant("petType", [v.object({ ...catSchema.entries, petType: v.literal("cat") }), v.object({\n  petType: v.picklist(["dog", "puppy"]),',
+    );
+  });
+
+  it("emits ArkType union of tagged objects", () => {
+    const result = arktypeEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'catSchema.and(type({ "petType": "\'cat\'" })).or(type({\n  "petType": type.enumerated("dog", "puppy"),',
+    );
+  });
+
+  it("emits Effect union of tagged structs", () => {
+    const result = effectEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'Schema.Union(Schema.Struct({ ...catSchema.fields, petType: Schema.Literal("cat") }), Schema.Struct({\n  petType: Schema.Union(Schema.Literal("dog"), Schema.Literal("puppy")),',
+    );
+  });
+
+  it("emits nullable discriminated unions", () => {
+    const result = zodEmitter.emit([
+      createNamedSchema("MaybePet", {
+        kind: "union",
+        members: [
+          { kind: "discriminatedUnion", discriminator: "petType", members: [] },
+          { kind: "null" },
+        ],
+      }),
+    ]);
+
+    expect(result.content).toContain(
+      'export const maybePetSchema = z.discriminatedUnion("petType", []).nullable()',
+    );
+  });
+});
+
+// ============================================================================
+// Recursive Schema Tests
+// ============================================================================
+
+describe("Recursive Schemas", () => {
+  const schemas: NamedSchemaIR[] = [
+    {
+      ...createNamedSchema("Category", {
+        kind: "object",
+        properties: {
+          name: { schema: { kind: "string" }, required: true },
+          parent: {
+            schema: { kind: "ref", name: "Category", lazy: true },
+            required: false,
+          },
+          children: {
+            schema: {
+              kind: "array",
+              items: { kind: "ref", name: "Category", lazy: true },
+            },
+            required: true,
+          },
+        },
+      }),
+      recursive: true,
+    },
+  ];
+
+  const explicitType =
+    "export type Category = {\n  name: string\n  parent?: Category | null\n  children: Category[]\n}";
+
+  it("emits Zod lazy refs with an explicit type", () => {
+    const result = zodEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      "parent: z.lazy((): z.ZodType<Category> => categorySchema).nullish(),",
+    );
+    expect(result.content).toContain(
+      "children: z.array(z.lazy((): z.ZodType<Category> => categorySchema))",
+    );
+    expect(result.content).toContain(explicitType);
+    expect(result.content).not.toContain("z.infer<typeof categorySchema>");
+  });
+
+  it("emits Valibot lazy refs with an explicit type", () => {
+    const result = valibotEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      "parent: v.nullish(v.lazy((): v.GenericSchema<Category> => categorySchema)),",
+    );
+    expect(result.content).toContain(explicitType);
+  });
+
+  it("emits Effect suspended refs with an explicit type", () => {
+    const result = effectEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      "children: Schema.mutable(Schema.Array(Schema.suspend((): Schema.Schema<Category> => categorySchema)))",
+    );
+    expect(result.content).toContain(explicitType);
+  });
+
+  it("emits ArkType scopes with inferred types", () => {
+    const result = arktypeEmitter.emit(schemas);
+
+    expect(result.content).toContain('import { scope, type } from "arktype"');
+    expect(result.content).toContain(
+      'const categoryScope = scope({\n  categorySchema: {\n    "name": "string",\n    "parent?": "categorySchema | null",\n    "children": "categorySchema[]"\n  },\n})',
+    );
+    expect(result.content).toContain(
+      'export const categorySchema = categoryScope.type("categorySchema")',
+    );
+    expect(result.content).toContain(
+      "export type Category = typeof categorySchema.infer",
+    );
+  });
+
+  it("groups mutually recursive ArkType schemas into one scope", () => {
+    const result = arktypeEmitter.emit([
+      createNamedSchema("Address", {
+        kind: "object",
+        properties: { city: { schema: { kind: "string" }, required: true } },
+      }),
+      {
+        ...createNamedSchema("Person", {
+          kind: "object",
+          properties: {
+            employer: {
+              schema: { kind: "ref", name: "Company", lazy: true },
+              required: true,
+            },
+            address: {
+              schema: { kind: "ref", name: "Address" },
+              required: false,
+            },
+          },
+        }),
+        recursive: true,
+      },
+      {
+        ...createNamedSchema("Company", {
+          kind: "object",
+          properties: {
+            employees: {
+              schema: { kind: "array", items: { kind: "ref", name: "Person" } },
+              required: true,
+            },
+          },
+        }),
+        recursive: true,
+      },
+    ]);
+
+    expect(result.content).toContain(
+      'const personScope = scope({\n  personSchema: {\n    "employer": "companySchema",\n    "address?": [addressSchema, "|", "null"]\n  },\n  companySchema: {\n    "employees": "personSchema[]"\n  },\n})',
+    );
+    expect(result.content).toContain(
+      'export const companySchema = personScope.type("companySchema")',
+    );
+  });
+
+  it("keeps inferred types for non-recursive schemas", () => {
+    const result = zodEmitter.emit([
+      createNamedSchema("Name", { kind: "string" }),
+    ]);
+
+    expect(result.content).toContain(
+      "export type Name = z.infer<typeof nameSchema>",
+    );
+  });
+});
+
+// ============================================================================
+// Default Value Tests
+// ============================================================================
+
+describe("Default Values", () => {
+  const schemas: NamedSchemaIR[] = [
+    createNamedSchema(
+      "CreatePostRequest",
+      {
+        kind: "object",
+        properties: {
+          title: { schema: { kind: "string" }, required: true },
+          status: {
+            schema: {
+              kind: "enum",
+              values: ["draft", "published"],
+              default: "draft",
+            },
+            required: false,
+          },
+          tags: {
+            schema: {
+              kind: "array",
+              items: { kind: "string" },
+              default: [],
+            },
+            required: false,
+          },
+          settings: {
+            schema: {
+              kind: "object",
+              properties: {
+                comments: { schema: { kind: "boolean" }, required: true },
+              },
+              default: { comments: true },
+            },
+            required: true,
+          },
+        },
+      },
+      "input",
+    ),
+  ];
+
+  it("emits Zod defaults, wrapping objects and arrays in functions", () => {
+    const result = zodEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'status: z.enum(["draft", "published"]).default("draft"),',
+    );
+    expect(result.content).toContain(
+      "tags: z.array(z.string()).default(() => []),",
+    );
+    expect(result.content).toContain(".default(() => ({ comments: true }))");
+    expect(result.content).toContain(
+      "export type CreatePostRequest = z.input<typeof createPostRequestSchema>",
+    );
+  });
+
+  it("emits Valibot defaults with v.optional", () => {
+    const result = valibotEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'status: v.optional(v.picklist(["draft", "published"]), "draft"),',
+    );
+    expect(result.content).toContain(
+      "tags: v.optional(v.array(v.string()), () => []),",
+    );
+    expect(result.content).toContain(
+      "export type CreatePostRequest = v.InferInput<typeof createPostRequestSchema>",
+    );
+  });
+
+  it("emits Effect defaults with Schema.optionalWith", () => {
+    const result = effectEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      'status: Schema.optionalWith(Schema.Union(Schema.Literal("draft"), Schema.Literal("published")), { default: () => "draft" }),',
+    );
+    expect(result.content).toContain(
+      "export type CreatePostRequest = typeof createPostRequestSchema.Encoded",
+    );
+  });
+
+  it("emits ArkType defaults as default tuples", () => {
+    const result = arktypeEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      '"status": [type.enumerated("draft", "published"), "=", "draft"],',
+    );
+    expect(result.content).toContain('"tags": ["string[]", "=", () => []],');
+    expect(result.content).toContain(
+      "export type CreatePostRequest = typeof createPostRequestSchema.inferIn",
+    );
+  });
+
+  it("infers output types for schemas that aren't sent", () => {
+    const result = zodEmitter.emit([
+      { ...schemas[0]!, name: "Post", category: "component" },
+    ]);
+
+    expect(result.content).toContain(
+      "export type Post = z.infer<typeof postSchema>",
+    );
+  });
+
+  it("infers input types for schemas referencing defaults", () => {
+    const result = zodEmitter.emit([
+      { ...schemas[0]!, name: "NewPost", category: "component" },
+      {
+        name: "CreatePostRequest",
+        schema: { kind: "ref", name: "NewPost" },
+        category: "input",
+        dependencies: new Set(["NewPost"]),
+      },
+    ]);
+
+    expect(result.content).toContain(
+      "export type CreatePostRequest = z.input<typeof createPostRequestSchema>",
+    );
+  });
+});
+
+// ============================================================================
+// Constraints
+// ============================================================================
+
+describe("Constraints", () => {
+  const schemas: NamedSchemaIR[] = [
+    createNamedSchema("Product", {
+      kind: "object",
+      properties: {
+        sku: {
+          schema: { kind: "string", minLength: 3, pattern: "^[A-Z]+/\\d+$" },
+          required: true,
+        },
+        price: {
+          schema: {
+            kind: "number",
+            exclusiveMin: 0,
+            max: 1000,
+            multipleOf: 0.5,
+          },
+          required: true,
+        },
+        quantity: {
+          schema: { kind: "number", integer: true, format: "int32", min: 0 },
+          required: true,
+        },
+        tags: {
+          schema: {
+            kind: "array",
+            items: { kind: "string" },
+            maxItems: 5,
+            uniqueItems: true,
+          },
+          required: true,
+        },
+      },
+      minProperties: 1,
+    }),
+  ];
+
+  it("emits Zod constraints with chained checks", () => {
+    const result = zodEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      "sku: z.string().min(3).regex(/^[A-Z]+\\/\\d+$/),",
+    );
+    expect(result.content).toContain(
+      "price: z.number().max(1000).gt(0).multipleOf(0.5),",
+    );
+    expect(result.content).toContain("quantity: z.int32().min(0),");
+    expect(result.content).toContain(
+      'tags: z.array(z.string()).max(5).refine((items) => new Set(items).size === items.length, "Items must be unique")',
+    );
+    expect(result.content).toContain(
+      '}).refine((value) => Object.keys(value).length >= 1, "Must have at least 1 property")',
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("emits Valibot constraints as pipe actions", () => {
+    const result = valibotEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      "sku: v.pipe(v.string(), v.minLength(3), v.regex(/^[A-Z]+\\/\\d+$/)),",
+    );
+    expect(result.content).toContain(
+      "quantity: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(2147483647)),",
+    );
+    expect(result.content).toContain("}), v.minEntries(1))");
+    expect(result.warnings).toEqual([
+      "Valibot does not support non-integer multipleOf (0.5). This constraint will not be validated.",
+    ]);
+  });
+
+  it("emits ArkType constraints as chained methods", () => {
+    const result = arktypeEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      '"sku": type("string").atLeastLength(3).matching(/^[A-Z]+\\/\\d+$/),',
+    );
+    expect(result.content).toContain(
+      '"tags": type("string[]").atMostLength(5).narrow((items, ctx) => new Set(items).size === items.length || ctx.reject({ message: "Items must be unique" }))',
+    );
+    expect(result.warnings).toEqual([
+      "ArkType does not support non-integer multipleOf (0.5). This constraint will not be validated.",
+    ]);
+  });
+
+  it("emits Effect constraints as filters", () => {
+    const result = effectEmitter.emit(schemas);
+
+    expect(result.content).toContain(
+      "price: Schema.Number.pipe(Schema.lessThanOrEqualTo(1000), Schema.greaterThan(0), Schema.multipleOf(0.5)),",
+    );
+    expect(result.content).toContain(
+      'tags: Schema.mutable(Schema.Array(Schema.String)).pipe(Schema.maxItems(5), Schema.filter((items) => new Set(items).size === items.length, { message: () => "Items must be unique" }))',
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("compares non-primitive items by their JSON for uniqueness", () => {
+    const result = zodEmitter.emit([
+      createNamedSchema("Variants", {
+        kind: "array",
+        items: { kind: "ref", name: "Variant" },
+        uniqueItems: true,
+      }),
+    ]);
+
+    expect(result.content).toContain(
+      "new Set(items.map((item) => JSON.stringify(item))).size === items.length",
+    );
+  });
+
+  it("only allows safe integers for int64 numbers", () => {
+    const id: SchemaIR = { kind: "number", integer: true, format: "int64" };
+    const schemas = [createNamedSchema("Id", id)];
+
+    expect(zodEmitter.emit(schemas).content).toContain(
+      "export const idSchema = z.number().int()",
+    );
+    expect(valibotEmitter.emit(schemas).content).toContain(
+      "export const idSchema = v.pipe(v.number(), v.safeInteger())",
+    );
+    expect(arktypeEmitter.emit(schemas).content).toContain(
+      'export const idSchema = type("(number.integer & number.safe)")',
+    );
+    expect(effectEmitter.emit(schemas).content).toContain(
+      "export const idSchema = Schema.Number.pipe(Schema.int(), Schema.between(Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER))",
+    );
+  });
+
+  it("warns about string formats the validator doesn't support", () => {
+    const schemas = [
+      createNamedSchema("Link", { kind: "string", format: "uri-reference" }),
+    ];
+
+    for (const emitter of [
+      zodEmitter,
+      valibotEmitter,
+      arktypeEmitter,
+      effectEmitter,
+    ]) {
+      const result = emitter.emit(schemas);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toContain('"uri-reference" string format');
+    }
+  });
+});
+
+// ============================================================================
+// Documentation
+// ============================================================================
+
+describe("Documentation", () => {
+  const user: SchemaIR = {
+    kind: "object",
+    description: "A registered user",
+    properties: {
+      name: {
+        schema: { kind: "string", description: "Display name" },
+        required: true,
+      },
+      nickname: {
+        schema: { kind: "string", deprecated: "Use name" },
+        required: false,
+      },
+    },
+  };
+  const schemas = [createNamedSchema("User", user)];
+
+  it("writes JSDoc on schemas, types, and properties", () => {
+    for (const emitter of [
+      zodEmitter,
+      valibotEmitter,
+      arktypeEmitter,
+      effectEmitter,
+    ]) {
+      const { content } = emitter.emit(schemas);
+      expect(content).toContain(
+        "/** A registered user */\nexport const userSchema =",
+      );
+      expect(content).toContain("/** A registered user */\nexport type User =");
+      expect(content).toContain("  /** Display name */\n  ");
+      expect(content).toContain("  /** @deprecated Use name */\n  ");
+    }
+  });
+
+  it("attaches descriptions with each validator's metadata API", () => {
+    expect(zodEmitter.emit(schemas).content).toContain(
+      'name: z.string().describe("Display name"),',
+    );
+    expect(valibotEmitter.emit(schemas).content).toContain(
+      'name: v.pipe(v.string(), v.description("Display name")),',
+    );
+    expect(effectEmitter.emit(schemas).content).toContain(
+      'name: Schema.String.annotations({ description: "Display name" }),',
+    );
+    // ArkType descriptions replace its validation messages
+    expect(arktypeEmitter.emit(schemas).content).toContain('"name": "string",');
+  });
+
+  it("documents the properties of declared recursive types", () => {
+    const category: SchemaIR = {
+      kind: "object",
+      properties: {
+        parent: {
+          schema: {
+            kind: "ref",
+            name: "Category",
+            lazy: true,
+            description: "Parent category",
+          },
+          required: false,
+        },
+      },
+    };
+    const result = zodEmitter.emit([
+      { ...createNamedSchema("Category", category), recursive: true },
+    ]);
+
+    expect(result.content).toContain(
+      "export type Category = {\n  /** Parent category */\n  parent?: Category | null\n}",
+    );
+  });
 });
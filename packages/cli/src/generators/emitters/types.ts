@@ -72,4 +72,13 @@ export interface Emitter {
    * @returns Type export statement
    */
   getTypeInference(schemaVarName: string, typeName: string): string;
+
+  /**
+   * Get the input type inference expression for a schema, where fields with
+   * defaults are optional
+   * @param schemaVarName The schema variable name (e.g., "petSchema")
+   * @param typeName The type name (e.g., "CreatePetRequest")
+   * @returns Type export statement
+   */
+  getInputTypeInference(schemaVarName: string, typeName: string): string;
 }
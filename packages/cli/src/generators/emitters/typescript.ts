@@ -0,0 +1,158 @@
+/**
+ * TypeScript type emitter
+ *
+ * Converts IR to TypeScript type expressions. Validators can't infer the type
+ * of a recursive schema from its own definition, so emitters declare the
+ * types of recursive schemas explicitly and annotate lazy references with them.
+ */
+
+import { getSafePropertyName } from "@/utils/naming";
+import { getDiscriminatorValueSchema, tagObjectMember } from "../ir/utils";
+import { withFieldDoc } from "./utils";
+
+import type {
+  DiscriminatedUnionSchemaIR,
+  ObjectSchemaIR,
+  SchemaIR,
+} from "../ir/types";
+
+/**
+ * Convert a SchemaIR to a TypeScript type expression
+ * @param schema - Schema to convert
+ * @param indent - Indentation of the line the type starts on
+ */
+export function emitTypeScriptType(schema: SchemaIR, indent = ""): string {
+  switch (schema.kind) {
+    case "string":
+      return "string";
+
+    case "number":
+      return "number";
+
+    case "boolean":
+      return "boolean";
+
+    case "bigint":
+      return "bigint";
+
+    case "null":
+      return "null";
+
+    case "undefined":
+      return "undefined";
+
+    case "never":
+      return "never";
+
+    case "date":
+      return "Date";
+
+    case "file":
+      return "File | Blob";
+
+    case "object":
+      return emitObjectType(schema, indent);
+
+    case "array":
+      return `${wrapArrayItem(schema.items, indent)}[]`;
+
+    case "tuple":
+      return `[${schema.items.map((item) => emitTypeScriptType(item, indent)).join(", ")}]`;
+
+    case "record":
+      return `Record<${emitTypeScriptType(schema.keyType, indent)}, ${emitTypeScriptType(schema.valueType, indent)}>`;
+
+    case "enum":
+      return schema.values.map((value) => JSON.stringify(value)).join(" | ");
+
+    case "literal":
+      return JSON.stringify(schema.value);
+
+    case "union":
+      return schema.members
+        .map((member) => emitTypeScriptType(member, indent))
+        .join(" | ");
+
+    case "discriminatedUnion":
+      return emitDiscriminatedUnionType(schema, indent);
+
+    case "intersection":
+      return schema.members
+        .map((member) => emitTypeScriptType(member, indent))
+        .join(" & ");
+
+    case "ref":
+      return schema.name;
+
+    case "raw":
+      // Custom scalar code has no static type to reference here
+      return "any";
+
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Emit an object type, with optional properties accepting null like the
+ * validators' nullish fields
+ */
+function emitObjectType(schema: ObjectSchemaIR, indent: string): string {
+  const propIndent = `${indent}  `;
+  const fields = Object.entries(schema.properties).map(([propName, prop]) => {
+    const safeName = getSafePropertyName(propName);
+    const propType = emitTypeScriptType(prop.schema, propIndent);
+    const field = prop.required
+      ? `${safeName}: ${propType}`
+      : `${safeName}?: ${propType} | null`;
+    return `${propIndent}${withFieldDoc(field, prop.schema, propIndent)}`;
+  });
+
+  const objectType =
+    fields.length > 0 ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+
+  if (schema.additionalProperties === true) {
+    return `${objectType} & { [key: string]: unknown }`;
+  }
+  if (typeof schema.additionalProperties === "object") {
+    return `${objectType} & { [key: string]: ${emitTypeScriptType(schema.additionalProperties, indent)} }`;
+  }
+  return objectType;
+}
+
+/**
+ * Emit a discriminated union type, narrowing each member's discriminator to
+ * its literal values
+ */
+function emitDiscriminatedUnionType(
+  schema: DiscriminatedUnionSchemaIR,
+  indent: string,
+): string {
+  const { discriminator } = schema;
+  const memberTypes = schema.members.map(({ values, schema: member }) => {
+    if (member.kind === "object") {
+      return emitObjectType(
+        tagObjectMember(member, discriminator, values),
+        indent,
+      );
+    }
+    const tagType = emitTypeScriptType(getDiscriminatorValueSchema(values));
+    return `(${member.name} & { ${getSafePropertyName(discriminator)}: ${tagType} })`;
+  });
+  return memberTypes.length > 0 ? memberTypes.join(" | ") : "never";
+}
+
+/**
+ * Emit an array item type, parenthesized when it is a union or intersection
+ */
+function wrapArrayItem(items: SchemaIR, indent: string): string {
+  const itemType = emitTypeScriptType(items, indent);
+  const needsParens =
+    items.kind === "union" ||
+    items.kind === "discriminatedUnion" ||
+    items.kind === "intersection" ||
+    items.kind === "file" ||
+    (items.kind === "enum" && items.values.length > 1) ||
+    (items.kind === "object" && !!items.additionalProperties);
+  return needsParens ? `(${itemType})` : itemType;
+}
@@ -0,0 +1,232 @@
+/**
+ * Shared emitter utilities
+ */
+
+import { getSafePropertyName } from "@/utils/naming";
+import { formatDocComment } from "@/utils/writer";
+
+import type {
+  NamedSchemaIR,
+  NumberSchemaIR,
+  SchemaCategory,
+  SchemaIR,
+} from "../ir/types";
+
+/**
+ * Format a JSON value as a JavaScript expression
+ * e.g., `{ limit: 10, tags: ["new"] }`
+ */
+export function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([key, entry]) => `${getSafePropertyName(key)}: ${formatValue(entry)}`,
+    );
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Prefix an object field with the JSDoc comment of its schema, if it has a
+ * description or is deprecated
+ * @param indent - Indentation of the field's line
+ */
+export function withFieldDoc(
+  field: string,
+  schema: SchemaIR,
+  indent = "  ",
+): string {
+  const doc = formatDocComment(schema);
+  return doc
+    ? `${doc.replace(/\n/g, `\n${indent}`)}\n${indent}${field}`
+    : field;
+}
+
+/**
+ * Format a default value for a validator's default option. Objects and
+ * arrays are wrapped in a function so each parse gets a fresh copy.
+ * @param lazy - Wrap primitives in a function too (e.g., Effect's `default`)
+ */
+export function formatDefaultValue(value: unknown, lazy = false): string {
+  const code = formatValue(value);
+  if (value !== null && typeof value === "object") {
+    return Array.isArray(value) ? `() => ${code}` : `() => (${code})`;
+  }
+  return lazy ? `() => ${code}` : code;
+}
+
+/**
+ * Format a JSON Schema `pattern` as a regular expression literal
+ */
+export function formatRegex(pattern: string): string {
+  if (pattern === "") {
+    return "/(?:)/";
+  }
+  const source = pattern
+    .replace(/\\.|\//g, (match) => (match === "/" ? "\\/" : match))
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+  return `/${source}/`;
+}
+
+/**
+ * Largest and smallest values of an `int32` number
+ */
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+
+/**
+ * Get a number schema's inclusive and exclusive bounds, narrowed to the
+ * 32-bit range for `int32` numbers
+ */
+export function getNumberBounds(schema: NumberSchemaIR): {
+  min?: number;
+  max?: number;
+  exclusiveMin?: number;
+  exclusiveMax?: number;
+} {
+  const { min, max, exclusiveMin, exclusiveMax } = schema;
+  if (schema.format !== "int32") {
+    return { min, max, exclusiveMin, exclusiveMax };
+  }
+  return {
+    min: Math.max(min ?? INT32_MIN, INT32_MIN),
+    max: Math.min(max ?? INT32_MAX, INT32_MAX),
+    exclusiveMin,
+    exclusiveMax,
+  };
+}
+
+/**
+ * Message for arrays with `uniqueItems` that repeat an item
+ */
+export const UNIQUE_ITEMS_MESSAGE = "Items must be unique";
+
+/**
+ * Get a condition on `items` checking that an array's items are unique.
+ * Primitive items are compared by value, other items by their JSON.
+ */
+export function getUniqueItemsCheck(items: SchemaIR): string {
+  const primitive =
+    items.kind === "string" ||
+    items.kind === "number" ||
+    items.kind === "boolean" ||
+    items.kind === "enum" ||
+    items.kind === "literal";
+  return primitive
+    ? "new Set(items).size === items.length"
+    : "new Set(items.map((item) => JSON.stringify(item))).size === items.length";
+}
+
+/**
+ * Get conditions on `value` (and messages) for an object's `minProperties`
+ * and `maxProperties`
+ */
+export function getPropertyCountChecks(schema: {
+  minProperties?: number;
+  maxProperties?: number;
+}): { check: string; message: string }[] {
+  const checks: { check: string; message: string }[] = [];
+  if (schema.minProperties !== undefined) {
+    checks.push({
+      check: `Object.keys(value).length >= ${schema.minProperties}`,
+      message: `Must have at least ${formatPropertyCount(schema.minProperties)}`,
+    });
+  }
+  if (schema.maxProperties !== undefined) {
+    checks.push({
+      check: `Object.keys(value).length <= ${schema.maxProperties}`,
+      message: `Must have at most ${formatPropertyCount(schema.maxProperties)}`,
+    });
+  }
+  return checks;
+}
+
+function formatPropertyCount(count: number): string {
+  return count === 1 ? "1 property" : `${count} properties`;
+}
+
+/**
+ * Check if a schema's default value should be emitted. Null defaults add
+ * nothing over an optional property, and are left out.
+ */
+export function hasDefaultValue(schema: { default?: unknown }): boolean {
+  return schema.default !== undefined && schema.default !== null;
+}
+
+/**
+ * Get the names of the schemas callers send (request bodies, params, and
+ * variables) that have defaults, directly or through references. Defaulted
+ * fields are optional in a schema's input but not its output, so the types
+ * of these schemas are inferred from the input.
+ */
+export function getDefaultedInputSchemas(
+  schemas: NamedSchemaIR[],
+): Set<string> {
+  const defaulted = new Set(
+    schemas
+      .filter((entry) => containsDefaultValue(entry.schema))
+      .map((entry) => entry.name),
+  );
+
+  // Propagate through references until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const entry of schemas) {
+      if (defaulted.has(entry.name)) continue;
+      if ([...entry.dependencies].some((dep) => defaulted.has(dep))) {
+        defaulted.add(entry.name);
+        changed = true;
+      }
+    }
+  }
+
+  return new Set(
+    schemas
+      .filter((entry) => INPUT_CATEGORIES.has(entry.category!))
+      .filter((entry) => defaulted.has(entry.name))
+      .map((entry) => entry.name),
+  );
+}
+
+const INPUT_CATEGORIES = new Set<SchemaCategory>([
+  "input",
+  "params",
+  "variables",
+]);
+
+/**
+ * Check if a schema has an object property with a default value
+ */
+function containsDefaultValue(schema: SchemaIR): boolean {
+  switch (schema.kind) {
+    case "object":
+      return (
+        Object.values(schema.properties).some(
+          (prop) =>
+            hasDefaultValue(prop.schema) || containsDefaultValue(prop.schema),
+        ) ||
+        (typeof schema.additionalProperties === "object" &&
+          containsDefaultValue(schema.additionalProperties))
+      );
+    case "array":
+      return containsDefaultValue(schema.items);
+    case "tuple":
+      return schema.items.some(containsDefaultValue);
+    case "record":
+      return containsDefaultValue(schema.valueType);
+    case "union":
+    case "intersection":
+      return schema.members.some(containsDefaultValue);
+    case "discriminatedUnion":
+      return schema.members.some((member) =>
+        containsDefaultValue(member.schema),
+      );
+    default:
+      return false;
+  }
+}
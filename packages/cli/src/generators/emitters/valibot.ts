@@ -9,13 +9,32 @@ import {
   toFragmentSchemaName,
   toSchemaName,
 } from "@/utils/naming";
-import { createWriter, writeHeader, writeSectionComment } from "@/utils/writer";
+import {
+  createWriter,
+  writeDocComment,
+  writeHeader,
+  writeSectionComment,
+} from "@/utils/writer";
+import { getDiscriminatorValueSchema, tagObjectMember } from "../ir/utils";
+import { emitTypeScriptType } from "./typescript";
+import {
+  UNIQUE_ITEMS_MESSAGE,
+  formatDefaultValue,
+  formatRegex,
+  getDefaultedInputSchemas,
+  getNumberBounds,
+  getUniqueItemsCheck,
+  hasDefaultValue,
+  withFieldDoc,
+} from "./utils";
 
 import type {
   ArraySchemaIR,
+  DiscriminatedUnionSchemaIR,
   EnumSchemaIR,
   IntersectionSchemaIR,
   NamedSchemaIR,
+  NumberSchemaIR,
   ObjectSchemaIR,
   RecordSchemaIR,
   SchemaIR,
@@ -39,6 +58,10 @@ export const valibotEmitter: Emitter = {
     return `export type ${typeName} = v.InferOutput<typeof ${schemaVarName}>`;
   },
 
+  getInputTypeInference(schemaVarName: string, typeName: string): string {
+    return `export type ${typeName} = v.InferInput<typeof ${schemaVarName}>`;
+  },
+
   emit(schemas: NamedSchemaIR[], _options?: EmitterOptions): EmitterResult {
     const warnings: string[] = [];
     const writer = createWriter();
@@ -54,6 +77,7 @@ export const valibotEmitter: Emitter = {
         const { name, schema } = schemas[i]!;
         const schemaVarName = toSchemaName(name);
         const schemaCode = emitSchemaIR(schema, warnings);
+        writeDocComment(writer, schema);
         writer.writeLine(`export const ${schemaVarName} = ${schemaCode}`);
         // Add blank line between schemas, but not after the last one
         if (i < schemas.length - 1) {
@@ -69,9 +93,22 @@ export const valibotEmitter: Emitter = {
         writer,
         "TypeScript Types (inferred from Valibot schemas)",
       );
-      for (const { name } of schemas) {
+      const inputSchemas = getDefaultedInputSchemas(schemas);
+      for (const { name, schema, recursive } of schemas) {
+        writeDocComment(writer, schema);
+        // Recursive schemas can't be inferred, so their types are declared
+        if (recursive) {
+          writer.writeLine(
+            `export type ${name} = ${emitTypeScriptType(schema)}`,
+          );
+          continue;
+        }
         const schemaVarName = toSchemaName(name);
-        writer.writeLine(this.getTypeInference(schemaVarName, name));
+        writer.writeLine(
+          inputSchemas.has(name)
+            ? this.getInputTypeInference(schemaVarName, name)
+            : this.getTypeInference(schemaVarName, name),
+        );
       }
     }
 
@@ -87,15 +124,26 @@ export const valibotEmitter: Emitter = {
 // ============================================================================
 
 /**
- * Convert a SchemaIR to Valibot code string
+ * Convert a SchemaIR to Valibot code string, attaching its description with
+ * `v.description()`
  */
 function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
+  const code = emitSchemaKind(schema, warnings);
+  return schema.description
+    ? `v.pipe(${code}, v.description(${JSON.stringify(schema.description)}))`
+    : code;
+}
+
+/**
+ * Convert a SchemaIR's kind to Valibot code string
+ */
+function emitSchemaKind(schema: SchemaIR, warnings: string[]): string {
   switch (schema.kind) {
     case "string":
-      return emitString(schema);
+      return emitString(schema, warnings);
 
     case "number":
-      return schema.integer ? "v.pipe(v.number(), v.integer())" : "v.number()";
+      return emitNumber(schema, warnings);
 
     case "boolean":
       return "v.boolean()";
@@ -118,6 +166,9 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "date":
       return "v.date()";
 
+    case "file":
+      return "v.union([v.file(), v.blob()])";
+
     case "object":
       return emitObject(schema, warnings);
 
@@ -139,11 +190,17 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "union":
       return emitUnion(schema, warnings);
 
+    case "discriminatedUnion":
+      return emitDiscriminatedUnion(schema, warnings);
+
     case "intersection":
       return emitIntersection(schema, warnings);
 
     case "ref":
-      return toSchemaName(schema.name);
+      // References to recursive schemas declared later are resolved lazily
+      return schema.lazy
+        ? `v.lazy((): v.GenericSchema<${schema.name}> => ${toSchemaName(schema.name)})`
+        : toSchemaName(schema.name);
 
     case "raw":
       // Raw code is validator-specific, but we'll emit it as-is
@@ -157,33 +214,126 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
 }
 
 /**
- * Emit string schema with format support using Valibot pipes
+ * Emit string schema with format and length/pattern constraints using
+ * Valibot pipes
  */
-function emitString(schema: StringSchemaIR): string {
-  const base = "v.string()";
+function emitString(schema: StringSchemaIR, warnings: string[]): string {
+  const actions: string[] = [];
+  const formatAction = getStringFormatAction(schema, warnings);
+  if (formatAction) {
+    actions.push(formatAction);
+  }
+  if (schema.minLength !== undefined) {
+    actions.push(`v.minLength(${schema.minLength})`);
+  }
+  if (schema.maxLength !== undefined) {
+    actions.push(`v.maxLength(${schema.maxLength})`);
+  }
+  if (schema.pattern !== undefined) {
+    actions.push(`v.regex(${formatRegex(schema.pattern)})`);
+  }
+  return withPipe("v.string()", actions);
+}
 
+/**
+ * Get the validation action for a string format
+ */
+function getStringFormatAction(
+  schema: StringSchemaIR,
+  warnings: string[],
+): string | undefined {
   switch (schema.format) {
     case "email":
-      return `v.pipe(${base}, v.email())`;
+      return "v.email()";
     case "url":
-      return `v.pipe(${base}, v.url())`;
+      return "v.url()";
     case "uuid":
-      return `v.pipe(${base}, v.uuid())`;
+      return "v.uuid()";
     case "datetime":
       // Use isoTimestamp for full ISO 8601 datetime with seconds and timezone
       // isoDateTime only validates yyyy-mm-ddThh:mm format (no seconds/timezone)
-      return `v.pipe(${base}, v.isoTimestamp())`;
+      return "v.isoTimestamp()";
     case "date":
-      return `v.pipe(${base}, v.isoDate())`;
+      return "v.isoDate()";
     case "time":
-      return `v.pipe(${base}, v.isoTime())`;
+      return "v.isoTime()";
     case "ipv4":
-      return `v.pipe(${base}, v.ipv4())`;
+      return "v.ipv4()";
     case "ipv6":
-      return `v.pipe(${base}, v.ipv6())`;
+      return "v.ipv6()";
+    case "byte":
+      return "v.base64()";
+    case "hostname":
+    case "duration":
+    case "uri-reference":
+      warnings.push(
+        `Valibot does not support the "${schema.format}" string format. Values will be validated as plain strings.`,
+      );
+      return undefined;
     default:
-      return base;
+      return undefined;
+  }
+}
+
+/**
+ * Emit number schema with integer format and range constraints
+ */
+function emitNumber(schema: NumberSchemaIR, warnings: string[]): string {
+  const actions: string[] = [];
+  if (schema.format === "int64") {
+    actions.push("v.safeInteger()");
+  } else if (schema.integer) {
+    actions.push("v.integer()");
+  }
+
+  const { min, max, exclusiveMin, exclusiveMax } = getNumberBounds(schema);
+  if (min !== undefined) {
+    actions.push(`v.minValue(${min})`);
+  }
+  if (max !== undefined) {
+    actions.push(`v.maxValue(${max})`);
+  }
+  if (exclusiveMin !== undefined) {
+    actions.push(`v.gtValue(${exclusiveMin})`);
   }
+  if (exclusiveMax !== undefined) {
+    actions.push(`v.ltValue(${exclusiveMax})`);
+  }
+  if (schema.multipleOf !== undefined) {
+    // v.multipleOf() uses the remainder, which floating point breaks for
+    // non-integer divisors (e.g., 19.99 % 0.01)
+    if (Number.isInteger(schema.multipleOf)) {
+      actions.push(`v.multipleOf(${schema.multipleOf})`);
+    } else {
+      warnings.push(
+        `Valibot does not support non-integer multipleOf (${schema.multipleOf}). This constraint will not be validated.`,
+      );
+    }
+  }
+  return withPipe("v.number()", actions);
+}
+
+/**
+ * Wrap a schema in a pipe with its validation actions, if it has any
+ */
+function withPipe(code: string, actions: string[]): string {
+  return actions.length > 0 ? `v.pipe(${code}, ${actions.join(", ")})` : code;
+}
+
+/**
+ * Get the validation actions for an object or record's property count
+ */
+function getPropertyCountActions(
+  schema: ObjectSchemaIR | RecordSchemaIR,
+): string[] {
+  const actions: string[] = [];
+  if (schema.minProperties !== undefined) {
+    actions.push(`v.minEntries(${schema.minProperties})`);
+  }
+  if (schema.maxProperties !== undefined) {
+    actions.push(`v.maxEntries(${schema.maxProperties})`);
+  }
+  return actions;
 }
 
 /**
@@ -209,11 +359,21 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     const safeName = getSafePropertyName(propName);
     const propCode = emitSchemaIR(prop.schema, warnings);
 
-    if (prop.required) {
-      fields.push(`${safeName}: ${propCode}`);
+    if (hasDefaultValue(prop.schema)) {
+      // Fields with a default can be omitted and parse to the default
+      fields.push(
+        withFieldDoc(
+          `${safeName}: v.optional(${propCode}, ${formatDefaultValue(prop.schema.default)})`,
+          prop.schema,
+        ),
+      );
+    } else if (prop.required) {
+      fields.push(withFieldDoc(`${safeName}: ${propCode}`, prop.schema));
     } else {
       // Use v.nullish() for optional fields
-      fields.push(`${safeName}: v.nullish(${propCode})`);
+      fields.push(
+        withFieldDoc(`${safeName}: v.nullish(${propCode})`, prop.schema),
+      );
     }
   }
 
@@ -232,7 +392,7 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     objectCode = `v.objectWithRest({\n${fields.map((f) => `  ${f}`).join(",\n")}\n}, ${addPropCode})`;
   }
 
-  return objectCode;
+  return withPipe(objectCode, getPropertyCountActions(schema));
 }
 
 /**
@@ -240,7 +400,19 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
  */
 function emitArray(schema: ArraySchemaIR, warnings: string[]): string {
   const itemCode = emitSchemaIR(schema.items, warnings);
-  return `v.array(${itemCode})`;
+  const actions: string[] = [];
+  if (schema.minItems !== undefined) {
+    actions.push(`v.minLength(${schema.minItems})`);
+  }
+  if (schema.maxItems !== undefined) {
+    actions.push(`v.maxLength(${schema.maxItems})`);
+  }
+  if (schema.uniqueItems) {
+    actions.push(
+      `v.check((items) => ${getUniqueItemsCheck(schema.items)}, "${UNIQUE_ITEMS_MESSAGE}")`,
+    );
+  }
+  return withPipe(`v.array(${itemCode})`, actions);
 }
 
 /**
@@ -260,7 +432,10 @@ function emitTuple(
 function emitRecord(schema: RecordSchemaIR, warnings: string[]): string {
   const keyCode = emitSchemaIR(schema.keyType, warnings);
   const valueCode = emitSchemaIR(schema.valueType, warnings);
-  return `v.record(${keyCode}, ${valueCode})`;
+  return withPipe(
+    `v.record(${keyCode}, ${valueCode})`,
+    getPropertyCountActions(schema),
+  );
 }
 
 /**
@@ -338,6 +513,28 @@ function emitUnion(schema: UnionSchemaIR, warnings: string[]): string {
   return `v.union([${memberCodes.join(", ")}])`;
 }
 
+/**
+ * Emit discriminated union schema as a variant
+ * Referenced members are re-declared with their literal discriminator.
+ */
+function emitDiscriminatedUnion(
+  schema: DiscriminatedUnionSchemaIR,
+  warnings: string[],
+): string {
+  const { discriminator } = schema;
+  const memberCodes = schema.members.map(({ values, schema: member }) => {
+    if (member.kind === "object") {
+      return emitObject(
+        tagObjectMember(member, discriminator, values),
+        warnings,
+      );
+    }
+    const tagCode = emitSchemaIR(getDiscriminatorValueSchema(values), warnings);
+    return `v.object({ ...${toSchemaName(member.name)}.entries, ${getSafePropertyName(discriminator)}: ${tagCode} })`;
+  });
+  return `v.variant("${discriminator}", [${memberCodes.join(", ")}])`;
+}
+
 /**
  * Emit intersection schema
  */
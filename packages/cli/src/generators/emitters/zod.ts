@@ -9,13 +9,32 @@ import {
   toFragmentSchemaName,
   toSchemaName,
 } from "@/utils/naming";
-import { createWriter, writeHeader, writeSectionComment } from "@/utils/writer";
+import {
+  createWriter,
+  writeDocComment,
+  writeHeader,
+  writeSectionComment,
+} from "@/utils/writer";
+import { getDiscriminatorValueSchema, tagObjectMember } from "../ir/utils";
+import { emitTypeScriptType } from "./typescript";
+import {
+  UNIQUE_ITEMS_MESSAGE,
+  formatDefaultValue,
+  formatRegex,
+  getDefaultedInputSchemas,
+  getPropertyCountChecks,
+  getUniqueItemsCheck,
+  hasDefaultValue,
+  withFieldDoc,
+} from "./utils";
 
 import type {
   ArraySchemaIR,
+  DiscriminatedUnionSchemaIR,
   EnumSchemaIR,
   IntersectionSchemaIR,
   NamedSchemaIR,
+  NumberSchemaIR,
   ObjectSchemaIR,
   RecordSchemaIR,
   SchemaIR,
@@ -39,6 +58,10 @@ export const zodEmitter: Emitter = {
     return `export type ${typeName} = z.infer<typeof ${schemaVarName}>`;
   },
 
+  getInputTypeInference(schemaVarName: string, typeName: string): string {
+    return `export type ${typeName} = z.input<typeof ${schemaVarName}>`;
+  },
+
   emit(schemas: NamedSchemaIR[], _options?: EmitterOptions): EmitterResult {
     const warnings: string[] = [];
     const writer = createWriter();
@@ -54,6 +77,7 @@ export const zodEmitter: Emitter = {
         const { name, schema } = schemas[i]!;
         const schemaVarName = toSchemaName(name);
         const schemaCode = emitSchemaIR(schema, warnings);
+        writeDocComment(writer, schema);
         writer.writeLine(`export const ${schemaVarName} = ${schemaCode}`);
         // Add blank line between schemas, but not after the last one
         if (i < schemas.length - 1) {
@@ -69,9 +93,22 @@ export const zodEmitter: Emitter = {
         writer,
         "TypeScript Types (inferred from Zod schemas)",
       );
-      for (const { name } of schemas) {
+      const inputSchemas = getDefaultedInputSchemas(schemas);
+      for (const { name, schema, recursive } of schemas) {
+        writeDocComment(writer, schema);
+        // Recursive schemas can't be inferred, so their types are declared
+        if (recursive) {
+          writer.writeLine(
+            `export type ${name} = ${emitTypeScriptType(schema)}`,
+          );
+          continue;
+        }
         const schemaVarName = toSchemaName(name);
-        writer.writeLine(this.getTypeInference(schemaVarName, name));
+        writer.writeLine(
+          inputSchemas.has(name)
+            ? this.getInputTypeInference(schemaVarName, name)
+            : this.getTypeInference(schemaVarName, name),
+        );
       }
     }
 
@@ -87,15 +124,26 @@ export const zodEmitter: Emitter = {
 // ============================================================================
 
 /**
- * Convert a SchemaIR to Zod code string
+ * Convert a SchemaIR to Zod code string, attaching its description with
+ * `.describe()`
  */
 function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
+  const code = emitSchemaKind(schema, warnings);
+  return schema.description
+    ? `${code}.describe(${JSON.stringify(schema.description)})`
+    : code;
+}
+
+/**
+ * Convert a SchemaIR's kind to Zod code string
+ */
+function emitSchemaKind(schema: SchemaIR, warnings: string[]): string {
   switch (schema.kind) {
     case "string":
-      return emitString(schema);
+      return emitString(schema, warnings);
 
     case "number":
-      return schema.integer ? "z.number().int()" : "z.number()";
+      return emitNumber(schema);
 
     case "boolean":
       return "z.boolean()";
@@ -118,6 +166,9 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "date":
       return "z.date()";
 
+    case "file":
+      return "z.union([z.instanceof(File), z.instanceof(Blob)])";
+
     case "object":
       return emitObject(schema, warnings);
 
@@ -139,11 +190,17 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
     case "union":
       return emitUnion(schema, warnings);
 
+    case "discriminatedUnion":
+      return emitDiscriminatedUnion(schema, warnings);
+
     case "intersection":
       return emitIntersection(schema, warnings);
 
     case "ref":
-      return toSchemaName(schema.name);
+      // References to recursive schemas declared later are resolved lazily
+      return schema.lazy
+        ? `z.lazy((): z.ZodType<${schema.name}> => ${toSchemaName(schema.name)})`
+        : toSchemaName(schema.name);
 
     case "raw":
       return schema.code;
@@ -155,9 +212,26 @@ function emitSchemaIR(schema: SchemaIR, warnings: string[]): string {
 }
 
 /**
- * Emit string schema with format support
+ * Emit string schema with format and length/pattern constraints
+ */
+function emitString(schema: StringSchemaIR, warnings: string[]): string {
+  let code = emitStringFormat(schema, warnings);
+  if (schema.minLength !== undefined) {
+    code = `${code}.min(${schema.minLength})`;
+  }
+  if (schema.maxLength !== undefined) {
+    code = `${code}.max(${schema.maxLength})`;
+  }
+  if (schema.pattern !== undefined) {
+    code = `${code}.regex(${formatRegex(schema.pattern)})`;
+  }
+  return code;
+}
+
+/**
+ * Emit the base string schema for a format
  */
-function emitString(schema: StringSchemaIR): string {
+function emitStringFormat(schema: StringSchemaIR, warnings: string[]): string {
   switch (schema.format) {
     case "email":
       return "z.email()";
@@ -175,11 +249,52 @@ function emitString(schema: StringSchemaIR): string {
       return "z.ipv4()";
     case "ipv6":
       return "z.ipv6()";
+    case "byte":
+      return "z.base64()";
+    case "hostname":
+      return "z.hostname()";
+    case "duration":
+      return "z.iso.duration()";
+    case "uri-reference":
+      warnings.push(
+        'Zod does not support the "uri-reference" string format. Values will be validated as plain strings.',
+      );
+      return "z.string()";
     default:
       return "z.string()";
   }
 }
 
+/**
+ * Emit number schema with integer format and range constraints
+ */
+function emitNumber(schema: NumberSchemaIR): string {
+  // z.int32() checks the 32-bit range, and .int() only allows safe integers
+  let code = "z.number()";
+  if (schema.format === "int32") {
+    code = "z.int32()";
+  } else if (schema.integer) {
+    code = "z.number().int()";
+  }
+
+  if (schema.min !== undefined) {
+    code = `${code}.min(${schema.min})`;
+  }
+  if (schema.max !== undefined) {
+    code = `${code}.max(${schema.max})`;
+  }
+  if (schema.exclusiveMin !== undefined) {
+    code = `${code}.gt(${schema.exclusiveMin})`;
+  }
+  if (schema.exclusiveMax !== undefined) {
+    code = `${code}.lt(${schema.exclusiveMax})`;
+  }
+  if (schema.multipleOf !== undefined) {
+    code = `${code}.multipleOf(${schema.multipleOf})`;
+  }
+  return code;
+}
+
 /**
  * Emit object schema
  */
@@ -203,11 +318,21 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     const safeName = getSafePropertyName(propName);
     const propCode = emitSchemaIR(prop.schema, warnings);
 
-    if (prop.required) {
-      fields.push(`${safeName}: ${propCode}`);
+    if (hasDefaultValue(prop.schema)) {
+      // Fields with a default can be omitted and parse to the default
+      fields.push(
+        withFieldDoc(
+          `${safeName}: ${propCode}.default(${formatDefaultValue(prop.schema.default)})`,
+          prop.schema,
+        ),
+      );
+    } else if (prop.required) {
+      fields.push(withFieldDoc(`${safeName}: ${propCode}`, prop.schema));
     } else {
       // Use .nullish() for optional fields to handle both null and undefined
-      fields.push(`${safeName}: ${propCode}.nullish()`);
+      fields.push(
+        withFieldDoc(`${safeName}: ${propCode}.nullish()`, prop.schema),
+      );
     }
   }
 
@@ -224,7 +349,21 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
     objectCode = `${objectCode}.catchall(${addPropCode})`;
   }
 
-  return objectCode;
+  return withPropertyCountChecks(objectCode, schema);
+}
+
+/**
+ * Refine an object or record schema with its property count constraints
+ */
+function withPropertyCountChecks(
+  code: string,
+  schema: ObjectSchemaIR | RecordSchemaIR,
+): string {
+  let result = code;
+  for (const { check, message } of getPropertyCountChecks(schema)) {
+    result = `${result}.refine((value) => ${check}, "${message}")`;
+  }
+  return result;
 }
 
 /**
@@ -232,7 +371,17 @@ function emitObject(schema: ObjectSchemaIR, warnings: string[]): string {
  */
 function emitArray(schema: ArraySchemaIR, warnings: string[]): string {
   const itemCode = emitSchemaIR(schema.items, warnings);
-  return `z.array(${itemCode})`;
+  let code = `z.array(${itemCode})`;
+  if (schema.minItems !== undefined) {
+    code = `${code}.min(${schema.minItems})`;
+  }
+  if (schema.maxItems !== undefined) {
+    code = `${code}.max(${schema.maxItems})`;
+  }
+  if (schema.uniqueItems) {
+    code = `${code}.refine((items) => ${getUniqueItemsCheck(schema.items)}, "${UNIQUE_ITEMS_MESSAGE}")`;
+  }
+  return code;
 }
 
 /**
@@ -252,7 +401,7 @@ function emitTuple(
 function emitRecord(schema: RecordSchemaIR, warnings: string[]): string {
   const keyCode = emitSchemaIR(schema.keyType, warnings);
   const valueCode = emitSchemaIR(schema.valueType, warnings);
-  return `z.record(${keyCode}, ${valueCode})`;
+  return withPropertyCountChecks(`z.record(${keyCode}, ${valueCode})`, schema);
 }
 
 /**
@@ -330,6 +479,28 @@ function emitUnion(schema: UnionSchemaIR, warnings: string[]): string {
   return `z.union([${memberCodes.join(", ")}])`;
 }
 
+/**
+ * Emit discriminated union schema
+ * Referenced members are extended with their literal discriminator.
+ */
+function emitDiscriminatedUnion(
+  schema: DiscriminatedUnionSchemaIR,
+  warnings: string[],
+): string {
+  const { discriminator } = schema;
+  const memberCodes = schema.members.map(({ values, schema: member }) => {
+    if (member.kind === "object") {
+      return emitObject(
+        tagObjectMember(member, discriminator, values),
+        warnings,
+      );
+    }
+    const tagCode = emitSchemaIR(getDiscriminatorValueSchema(values), warnings);
+    return `${toSchemaName(member.name)}.extend({ ${getSafePropertyName(discriminator)}: ${tagCode} })`;
+  });
+  return `z.discriminatedUnion("${discriminator}", [${memberCodes.join(", ")}])`;
+}
+
 /**
  * Emit intersection schema
  */
@@ -6,8 +6,11 @@ import {
   generateFormOptionsCode,
   getGraphQLInputSchemaName,
   getOpenAPIRequestSchemaName,
+  getSchemaDefaultValues,
 } from "./form-options";
 
+import type { NamedSchemaIR } from "./ir/types";
+
 describe("generateFormOptionsCode", () => {
   it("generates form options for mutations", () => {
     const mutations = [
@@ -97,6 +100,42 @@ describe("generateFormOptionsCode", () => {
     expect(result.warnings).toHaveLength(0);
   });
 
+  it("generates default values from the request schema", () => {
+    const mutations = [
+      {
+        operationId: "createPost",
+        requestSchemaName: "createPostRequestSchema",
+        defaultValues: { status: "draft", tags: [], "x-source": "web" },
+      },
+    ];
+
+    const result = generateFormOptionsCode(mutations, {
+      schemaImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      'defaultValues: { status: "draft", tags: [], "x-source": "web" } as unknown as CreatePostRequest,',
+    );
+  });
+
+  it("documents form options with their operation", () => {
+    const mutations = [
+      {
+        operationId: "createPost",
+        requestSchemaName: "createPostRequestSchema",
+        doc: { summary: "Create a post", deprecated: true },
+      },
+    ];
+
+    const result = generateFormOptionsCode(mutations, {
+      schemaImportPath: "../schema",
+    });
+
+    expect(result.content).toContain(
+      "/**\n * Create a post\n * @deprecated\n */\nexport const createPostFormOptions = formOptions(",
+    );
+  });
+
   it("generates proper camelCase form option names", () => {
     const mutations = [
       {
@@ -113,6 +152,92 @@ describe("generateFormOptionsCode", () => {
   });
 });
 
+describe("getSchemaDefaultValues", () => {
+  const schemas: NamedSchemaIR[] = [
+    {
+      name: "Settings",
+      schema: {
+        kind: "object",
+        properties: {
+          comments: {
+            schema: { kind: "boolean", default: true },
+            required: false,
+          },
+        },
+      },
+      dependencies: new Set(),
+    },
+    {
+      name: "CreatePostRequest",
+      schema: {
+        kind: "object",
+        properties: {
+          title: { schema: { kind: "string" }, required: true },
+          status: {
+            schema: { kind: "string", default: "draft" },
+            required: false,
+          },
+          settings: {
+            schema: { kind: "ref", name: "Settings" },
+            required: true,
+          },
+          extra: {
+            schema: { kind: "ref", name: "Settings" },
+            required: false,
+          },
+        },
+      },
+      dependencies: new Set(["Settings"]),
+    },
+  ];
+
+  it("collects defaults, including those of required nested objects", () => {
+    expect(getSchemaDefaultValues("CreatePostRequest", schemas)).toEqual({
+      status: "draft",
+      settings: { comments: true },
+    });
+  });
+
+  it("returns undefined when the schema has no defaults", () => {
+    expect(
+      getSchemaDefaultValues("Post", [
+        {
+          name: "Post",
+          schema: {
+            kind: "object",
+            properties: {
+              title: { schema: { kind: "string" }, required: true },
+            },
+          },
+          dependencies: new Set(),
+        },
+      ]),
+    ).toBeUndefined();
+  });
+
+  it("stops at recursive references", () => {
+    expect(
+      getSchemaDefaultValues("Node", [
+        {
+          name: "Node",
+          schema: {
+            kind: "object",
+            properties: {
+              label: {
+                schema: { kind: "string", default: "root" },
+                required: false,
+              },
+              next: { schema: { kind: "ref", name: "Node" }, required: true },
+            },
+          },
+          dependencies: new Set(),
+          recursive: true,
+        },
+      ]),
+    ).toEqual({ label: "root" });
+  });
+});
+
 describe("filterOpenAPIMutations", () => {
   it("filters POST operations with request bodies", () => {
     const operations = [
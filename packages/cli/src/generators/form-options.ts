@@ -9,12 +9,21 @@
  * Schema.standardSchemaV1() to be Standard Schema compliant.
  */
 
+import { getFrameworkPackages } from "@/utils/framework";
 import { toCamelCase, toPascalCase, toSchemaName } from "@/utils/naming";
-import { createWriter, writeHeader, writeImport } from "@/utils/writer";
+import {
+  createWriter,
+  writeDocComment,
+  writeHeader,
+  writeImport,
+} from "@/utils/writer";
+import { formatValue, hasDefaultValue } from "./emitters/utils";
 
 import type CodeBlockWriter from "code-block-writer";
-import type { FormOverridesConfig } from "@/core/config";
+import type { FormOverridesConfig, Framework } from "@/core/config";
+import type { DocComment } from "@/utils/writer";
 import type { ValidatorLibrary } from "./emitters/types";
+import type { NamedSchemaIR, SchemaIR } from "./ir/types";
 
 /**
  * Derive the TypeScript type name from a schema variable name.
@@ -34,6 +43,10 @@ export interface MutationOperation {
   operationId: string;
   /** The Zod schema variable name for the request body */
   requestSchemaName: string;
+  /** Initial form values from the request schema's defaults */
+  defaultValues?: Record<string, unknown>;
+  /** Documentation of the operation, written on its form options */
+  doc?: DocComment;
 }
 
 /**
@@ -46,6 +59,8 @@ export interface FormOptionsGenOptions {
   formOverrides?: FormOverridesConfig;
   /** The validator library being used (needed for Effect's Standard Schema wrapper) */
   validatorLibrary?: ValidatorLibrary;
+  /** Framework target for TanStack Form imports (default: "react") */
+  framework?: Framework;
 }
 
 /**
@@ -100,13 +115,11 @@ export function generateFormOptionsCode(
   }
 
   // External imports (sorted alphabetically)
+  const formPackage = getFrameworkPackages(options.framework).form;
   if (isOnDynamic) {
-    writeImport(writer, "@tanstack/react-form", [
-      "formOptions",
-      "revalidateLogic",
-    ]);
+    writeImport(writer, formPackage, ["formOptions", "revalidateLogic"]);
   } else {
-    writeImport(writer, "@tanstack/react-form", ["formOptions"]);
+    writeImport(writer, formPackage, ["formOptions"]);
   }
 
   // Collect all schema imports and their corresponding type imports (sorted alphabetically)
@@ -168,10 +181,18 @@ function writeFormOptions(
     ? `Schema.standardSchemaV1(${mutation.requestSchemaName})`
     : mutation.requestSchemaName;
 
+  if (mutation.doc) {
+    writeDocComment(writer, mutation.doc);
+  }
   writer
     .write(`export const ${formOptionsName} = formOptions(`)
     .inlineBlock(() => {
-      writer.writeLine(`defaultValues: {} as ${typeName},`);
+      // Defaults leave out required fields (at any depth), so the values
+      // are cast through unknown
+      const defaultValues = mutation.defaultValues
+        ? `${formatValue(mutation.defaultValues)} as unknown`
+        : "{}";
+      writer.writeLine(`defaultValues: ${defaultValues} as ${typeName},`);
 
       // Add validationLogic for onDynamic
       if (isOnDynamic) {
@@ -193,6 +214,53 @@ function writeFormOptions(
     .write(")");
 }
 
+/**
+ * Get the default values of a named schema for a form: the defaults of its
+ * properties, plus the defaults of required nested objects.
+ * Returns undefined when the schema has no defaults.
+ */
+export function getSchemaDefaultValues(
+  schemaName: string,
+  schemas: NamedSchemaIR[],
+): Record<string, unknown> | undefined {
+  const schemaMap = new Map(schemas.map((s) => [s.name, s.schema]));
+
+  function collect(
+    schema: SchemaIR | undefined,
+    visited: Set<string>,
+  ): Record<string, unknown> | undefined {
+    if (!schema) return undefined;
+
+    if (schema.kind === "ref") {
+      // Guard against recursive schemas
+      if (visited.has(schema.name)) return undefined;
+      return collect(
+        schemaMap.get(schema.name),
+        new Set(visited).add(schema.name),
+      );
+    }
+
+    const values: Record<string, unknown> = {};
+    if (schema.kind === "intersection") {
+      for (const member of schema.members) {
+        Object.assign(values, collect(member, visited));
+      }
+    } else if (schema.kind === "object") {
+      for (const [propName, prop] of Object.entries(schema.properties)) {
+        if (hasDefaultValue(prop.schema)) {
+          values[propName] = prop.schema.default;
+        } else if (prop.required) {
+          const nested = collect(prop.schema, visited);
+          if (nested) values[propName] = nested;
+        }
+      }
+    }
+    return Object.keys(values).length > 0 ? values : undefined;
+  }
+
+  return collect({ kind: "ref", name: schemaName }, new Set());
+}
+
 /**
  * Generate an empty form file when no mutations are found
  */
@@ -2,7 +2,7 @@ import { resolve } from "node:path";
 
 import { describe, expect, it } from "vitest";
 
-import { loadDocuments } from "../core/documents";
+import { getPersistedDocumentId, loadDocuments } from "../core/documents";
 import { generateFunctions } from "./functions";
 
 const fixturesDir = resolve(__dirname, "../test/fixtures/graphql");
@@ -128,7 +128,7 @@ describe("generateFunctions", () => {
 
     // GetUser has required $id variable
     expect(result).toContain(
-      "getUser = async (variables: GetUserQueryVariables)",
+      "getUser = async (variables: GetUserQueryVariables, options?: RequestOptions)",
     );
   });
 
@@ -142,7 +142,7 @@ describe("generateFunctions", () => {
 
     // ListUsers has all optional variables ($limit: Int, $offset: Int)
     expect(result).toContain(
-      "listUsers = async (variables?: ListUsersQueryVariables)",
+      "listUsers = async (variables?: ListUsersQueryVariables, options?: RequestOptions)",
     );
   });
 
@@ -156,7 +156,7 @@ describe("generateFunctions", () => {
 
     // CreateUser has required $input variable
     expect(result).toContain(
-      "createUser = async (variables: CreateUserMutationVariables)",
+      "createUser = async (variables: CreateUserMutationVariables, options?: RequestOptions)",
     );
   });
 
@@ -259,7 +259,7 @@ describe("generateFunctions", () => {
     });
 
     // GetAllUsers has no variables
-    expect(result).toContain("getAllUsers = async ()");
+    expect(result).toContain("getAllUsers = async (options?: RequestOptions)");
     expect(result).toContain(".request<GetAllUsersQuery>(GetAllUsersDocument)");
   });
 
@@ -274,12 +274,122 @@ describe("generateFunctions", () => {
     });
 
     // ResetAllUsers has no variables
-    expect(result).toContain("resetAllUsers = async ()");
+    expect(result).toContain(
+      "resetAllUsers = async (options?: RequestOptions)",
+    );
     expect(result).toContain(
       ".request<ResetAllUsersMutation>(ResetAllUsersDocument)",
     );
   });
 
+  it("generates subscription functions that use the subscribe client", async () => {
+    const documents = await loadDocuments(
+      `${fixturesDir}/subscription.graphql`,
+    );
+    const result = generateFunctions({
+      documents,
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+    });
+
+    expect(result).toContain('import { getClient, subscribe } from "./client"');
+    expect(result).toContain(
+      "export const onUserCreated = () =>\n  subscribe<OnUserCreatedSubscription>(OnUserCreatedDocument)",
+    );
+    expect(result).toContain(
+      "export const onPostPublished = (variables?: OnPostPublishedSubscriptionVariables) =>\n  subscribe<OnPostPublishedSubscription>(OnPostPublishedDocument, variables)",
+    );
+  });
+
+  it("does not import subscribe without subscriptions", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = generateFunctions({
+      documents,
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+    });
+
+    expect(result).not.toContain("subscribe");
+  });
+
+  it("sends operations with executeQuery and executeMutation of other transports", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = generateFunctions({
+      documents,
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+      transport: "fetch",
+    });
+
+    expect(result).toContain(
+      'import { executeMutation, executeQuery } from "./client"',
+    );
+    expect(result).toContain(
+      "executeQuery<GetUserQuery>(GetUserDocument, variables, options)",
+    );
+    expect(result).toContain(
+      "executeMutation<CreateUserMutation>(CreateUserDocument, variables, options)",
+    );
+    expect(result).not.toContain("getClient");
+  });
+
+  it("passes undefined variables to executeQuery for operations without variables", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/query-only.graphql`);
+    const result = generateFunctions({
+      documents,
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+      transport: "urql",
+    });
+
+    expect(result).toContain('import { executeQuery } from "./client"');
+    expect(result).toContain(
+      "executeQuery<GetAllUsersQuery>(GetAllUsersDocument, undefined, options)",
+    );
+  });
+
+  it("writes persisted documents with their ID and text for APQ", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = generateFunctions({
+      documents,
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+      transport: "fetch",
+      persistedDocuments: "apq",
+    });
+
+    const getUser = documents.operations.find((op) => op.name === "GetUser");
+    if (!getUser) throw new Error("GetUser operation not found");
+    const id = getPersistedDocumentId(getUser, documents.fragments);
+
+    expect(result).toContain(
+      `const GetUserDocument = {\n  id: "${id}",\n  query: /* GraphQL */ \`\nquery GetUser(`,
+    );
+    expect(result).toContain("${UserFieldsFragmentDoc}`,\n}");
+    expect(result).toContain(
+      "executeQuery<GetUserQuery>(GetUserDocument, variables, options)",
+    );
+  });
+
+  it("leaves out the text of documents persisted by ID", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = generateFunctions({
+      documents,
+      clientImportPath: "./client",
+      typesImportPath: "./schema",
+      transport: "fetch",
+      persistedDocuments: "documentId",
+    });
+
+    const getUser = documents.operations.find((op) => op.name === "GetUser");
+    if (!getUser) throw new Error("GetUser operation not found");
+    const id = getPersistedDocumentId(getUser, documents.fragments);
+
+    expect(result).toContain(`const GetUserDocument = { id: "${id}" }`);
+    expect(result).not.toContain("/* GraphQL */");
+    expect(result).not.toContain("// Fragment Documents");
+  });
+
   it("does not generate fragment section when no fragments exist", async () => {
     const documents = await loadDocuments(`${fixturesDir}/query-only.graphql`);
     const result = generateFunctions({
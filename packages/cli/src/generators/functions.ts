@@ -1,29 +1,41 @@
 /**
  * GraphQL standalone functions generation
  *
- * Generates standalone async fetch functions for GraphQL operations.
+ * Generates standalone async fetch functions for GraphQL operations, and
+ * async iterators for subscriptions.
  * These functions are imported by both options.ts (for queryOptions/mutationOptions)
  * and collections.ts (for TanStack DB persistence handlers).
  */
 
-import { getFragmentDependencies } from "@/core/documents";
+import {
+  getFragmentDependencies,
+  getOperationDoc,
+  getPersistedDocumentId,
+} from "@/core/documents";
 import {
   toCamelCase,
   toDocumentName,
   toFragmentDocName,
   toMutationTypeName,
   toMutationVariablesTypeName,
+  toOperationTypeName,
+  toOperationVariablesTypeName,
   toQueryTypeName,
   toQueryVariablesTypeName,
+  toSubscriptionTypeName,
+  toSubscriptionVariablesTypeName,
 } from "@/utils/naming";
 import {
   createWriter,
+  writeDocComment,
   writeHeader,
   writeImport,
   writeSectionComment,
 } from "@/utils/writer";
 
 import type CodeBlockWriter from "code-block-writer";
+import type { GraphQLSchema } from "graphql";
+import type { GraphQLTransport, PersistedDocumentsMode } from "@/core/config";
 import type {
   ParsedDocuments,
   ParsedFragment,
@@ -34,35 +46,76 @@ export interface FunctionsGeneratorOptions {
   documents: ParsedDocuments;
   clientImportPath: string;
   typesImportPath: string;
+  /** GraphQL schema, used to document functions with their root fields */
+  schema?: GraphQLSchema;
+  /** Transport of the client (default: "graphql-request") */
+  transport?: GraphQLTransport;
+  /** How queries and mutations are sent as persisted documents, if they are */
+  persistedDocuments?: PersistedDocumentsMode;
 }
 
 /**
  * Generate the functions file with standalone fetch functions
  */
 export function generateFunctions(options: FunctionsGeneratorOptions): string {
-  const { documents, clientImportPath, typesImportPath } = options;
+  const { documents, clientImportPath, typesImportPath, schema } = options;
   const { operations, fragments } = documents;
+  // Transports other than graphql-request export executeQuery and executeMutation
+  const execute =
+    options.transport !== undefined && options.transport !== "graphql-request";
 
   const writer = createWriter();
 
   writeHeader(writer);
 
   // Internal imports
-  writer.writeLine(`import { getClient } from "${clientImportPath}"`);
+  const clientImports = execute
+    ? [
+        ...(operations.some((op) => op.operation === "mutation")
+          ? ["executeMutation"]
+          : []),
+        ...(operations.some((op) => op.operation === "query")
+          ? ["executeQuery"]
+          : []),
+      ]
+    : ["getClient"];
+  if (operations.some((op) => op.operation === "subscription")) {
+    clientImports.push("subscribe");
+  }
+  if (clientImports.length > 0) {
+    writer.writeLine(
+      `import { ${clientImports.join(", ")} } from "${clientImportPath}"`,
+    );
+  }
 
   // Type imports (sorted alphabetically, always last with blank line)
+  const hasRequests = operations.some((op) => op.operation !== "subscription");
   const typeImports = generateTypeImports(operations);
-  if (typeImports.length > 0) {
+  if (hasRequests || typeImports.length > 0) {
     writer.blankLine();
-    writeImport(writer, typesImportPath, typeImports, true);
   }
+  if (hasRequests) {
+    writeImport(writer, clientImportPath, ["RequestOptions"], true);
+  }
+  writeImport(writer, typesImportPath, typeImports, true);
 
   writer.blankLine();
 
-  // Fragment documents
-  if (fragments.length > 0) {
+  // Fragment documents. Documents persisted by ID leave out their text, so
+  // only the fragments of subscriptions are needed then.
+  const textFragments =
+    options.persistedDocuments === "documentId"
+      ? fragments.filter((fragment) =>
+          operations.some(
+            (op) =>
+              op.operation === "subscription" &&
+              getFragmentDependencies(op, fragments).includes(fragment),
+          ),
+        )
+      : fragments;
+  if (textFragments.length > 0) {
     writeSectionComment(writer, "Fragment Documents");
-    for (const fragment of fragments) {
+    for (const fragment of textFragments) {
       writeFragmentDocument(writer, fragment);
       writer.blankLine();
     }
@@ -72,17 +125,32 @@ export function generateFunctions(options: FunctionsGeneratorOptions): string {
   writeSectionComment(writer, "Documents");
   for (const operation of operations) {
     const fragmentDeps = getFragmentDependencies(operation, fragments);
-    writeOperationDocument(writer, operation, fragmentDeps);
+    if (options.persistedDocuments && operation.operation !== "subscription") {
+      writePersistedDocument(
+        writer,
+        operation,
+        fragmentDeps,
+        getPersistedDocumentId(operation, fragments),
+        options.persistedDocuments,
+      );
+    } else {
+      writeOperationDocument(writer, operation, fragmentDeps);
+    }
     writer.blankLine();
   }
 
   // Standalone functions
   writeSectionComment(writer, "Functions");
   for (const operation of operations) {
+    if (schema) {
+      writeDocComment(writer, getOperationDoc(operation, schema));
+    }
     if (operation.operation === "query") {
-      writeQueryFunction(writer, operation);
+      writeQueryFunction(writer, operation, execute);
+    } else if (operation.operation === "subscription") {
+      writeSubscriptionFunction(writer, operation);
     } else {
-      writeMutationFunction(writer, operation);
+      writeMutationFunction(writer, operation, execute);
     }
     writer.blankLine();
   }
@@ -100,16 +168,9 @@ function generateTypeImports(operations: ParsedOperation[]): string[] {
     const hasVariables =
       op.node.variableDefinitions && op.node.variableDefinitions.length > 0;
 
-    if (op.operation === "query") {
-      imports.push(toQueryTypeName(op.name));
-      if (hasVariables) {
-        imports.push(toQueryVariablesTypeName(op.name));
-      }
-    } else if (op.operation === "mutation") {
-      imports.push(toMutationTypeName(op.name));
-      if (hasVariables) {
-        imports.push(toMutationVariablesTypeName(op.name));
-      }
+    imports.push(toOperationTypeName(op.name, op.operation));
+    if (hasVariables) {
+      imports.push(toOperationVariablesTypeName(op.name, op.operation));
     }
   }
 
@@ -153,12 +214,66 @@ function writeOperationDocument(
   }
 }
 
+/**
+ * Write a persisted document constant: the document's ID, and its text with
+ * fragment dependencies when it is sent with Automatic Persisted Queries
+ */
+function writePersistedDocument(
+  writer: CodeBlockWriter,
+  operation: ParsedOperation,
+  fragmentDeps: ParsedFragment[],
+  id: string,
+  mode: PersistedDocumentsMode,
+): void {
+  const docName = toDocumentName(operation.name);
+
+  if (mode === "documentId") {
+    writer.write(`const ${docName} = { id: "${id}" }`);
+    return;
+  }
+
+  const fragmentInterpolations = fragmentDeps
+    .map((f) => `\${${toFragmentDocName(f.name)}}`)
+    .join("");
+  writer.writeLine(`const ${docName} = {`);
+  writer.writeLine(`  id: "${id}",`);
+  writer.writeLine("  query: /* GraphQL */ `");
+  writer.writeLine(operation.document);
+  writer.writeLine(`${fragmentInterpolations}\`,`);
+  writer.write("}");
+}
+
+/**
+ * Get a function's signature, with the per-call request options as the last
+ * parameter
+ * e.g., `(variables: GetUserQueryVariables, options?: RequestOptions)`
+ */
+function getSignature(param?: string): string {
+  const options = "options?: RequestOptions";
+  return param ? `(${param}, ${options})` : `(${options})`;
+}
+
+/**
+ * Format the call sending an operation with executeQuery or executeMutation
+ * e.g., `executeQuery<GetUserQuery>(GetUserDocument, variables, options)`
+ */
+function formatExecuteCall(
+  fn: "executeQuery" | "executeMutation",
+  type: string,
+  docName: string,
+  hasVariables: boolean,
+): string {
+  const variables = hasVariables ? "variables" : "undefined";
+  return `${fn}<${type}>(${docName}, ${variables}, options)`;
+}
+
 /**
  * Write a standalone async function for a query operation
  */
 function writeQueryFunction(
   writer: CodeBlockWriter,
   operation: ParsedOperation,
+  execute: boolean,
 ): void {
   const fnName = toCamelCase(operation.name);
   const docName = toDocumentName(operation.name);
@@ -177,10 +292,16 @@ function writeQueryFunction(
     );
 
   if (!hasVariables) {
-    writer.write(`export const ${fnName} = async () =>`).newLine();
+    writer
+      .write(`export const ${fnName} = async ${getSignature()} =>`)
+      .newLine();
     writer
       .indent()
-      .write(`(await getClient()).request<${queryType}>(${docName})`);
+      .write(
+        execute
+          ? formatExecuteCall("executeQuery", queryType, docName, false)
+          : `(await getClient(options)).request<${queryType}>(${docName})`,
+      );
     return;
   }
 
@@ -189,12 +310,14 @@ function writeQueryFunction(
     : `variables: ${variablesType}`;
 
   writer
-    .write(`export const ${fnName} = async (${variableParam}) =>`)
+    .write(`export const ${fnName} = async ${getSignature(variableParam)} =>`)
     .newLine();
   writer
     .indent()
     .write(
-      `(await getClient()).request<${queryType}>(${docName}, variables ?? undefined)`,
+      execute
+        ? formatExecuteCall("executeQuery", queryType, docName, true)
+        : `(await getClient(options)).request<${queryType}>(${docName}, variables ?? undefined)`,
     );
 }
 
@@ -204,6 +327,7 @@ function writeQueryFunction(
 function writeMutationFunction(
   writer: CodeBlockWriter,
   operation: ParsedOperation,
+  execute: boolean,
 ): void {
   const fnName = toCamelCase(operation.name);
   const docName = toDocumentName(operation.name);
@@ -215,19 +339,69 @@ function writeMutationFunction(
     operation.node.variableDefinitions.length > 0;
 
   if (!hasVariables) {
-    writer.write(`export const ${fnName} = async () =>`).newLine();
+    writer
+      .write(`export const ${fnName} = async ${getSignature()} =>`)
+      .newLine();
     writer
       .indent()
-      .write(`(await getClient()).request<${mutationType}>(${docName})`);
+      .write(
+        execute
+          ? formatExecuteCall("executeMutation", mutationType, docName, false)
+          : `(await getClient(options)).request<${mutationType}>(${docName})`,
+      );
     return;
   }
 
   writer
-    .write(`export const ${fnName} = async (variables: ${variablesType}) =>`)
+    .write(
+      `export const ${fnName} = async ${getSignature(`variables: ${variablesType}`)} =>`,
+    )
     .newLine();
   writer
     .indent()
     .write(
-      `(await getClient()).request<${mutationType}>(${docName}, variables)`,
+      execute
+        ? formatExecuteCall("executeMutation", mutationType, docName, true)
+        : `(await getClient(options)).request<${mutationType}>(${docName}, variables)`,
+    );
+}
+
+/**
+ * Write a standalone function for a subscription operation.
+ * Returns an async iterator of events from the subscription client.
+ */
+function writeSubscriptionFunction(
+  writer: CodeBlockWriter,
+  operation: ParsedOperation,
+): void {
+  const fnName = toCamelCase(operation.name);
+  const docName = toDocumentName(operation.name);
+  const subscriptionType = toSubscriptionTypeName(operation.name);
+  const variablesType = toSubscriptionVariablesTypeName(operation.name);
+
+  const hasVariables =
+    operation.node.variableDefinitions &&
+    operation.node.variableDefinitions.length > 0;
+
+  // Check if all variables are optional
+  const allOptional =
+    hasVariables &&
+    operation.node.variableDefinitions?.every(
+      (v) => v.type.kind !== "NonNullType",
     );
+
+  if (!hasVariables) {
+    writer.write(`export const ${fnName} = () =>`).newLine();
+    writer.indent().write(`subscribe<${subscriptionType}>(${docName})`);
+    return;
+  }
+
+  const variableParam = allOptional
+    ? `variables?: ${variablesType}`
+    : `variables: ${variablesType}`;
+
+  writer.write(`export const ${fnName} = (${variableParam}) =>`).newLine();
+  writer
+    .indent()
+    .write(`subscribe<${subscriptionType}>(${docName}, variables)`);
 }
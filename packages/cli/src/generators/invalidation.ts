@@ -0,0 +1,124 @@
+/**
+ * Mutation cache invalidation
+ * Resolves the queries each mutation invalidates and writes the invalidation
+ * map that generated mutationOptions use, shared by both adapters
+ */
+
+import { writeSectionComment } from "@/utils/writer";
+
+import type CodeBlockWriter from "code-block-writer";
+import type { InvalidationOverrideConfig } from "@/core/config";
+
+/**
+ * Name of the exported invalidation map in options.ts
+ */
+export const INVALIDATION_MAP_NAME = "mutationInvalidations";
+
+/**
+ * The query keys a mutation invalidates when it succeeds
+ */
+export interface MutationInvalidation {
+  /** Property name in the invalidation map (e.g., "updatePet") */
+  name: string;
+  /** Query key prefixes to invalidate */
+  queryKeys: string[];
+  /**
+   * Type of the mutation variables, set when a query key is built from them
+   * (e.g., to invalidate one detail)
+   */
+  variablesType?: string;
+}
+
+/**
+ * Resolve the queries a mutation invalidates: the inferred ones, plus any
+ * included by its override, minus any excluded. Queries keep the order of
+ * `queryNames`.
+ */
+export function resolveInvalidatedQueries(
+  mutationName: string,
+  inferred: string[],
+  queryNames: string[],
+  override: InvalidationOverrideConfig | undefined,
+  warnings: string[],
+): string[] {
+  if (override?.disabled) {
+    return [];
+  }
+
+  for (const name of override?.include ?? []) {
+    if (!queryNames.includes(name)) {
+      warnings.push(
+        `Query "${name}" in 'overrides.query.operations.${mutationName}.invalidation.include' ` +
+          `not found. It will not be invalidated.`,
+      );
+    }
+  }
+
+  const included = new Set([...inferred, ...(override?.include ?? [])]);
+  const excluded = new Set(override?.exclude);
+  return queryNames.filter((name) => included.has(name) && !excluded.has(name));
+}
+
+/**
+ * Write the invalidateQueries helper and the invalidation map
+ */
+export function writeInvalidationMap(
+  writer: CodeBlockWriter,
+  invalidations: MutationInvalidation[],
+): void {
+  writeSectionComment(writer, "Mutation Invalidations");
+  writer.blankLine();
+  writer.writeLine(`/**
+ * Invalidate the queries a mutation affects, when given a query client
+ */
+const invalidateQueries = async (
+  queryClient: QueryClient | undefined,
+  queryKeys: QueryKey[],
+) => {
+  await Promise.all(
+    queryKeys.map((queryKey) => queryClient?.invalidateQueries({ queryKey })),
+  )
+}`);
+  writer.blankLine();
+
+  writer.writeLine("/**");
+  writer.writeLine(" * Query keys invalidated when each mutation succeeds");
+  writer.writeLine(" */");
+  writer
+    .write(`export const ${INVALIDATION_MAP_NAME} =`)
+    .space()
+    .inlineBlock(() => {
+      for (const invalidation of invalidations) {
+        const param = invalidation.variablesType
+          ? `variables: ${invalidation.variablesType}`
+          : "";
+        writer.write(`${invalidation.name}: (${param}): QueryKey[] => [`);
+        writer.indent(() => {
+          for (const queryKey of invalidation.queryKeys) {
+            writer.writeLine(`${queryKey},`);
+          }
+        });
+        writer.writeLine("],");
+      }
+    });
+  writer.newLine();
+}
+
+/**
+ * Write the onSuccess option that invalidates a mutation's queries
+ */
+export function writeInvalidationOnSuccess(
+  writer: CodeBlockWriter,
+  invalidation: MutationInvalidation,
+): void {
+  const queryKeys = `${INVALIDATION_MAP_NAME}.${invalidation.name}`;
+  if (invalidation.variablesType) {
+    writer.writeLine(
+      `onSuccess: (_data, variables) => invalidateQueries(queryClient, ${queryKeys}(variables)),`,
+    );
+  } else {
+    writer.writeLine(
+      `onSuccess: () => invalidateQueries(queryClient, ${queryKeys}()),`,
+    );
+  }
+}
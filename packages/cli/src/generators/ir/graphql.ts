@@ -8,22 +8,27 @@
 import {
   isEnumType,
   isInputObjectType,
+  isInputType,
   isInterfaceType,
   isListType,
   isNonNullType,
   isObjectType,
   isScalarType,
   isUnionType,
+  typeFromAST,
+  valueFromAST,
 } from "graphql";
 
 import {
   toFragmentTypeName,
-  toMutationResponseTypeName,
-  toMutationVariablesTypeName,
-  toQueryResponseTypeName,
-  toQueryVariablesTypeName,
+  toOperationTypeName,
+  toOperationVariablesTypeName,
 } from "@/utils/naming";
-import { createNamedSchema, topologicalSortSchemas } from "./utils";
+import {
+  createNamedSchema,
+  tagObjectMember,
+  topologicalSortSchemas,
+} from "./utils";
 
 import type {
   GraphQLEnumType,
@@ -34,6 +39,7 @@ import type {
   GraphQLOutputType,
   GraphQLSchema,
   GraphQLUnionType,
+  VariableDefinitionNode,
 } from "graphql";
 import type {
   ParsedDocuments,
@@ -42,8 +48,10 @@ import type {
 } from "@/core/documents";
 import type { ValidatorLibrary } from "@/generators/emitters/types";
 import type {
+  DiscriminatedUnionMemberIR,
   NamedSchemaIR,
   ObjectPropertyIR,
+  ObjectSchemaIR,
   SchemaIR,
   SchemaIRResult,
 } from "./types";
@@ -329,10 +337,7 @@ function collectAndGenerateEnums(
 
   // Collect enums from operation selection sets (outputs)
   for (const operation of operations) {
-    const rootType =
-      operation.operation === "query"
-        ? ctx.schema.getQueryType()
-        : ctx.schema.getMutationType();
+    const rootType = ctx.schema.getRootType(operation.node.operation);
 
     if (rootType && operation.node.selectionSet) {
       collectEnumsFromSelectionSet(
@@ -398,10 +403,7 @@ function collectEnumsFromTypeNode(
       enumTypes.add(schemaType);
     } else if (isInputObjectType(schemaType)) {
       // Recursively collect enums from input object fields
-      const fields = schemaType.getFields();
-      for (const field of Object.values(fields)) {
-        collectEnumsFromGraphQLInputType(field.type, ctx, enumTypes);
-      }
+      collectEnumsFromGraphQLInputType(schemaType, ctx, enumTypes);
     }
   }
 }
@@ -413,18 +415,23 @@ function collectEnumsFromGraphQLInputType(
   type: GraphQLInputType,
   ctx: GraphQLIRContext,
   enumTypes: Set<GraphQLEnumType>,
+  visited: Set<string> = new Set(),
 ): void {
   if (isNonNullType(type) || isListType(type)) {
-    collectEnumsFromGraphQLInputType(type.ofType, ctx, enumTypes);
+    collectEnumsFromGraphQLInputType(type.ofType, ctx, enumTypes, visited);
     return;
   }
 
   if (isEnumType(type)) {
     enumTypes.add(type);
   } else if (isInputObjectType(type)) {
+    // Recursive input types (e.g., `_and: [bool_exp!]`) are visited once
+    if (visited.has(type.name)) return;
+    visited.add(type.name);
+
     const fields = type.getFields();
     for (const field of Object.values(fields)) {
-      collectEnumsFromGraphQLInputType(field.type, ctx, enumTypes);
+      collectEnumsFromGraphQLInputType(field.type, ctx, enumTypes, visited);
     }
   }
 }
@@ -708,7 +715,9 @@ function generateEnumSchema(
   const enumValues = values.map((v) => v.name);
   const ir: SchemaIR = { kind: "enum", values: enumValues };
 
-  ctx.schemas.push(createNamedSchema(typeName, ir, "enum"));
+  ctx.schemas.push(
+    createNamedSchema(typeName, withMetadata(ir, enumType), "enum"),
+  );
 }
 
 /**
@@ -732,7 +741,10 @@ function generateInputTypeSchema(
   // Note: We store the original field name in the IR. The emitter is responsible
   // for applying getSafePropertyName() at code generation time.
   for (const field of Object.values(fields)) {
-    const ir = graphqlInputTypeToIR(field.type, ctx);
+    const ir = withDefault(
+      withMetadata(graphqlInputTypeToIR(field.type, ctx), field),
+      field.defaultValue,
+    );
     const isRequired = isNonNullType(field.type);
 
     properties[field.name] = {
@@ -742,7 +754,9 @@ function generateInputTypeSchema(
   }
 
   const objectIR: SchemaIR = { kind: "object", properties };
-  ctx.schemas.push(createNamedSchema(typeName, objectIR, "input"));
+  ctx.schemas.push(
+    createNamedSchema(typeName, withMetadata(objectIR, inputType), "input"),
+  );
 }
 
 /**
@@ -903,10 +917,10 @@ function generateOperationVariablesSchemas(
     const variables = operation.node.variableDefinitions ?? [];
     if (variables.length === 0) continue;
 
-    const typeName =
-      operation.operation === "query"
-        ? toQueryVariablesTypeName(operation.name)
-        : toMutationVariablesTypeName(operation.name);
+    const typeName = toOperationVariablesTypeName(
+      operation.name,
+      operation.operation,
+    );
 
     if (ctx.generatedSchemas.has(typeName)) continue;
 
@@ -914,7 +928,10 @@ function generateOperationVariablesSchemas(
 
     for (const varDef of variables) {
       const varName = varDef.variable.name.value;
-      const ir = astTypeToIR(varDef.type, ctx);
+      const ir = withDefault(
+        astTypeToIR(varDef.type, ctx),
+        getVariableDefaultValue(varDef, ctx),
+      );
       const isRequired = varDef.type.kind === "NonNullType";
 
       properties[varName] = {
@@ -929,6 +946,52 @@ function generateOperationVariablesSchemas(
   }
 }
 
+/**
+ * Get the default value of an operation variable, coerced to its input type
+ */
+function getVariableDefaultValue(
+  varDef: VariableDefinitionNode,
+  ctx: GraphQLIRContext,
+): unknown {
+  if (!varDef.defaultValue) return undefined;
+  const type = typeFromAST(ctx.schema, varDef.type);
+  return type && isInputType(type)
+    ? valueFromAST(varDef.defaultValue, type)
+    : undefined;
+}
+
+/**
+ * Attach a default value to an input field's or variable's IR. Custom scalar
+ * and date defaults are skipped, since their coerced values may not match
+ * the emitted schema.
+ */
+function withDefault(ir: SchemaIR, value: unknown): SchemaIR {
+  if (value === undefined || ir.kind === "raw" || ir.kind === "date") {
+    return ir;
+  }
+  return { ...ir, default: value };
+}
+
+/**
+ * Attach the description and deprecation reason of a type or field from the
+ * schema to its IR
+ */
+function withMetadata(
+  ir: SchemaIR,
+  source: { description?: string | null; deprecationReason?: string | null },
+): SchemaIR {
+  const description = source.description?.trim();
+  const deprecated = source.deprecationReason ?? undefined;
+  if (!description && deprecated === undefined) {
+    return ir;
+  }
+  return {
+    ...ir,
+    ...(description && { description }),
+    ...(deprecated !== undefined && { deprecated: deprecated || true }),
+  };
+}
+
 /**
  * Convert a GraphQL AST type node to IR
  */
@@ -994,17 +1057,11 @@ function generateOperationResponseSchemas(
   ctx: GraphQLIRContext,
 ): void {
   for (const operation of operations) {
-    const typeName =
-      operation.operation === "query"
-        ? toQueryResponseTypeName(operation.name)
-        : toMutationResponseTypeName(operation.name);
+    const typeName = toOperationTypeName(operation.name, operation.operation);
 
     if (ctx.generatedSchemas.has(typeName)) continue;
 
-    const rootType =
-      operation.operation === "query"
-        ? ctx.schema.getQueryType()
-        : ctx.schema.getMutationType();
+    const rootType = ctx.schema.getRootType(operation.node.operation);
 
     if (!rootType) {
       ctx.warnings.push(
@@ -1095,10 +1152,12 @@ function extractSelectionFields(
       const outputName = sel.alias?.value ?? fieldName;
       if (!fieldName || !outputName) continue;
 
-      // Handle __typename
+      // Handle __typename (only known up front on object types)
       if (fieldName === "__typename") {
         properties[outputName] = {
-          schema: { kind: "literal", value: parentType.name },
+          schema: isObjectType(parentType)
+            ? { kind: "literal", value: parentType.name }
+            : { kind: "string" },
           required: true,
         };
         continue;
@@ -1108,7 +1167,10 @@ function extractSelectionFields(
       if (!schemaField) continue;
 
       const fieldType = schemaField.type;
-      const ir = generateOutputTypeIR(fieldType, sel.selectionSet, ctx);
+      const ir = withMetadata(
+        generateOutputTypeIR(fieldType, sel.selectionSet, ctx),
+        schemaField,
+      );
       const isRequired = isNonNullType(fieldType);
 
       properties[outputName] = {
@@ -1219,46 +1281,17 @@ function generateUnionTypeIR(
   selectionSet: { selections: readonly unknown[] },
   ctx: GraphQLIRContext,
 ): SchemaIR {
-  const members: SchemaIR[] = [];
-
-  for (const selection of selectionSet.selections) {
-    const sel = selection as {
-      kind: string;
-      typeCondition?: { name: { value: string } };
-      selectionSet?: { selections: readonly unknown[] };
-    };
-
-    if (
-      sel.kind === "InlineFragment" &&
-      sel.typeCondition &&
-      sel.selectionSet
-    ) {
-      const typeName = sel.typeCondition.name.value;
-      const fragmentType = ctx.schema.getType(typeName);
+  const inlineFragments = getTypedInlineFragments(selectionSet, ctx);
 
-      if (fragmentType && isObjectType(fragmentType)) {
-        const memberIR = generateSelectionSetIR(
-          sel.selectionSet,
-          fragmentType,
-          ctx,
-        );
-        members.push(memberIR);
-      }
-    }
-  }
-
-  if (members.length === 0) {
+  if (inlineFragments.length === 0) {
     ctx.warnings.push(
       `Union type "${type.name}" has no inline fragments. Consider adding "... on TypeName { fields }" to select specific fields.`,
     );
-    return { kind: "unknown" };
   }
 
-  if (members.length === 1 && members[0]) {
-    return members[0];
-  }
-
-  return { kind: "union", members };
+  // Union selections can only hold __typename, which each member gets anyway
+  const common: SelectionFieldResult = { properties: {}, spreadFragments: [] };
+  return generatePolymorphicIR(type, common, inlineFragments, ctx);
 }
 
 /**
@@ -1269,8 +1302,52 @@ function generateInterfaceTypeIR(
   selectionSet: { selections: readonly unknown[] },
   ctx: GraphQLIRContext,
 ): SchemaIR {
-  const result = extractSelectionFields(selectionSet, type, ctx);
-  const inlineFragments: SchemaIR[] = [];
+  const inlineFragments = getTypedInlineFragments(selectionSet, ctx);
+
+  // Fields selected on the interface itself are shared by every member
+  const common = extractSelectionFields(
+    {
+      selections: selectionSet.selections.filter(
+        (selection) => !inlineFragments.some((f) => f.node === selection),
+      ),
+    },
+    type,
+    ctx,
+  );
+
+  // Without inline fragments, every implementation has the same shape
+  if (inlineFragments.length === 0) {
+    const { __typename: _, ...properties } = common.properties;
+    const objectIR: ObjectSchemaIR & { _fragmentSpreads?: string[] } = {
+      kind: "object",
+      properties: {
+        __typename: { schema: { kind: "string" }, required: true },
+        ...properties,
+      },
+    };
+    if (common.spreadFragments.length > 0) {
+      objectIR._fragmentSpreads = common.spreadFragments;
+    }
+    return objectIR;
+  }
+
+  return generatePolymorphicIR(type, common, inlineFragments, ctx);
+}
+
+interface TypedInlineFragment {
+  node: unknown;
+  type: GraphQLObjectType | GraphQLInterfaceType;
+  selectionSet: { selections: readonly unknown[] };
+}
+
+/**
+ * Get the inline fragments with a type condition from a selection set
+ */
+function getTypedInlineFragments(
+  selectionSet: { selections: readonly unknown[] },
+  ctx: GraphQLIRContext,
+): TypedInlineFragment[] {
+  const fragments: TypedInlineFragment[] = [];
 
   for (const selection of selectionSet.selections) {
     const sel = selection as {
@@ -1284,41 +1361,120 @@ function generateInterfaceTypeIR(
       sel.typeCondition &&
       sel.selectionSet
     ) {
-      const typeName = sel.typeCondition.name.value;
-      const fragmentType = ctx.schema.getType(typeName);
-
+      const fragmentType = ctx.schema.getType(sel.typeCondition.name.value);
       if (
         fragmentType &&
         (isObjectType(fragmentType) || isInterfaceType(fragmentType))
       ) {
-        const memberIR = generateSelectionSetIR(
-          sel.selectionSet,
-          fragmentType,
-          ctx,
-        );
-        inlineFragments.push(memberIR);
+        fragments.push({
+          node: selection,
+          type: fragmentType,
+          selectionSet: sel.selectionSet,
+        });
       }
     }
   }
 
-  // If no inline fragments, return the common fields
-  if (inlineFragments.length === 0) {
-    if (result.spreadFragments.length > 0) {
-      const objectIR: SchemaIR & { _fragmentSpreads?: string[] } = {
-        kind: "object",
-        properties: result.properties,
-      };
-      (objectIR as { _fragmentSpreads?: string[] })._fragmentSpreads =
-        result.spreadFragments;
-      return objectIR;
+  return fragments;
+}
+
+/**
+ * Generate a discriminated union on `__typename` for a union or interface
+ * selection. Each possible type matched by an inline fragment becomes a
+ * member with the shared fields plus the fields of every fragment that
+ * applies to it. Possible types without a fragment share one member with
+ * only the shared fields.
+ */
+function generatePolymorphicIR(
+  type: GraphQLUnionType | GraphQLInterfaceType,
+  common: SelectionFieldResult,
+  inlineFragments: TypedInlineFragment[],
+  ctx: GraphQLIRContext,
+): SchemaIR {
+  const members: DiscriminatedUnionMemberIR[] = [];
+  const unmatched: string[] = [];
+
+  // Order members by the first fragment that applies to them
+  const possibleTypes = ctx.schema
+    .getPossibleTypes(type)
+    .map((possibleType) => ({
+      possibleType,
+      fragments: inlineFragments.filter(
+        (fragment) =>
+          fragment.type === possibleType ||
+          (!isObjectType(fragment.type) &&
+            ctx.schema.isSubType(fragment.type, possibleType)),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        inlineFragmentIndex(a.fragments, inlineFragments) -
+        inlineFragmentIndex(b.fragments, inlineFragments),
+    );
+
+  for (const { possibleType, fragments } of possibleTypes) {
+    if (fragments.length === 0) {
+      unmatched.push(possibleType.name);
+      continue;
     }
-    return { kind: "object", properties: result.properties };
+
+    const result: SelectionFieldResult = {
+      properties: { ...common.properties },
+      spreadFragments: [...common.spreadFragments],
+    };
+    for (const fragment of fragments) {
+      const fragmentResult = extractSelectionFields(
+        fragment.selectionSet,
+        fragment.type,
+        ctx,
+      );
+      Object.assign(result.properties, fragmentResult.properties);
+      result.spreadFragments.push(...fragmentResult.spreadFragments);
+    }
+    members.push(toTypenameMember([possibleType.name], result));
+  }
+
+  if (unmatched.length > 0) {
+    members.push(toTypenameMember(unmatched, common));
   }
 
-  // With inline fragments, create a union
-  if (inlineFragments.length === 1 && inlineFragments[0]) {
-    return inlineFragments[0];
+  // A single member needs no union
+  if (members.length === 1 && members[0]) {
+    const { values, schema } = members[0];
+    return tagObjectMember(schema as ObjectSchemaIR, "__typename", values);
   }
 
-  return { kind: "union", members: inlineFragments };
+  return { kind: "discriminatedUnion", discriminator: "__typename", members };
+}
+
+/**
+ * Get the position of the first of the given fragments in the selection
+ * (fragments that apply to no type sort last)
+ */
+function inlineFragmentIndex(
+  fragments: TypedInlineFragment[],
+  inlineFragments: TypedInlineFragment[],
+): number {
+  const first = fragments[0];
+  return first ? inlineFragments.indexOf(first) : inlineFragments.length;
+}
+
+/**
+ * Build a discriminated union member tagged with `__typename`
+ */
+function toTypenameMember(
+  typeNames: string[],
+  result: SelectionFieldResult,
+): DiscriminatedUnionMemberIR {
+  const schema: ObjectSchemaIR & { _fragmentSpreads?: string[] } = {
+    kind: "object",
+    properties: result.properties,
+  };
+  if (result.spreadFragments.length > 0) {
+    schema._fragmentSpreads = [...new Set(result.spreadFragments)];
+  }
+  return {
+    values: typeNames,
+    schema: tagObjectMember(schema, "__typename", typeNames),
+  };
 }
@@ -12,6 +12,7 @@ export { parseOpenAPIToIR } from "./openapi";
 // Type guards
 export {
   isArraySchema,
+  isDiscriminatedUnionSchema,
   isEnumSchema,
   isIntersectionSchema,
   isLiteralSchema,
@@ -27,9 +28,11 @@ export {
 export {
   createNamedSchema,
   extractDependencies,
+  getDiscriminatorValueSchema,
   ir,
   makeNullable,
   makeNullish,
+  tagObjectMember,
   topologicalSortSchemas,
 } from "./utils";
 
@@ -41,6 +44,8 @@ export type {
   BigIntSchemaIR,
   BooleanSchemaIR,
   DateSchemaIR,
+  DiscriminatedUnionMemberIR,
+  DiscriminatedUnionSchemaIR,
   EnumSchemaIR,
   IntersectionSchemaIR,
   LiteralSchemaIR,
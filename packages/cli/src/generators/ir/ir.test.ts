@@ -25,6 +25,7 @@ import {
 } from "@/utils/naming";
 import {
   isArraySchema,
+  isDiscriminatedUnionSchema,
   isEnumSchema,
   isIntersectionSchema,
   isLiteralSchema,
@@ -39,6 +40,7 @@ import {
 import {
   createNamedSchema,
   extractDependencies,
+  tagObjectMember,
   topologicalSortSchemas,
 } from "./utils";
 
@@ -184,6 +186,24 @@ describe("IR Type Guards", () => {
       expect(isIntersectionSchema({ kind: "string" })).toBe(false);
     });
   });
+
+  describe("isDiscriminatedUnionSchema", () => {
+    it("returns true for discriminated union schema", () => {
+      expect(
+        isDiscriminatedUnionSchema({
+          kind: "discriminatedUnion",
+          discriminator: "type",
+          members: [{ values: ["a"], schema: { kind: "ref", name: "A" } }],
+        }),
+      ).toBe(true);
+    });
+
+    it("returns false for plain union schema", () => {
+      expect(isDiscriminatedUnionSchema({ kind: "union", members: [] })).toBe(
+        false,
+      );
+    });
+  });
 });
 
 // ============================================================================
@@ -351,6 +371,31 @@ describe("IR Utilities", () => {
       expect(deps.has("Cat")).toBe(true);
     });
 
+    it("extracts dependencies from discriminated unions", () => {
+      const schema: SchemaIR = {
+        kind: "discriminatedUnion",
+        discriminator: "petType",
+        members: [
+          { values: ["dog"], schema: { kind: "ref", name: "Dog" } },
+          {
+            values: ["cat"],
+            schema: {
+              kind: "object",
+              properties: {
+                owner: {
+                  schema: { kind: "ref", name: "Owner" },
+                  required: true,
+                },
+              },
+            },
+          },
+        ],
+      };
+      const deps = extractDependencies(schema);
+      expect(deps.has("Dog")).toBe(true);
+      expect(deps.has("Owner")).toBe(true);
+    });
+
     it("returns empty set for primitive schemas", () => {
       expect(extractDependencies({ kind: "string" }).size).toBe(0);
       expect(extractDependencies({ kind: "number" }).size).toBe(0);
@@ -358,6 +403,41 @@ describe("IR Utilities", () => {
     });
   });
 
+  describe("tagObjectMember", () => {
+    it("puts the discriminator first as a literal for one value", () => {
+      const tagged = tagObjectMember(
+        {
+          kind: "object",
+          properties: {
+            name: { schema: { kind: "string" }, required: true },
+            type: { schema: { kind: "string" }, required: false },
+          },
+        },
+        "type",
+        ["cat"],
+      );
+
+      expect(Object.keys(tagged.properties)).toEqual(["type", "name"]);
+      expect(tagged.properties.type).toEqual({
+        schema: { kind: "literal", value: "cat" },
+        required: true,
+      });
+    });
+
+    it("uses an enum for several values", () => {
+      const tagged = tagObjectMember(
+        { kind: "object", properties: {} },
+        "type",
+        ["dog", "puppy"],
+      );
+
+      expect(tagged.properties.type?.schema).toEqual({
+        kind: "enum",
+        values: ["dog", "puppy"],
+      });
+    });
+  });
+
   describe("createNamedSchema", () => {
     it("creates a named schema with dependencies", () => {
       const schema: SchemaIR = {
@@ -446,5 +526,114 @@ describe("IR Utilities", () => {
       const sorted = topologicalSortSchemas(schemas);
       expect(sorted).toHaveLength(2);
     });
+
+    it("marks self-referencing schemas as recursive with lazy refs", () => {
+      const category = createNamedSchema("Category", {
+        kind: "object",
+        properties: {
+          children: {
+            schema: { kind: "array", items: { kind: "ref", name: "Category" } },
+            required: true,
+          },
+        },
+      });
+
+      const [sorted] = topologicalSortSchemas([category]);
+
+      expect(sorted?.recursive).toBe(true);
+      expect(sorted?.schema).toEqual({
+        kind: "object",
+        properties: {
+          children: {
+            schema: {
+              kind: "array",
+              items: { kind: "ref", name: "Category", lazy: true },
+            },
+            required: true,
+          },
+        },
+      });
+      // The input schema is left untouched
+      expect(category.schema).not.toBe(sorted?.schema);
+    });
+
+    it("only marks refs to cycle members declared later as lazy", () => {
+      const schemas = [
+        createNamedSchema("Company", {
+          kind: "object",
+          properties: {
+            employees: {
+              schema: { kind: "array", items: { kind: "ref", name: "Person" } },
+              required: true,
+            },
+          },
+        }),
+        createNamedSchema("Person", {
+          kind: "object",
+          properties: {
+            employer: {
+              schema: { kind: "ref", name: "Company" },
+              required: true,
+            },
+            address: {
+              schema: { kind: "ref", name: "Address" },
+              required: false,
+            },
+          },
+        }),
+        createNamedSchema("Address", { kind: "string" }),
+      ];
+
+      const sorted = topologicalSortSchemas(schemas);
+
+      expect(sorted.map((s) => [s.name, s.recursive])).toEqual([
+        ["Address", undefined],
+        ["Company", true],
+        ["Person", true],
+      ]);
+      expect(sorted[1]?.schema).toMatchObject({
+        properties: {
+          employees: {
+            schema: { items: { kind: "ref", name: "Person", lazy: true } },
+          },
+        },
+      });
+      expect(JSON.stringify(sorted[2]?.schema)).not.toContain("lazy");
+    });
+
+    it("declares discriminated union members before the union", () => {
+      const schemas = [
+        createNamedSchema("TreeNode", {
+          kind: "discriminatedUnion",
+          discriminator: "kind",
+          members: [
+            { values: ["branch"], schema: { kind: "ref", name: "TreeBranch" } },
+          ],
+        }),
+        createNamedSchema("TreeBranch", {
+          kind: "object",
+          properties: {
+            children: {
+              schema: {
+                kind: "array",
+                items: { kind: "ref", name: "TreeNode" },
+              },
+              required: true,
+            },
+          },
+        }),
+      ];
+
+      const sorted = topologicalSortSchemas(schemas);
+
+      expect(sorted.map((s) => s.name)).toEqual(["TreeBranch", "TreeNode"]);
+      expect(sorted[0]?.schema).toMatchObject({
+        properties: {
+          children: {
+            schema: { items: { kind: "ref", name: "TreeNode", lazy: true } },
+          },
+        },
+      });
+    });
   });
 });
@@ -5,13 +5,15 @@
  * that can be emitted to any validator library.
  */
 
-import { toPascalCase } from "@/utils/naming";
+import { toErrorTypeName, toPascalCase } from "@/utils/naming";
 import { createNamedSchema, topologicalSortSchemas } from "./utils";
 
 import type { OpenAPIV3, OpenAPIV3_1 } from "openapi-types";
 import type { ParsedOperation } from "@/adapters/openapi/schema";
 import type {
+  DiscriminatedUnionMemberIR,
   NamedSchemaIR,
+  NumberSchemaIR,
   ObjectPropertyIR,
   SchemaIR,
   SchemaIRResult,
@@ -19,8 +21,28 @@ import type {
 } from "./types";
 
 type SchemaObject = OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+type DiscriminatorObject =
+  | OpenAPIV3.DiscriminatorObject
+  | OpenAPIV3_1.DiscriminatorObject;
 type OpenAPIDocument = OpenAPIV3.Document | OpenAPIV3_1.Document;
 
+/**
+ * Direction a schema is used in. Input schemas (request bodies, params) leave
+ * out `readOnly` properties, output schemas (responses) leave out `writeOnly`
+ * properties.
+ */
+type SchemaDirection = "input" | "output";
+
+/**
+ * Named schema waiting to be generated
+ */
+interface PendingSchema {
+  /** Component name */
+  name: string;
+  schema: SchemaObject;
+  direction: SchemaDirection;
+}
+
 // ============================================================================
 // Options & Context
 // ============================================================================
@@ -41,8 +63,12 @@ interface OpenAPIIRContext {
   namedSchemas: Record<string, SchemaObject>;
   /** Track generated schema names to avoid duplicates */
   generatedSchemas: Set<string>;
-  /** Track schemas that need to be generated (dependencies) */
-  pendingSchemas: Map<string, SchemaObject>;
+  /** Track schemas that need to be generated (dependencies), by generated name */
+  pendingSchemas: Map<string, PendingSchema>;
+  /** Components with readOnly/writeOnly properties, directly or through references */
+  directionalSchemas: Set<string>;
+  /** Direction of the schema being generated */
+  direction: SchemaDirection;
   /** Generated named schemas */
   schemas: NamedSchemaIR[];
   /** Warnings during generation */
@@ -54,6 +80,8 @@ function createContext(): OpenAPIIRContext {
     namedSchemas: {},
     generatedSchemas: new Set(),
     pendingSchemas: new Map(),
+    directionalSchemas: new Set(),
+    direction: "output",
     schemas: [],
     warnings: [],
   };
@@ -85,6 +113,8 @@ export function parseOpenAPIToIR(
     }
   }
 
+  ctx.directionalSchemas = findDirectionalSchemas(ctx.namedSchemas);
+
   // Filter operations if operationIds specified
   let targetOperations = operations;
   if (options.operationIds) {
@@ -95,9 +125,15 @@ export function parseOpenAPIToIR(
   // Collect all schemas used by operations
   const usedSchemas = collectUsedSchemas(targetOperations, ctx);
 
-  // Generate IR for used component schemas (in dependency order)
+  // Generate IR for used component schemas (in dependency order). Schemas
+  // with input and output variants are generated when an operation references
+  // them, in the direction it uses them.
   for (const schemaName of usedSchemas) {
-    if (ctx.namedSchemas[schemaName] && !ctx.generatedSchemas.has(schemaName)) {
+    if (
+      ctx.namedSchemas[schemaName] &&
+      !ctx.directionalSchemas.has(schemaName) &&
+      !ctx.generatedSchemas.has(schemaName)
+    ) {
       generateSchemaIR(schemaName, ctx.namedSchemas[schemaName], ctx);
     }
   }
@@ -108,6 +144,9 @@ export function parseOpenAPIToIR(
   // Generate inline schemas for request/response types
   generateOperationSchemas(targetOperations, ctx);
 
+  // Generate the schema variants referenced by request/response types
+  processPendingSchemas(ctx);
+
   // Sort schemas topologically
   const sortedSchemas = topologicalSortSchemas(ctx.schemas);
 
@@ -141,8 +180,25 @@ function collectUsedSchemas(
       collectSchemaRefs(op.responseSchema, usedSchemas, ctx.namedSchemas);
     }
 
+    // Collect from event stream data
+    if (op.eventSchema) {
+      collectSchemaRefs(op.eventSchema, usedSchemas, ctx.namedSchemas);
+    }
+
+    // Collect from error responses
+    for (const errorResponse of op.errorResponses) {
+      if (errorResponse.schema) {
+        collectSchemaRefs(errorResponse.schema, usedSchemas, ctx.namedSchemas);
+      }
+    }
+
     // Collect from parameters
-    for (const param of [...op.pathParams, ...op.queryParams]) {
+    for (const param of [
+      ...op.pathParams,
+      ...op.queryParams,
+      ...op.headerParams,
+      ...op.cookieParams,
+    ]) {
       if (param.schema && !("$ref" in param.schema)) {
         collectSchemaRefs(param.schema, usedSchemas, ctx.namedSchemas);
       }
@@ -163,6 +219,8 @@ function collectSchemaRefs(
   // Check if this schema matches a named schema (for object types)
   for (const [name, namedSchema] of Object.entries(namedSchemas)) {
     if (schema === namedSchema) {
+      // Already collected, e.g. a recursive schema referencing itself
+      if (usedSchemas.has(name)) return;
       usedSchemas.add(name);
     }
   }
@@ -208,18 +266,23 @@ function collectSchemaRefs(
 // ============================================================================
 
 /**
- * Generate IR for a named schema
+ * Generate IR for a named schema. Input variants of schemas with
+ * readOnly/writeOnly properties are named `${name}Input`.
  */
 function generateSchemaIR(
   name: string,
   schema: SchemaObject,
   ctx: OpenAPIIRContext,
+  direction: SchemaDirection = "output",
 ): void {
-  if (ctx.generatedSchemas.has(name)) return;
-
-  ctx.generatedSchemas.add(name);
-  const ir = schemaToIR(schema, ctx, name);
-  ctx.schemas.push(createNamedSchema(name, ir, "component"));
+  const variantName = getVariantName(name, direction, ctx);
+  if (ctx.generatedSchemas.has(variantName)) return;
+
+  ctx.generatedSchemas.add(variantName);
+  const ir = withDirection(ctx, direction, () => schemaToIR(schema, ctx, name));
+  ctx.schemas.push(
+    createNamedSchema(variantName, withSchemaMetadata(ir, schema), "component"),
+  );
 }
 
 /**
@@ -230,12 +293,115 @@ function processPendingSchemas(ctx: OpenAPIIRContext): void {
     const entries = [...ctx.pendingSchemas.entries()];
     ctx.pendingSchemas.clear();
 
-    for (const [name, schema] of entries) {
-      if (!ctx.generatedSchemas.has(name)) {
-        generateSchemaIR(name, schema, ctx);
+    for (const [variantName, { name, schema, direction }] of entries) {
+      if (!ctx.generatedSchemas.has(variantName)) {
+        generateSchemaIR(name, schema, ctx, direction);
+      }
+    }
+  }
+}
+
+/**
+ * Run a conversion with the context set to the given schema direction
+ */
+function withDirection<T>(
+  ctx: OpenAPIIRContext,
+  direction: SchemaDirection,
+  convert: () => T,
+): T {
+  const previous = ctx.direction;
+  ctx.direction = direction;
+  try {
+    return convert();
+  } finally {
+    ctx.direction = previous;
+  }
+}
+
+/**
+ * Get the generated name of a component schema in a direction. Only
+ * components with readOnly/writeOnly properties have an input variant.
+ */
+function getVariantName(
+  name: string,
+  direction: SchemaDirection,
+  ctx: OpenAPIIRContext,
+): string {
+  if (direction === "output" || !ctx.directionalSchemas.has(name)) {
+    return name;
+  }
+  // Avoid clashing with a component that already uses the name
+  let variantName = `${name}Input`;
+  while (ctx.namedSchemas[variantName]) {
+    variantName = `${variantName}Input`;
+  }
+  return variantName;
+}
+
+/**
+ * Find the components whose input and output shapes differ: those with
+ * readOnly/writeOnly properties, and those referencing such components
+ */
+function findDirectionalSchemas(
+  namedSchemas: Record<string, SchemaObject>,
+): Set<string> {
+  const names = new Map<SchemaObject, string>();
+  for (const [name, schema] of Object.entries(namedSchemas)) {
+    names.set(schema, name);
+  }
+
+  const directional = new Set<string>();
+  const references = new Map<string, Set<string>>();
+
+  for (const [name, schema] of Object.entries(namedSchemas)) {
+    const refs = new Set<string>();
+    references.set(name, refs);
+
+    const visit = (s: SchemaObject, isRoot = false): void => {
+      const refName = names.get(s);
+      if (refName && !isRoot) {
+        refs.add(refName);
+        return;
+      }
+      for (const prop of Object.values(s.properties ?? {})) {
+        if ("$ref" in prop) continue;
+        if (prop.readOnly || prop.writeOnly) directional.add(name);
+        visit(prop);
+      }
+      if ("items" in s && s.items && !("$ref" in s.items)) {
+        visit(s.items);
+      }
+      if (
+        typeof s.additionalProperties === "object" &&
+        !("$ref" in s.additionalProperties)
+      ) {
+        visit(s.additionalProperties);
+      }
+      for (const sub of [
+        ...(s.allOf ?? []),
+        ...(s.oneOf ?? []),
+        ...(s.anyOf ?? []),
+      ]) {
+        if (!("$ref" in sub)) visit(sub);
+      }
+    };
+    visit(schema, true);
+  }
+
+  // Components referencing a directional component are directional too
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [name, refs] of references) {
+      if (directional.has(name)) continue;
+      if ([...refs].some((ref) => directional.has(ref))) {
+        directional.add(name);
+        changed = true;
       }
     }
   }
+
+  return directional;
 }
 
 /**
@@ -253,7 +419,12 @@ function generateOperationSchemas(
       const requestName = `${baseName}Request`;
       if (!ctx.generatedSchemas.has(requestName)) {
         ctx.generatedSchemas.add(requestName);
-        const ir = schemaToIR(op.requestBody, ctx, requestName);
+        const ir = withDirection(ctx, "input", () =>
+          withSchemaMetadata(
+            schemaToIR(op.requestBody!, ctx, requestName),
+            op.requestBody!,
+          ),
+        );
         ctx.schemas.push(createNamedSchema(requestName, ir, "input"));
       }
     }
@@ -263,18 +434,55 @@ function generateOperationSchemas(
       const responseName = `${baseName}Response`;
       if (!ctx.generatedSchemas.has(responseName)) {
         ctx.generatedSchemas.add(responseName);
-        const ir = schemaToIR(op.responseSchema, ctx, responseName);
+        const ir = withSchemaMetadata(
+          schemaToIR(op.responseSchema, ctx, responseName),
+          op.responseSchema,
+        );
         ctx.schemas.push(createNamedSchema(responseName, ir, "response"));
       }
     }
 
-    // Generate params schema if there are path/query params
-    const allParams = [...op.pathParams, ...op.queryParams];
+    // Generate event data schema for event stream responses
+    if (op.eventSchema) {
+      const eventName = `${baseName}Event`;
+      if (!ctx.generatedSchemas.has(eventName)) {
+        ctx.generatedSchemas.add(eventName);
+        const ir = withSchemaMetadata(
+          schemaToIR(op.eventSchema, ctx, eventName),
+          op.eventSchema,
+        );
+        ctx.schemas.push(createNamedSchema(eventName, ir, "response"));
+      }
+    }
+
+    // Generate error body schemas for declared error responses
+    for (const errorResponse of op.errorResponses) {
+      if (!errorResponse.schema) continue;
+      const errorName = toErrorTypeName(op.operationId, errorResponse.status);
+      if (!ctx.generatedSchemas.has(errorName)) {
+        ctx.generatedSchemas.add(errorName);
+        const ir = withSchemaMetadata(
+          schemaToIR(errorResponse.schema, ctx, errorName),
+          errorResponse.schema,
+        );
+        ctx.schemas.push(createNamedSchema(errorName, ir, "error"));
+      }
+    }
+
+    // Generate params schema if there are path/query/header/cookie params
+    const allParams = [
+      ...op.pathParams,
+      ...op.queryParams,
+      ...op.headerParams,
+      ...op.cookieParams,
+    ];
     if (allParams.length > 0) {
       const paramsName = `${baseName}Params`;
       if (!ctx.generatedSchemas.has(paramsName)) {
         ctx.generatedSchemas.add(paramsName);
-        const ir = generateParamsSchemaIR(allParams, ctx);
+        const ir = withDirection(ctx, "input", () =>
+          generateParamsSchemaIR(allParams, ctx),
+        );
         ctx.schemas.push(createNamedSchema(paramsName, ir, "params"));
       }
     }
@@ -292,11 +500,18 @@ function generateParamsSchemaIR(
 
   for (const param of params) {
     const paramSchema = param.schema as SchemaObject | undefined;
-    const ir = paramSchema ? schemaToIR(paramSchema, ctx) : { kind: "unknown" };
+    const schemaIR: SchemaIR = paramSchema
+      ? withDefault(schemaToIR(paramSchema, ctx), paramSchema)
+      : { kind: "unknown" };
+    // The parameter's own description and deprecation take precedence
+    const ir = withMetadata(
+      paramSchema ? withSchemaMetadata(schemaIR, paramSchema) : schemaIR,
+      param,
+    );
     const isRequired = param.required ?? false;
 
     properties[param.name] = {
-      schema: ir as SchemaIR,
+      schema: ir,
       required: isRequired,
     };
   }
@@ -324,15 +539,34 @@ export function schemaToIR(
   // Check if this schema is a named schema (reference)
   for (const [name, namedSchema] of Object.entries(ctx.namedSchemas)) {
     if (schema === namedSchema && name !== currentName) {
-      // Reference to a named schema
-      if (!ctx.generatedSchemas.has(name) && !ctx.pendingSchemas.has(name)) {
-        ctx.pendingSchemas.set(name, namedSchema);
+      // Reference to a named schema, in the direction it is used in
+      const { direction } = ctx;
+      const variantName = getVariantName(name, direction, ctx);
+      if (
+        !ctx.generatedSchemas.has(variantName) &&
+        !ctx.pendingSchemas.has(variantName)
+      ) {
+        ctx.pendingSchemas.set(variantName, {
+          name,
+          schema: namedSchema,
+          direction,
+        });
       }
-      ir = { kind: "ref", name };
+      ir = { kind: "ref", name: variantName };
       return nullable ? { kind: "union", members: [ir, { kind: "null" }] } : ir;
     }
   }
 
+  // Handle const (a single allowed value)
+  if ("const" in schema && schema.const !== undefined) {
+    const constIR = getConstIR(schema.const, ctx, currentName);
+    if (constIR) {
+      return nullable
+        ? { kind: "union", members: [constIR, { kind: "null" }] }
+        : constIR;
+    }
+  }
+
   // Handle enum
   if (schema.enum && schema.enum.length > 0) {
     const enumValues = schema.enum.filter(
@@ -360,9 +594,20 @@ export function schemaToIR(
 
   // Handle oneOf (union)
   if (schema.oneOf && schema.oneOf.length > 0) {
-    const members = schema.oneOf
-      .filter((s): s is SchemaObject => !("$ref" in s))
-      .map((s) => schemaToIR(s, ctx));
+    const variants = schema.oneOf.filter(
+      (s): s is SchemaObject => !("$ref" in s),
+    );
+
+    const discriminated =
+      schema.discriminator &&
+      getDiscriminatedUnionIR(variants, schema.discriminator, ctx, currentName);
+    if (discriminated) {
+      return nullable
+        ? { kind: "union", members: [discriminated, { kind: "null" }] }
+        : discriminated;
+    }
+
+    const members = variants.map((s) => schemaToIR(s, ctx));
 
     if (members.length === 1 && members[0]) {
       ir = members[0];
@@ -376,9 +621,20 @@ export function schemaToIR(
 
   // Handle anyOf (union)
   if (schema.anyOf && schema.anyOf.length > 0) {
-    const members = schema.anyOf
-      .filter((s): s is SchemaObject => !("$ref" in s))
-      .map((s) => schemaToIR(s, ctx));
+    const variants = schema.anyOf.filter(
+      (s): s is SchemaObject => !("$ref" in s),
+    );
+
+    const discriminated =
+      schema.discriminator &&
+      getDiscriminatedUnionIR(variants, schema.discriminator, ctx, currentName);
+    if (discriminated) {
+      return nullable
+        ? { kind: "union", members: [discriminated, { kind: "null" }] }
+        : discriminated;
+    }
+
+    const members = variants.map((s) => schemaToIR(s, ctx));
 
     if (members.length === 1 && members[0]) {
       ir = members[0];
@@ -398,7 +654,7 @@ export function schemaToIR(
 
     case "number":
     case "integer":
-      ir = { kind: "number", integer: schema.type === "integer" };
+      ir = getNumberIR(schema);
       break;
 
     case "boolean":
@@ -406,12 +662,16 @@ export function schemaToIR(
       break;
 
     case "array":
-      if (schema.items && !("$ref" in schema.items)) {
-        const itemIR = schemaToIR(schema.items, ctx);
-        ir = { kind: "array", items: itemIR };
-      } else {
-        ir = { kind: "array", items: { kind: "unknown" } };
-      }
+      ir = {
+        kind: "array",
+        items:
+          schema.items && !("$ref" in schema.items)
+            ? schemaToIR(schema.items, ctx)
+            : { kind: "unknown" },
+        minItems: schema.minItems,
+        maxItems: schema.maxItems,
+        uniqueItems: schema.uniqueItems || undefined,
+      };
       break;
 
     case "object":
@@ -432,10 +692,105 @@ export function schemaToIR(
   return nullable ? { kind: "union", members: [ir, { kind: "null" }] } : ir;
 }
 
+/**
+ * Get IR for a oneOf/anyOf with a discriminator.
+ * Each variant must be a plain object schema so emitters can tag it with a
+ * literal discriminator. Named variants take their values from `mapping`,
+ * falling back to the schema name; inline variants need an `enum` or `const`
+ * on the discriminator property. Returns undefined (with a warning) when a
+ * variant can't be tagged, so the caller falls back to a plain union.
+ */
+function getDiscriminatedUnionIR(
+  variants: SchemaObject[],
+  discriminator: DiscriminatorObject,
+  ctx: OpenAPIIRContext,
+  currentName?: string,
+): SchemaIR | undefined {
+  const { propertyName, mapping = {} } = discriminator;
+  const members: DiscriminatedUnionMemberIR[] = [];
+
+  for (const variant of variants) {
+    const name = Object.entries(ctx.namedSchemas).find(
+      ([, namedSchema]) => namedSchema === variant,
+    )?.[0];
+    const values = name
+      ? getMappedValues(name, mapping)
+      : getDeclaredValues(variant.properties?.[propertyName]);
+
+    if (!isPlainObjectSchema(variant) || values.length === 0) {
+      ctx.warnings.push(
+        `Discriminator "${propertyName}"${currentName ? ` on "${currentName}"` : ""} was ignored because a variant is not a plain object schema with a known "${propertyName}" value. Generated a plain union instead.`,
+      );
+      return undefined;
+    }
+
+    const memberIR = schemaToIR(variant, ctx);
+    if (memberIR.kind !== "ref" && memberIR.kind !== "object") {
+      return undefined;
+    }
+    members.push({ values, schema: memberIR });
+  }
+
+  return { kind: "discriminatedUnion", discriminator: propertyName, members };
+}
+
+/**
+ * Get the discriminator values that map to a named schema, defaulting to
+ * the schema name when the mapping doesn't mention it
+ */
+function getMappedValues(
+  name: string,
+  mapping: Record<string, string>,
+): string[] {
+  const values = Object.entries(mapping)
+    .filter(([, target]) => target.split("/").pop() === name)
+    .map(([value]) => value);
+  return values.length > 0 ? values : [name];
+}
+
+/**
+ * Get the values declared on an inline variant's discriminator property
+ */
+function getDeclaredValues(
+  property: SchemaObject | OpenAPIV3.ReferenceObject | undefined,
+): string[] {
+  if (!property || "$ref" in property) return [];
+  if ("const" in property && typeof property.const === "string") {
+    return [property.const];
+  }
+  return (property.enum ?? []).filter(
+    (value): value is string => typeof value === "string",
+  );
+}
+
+/**
+ * Check if a schema is an object without composition, a typed catchall, or
+ * property count constraints (refinements that Zod can't extend, and Valibot
+ * and Effect pipes without entries or fields), which every validator can
+ * re-declare with a literal discriminator
+ */
+function isPlainObjectSchema(schema: SchemaObject): boolean {
+  return (
+    (schema.type === "object" || schema.properties !== undefined) &&
+    !schema.allOf &&
+    !schema.oneOf &&
+    !schema.anyOf &&
+    typeof schema.additionalProperties !== "object" &&
+    schema.minProperties === undefined &&
+    schema.maxProperties === undefined &&
+    !("nullable" in schema && schema.nullable === true)
+  );
+}
+
 /**
  * Get IR for string schema with format support
  */
 function getStringIR(schema: SchemaObject): SchemaIR {
+  // Binary strings are file uploads (e.g. multipart/form-data fields)
+  if (schema.format === "binary") {
+    return { kind: "file" };
+  }
+
   const formatMap: Record<string, StringFormat> = {
     "date-time": "datetime",
     date: "date",
@@ -446,11 +801,85 @@ function getStringIR(schema: SchemaObject): SchemaIR {
     uuid: "uuid",
     ipv4: "ipv4",
     ipv6: "ipv6",
+    byte: "byte",
+    "uri-reference": "uri-reference",
+    hostname: "hostname",
+    duration: "duration",
   };
 
   const format = schema.format ? formatMap[schema.format] : undefined;
 
-  return { kind: "string", format };
+  return {
+    kind: "string",
+    format,
+    minLength: schema.minLength,
+    maxLength: schema.maxLength,
+    pattern: schema.pattern,
+  };
+}
+
+/**
+ * Get IR for number/integer schema with range and format support.
+ * OpenAPI 3.0 marks `minimum`/`maximum` exclusive with a boolean, while 3.1
+ * (JSON Schema) gives the exclusive bound as a number.
+ */
+function getNumberIR(schema: SchemaObject): SchemaIR {
+  const ir: NumberSchemaIR = {
+    kind: "number",
+    integer: schema.type === "integer",
+    multipleOf: schema.multipleOf,
+  };
+
+  if (schema.format === "int32" || schema.format === "int64") {
+    ir.integer = true;
+    ir.format = schema.format;
+  }
+
+  if (schema.exclusiveMinimum === true) {
+    ir.exclusiveMin = schema.minimum;
+  } else {
+    ir.min = schema.minimum;
+    if (typeof schema.exclusiveMinimum === "number") {
+      ir.exclusiveMin = schema.exclusiveMinimum;
+    }
+  }
+
+  if (schema.exclusiveMaximum === true) {
+    ir.exclusiveMax = schema.maximum;
+  } else {
+    ir.max = schema.maximum;
+    if (typeof schema.exclusiveMaximum === "number") {
+      ir.exclusiveMax = schema.exclusiveMaximum;
+    }
+  }
+
+  return ir;
+}
+
+/**
+ * Get IR for a `const` schema. Object and array constants have no literal
+ * form in the IR, so they fall back to the schema's type with a warning.
+ */
+function getConstIR(
+  value: unknown,
+  ctx: OpenAPIIRContext,
+  currentName?: string,
+): SchemaIR | undefined {
+  if (value === null) {
+    return { kind: "null" };
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return { kind: "literal", value };
+  }
+
+  ctx.warnings.push(
+    `Non-primitive const${currentName ? ` on "${currentName}"` : ""} is not supported. Generated a schema for its type instead.`,
+  );
+  return undefined;
 }
 
 /**
@@ -470,8 +899,14 @@ function getObjectIR(schema: SchemaObject, ctx: OpenAPIIRContext): SchemaIR {
   if (schema.properties) {
     for (const [propName, propSchema] of Object.entries(schema.properties)) {
       if ("$ref" in propSchema) continue;
-
-      const propIR = schemaToIR(propSchema, ctx);
+      // Server-owned fields aren't sent, and write-only fields aren't returned
+      if (ctx.direction === "input" && propSchema.readOnly) continue;
+      if (ctx.direction === "output" && propSchema.writeOnly) continue;
+
+      const propIR = withDefault(
+        withSchemaMetadata(schemaToIR(propSchema, ctx), propSchema),
+        propSchema,
+      );
       const isRequired = required.has(propName);
 
       properties[propName] = {
@@ -493,7 +928,52 @@ function getObjectIR(schema: SchemaObject, ctx: OpenAPIIRContext): SchemaIR {
     additionalProperties = schemaToIR(schema.additionalProperties, ctx);
   }
 
-  return { kind: "object", properties, additionalProperties };
+  return {
+    kind: "object",
+    properties,
+    additionalProperties,
+    minProperties: schema.minProperties,
+    maxProperties: schema.maxProperties,
+  };
+}
+
+/**
+ * Attach a property's `default` to its IR. Emitters apply defaults where a
+ * value can be omitted, so this is only used for properties and params.
+ * A property referencing a component also picks up the component's default.
+ */
+function withDefault(ir: SchemaIR, schema: SchemaObject): SchemaIR {
+  if (schema.default === undefined || ir.kind === "file") {
+    return ir;
+  }
+  return { ...ir, default: schema.default };
+}
+
+/**
+ * Attach a schema's `description` and `deprecated` flag to its IR. Emitters
+ * document named schemas and object properties with them. References are
+ * documented by the schema they point to, and are left as they are.
+ */
+function withSchemaMetadata(ir: SchemaIR, schema: SchemaObject): SchemaIR {
+  return ir.kind === "ref" ? ir : withMetadata(ir, schema);
+}
+
+/**
+ * Attach a `description` and `deprecated` flag to an IR
+ */
+function withMetadata(
+  ir: SchemaIR,
+  source: { description?: string; deprecated?: boolean },
+): SchemaIR {
+  const description = source.description?.trim();
+  if (!description && !source.deprecated) {
+    return ir;
+  }
+  return {
+    ...ir,
+    ...(description && { description }),
+    ...(source.deprecated && { deprecated: true }),
+  };
 }
 
 /**
@@ -517,6 +997,8 @@ function getRecordIR(schema: SchemaObject, ctx: OpenAPIIRContext): SchemaIR {
       kind: "record",
       keyType: { kind: "string" },
       valueType: valueIR,
+      minProperties: schema.minProperties,
+      maxProperties: schema.maxProperties,
     };
   }
 
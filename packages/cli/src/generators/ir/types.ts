@@ -19,6 +19,7 @@ export type SchemaIRKind =
   | "unknown"
   | "never"
   | "date"
+  | "file"
   | "object"
   | "array"
   | "tuple"
@@ -26,6 +27,7 @@ export type SchemaIRKind =
   | "enum"
   | "literal"
   | "union"
+  | "discriminatedUnion"
   | "intersection"
   | "ref"
   | "raw";
@@ -33,6 +35,10 @@ export type SchemaIRKind =
 export interface SchemaIRBase {
   kind: SchemaIRKind;
   description?: string;
+  /** true, or the deprecation reason */
+  deprecated?: boolean | string;
+  /** Default value (JSON) used when the object property is omitted */
+  default?: unknown;
 }
 
 // ============================================================================
@@ -47,7 +53,11 @@ export type StringFormat =
   | "date"
   | "time"
   | "ipv4"
-  | "ipv6";
+  | "ipv6"
+  | "byte"
+  | "uri-reference"
+  | "hostname"
+  | "duration";
 
 export interface StringSchemaIR extends SchemaIRBase {
   kind: "string";
@@ -60,8 +70,13 @@ export interface StringSchemaIR extends SchemaIRBase {
 export interface NumberSchemaIR extends SchemaIRBase {
   kind: "number";
   integer?: boolean;
+  /** Integer width: int32 is range-checked, int64 must be a safe integer */
+  format?: "int32" | "int64";
   min?: number;
   max?: number;
+  exclusiveMin?: number;
+  exclusiveMax?: number;
+  multipleOf?: number;
 }
 
 export interface BooleanSchemaIR extends SchemaIRBase {
@@ -92,6 +107,13 @@ export interface DateSchemaIR extends SchemaIRBase {
   kind: "date";
 }
 
+/**
+ * Binary file content (OpenAPI `format: binary`), typed as `File | Blob`
+ */
+export interface FileSchemaIR extends SchemaIRBase {
+  kind: "file";
+}
+
 // ============================================================================
 // Complex Types
 // ============================================================================
@@ -107,11 +129,16 @@ export interface ObjectSchemaIR extends SchemaIRBase {
   properties: Record<string, ObjectPropertyIR>;
   /** Additional properties: true = passthrough, false = strict, SchemaIR = typed catchall */
   additionalProperties?: boolean | SchemaIR;
+  minProperties?: number;
+  maxProperties?: number;
 }
 
 export interface ArraySchemaIR extends SchemaIRBase {
   kind: "array";
   items: SchemaIR;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
 }
 
 export interface TupleSchemaIR extends SchemaIRBase {
@@ -123,6 +150,8 @@ export interface RecordSchemaIR extends SchemaIRBase {
   kind: "record";
   keyType: SchemaIR; // Usually string
   valueType: SchemaIR;
+  minProperties?: number;
+  maxProperties?: number;
 }
 
 // ============================================================================
@@ -144,6 +173,28 @@ export interface UnionSchemaIR extends SchemaIRBase {
   members: SchemaIR[];
 }
 
+/**
+ * Member of a discriminated union and the discriminator values that select it
+ */
+export interface DiscriminatedUnionMemberIR {
+  /** Discriminator values identifying this member (e.g., ["cat"]) */
+  values: string[];
+  /** Object schema, or reference to a named object schema */
+  schema: ObjectSchemaIR | RefSchemaIR;
+}
+
+/**
+ * Union of objects told apart by a property (OpenAPI `discriminator`,
+ * GraphQL `__typename`). Emitters tag each member with a literal
+ * discriminator so validators can pick the member directly.
+ */
+export interface DiscriminatedUnionSchemaIR extends SchemaIRBase {
+  kind: "discriminatedUnion";
+  /** Property that identifies the member */
+  discriminator: string;
+  members: DiscriminatedUnionMemberIR[];
+}
+
 export interface IntersectionSchemaIR extends SchemaIRBase {
   kind: "intersection";
   members: SchemaIR[];
@@ -156,6 +207,8 @@ export interface IntersectionSchemaIR extends SchemaIRBase {
 export interface RefSchemaIR extends SchemaIRBase {
   kind: "ref";
   name: string; // References another named schema
+  /** Set when the referenced schema is declared later in a cycle */
+  lazy?: boolean;
 }
 
 // ============================================================================
@@ -182,6 +235,7 @@ export type SchemaIR =
   | UnknownSchemaIR
   | NeverSchemaIR
   | DateSchemaIR
+  | FileSchemaIR
   | ObjectSchemaIR
   | ArraySchemaIR
   | TupleSchemaIR
@@ -189,6 +243,7 @@ export type SchemaIR =
   | EnumSchemaIR
   | LiteralSchemaIR
   | UnionSchemaIR
+  | DiscriminatedUnionSchemaIR
   | IntersectionSchemaIR
   | RefSchemaIR
   | RawSchemaIR;
@@ -223,6 +278,7 @@ export type SchemaCategory =
   | "enum"
   | "input"
   | "response"
+  | "error"
   | "params"
   | "fragment"
   | "component"
@@ -240,6 +296,8 @@ export interface NamedSchemaIR {
   dependencies: Set<string>;
   /** Category for organization */
   category?: SchemaCategory;
+  /** Set when the schema is part of a reference cycle */
+  recursive?: boolean;
 }
 
 // ============================================================================
@@ -284,6 +342,12 @@ export function isUnionSchema(schema: SchemaIR): schema is UnionSchemaIR {
   return schema.kind === "union";
 }
 
+export function isDiscriminatedUnionSchema(
+  schema: SchemaIR,
+): schema is DiscriminatedUnionSchemaIR {
+  return schema.kind === "discriminatedUnion";
+}
+
 export function isRefSchema(schema: SchemaIR): schema is RefSchemaIR {
   return schema.kind === "ref";
 }
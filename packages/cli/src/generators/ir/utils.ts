@@ -5,7 +5,12 @@
  * Naming utilities have been consolidated into @/utils/naming.
  */
 
-import type { NamedSchemaIR, SchemaIR } from "./types";
+import type {
+  DiscriminatedUnionMemberIR,
+  NamedSchemaIR,
+  ObjectSchemaIR,
+  SchemaIR,
+} from "./types";
 
 // ============================================================================
 // Dependency Extraction
@@ -57,6 +62,12 @@ export function extractDependencies(schema: SchemaIR): Set<string> {
         }
         break;
 
+      case "discriminatedUnion":
+        for (const member of s.members) {
+          visit(member.schema);
+        }
+        break;
+
       // Primitives and other types don't have dependencies
       default:
         break;
@@ -72,51 +83,215 @@ export function extractDependencies(schema: SchemaIR): Set<string> {
 // ============================================================================
 
 /**
- * Topologically sort schema entries so dependencies come before dependents
+ * Topologically sort schema entries so dependencies come before dependents.
+ *
+ * Schemas in a reference cycle (e.g., `Category.children: Category[]`) are
+ * kept next to each other and marked `recursive`. References that point to a
+ * cycle member declared later (including the schema itself) are marked
+ * `lazy`, so emitters can defer them with `z.lazy`, `v.lazy`, etc.
  */
 export function topologicalSortSchemas(
   schemas: NamedSchemaIR[],
 ): NamedSchemaIR[] {
-  const result: NamedSchemaIR[] = [];
-  const visited = new Set<string>();
-  const visiting = new Set<string>(); // For cycle detection
-
   // Create a map for quick lookup
   const schemaMap = new Map<string, NamedSchemaIR>();
   for (const schema of schemas) {
     schemaMap.set(schema.name, schema);
   }
 
-  function visit(name: string): void {
-    if (visited.has(name)) return;
-    if (visiting.has(name)) {
-      // Cycle detected - just return, the schema will be emitted where it is
-      return;
+  const result: NamedSchemaIR[] = [];
+  const declared = new Set<string>();
+
+  for (const cycle of findStronglyConnectedSchemas(schemas, schemaMap)) {
+    // Self-references are left out of `dependencies`, so check the schema
+    const [first] = cycle;
+    const recursive =
+      cycle.length > 1 ||
+      (!!first && extractDependencies(first.schema).has(first.name));
+
+    for (const entry of recursive ? orderCycle(cycle) : cycle) {
+      if (!recursive) {
+        declared.add(entry.name);
+        result.push(entry);
+        continue;
+      }
+      // The schema itself is not declared while its definition runs
+      const schema = markLazyRefs(entry.schema, (name) => {
+        return schemaMap.has(name) && !declared.has(name);
+      });
+      declared.add(entry.name);
+      result.push({ ...entry, schema, recursive: true });
     }
+  }
 
-    const schema = schemaMap.get(name);
-    if (!schema) return;
+  return result;
+}
 
-    visiting.add(name);
+/**
+ * Group schemas into strongly connected components (Tarjan's algorithm).
+ * Components come out with their dependencies first, and schemas without
+ * cycles keep the order of a depth-first walk from the input order.
+ */
+function findStronglyConnectedSchemas(
+  schemas: NamedSchemaIR[],
+  schemaMap: Map<string, NamedSchemaIR>,
+): NamedSchemaIR[][] {
+  const components: NamedSchemaIR[][] = [];
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: NamedSchemaIR[] = [];
+  const onStack = new Set<string>();
+
+  function visit(schema: NamedSchemaIR): void {
+    const index = indexes.size;
+    indexes.set(schema.name, index);
+    lowLinks.set(schema.name, index);
+    stack.push(schema);
+    onStack.add(schema.name);
 
     // Visit dependencies first
     for (const dep of schema.dependencies) {
-      if (schemaMap.has(dep)) {
-        visit(dep);
+      const depSchema = schemaMap.get(dep);
+      if (!depSchema) continue;
+
+      if (!indexes.has(dep)) {
+        visit(depSchema);
+        lowLinks.set(
+          schema.name,
+          Math.min(lowLinks.get(schema.name)!, lowLinks.get(dep)!),
+        );
+      } else if (onStack.has(dep)) {
+        lowLinks.set(
+          schema.name,
+          Math.min(lowLinks.get(schema.name)!, indexes.get(dep)!),
+        );
       }
     }
 
-    visiting.delete(name);
-    visited.add(name);
-    result.push(schema);
+    if (lowLinks.get(schema.name) === index) {
+      const component = stack.splice(stack.indexOf(schema));
+      for (const member of component) {
+        onStack.delete(member.name);
+      }
+      components.push(component);
+    }
   }
 
   // Visit all entries
   for (const schema of schemas) {
-    visit(schema.name);
+    if (!indexes.has(schema.name)) {
+      visit(schema);
+    }
   }
 
-  return result;
+  return components;
+}
+
+/**
+ * Order the schemas of a cycle. Schemas used directly by another member's
+ * definition (e.g., as a discriminated union member, which emitters extend)
+ * come first, so only references nested in properties or items are lazy.
+ */
+function orderCycle(cycle: NamedSchemaIR[]): NamedSchemaIR[] {
+  const members = new Map(cycle.map((entry) => [entry.name, entry]));
+  const ordered: NamedSchemaIR[] = [];
+  const visited = new Set<string>();
+
+  function visit(entry: NamedSchemaIR): void {
+    if (visited.has(entry.name)) return;
+    visited.add(entry.name);
+
+    for (const dep of extractDirectDependencies(entry.schema)) {
+      const depEntry = members.get(dep);
+      if (depEntry) visit(depEntry);
+    }
+    ordered.push(entry);
+  }
+
+  for (const entry of cycle) {
+    visit(entry);
+  }
+  return ordered;
+}
+
+/**
+ * Extract the references a schema is built from directly, i.e. not nested
+ * in object properties, array items, tuples, or records
+ */
+function extractDirectDependencies(schema: SchemaIR): string[] {
+  switch (schema.kind) {
+    case "ref":
+      return [schema.name];
+    case "union":
+    case "intersection":
+      return schema.members.flatMap(extractDirectDependencies);
+    case "discriminatedUnion":
+      return schema.members.flatMap((member) =>
+        extractDirectDependencies(member.schema),
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Copy a schema, marking the references that match `isLazy`
+ */
+function markLazyRefs(
+  schema: SchemaIR,
+  isLazy: (name: string) => boolean,
+): SchemaIR {
+  const mark = (s: SchemaIR): SchemaIR => markLazyRefs(s, isLazy);
+
+  switch (schema.kind) {
+    case "ref":
+      return isLazy(schema.name) ? { ...schema, lazy: true } : schema;
+
+    case "object": {
+      const marked: ObjectSchemaIR = {
+        ...schema,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([name, prop]) => [
+            name,
+            { ...prop, schema: mark(prop.schema) },
+          ]),
+        ),
+      };
+      if (typeof schema.additionalProperties === "object") {
+        marked.additionalProperties = mark(schema.additionalProperties);
+      }
+      return marked;
+    }
+
+    case "array":
+      return { ...schema, items: mark(schema.items) };
+
+    case "tuple":
+      return { ...schema, items: schema.items.map(mark) };
+
+    case "record":
+      return {
+        ...schema,
+        keyType: mark(schema.keyType),
+        valueType: mark(schema.valueType),
+      };
+
+    case "union":
+    case "intersection":
+      return { ...schema, members: schema.members.map(mark) };
+
+    case "discriminatedUnion":
+      return {
+        ...schema,
+        members: schema.members.map((member) => ({
+          ...member,
+          schema: mark(member.schema) as typeof member.schema,
+        })),
+      };
+
+    default:
+      return schema;
+  }
 }
 
 // ============================================================================
@@ -146,6 +321,8 @@ export const ir = {
 
   date: () => ({ kind: "date" }) as const,
 
+  file: () => ({ kind: "file" }) as const,
+
   object: (
     properties: Record<string, { schema: SchemaIR; required: boolean }>,
     additionalProperties?: boolean | SchemaIR,
@@ -170,6 +347,11 @@ export const ir = {
 
   union: (members: SchemaIR[]) => ({ kind: "union", members }) as const,
 
+  discriminatedUnion: (
+    discriminator: string,
+    members: DiscriminatedUnionMemberIR[],
+  ) => ({ kind: "discriminatedUnion", discriminator, members }) as const,
+
   intersection: (members: SchemaIR[]) =>
     ({ kind: "intersection", members }) as const,
 
@@ -222,3 +404,34 @@ export function makeNullish(schema: SchemaIR): SchemaIR {
     members: [schema, { kind: "null" }, { kind: "undefined" }],
   };
 }
+
+/**
+ * Get the schema for a discriminated union member's discriminator values
+ */
+export function getDiscriminatorValueSchema(values: string[]): SchemaIR {
+  return values.length === 1 && values[0] !== undefined
+    ? { kind: "literal", value: values[0] }
+    : { kind: "enum", values };
+}
+
+/**
+ * Tag an object member of a discriminated union by replacing its
+ * discriminator property with the member's literal values
+ */
+export function tagObjectMember(
+  schema: ObjectSchemaIR,
+  discriminator: string,
+  values: string[],
+): ObjectSchemaIR {
+  const { [discriminator]: _, ...properties } = schema.properties;
+  return {
+    ...schema,
+    properties: {
+      [discriminator]: {
+        schema: getDiscriminatorValueSchema(values),
+        required: true,
+      },
+      ...properties,
+    },
+  };
+}
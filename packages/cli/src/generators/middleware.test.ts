@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  generateClientConfig,
+  getClientConfigTarget,
+  middlewareCode,
+} from "./middleware";
+
+describe("middlewareCode", () => {
+  it("exports the middleware types and pipeline", () => {
+    expect(middlewareCode).toContain("export interface MiddlewareContext {");
+    expect(middlewareCode).toContain("export interface Middleware {");
+    expect(middlewareCode).toContain(
+      "export function createMiddlewareFetch(middleware: Middleware[]): MiddlewareFetch {",
+    );
+  });
+
+  it("sends a copy of each request, so replays can read its body", () => {
+    expect(middlewareCode).toContain(
+      "response = await fetch(context.request.clone())",
+    );
+  });
+
+  it("skips the remaining middleware for replayed responses", () => {
+    expect(middlewareCode).toContain(
+      "if (replayed.has(response)) return response",
+    );
+  });
+
+  it("exports the built-in middleware", () => {
+    expect(middlewareCode).toContain(
+      "export const builtinMiddleware = { retry, refreshToken, requestId, logger }",
+    );
+    expect(middlewareCode).toContain("export interface RetryOptions {");
+    expect(middlewareCode).toContain("export interface RefreshTokenOptions {");
+    expect(middlewareCode).toContain("export interface RequestIdOptions {");
+    expect(middlewareCode).toContain("export interface LoggerOptions {");
+  });
+
+  it("retries only idempotent methods by default", () => {
+    expect(middlewareCode).toContain(
+      'methods = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],',
+    );
+  });
+
+  it("shares a single refresh between concurrent requests", () => {
+    expect(middlewareCode).toContain("refreshing ??= refresh().finally(");
+  });
+});
+
+describe("generateClientConfig", () => {
+  it("generates the user-owned client config", () => {
+    const result = generateClientConfig({});
+
+    expect(result.filename).toBe("client.config.ts");
+    expect(result.content).toContain(
+      "Generated once by tangrams. Customize as needed",
+    );
+    expect(result.content).toContain(
+      'import type { ClientConfig } from "./client"',
+    );
+    expect(result.content).toContain(
+      "export const clientConfig: ClientConfig = {",
+    );
+    expect(result.content).toContain("headers: async () => ({");
+    expect(result.content).toContain("middleware: () => [],");
+  });
+
+  it("adds connection params for subscriptions", () => {
+    const result = generateClientConfig({ connectionParams: true });
+
+    expect(result.content).toContain("connectionParams: async () => ({");
+  });
+
+  it("leaves out connection params by default", () => {
+    const result = generateClientConfig({});
+
+    expect(result.content).not.toContain("connectionParams");
+  });
+
+  it("replaces the middleware with an existing client", () => {
+    const result = generateClientConfig({ client: "urql" });
+
+    expect(result.content).toContain("client: () => {");
+    expect(result.content).toContain(
+      'throw new Error("Return your urql client from client.config.ts")',
+    );
+    expect(result.content).not.toContain("middleware: () => [],");
+  });
+
+  it("records the target it was generated for in the header", () => {
+    const result = generateClientConfig({ target: 'transport "urql"' });
+
+    expect(result.content).toContain(
+      '/* Client Config - Generated once by tangrams for transport "urql". Customize as needed',
+    );
+  });
+});
+
+describe("getClientConfigTarget", () => {
+  it("reads the target from the header", () => {
+    const { content } = generateClientConfig({ target: 'httpClient "axios"' });
+
+    expect(getClientConfigTarget(content)).toBe('httpClient "axios"');
+  });
+
+  it("returns undefined for configs without a target", () => {
+    const { content } = generateClientConfig({});
+
+    expect(getClientConfigTarget(content)).toBeUndefined();
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Client middleware
+ * The middleware pipeline and built-in middleware of both client templates,
+ * and the user-owned client.config.ts that sets them up. client.ts is
+ * regenerated on every run, so customizations live in client.config.ts.
+ */
+
+import type { GeneratedFile } from "@/adapters/types";
+
+/**
+ * Name of the user-owned file customizing the client
+ */
+export const CLIENT_CONFIG_FILENAME = "client.config.ts";
+
+/**
+ * Marker of client.ts files from earlier versions, which were generated
+ * once and customized in place
+ */
+export const LEGACY_CLIENT_MARKER = "Generated once by tangrams";
+
+/**
+ * Middleware types, pipeline, and built-in middleware of client.ts
+ */
+export const middlewareCode = `
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * A request passing through the middleware pipeline
+ */
+export interface MiddlewareContext {
+	/** Request to send, as returned by the onRequest middleware so far */
+	request: Request
+	/** Request the client sent, the same across attempts */
+	original: Request
+	/** Attempt number of the request, starting at 0 */
+	attempt: number
+	/**
+	 * Send the request again through the whole pipeline, as the next attempt.
+	 * Pass a request to send it instead (e.g., with a refreshed token).
+	 */
+	replay: (request?: Request) => Promise<Response>
+}
+
+/**
+ * Middleware run around every request. Each hook may return a replacement
+ * request or response; returning nothing keeps the current one.
+ */
+export interface Middleware {
+	/** Runs before the request is sent (e.g., to add headers) */
+	onRequest?: (context: MiddlewareContext) => MaybePromise<Request | void>
+	/** Runs after a response is received, including error statuses */
+	onResponse?: (
+		response: Response,
+		context: MiddlewareContext,
+	) => MaybePromise<Response | void>
+	/**
+	 * Runs when the request fails without a response (e.g., network errors).
+	 * Returning a response recovers from the error.
+	 */
+	onError?: (
+		error: unknown,
+		context: MiddlewareContext,
+	) => MaybePromise<Response | void>
+}
+
+/**
+ * A fetch function running requests through middleware
+ */
+export type MiddlewareFetch = (
+	input: RequestInfo | URL,
+	init?: RequestInit,
+) => Promise<Response>
+
+/**
+ * Helper to create a fetch function running requests through middleware, in
+ * order. Responses of replayed requests have already passed through the
+ * whole pipeline, so the remaining middleware is skipped for them.
+ * @param middleware - Middleware to run
+ * @returns fetch function for the client
+ */
+export function createMiddlewareFetch(middleware: Middleware[]): MiddlewareFetch {
+	const replayed = new WeakSet<Response>()
+	const send = async (
+		request: Request,
+		original: Request,
+		attempt: number,
+	): Promise<Response> => {
+		const context: MiddlewareContext = {
+			request,
+			original,
+			attempt,
+			replay: async (next = context.request) => {
+				const response = await send(next, original, attempt + 1)
+				replayed.add(response)
+				return response
+			},
+		}
+		for (const { onRequest } of middleware) {
+			context.request = (await onRequest?.(context)) ?? context.request
+		}
+
+		let response: Response | void = undefined
+		try {
+			// Send a copy, so the request's body can be read again on replay
+			response = await fetch(context.request.clone())
+		} catch (error) {
+			for (const { onError } of middleware) {
+				response = await onError?.(error, context)
+				if (response) break
+			}
+			if (!response) throw error
+			if (replayed.has(response)) return response
+		}
+
+		for (const { onResponse } of middleware) {
+			response = (await onResponse?.(response, context)) ?? response
+			if (replayed.has(response)) return response
+		}
+		return response
+	}
+	return (input, init) => {
+		const request = new Request(input, init)
+		return send(request, request, 0)
+	}
+}
+
+/**
+ * Helper to wait before retrying a request, stopping when it is cancelled
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(resolve, ms)
+		signal.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer)
+				reject(signal.reason)
+			},
+			{ once: true },
+		)
+	})
+}
+
+/**
+ * Options of the retry middleware
+ */
+export interface RetryOptions {
+	/** Retries after the first attempt (default 2) */
+	retries?: number
+	/** Milliseconds before the first retry, doubling after each (default 300) */
+	delay?: number
+	/** Response statuses to retry (default 408, 429, 500, 502, 503, 504) */
+	statuses?: number[]
+	/** Request methods to retry (default GET, HEAD, OPTIONS, PUT, DELETE) */
+	methods?: string[]
+}
+
+/**
+ * Middleware retrying network errors and retryable statuses with exponential
+ * backoff, waiting as long as a Retry-After header asks. Only idempotent
+ * methods are retried by default; GraphQL sends queries with POST.
+ * @param options - Retry options
+ *
+ * @example
+ * retry({ retries: 3, methods: ["GET", "POST"] })
+ */
+function retry({
+	retries = 2,
+	delay = 300,
+	statuses = [408, 429, 500, 502, 503, 504],
+	methods = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+}: RetryOptions = {}): Middleware {
+	const canRetry = ({ request, attempt }: MiddlewareContext) =>
+		attempt < retries &&
+		methods.includes(request.method) &&
+		!request.signal.aborted
+	const retryAfter = (context: MiddlewareContext, response?: Response) => {
+		const seconds = Number(response?.headers.get("retry-after"))
+		const ms = seconds > 0 ? seconds * 1000 : delay * 2 ** context.attempt
+		return wait(ms, context.request.signal)
+	}
+	return {
+		async onResponse(response, context) {
+			if (!statuses.includes(response.status) || !canRetry(context)) return
+			await retryAfter(context, response)
+			return context.replay()
+		},
+		async onError(_error, context) {
+			if (!canRetry(context)) return
+			await retryAfter(context)
+			return context.replay()
+		},
+	}
+}
+
+/**
+ * Options of the refresh token middleware
+ */
+export interface RefreshTokenOptions {
+	/** Get a new access token, or undefined when it cannot be refreshed */
+	refresh: () => Promise<string | undefined>
+	/** Response statuses of expired tokens (default 401) */
+	statuses?: number[]
+	/** Header the token is sent in (default "Authorization") */
+	header?: string
+	/** Prefix of the header value (default "Bearer ") */
+	prefix?: string
+}
+
+/**
+ * Middleware refreshing an expired access token and replaying the request
+ * with the new one. Concurrent requests share a single refresh, and each
+ * request is only replayed once.
+ * @param options - Refresh token options
+ *
+ * @example
+ * refreshToken({ refresh: () => auth.refreshSession() })
+ */
+function refreshToken({
+	refresh,
+	statuses = [401],
+	header = "Authorization",
+	prefix = "Bearer ",
+}: RefreshTokenOptions): Middleware {
+	let refreshing: Promise<string | undefined> | undefined
+	const refreshed = new WeakSet<Request>()
+	return {
+		async onResponse(response, { request, original, replay }) {
+			if (!statuses.includes(response.status) || refreshed.has(original)) {
+				return
+			}
+			refreshed.add(original)
+			refreshing ??= refresh().finally(() => {
+				refreshing = undefined
+			})
+			const token = await refreshing
+			if (token === undefined) return
+			const headers = new Headers(request.headers)
+			headers.set(header, \`\${prefix}\${token}\`)
+			return replay(new Request(request, { headers }))
+		},
+	}
+}
+
+/**
+ * Options of the request ID middleware
+ */
+export interface RequestIdOptions {
+	/** Header the ID is sent in (default "X-Request-Id") */
+	header?: string
+	/** Generate an ID (default crypto.randomUUID) */
+	generate?: () => string
+}
+
+/**
+ * Middleware sending an ID with each request, kept across its retries, to
+ * trace it in server logs
+ * @param options - Request ID options
+ */
+function requestId({
+	header = "X-Request-Id",
+	generate = () => crypto.randomUUID(),
+}: RequestIdOptions = {}): Middleware {
+	return {
+		onRequest({ request }) {
+			if (request.headers.has(header)) return
+			const headers = new Headers(request.headers)
+			headers.set(header, generate())
+			return new Request(request, { headers })
+		},
+	}
+}
+
+/**
+ * Options of the logger middleware
+ */
+export interface LoggerOptions {
+	/** Write a log line (default console.log) */
+	log?: (message: string) => void
+}
+
+/**
+ * Middleware logging each request's method, URL, status, and duration
+ * @param options - Logger options
+ */
+function logger({ log = console.log }: LoggerOptions = {}): Middleware {
+	const startTimes = new WeakMap<MiddlewareContext, number>()
+	const describe = ({ request, attempt }: MiddlewareContext) =>
+		\`\${request.method} \${request.url}\${attempt > 0 ? \` (attempt \${attempt + 1})\` : ""}\`
+	const elapsed = (context: MiddlewareContext) =>
+		Math.round(performance.now() - (startTimes.get(context) ?? 0))
+	return {
+		onRequest(context) {
+			startTimes.set(context, performance.now())
+		},
+		onResponse(response, context) {
+			log(\`\${describe(context)} \${response.status} in \${elapsed(context)}ms\`)
+		},
+		onError(error, context) {
+			log(\`\${describe(context)} failed in \${elapsed(context)}ms: \${String(error)}\`)
+		},
+	}
+}
+
+/**
+ * Built-in middleware, passed to the middleware setup of client.config.ts
+ */
+export const builtinMiddleware = { retry, refreshToken, requestId, logger }
+
+export type BuiltinMiddleware = typeof builtinMiddleware
+`;
+
+/**
+ * The headers member of client.config.ts, common to every client
+ */
+const headersMember = `	/**
+	 * Headers sent with every request
+	 */
+	headers: async () => ({
+		// Add your headers here
+	}),`;
+
+/**
+ * The middleware member of client.config.ts, for clients sending requests
+ * through the middleware pipeline
+ */
+const middlewareMember = `
+	/**
+	 * Middleware run around every request, in order. Built-in middleware:
+	 * retry, refreshToken, requestId, and logger.
+	 *
+	 * @example
+	 * middleware: ({ requestId, retry }) => [requestId(), retry({ retries: 2 })],
+	 */
+	middleware: () => [],`;
+
+/**
+ * Read the transport or HTTP client a client.config.ts was generated for
+ * from its header comment
+ * @param content - Content of client.config.ts
+ * @returns The target (e.g., 'transport "urql"'), or undefined when the
+ *   header does not record one
+ */
+export function getClientConfigTarget(content: string): string | undefined {
+  return content.match(
+    /^\/\* Client Config - Generated once by tangrams for (.+?)\. /,
+  )?.[1];
+}
+
+/**
+ * Generate the user-owned client.config.ts, which is only written when it
+ * does not exist (even with --force)
+ */
+export function generateClientConfig(options: {
+  /**
+   * Transport or HTTP client the config is generated for (e.g.,
+   * 'transport "urql"'), recorded in the header comment
+   */
+  target?: string;
+  /** Whether to set up the connection params of GraphQL subscriptions */
+  connectionParams?: boolean;
+  /**
+   * Label of an existing client that requests are sent with (e.g., "urql"),
+   * which replaces the middleware pipeline
+   */
+  client?: string;
+}): GeneratedFile {
+  const connectionParams = options.connectionParams
+    ? `
+	/**
+	 * Params sent when the subscription WebSocket connects (e.g., auth tokens)
+	 */
+	connectionParams: async () => ({
+		// Add your connection params here
+	}),`
+    : "";
+
+  const client = options.client
+    ? `
+	/**
+	 * The ${options.client} client requests are sent with. Its own middleware
+	 * (e.g., exchanges or links) runs around them.
+	 *
+	 * @example
+	 * client: () => ${options.client.toLowerCase()}Client,
+	 */
+	client: () => {
+		throw new Error("Return your ${options.client} client from client.config.ts")
+	},`
+    : middlewareMember;
+
+  const target = options.target ? ` for ${options.target}` : "";
+
+  const content = `/* Client Config - Generated once by tangrams${target}. Customize as needed; it is kept when client.ts is regenerated. */
+
+import type { ClientConfig } from "./client"
+
+export const clientConfig: ClientConfig = {
+${headersMember}${client}${connectionParams}
+}
+`;
+
+  return {
+    filename: CLIENT_CONFIG_FILENAME,
+    content,
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Optimistic updates
+ * Writes the optimistic updates map and the handlers that apply and roll
+ * back updates to cached detail and list data, shared by both adapters
+ */
+
+import { getSafePropertyAccess } from "@/utils/naming";
+import { writeSectionComment } from "@/utils/writer";
+
+import type CodeBlockWriter from "code-block-writer";
+import type { QueryOverridesConfig } from "@/core/config";
+import type { MutationInvalidation } from "./invalidation";
+
+/**
+ * Name of the exported optimistic updates map in options.ts
+ */
+export const OPTIMISTIC_UPDATES_NAME = "optimisticUpdates";
+
+/**
+ * Type of the context returned by onMutate, for explicit mutationOptions
+ * generics
+ */
+export const OPTIMISTIC_CONTEXT_TYPE = "OptimisticContext";
+
+/**
+ * An update to the cached data of a query
+ */
+export interface OptimisticQueryUpdate {
+  /** Expression for the query key prefix of the updated queries */
+  queryKey: string;
+  /** Type of the query's data (e.g., "ListPetsResponse") */
+  dataType: string;
+  /** Path to the entity or list in the query's data */
+  path: string[];
+  /** Whether the value at the path is a list of entities */
+  list: boolean;
+}
+
+/**
+ * The optimistic updates a mutation applies to cached queries
+ */
+export interface MutationOptimisticUpdate {
+  /** Property name in the optimistic updates map (e.g., "updatePet") */
+  name: string;
+  /** Type of the mutation variables */
+  variablesType: string;
+  /** Whether the mutation updates or deletes its entity */
+  type: "update" | "delete";
+  /** Key field of the entity (e.g., "id") */
+  keyField: string;
+  /** Expression for the id of the mutated entity (e.g., "variables.petId") */
+  id: string;
+  /** Expression for the changes of an update (e.g., "variables.body") */
+  changes?: string;
+  /** Cached queries to update */
+  queries: OptimisticQueryUpdate[];
+}
+
+/**
+ * Write the optimistic update helpers and the optimistic updates map
+ */
+export function writeOptimisticUpdates(
+  writer: CodeBlockWriter,
+  updates: MutationOptimisticUpdate[],
+): void {
+  writeSectionComment(writer, "Optimistic Updates");
+  writer.blankLine();
+  writer.writeLine(`/**
+ * An update to the cached data of the queries matching a query key
+ */
+export type OptimisticUpdate<TValue = never> = {
+  queryKey: QueryKey
+  /** Path to the updated value in the query's data */
+  path: string[]
+  update: (value: TValue) => unknown
+}
+
+/**
+ * Cached query data replaced by optimistic updates, restored on error
+ */
+export type ${OPTIMISTIC_CONTEXT_TYPE} = {
+  snapshot: [QueryKey, unknown][]
+}
+
+/**
+ * Update the value at a path in cached data, copying the objects along it
+ */
+const updateAt = <TData,>(
+  data: TData,
+  path: string[],
+  update: OptimisticUpdate["update"],
+): TData => {
+  if (data == null) return data
+  const [key, ...rest] = path
+  if (key === undefined) return update(data as never) as TData
+  const record = data as Record<string, unknown>
+  return { ...record, [key]: updateAt(record[key], rest, update) } as TData
+}
+
+/**
+ * Check if cached data is the data of an infinite query
+ */
+const isInfiniteData = (
+  data: unknown,
+): data is { pages: unknown[]; pageParams: unknown[] } =>
+  typeof data === "object" &&
+  data !== null &&
+  "pages" in data &&
+  Array.isArray(data.pages) &&
+  "pageParams" in data &&
+  Array.isArray(data.pageParams)
+
+/**
+ * Apply optimistic updates to cached queries, returning the data they
+ * replaced. Infinite query data has each of its pages updated.
+ */
+const applyOptimisticUpdates = async (
+  queryClient: QueryClient | undefined,
+  updates: OptimisticUpdate[],
+): Promise<${OPTIMISTIC_CONTEXT_TYPE}> => {
+  const snapshot: [QueryKey, unknown][] = []
+  if (!queryClient) return { snapshot }
+  for (const { queryKey, path, update } of updates) {
+    await queryClient.cancelQueries({ queryKey })
+    for (const [key, data] of queryClient.getQueriesData<unknown>({ queryKey })) {
+      if (data === undefined) continue
+      snapshot.push([key, data])
+      queryClient.setQueryData(
+        key,
+        isInfiniteData(data)
+          ? { ...data, pages: data.pages.map((page) => updateAt(page, path, update)) }
+          : updateAt(data, path, update),
+      )
+    }
+  }
+  return { snapshot }
+}
+
+/**
+ * Restore the cached data replaced by optimistic updates
+ */
+const rollbackOptimisticUpdates = (
+  queryClient: QueryClient | undefined,
+  context: ${OPTIMISTIC_CONTEXT_TYPE} | undefined,
+) => {
+  for (const [queryKey, data] of [...(context?.snapshot ?? [])].reverse()) {
+    queryClient?.setQueryData(queryKey, data)
+  }
+}`);
+  writer.blankLine();
+
+  writer.writeLine("/**");
+  writer.writeLine(
+    " * Optimistic updates applied to cached queries when each mutation starts",
+  );
+  writer.writeLine(" */");
+  writer
+    .write(`export const ${OPTIMISTIC_UPDATES_NAME} =`)
+    .space()
+    .inlineBlock(() => {
+      for (const update of updates) {
+        writer.write(
+          `${update.name}: (variables: ${update.variablesType}): OptimisticUpdate[] => [`,
+        );
+        writer.indent(() => {
+          for (const query of update.queries) {
+            writer.writeLine("{");
+            writer.indent(() => {
+              writer.writeLine(`queryKey: ${query.queryKey},`);
+              writer.writeLine(`path: ${JSON.stringify(query.path)},`);
+              writer.writeLine(`update: ${formatUpdate(update, query)},`);
+            });
+            writer.writeLine("},");
+          }
+        });
+        writer.writeLine("],");
+      }
+    });
+  writer.newLine();
+}
+
+/**
+ * Get the type of the value at a path in a query's data, without the null
+ * values updateAt skips
+ * e.g., `NonNullable<ListUsersQuery["users"]>`
+ */
+function getValueType(query: OptimisticQueryUpdate): string {
+  return query.path.reduce(
+    (type, key) => `NonNullable<${type}[${JSON.stringify(key)}]>`,
+    query.dataType,
+  );
+}
+
+/**
+ * Format the function updating an entity, or a list of entities
+ */
+function formatUpdate(
+  update: MutationOptimisticUpdate,
+  query: OptimisticQueryUpdate,
+): string {
+  const valueType = getValueType(query);
+  const merged = `{ ...item, ...${update.changes} }`;
+  if (!query.list) {
+    return `(item: ${valueType}) => (${merged})`;
+  }
+
+  const itemId = `String(${getSafePropertyAccess("item", update.keyField)})`;
+  const id = `String(${update.id})`;
+  if (update.type === "delete") {
+    return `(items: ${valueType}) => items.filter((item) => ${itemId} !== ${id})`;
+  }
+  return `(items: ${valueType}) => items.map((item) => ${itemId} === ${id} ? ${merged} : item)`;
+}
+
+/**
+ * Write the onMutate, onError, and onSettled options of an optimistic
+ * mutation. Invalidation moves to onSettled, so queries refetch whether the
+ * mutation succeeds or fails.
+ */
+export function writeOptimisticHandlers(
+  writer: CodeBlockWriter,
+  update: MutationOptimisticUpdate,
+  invalidation?: MutationInvalidation,
+): void {
+  writer.writeLine(
+    `onMutate: (variables) => applyOptimisticUpdates(queryClient, ${OPTIMISTIC_UPDATES_NAME}.${update.name}(variables)),`,
+  );
+  writer.writeLine(
+    "onError: (_error, _variables, context) => rollbackOptimisticUpdates(queryClient, context),",
+  );
+  if (!invalidation) {
+    return;
+  }
+  const queryKeys = `mutationInvalidations.${invalidation.name}`;
+  if (invalidation.variablesType) {
+    writer.writeLine(
+      `onSettled: (_data, _error, variables) => invalidateQueries(queryClient, ${queryKeys}(variables)),`,
+    );
+  } else {
+    writer.writeLine(
+      `onSettled: () => invalidateQueries(queryClient, ${queryKeys}()),`,
+    );
+  }
+}
+
+/**
+ * Check if any operation opts in to optimistic updates, so entities only need
+ * discovering when they do
+ */
+export function hasOptimisticUpdates(
+  queryOverrides: QueryOverridesConfig | undefined,
+): boolean {
+  return Object.values(queryOverrides?.operations ?? {}).some(
+    (override) => override.optimistic,
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * Infinite query page params
+ * Resolves how infinite queries page backward, and formats the
+ * getPreviousPageParam expressions, shared by both adapters
+ *
+ * Cursor pagination sends previous cursors in the page param itself. Relay
+ * connections send startCursor as "before" instead of "after", and "last"
+ * instead of "first", since "first" takes the oldest edges before a cursor
+ * rather than the page just before it. Their page param holds the cursors and
+ * page sizes of both directions.
+ */
+
+import type { InfiniteQueryPaginationInfo } from "@/adapters/types";
+import type { InfiniteQueryOverrideConfig } from "@/core/config";
+
+/**
+ * The params that carry the cursors and page sizes of Relay pagination that
+ * pages backward
+ */
+export interface RelayCursorParams {
+  /** Param of the next page's cursor (e.g., "after") */
+  next: string;
+  /** Param of the previous page's cursor (e.g., "before") */
+  previous: string;
+  /** Param of the next page's size (e.g., "first") */
+  first: string;
+  /** Param of the previous page's size (e.g., "last") */
+  last: string;
+}
+
+/**
+ * Get the cursor params of Relay pagination that pages backward, which needs
+ * both a "before" and a "last" param. Path overrides read a cursor for the
+ * page param alone, so they turn this off.
+ */
+export function getRelayCursorParams(
+  paginationInfo: InfiniteQueryPaginationInfo,
+  override: InfiniteQueryOverrideConfig | undefined,
+): RelayCursorParams | undefined {
+  if (override?.getNextPageParamPath || override?.getPreviousPageParamPath) {
+    return undefined;
+  }
+  const { response, pageParamName, previousPageParamName, pageSizeParamNames } =
+    paginationInfo;
+  if (
+    response.style !== "relay" ||
+    !response.prevCursorPath ||
+    !previousPageParamName ||
+    !pageSizeParamNames
+  ) {
+    return undefined;
+  }
+  return {
+    next: pageParamName,
+    previous: previousPageParamName,
+    ...pageSizeParamNames,
+  };
+}
+
+/**
+ * Get the warning for Relay pagination that passes a "before" cursor but
+ * cannot page backward, since it does not pass both "first" and "last"
+ * @param subject - Operation the warning is about, e.g. `Query "ListPosts"`
+ */
+export function getRelayPageSizeWarning(
+  subject: string,
+  paginationInfo: InfiniteQueryPaginationInfo,
+  override: InfiniteQueryOverrideConfig | undefined,
+): string | undefined {
+  const { response, previousPageParamName, pageSizeParamNames } =
+    paginationInfo;
+  if (
+    override?.getNextPageParamPath ||
+    override?.getPreviousPageParamPath ||
+    response.style !== "relay" ||
+    !previousPageParamName ||
+    pageSizeParamNames
+  ) {
+    return undefined;
+  }
+  return (
+    `${subject} passes "${previousPageParamName}" but not both "first" and "last", ` +
+    `so getPreviousPageParam is not generated: previous pages need the last edges before their cursor. ` +
+    `Pass "first" and "last" to page backward.`
+  );
+}
+
+/**
+ * Get the params an infinite query's page param sets, which its options
+ * function omits from its params
+ */
+export function getPageParamNames(
+  paginationInfo: InfiniteQueryPaginationInfo,
+  override: InfiniteQueryOverrideConfig | undefined,
+): string[] {
+  const cursorParams = getRelayCursorParams(paginationInfo, override);
+  return cursorParams
+    ? [cursorParams.next, cursorParams.previous, cursorParams.last]
+    : [paginationInfo.pageParamName];
+}
+
+/**
+ * Get the type of the page param of Relay pagination that pages backward
+ * e.g., `Pick<GetUsersQueryVariables, "after" | "before" | "first" | "last">`
+ */
+export function formatRelayPageParamType(
+  paramsType: string,
+  cursorParams: RelayCursorParams,
+): string {
+  const { next, previous, first, last } = cursorParams;
+  return `Pick<${paramsType}, "${next}" | "${previous}" | "${first}" | "${last}">`;
+}
+
+/**
+ * Format the getNextPageParam and getPreviousPageParam expressions of Relay
+ * pagination that pages backward. Previous pages send the page size as
+ * "last" instead of "first".
+ * e.g., `firstPage.pageInfo?.hasPreviousPage ? { after: undefined, before: firstPage.pageInfo?.startCursor ?? undefined, first: undefined, last: params.first } : undefined`
+ * @param pageSize - Expression of the page size the options were given
+ */
+export function formatRelayPageParams(
+  paginationInfo: InfiniteQueryPaginationInfo,
+  cursorParams: RelayCursorParams,
+  pageSize: string,
+): { next: string; previous: string } {
+  const { response } = paginationInfo;
+  const hasNextPath =
+    response.hasMorePath?.join("?.") ?? "pageInfo?.hasNextPage";
+  const endCursorPath =
+    response.nextCursorPath?.join("?.") ?? "pageInfo?.endCursor";
+  const startCursorPath =
+    response.prevCursorPath?.join("?.") ?? "pageInfo?.startCursor";
+  const hasPreviousPath =
+    response.hasPreviousPath?.join("?.") ?? startCursorPath;
+
+  // Each page param sets both cursors and page sizes, so its type matches
+  // initialPageParam
+  const { next, previous, first, last } = cursorParams;
+  return {
+    next: `lastPage.${hasNextPath} ? { ${next}: lastPage.${endCursorPath} ?? undefined, ${previous}: undefined, ${first}: ${pageSize}, ${last}: undefined } : undefined`,
+    previous: `firstPage.${hasPreviousPath} ? { ${next}: undefined, ${previous}: firstPage.${startCursorPath} ?? undefined, ${first}: undefined, ${last}: ${pageSize} } : undefined`,
+  };
+}
+
+/**
+ * Format the getPreviousPageParam expression of pagination that sends the
+ * previous cursor in the page param, or links to the previous page (undefined
+ * when it cannot page backward)
+ * e.g., `firstPage.prevCursor`
+ */
+export function formatPreviousPageParam(
+  paginationInfo: InfiniteQueryPaginationInfo | undefined,
+  override: InfiniteQueryOverrideConfig | undefined,
+): string | undefined {
+  if (override?.getPreviousPageParamPath) {
+    const parts = override.getPreviousPageParamPath.split(".");
+    return `firstPage.${parts.join("?.")}`;
+  }
+  if (!paginationInfo) return undefined;
+  const { response } = paginationInfo;
+  if (response.style === "cursor" && response.prevCursorField) {
+    return `firstPage.${response.prevCursorField}`;
+  }
+  if (response.style === "link") {
+    return formatLinkPageParam(paginationInfo, "firstPage", "prev");
+  }
+  return undefined;
+}
+
+/**
+ * Format the expression reading a page param from the Link header of a page
+ * (see getLinkParam in the generated client). Page numbers and offsets are
+ * parsed as numbers.
+ * e.g., `getLinkParam(lastPage.headers.link, "next", "page", Number)`
+ */
+export function formatLinkPageParam(
+  paginationInfo: InfiniteQueryPaginationInfo,
+  page: "lastPage" | "firstPage",
+  rel: "next" | "prev",
+): string {
+  const { params, pageParamName } = paginationInfo;
+  const parse =
+    params.style === "offset" || params.style === "page" ? ", Number" : "";
+  return `getLinkParam(${page}.headers.link, "${rel}", "${pageParamName}"${parse})`;
+}
+
+/**
+ * Check if an infinite query can page backward, which maxPages needs to
+ * refetch the pages it drops
+ */
+export function canFetchPreviousPages(
+  paginationInfo: InfiniteQueryPaginationInfo | undefined,
+  override: InfiniteQueryOverrideConfig | undefined,
+): boolean {
+  return (
+    !!formatPreviousPageParam(paginationInfo, override) ||
+    (!!paginationInfo && !!getRelayCursorParams(paginationInfo, override))
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * Query key factory generator
+ * Generates keys.ts with a key factory for the source and one per resource
+ * group, shared by both adapters
+ *
+ * Keys are nested so any level can be invalidated at once:
+ *   sourceKeys.all             ["source"]
+ *   petKeys.all                ["source", "pet"]
+ *   petKeys.lists()            ["source", "pet", "list"]
+ *   petKeys.details()          ["source", "pet", "detail"]
+ *   petKeys.detail(id)         ["source", "pet", "detail", id]
+ *   petKeys.getPet(params)     ["source", "pet", "detail", id, "getPet", params]
+ */
+
+import {
+  isValidIdentifier,
+  toCamelCase,
+  toQueryKeysName,
+} from "@/utils/naming";
+import {
+  createWriter,
+  writeHeader,
+  writeImport,
+  writeSectionComment,
+} from "@/utils/writer";
+
+import type CodeBlockWriter from "code-block-writer";
+import type { CollectionEntity } from "@/adapters/types";
+
+/**
+ * Scope of a group that a key is nested under
+ */
+export type QueryKeyScope = "all" | "lists" | "details";
+
+/**
+ * A key in a group's factory, named after the operation it belongs to
+ */
+export interface QueryKeyEntry {
+  /** Property name in the factory (e.g., "listPets", "listPetsInfinite") */
+  name: string;
+  /** Scope the key is nested under */
+  scope: QueryKeyScope;
+  /** Segments after the scope (e.g., ["listPets", "infinite"]) */
+  segments: string[];
+  /** Parameter of the key function, added as the last segment */
+  param?: {
+    name: string;
+    type: string;
+    optional: boolean;
+  };
+  /**
+   * Expression for the id of the detail the key is nested under, e.g.
+   * "params.petId" (details scope only)
+   */
+  detailId?: string;
+}
+
+/**
+ * A resource group with its own key factory (e.g., petKeys)
+ */
+export interface QueryKeyGroup {
+  /** Group name, also the group's key segment */
+  name: string;
+  /** Type of the id taken by the group's detail() key */
+  detailIdType?: string;
+  entries: QueryKeyEntry[];
+}
+
+/**
+ * Options for query keys code generation
+ */
+export interface QueryKeysGenOptions {
+  /** The source name, the first segment of every key */
+  sourceName: string;
+  /** Import path for the types file */
+  typesImportPath: string;
+  /** Types used by key parameters, imported from the types file */
+  typeImports: string[];
+}
+
+/**
+ * Get the group name for a resource (a tag, path segment, type, or field
+ * name). Names that clash with the source's own key factory get a suffix.
+ */
+export function toQueryKeyGroupName(
+  resource: string,
+  sourceName: string,
+): string {
+  let name = toCamelCase(resource.replace(/[^a-zA-Z0-9_$]+/g, " ").trim());
+  if (!name) {
+    name = "root";
+  } else if (!isValidIdentifier(name)) {
+    name = `_${name}`;
+  }
+  return name === toCamelCase(sourceName) ? `${name}Resource` : name;
+}
+
+/**
+ * Add a key to its group, creating the group on first use
+ * @param detailIdType - Type of the detail id, used when the group has none
+ */
+export function addQueryKey(
+  groups: Map<string, QueryKeyGroup>,
+  groupName: string,
+  entry: QueryKeyEntry,
+  detailIdType?: string,
+): void {
+  let group = groups.get(groupName);
+  if (!group) {
+    group = { name: groupName, entries: [] };
+    groups.set(groupName, group);
+  }
+  if (entry.detailId && !group.detailIdType) {
+    group.detailIdType = detailIdType;
+  }
+  group.entries.push(entry);
+}
+
+/**
+ * Get the expression calling a key function
+ * e.g., `petKeys.getPet(params)`
+ */
+export function getQueryKeyCall(
+  groups: QueryKeyGroup[],
+  entryName: string,
+  args = "",
+): string {
+  const group = groups.find((g) => g.entries.some((e) => e.name === entryName));
+  if (!group) {
+    throw new Error(`No query key found for "${entryName}"`);
+  }
+  return `${toQueryKeysName(group.name)}.${entryName}(${args})`;
+}
+
+/**
+ * Check if an operation's keys are nested under the detail of one id
+ */
+export function isDetailQueryKey(
+  groups: QueryKeyGroup[],
+  entryName: string,
+): boolean {
+  return groups.some((g) =>
+    g.entries.some((e) => e.name === entryName && !!e.detailId),
+  );
+}
+
+/**
+ * Get the prefix shared by every key of an operation, whatever its params,
+ * for invalidation. Detail keys are narrowed to one detail when its id is
+ * given, and otherwise widen to all of the group's details.
+ * e.g., `[...petKeys.lists(), "listPets"]`, `[...petKeys.detail(id), "getPet"]`
+ */
+export function getQueryKeyPrefix(
+  groups: QueryKeyGroup[],
+  entryName: string,
+  detailId?: string,
+): string {
+  const group = groups.find((g) => g.entries.some((e) => e.name === entryName));
+  const entry = group?.entries.find((e) => e.name === entryName);
+  if (!group || !entry) {
+    throw new Error(`No query key found for "${entryName}"`);
+  }
+
+  const keysName = toQueryKeysName(group.name);
+  const segment = JSON.stringify(entry.segments[0]);
+  if (entry.scope === "all") {
+    return `[...${keysName}.all, ${segment}]`;
+  }
+  if (entry.scope === "lists") {
+    return `[...${keysName}.lists(), ${segment}]`;
+  }
+  if (!entry.detailId) {
+    return `[...${keysName}.details(), ${segment}]`;
+  }
+  return detailId
+    ? `[...${keysName}.detail(${detailId}), ${segment}]`
+    : `${keysName}.details()`;
+}
+
+/**
+ * Get the key factories used by collection query keys (sorted alphabetically)
+ */
+export function getCollectionKeyFactories(
+  entities: CollectionEntity[],
+): string[] {
+  const factories = entities
+    .map((entity) => entity.listQuery.keyFactory)
+    .filter((factory): factory is string => !!factory);
+  return [...new Set(factories)].sort();
+}
+
+/**
+ * Format the query key of a collection, nested under the lists of its key
+ * factory when it has one
+ * e.g., `[...petKeys.lists(), "Pet"]`
+ */
+export function formatCollectionQueryKey(
+  listQuery: CollectionEntity["listQuery"],
+): string {
+  const segments = listQuery.queryKey.map((s) => JSON.stringify(s));
+  if (listQuery.keyFactory) {
+    segments.unshift(`...${listQuery.keyFactory}.lists()`);
+  }
+  return `[${segments.join(", ")}]`;
+}
+
+/**
+ * Generate the keys.ts file content
+ */
+export function generateQueryKeysCode(
+  groups: QueryKeyGroup[],
+  options: QueryKeysGenOptions,
+): string {
+  const writer = createWriter();
+  const sourceKeysName = toQueryKeysName(options.sourceName);
+
+  writeHeader(writer);
+
+  if (options.typeImports.length > 0) {
+    writeImport(writer, options.typesImportPath, options.typeImports, true);
+    writer.blankLine();
+  }
+
+  writeSectionComment(writer, "Source Keys");
+  writer.blankLine();
+  writer.writeLine("/**");
+  writer.writeLine(
+    ` * Keys of all queries of the ${options.sourceName} source`,
+  );
+  writer.writeLine(" */");
+  writer
+    .write(`export const ${sourceKeysName} =`)
+    .space()
+    .inlineBlock(() => {
+      writer.writeLine(
+        `all: [${JSON.stringify(options.sourceName)}] as const,`,
+      );
+    });
+  writer.newLine();
+
+  if (groups.length > 0) {
+    writer.blankLine();
+    writeSectionComment(writer, "Group Keys");
+    writer.blankLine();
+  }
+  for (const group of groups) {
+    writeGroupKeys(writer, group, sourceKeysName);
+    writer.blankLine();
+  }
+
+  return writer.toString();
+}
+
+/**
+ * Write the key factory of a group
+ */
+function writeGroupKeys(
+  writer: CodeBlockWriter,
+  group: QueryKeyGroup,
+  sourceKeysName: string,
+): void {
+  const keysName = toQueryKeysName(group.name);
+
+  writer.writeLine("/**");
+  writer.writeLine(` * Keys of ${group.name} queries`);
+  writer.writeLine(" */");
+  writer
+    .write(`export const ${keysName} =`)
+    .space()
+    .inlineBlock(() => {
+      writer.writeLine(
+        `all: [...${sourceKeysName}.all, ${JSON.stringify(group.name)}] as const,`,
+      );
+      writer.writeLine(`lists: () => [...${keysName}.all, "list"] as const,`);
+      writer.writeLine(
+        `details: () => [...${keysName}.all, "detail"] as const,`,
+      );
+      if (group.detailIdType) {
+        writer.writeLine(
+          `detail: (id: ${group.detailIdType}) => [...${keysName}.details(), id] as const,`,
+        );
+      }
+      for (const entry of group.entries) {
+        writer.writeLine(
+          `${entry.name}: ${formatKeyFunction(entry, keysName)},`,
+        );
+      }
+    });
+  writer.newLine();
+}
+
+/**
+ * Format the arrow function of a key
+ * e.g., `(params: GetPetParams) => [...petKeys.detail(params.petId), "getPet", params] as const`
+ */
+function formatKeyFunction(entry: QueryKeyEntry, keysName: string): string {
+  let scope: string;
+  if (entry.detailId) {
+    scope = `${keysName}.detail(${entry.detailId})`;
+  } else {
+    scope =
+      entry.scope === "all"
+        ? `${keysName}.all`
+        : `${keysName}.${entry.scope}()`;
+  }
+
+  const segments = [
+    `...${scope}`,
+    ...entry.segments.map((s) => JSON.stringify(s)),
+  ];
+  let param = "";
+  if (entry.param) {
+    const modifier = entry.param.optional ? "?" : "";
+    param = `${entry.param.name}${modifier}: ${entry.param.type}`;
+    segments.push(entry.param.name);
+  }
+
+  return `(${param}) => [${segments.join(", ")}] as const`;
+}
@@ -4,8 +4,14 @@ import { resolve } from "node:path";
 import { buildSchema } from "graphql";
 import { describe, expect, it } from "vitest";
 
+import { discoverGraphQLEntities } from "../adapters/graphql/collections";
 import { loadDocuments } from "../core/documents";
-import { generateGraphQLOperations } from "./query-options";
+import {
+  generateGraphQLKeys,
+  generateGraphQLOperations,
+} from "./query-options";
+
+import type { QueryOverridesConfig } from "../core/config";
 
 const fixturesDir = resolve(__dirname, "../test/fixtures/graphql");
 
@@ -26,6 +32,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -39,6 +46,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -52,6 +60,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -67,6 +76,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -80,6 +90,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./custom-types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -93,6 +104,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -107,6 +119,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -122,12 +135,15 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
 
-    expect(result.content).toContain('queryKey: ["test", "GetUser"');
-    expect(result.content).toContain('queryKey: ["test", "ListUsers"');
+    expect(result.content).toContain("queryKey: userKeys.getUser(variables),");
+    expect(result.content).toContain(
+      "queryKey: userKeys.listUsers(variables),",
+    );
   });
 
   it("includes mutationKey for mutation operations", async () => {
@@ -136,6 +152,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -150,6 +167,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -166,6 +184,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -182,6 +201,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -200,6 +220,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -216,12 +237,15 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
 
     // Should import and call the function from functions.ts
-    expect(result.content).toContain("queryFn: () => getUser(variables)");
+    expect(result.content).toContain(
+      "queryFn: ({ signal }) => getUser(variables, { signal })",
+    );
   });
 
   it("calls imported function in mutationFn", async () => {
@@ -230,6 +254,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -246,6 +271,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -259,6 +285,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -274,6 +301,7 @@ describe("generateGraphQLOperations", () => {
       documents,
       typesImportPath: "./types",
       functionsImportPath: "../functions",
+      keysImportPath: "../keys",
       sourceName: "test",
       schema,
     });
@@ -290,6 +318,7 @@ describe("generateGraphQLOperations", () => {
         documents,
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
         schema: relaySchema,
       });
@@ -308,6 +337,7 @@ describe("generateGraphQLOperations", () => {
         documents,
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
         schema: relaySchema,
       });
@@ -324,6 +354,7 @@ describe("generateGraphQLOperations", () => {
         documents,
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
         schema: relaySchema,
       });
@@ -341,6 +372,7 @@ describe("generateGraphQLOperations", () => {
         documents,
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
         schema: relaySchema,
       });
@@ -358,6 +390,7 @@ describe("generateGraphQLOperations", () => {
         documents,
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
         schema: relaySchema,
       });
@@ -376,6 +409,7 @@ describe("generateGraphQLOperations", () => {
         documents,
         typesImportPath: "./types",
         functionsImportPath: "../functions",
+        keysImportPath: "../keys",
         sourceName: "test",
         schema: relaySchema,
       });
@@ -383,4 +417,458 @@ describe("generateGraphQLOperations", () => {
       expect(result.content).toMatchSnapshot();
     });
   });
+
+  describe("subscriptions", () => {
+    const generateSubscriptionOptions = async (
+      framework?: "react" | "core",
+    ) => {
+      const documents = await loadDocuments(
+        `${fixturesDir}/subscription.graphql`,
+      );
+      return generateGraphQLOperations({
+        documents,
+        typesImportPath: "./types",
+        functionsImportPath: "../functions",
+        keysImportPath: "../keys",
+        sourceName: "test",
+        schema,
+        framework,
+      });
+    };
+
+    it("imports streamedQuery alongside queryOptions", async () => {
+      const result = await generateSubscriptionOptions();
+
+      expect(result.content).toContain(
+        'import { experimental_streamedQuery as streamedQuery, queryOptions } from "@tanstack/react-query"',
+      );
+      expect(result.content).toContain(
+        'import type { QueryClient, QueryKey } from "@tanstack/react-query"',
+      );
+    });
+
+    it("generates streamed queryOptions for subscriptions", async () => {
+      const result = await generateSubscriptionOptions();
+
+      expect(result.content).toContain("// Subscription Options");
+      expect(result.content).toContain(
+        "export const onUserCreatedQueryOptions = () =>",
+      );
+      expect(result.content).toContain(
+        "queryFn: streamedQuery({ streamFn: ({ signal }) => stopOnAbort(onUserCreated(), signal) }),",
+      );
+      expect(result.content).toContain(
+        "export const onPostPublishedQueryOptions = (variables?: OnPostPublishedSubscriptionVariables) =>",
+      );
+      expect(result.content).toContain(
+        "queryKey: postKeys.onPostPublished(variables),",
+      );
+    });
+
+    it("generates helpers that write events into the query cache", async () => {
+      const result = await generateSubscriptionOptions();
+
+      expect(result.content).toContain(
+        "queryClient.setQueryData<TData>(queryKey, (data) => update(data, event))",
+      );
+      expect(result.content).toContain(
+        "export const subscribeToOnUserCreated = <TData>(queryClient: QueryClient, options: SubscriptionCacheOptions<OnUserCreatedSubscription, TData>) =>\n  feedQueryData(queryClient, onUserCreated(), options)",
+      );
+      expect(result.content).toContain(
+        "export const subscribeToOnPostPublished = <TData>(queryClient: QueryClient, options: SubscriptionCacheOptions<OnPostPublishedSubscription, TData> & { variables?: OnPostPublishedSubscriptionVariables }) =>\n  feedQueryData(queryClient, onPostPublished(options.variables), options)",
+      );
+    });
+
+    it("imports subscription event and variables types", async () => {
+      const result = await generateSubscriptionOptions();
+
+      expect(result.content).toContain(
+        'import type { OnPostPublishedSubscription, OnPostPublishedSubscriptionVariables, OnUserCreatedSubscription } from "./types"',
+      );
+    });
+
+    it("imports streamedQuery from query-core for the core target", async () => {
+      const result = await generateSubscriptionOptions("core");
+
+      expect(result.content).toContain(
+        'import { experimental_streamedQuery as streamedQuery } from "@tanstack/query-core"',
+      );
+      expect(result.content).toContain(
+        "const queryOptions = <T extends QueryObserverOptions",
+      );
+    });
+
+    it("matches snapshot for subscription operations", async () => {
+      const result = await generateSubscriptionOptions();
+
+      expect(result.content).toMatchSnapshot();
+    });
+  });
+});
+
+describe("generateGraphQLKeys", () => {
+  const generateKeys = async (file: string, keysSchema = schema) => {
+    const documents = await loadDocuments(`${fixturesDir}/${file}`);
+    return generateGraphQLKeys({
+      documents,
+      typesImportPath: "./types",
+      sourceName: "test",
+      schema: keysSchema,
+    });
+  };
+
+  it("generates a key factory for the source", async () => {
+    const result = await generateKeys("user.graphql");
+
+    expect(result).toContain(
+      'export const testKeys = {\n  all: ["test"] as const,\n}',
+    );
+    expect(result).toContain(
+      'import type { GetUserQueryVariables, ListUsersQueryVariables } from "./types"',
+    );
+  });
+
+  it("groups operations by the type of their root field", async () => {
+    const result = await generateKeys("user.graphql");
+
+    expect(result).toContain("export const userKeys = {");
+    expect(result).toContain('all: [...testKeys.all, "user"] as const,');
+    expect(result).toContain(
+      'listUsers: (variables?: ListUsersQueryVariables) => [...userKeys.lists(), "ListUsers", variables] as const,',
+    );
+  });
+
+  it("nests single-object queries under their detail key", async () => {
+    const result = await generateKeys("user.graphql");
+
+    expect(result).toContain(
+      'detail: (id: GetUserQueryVariables["id"]) => [...userKeys.details(), id] as const,',
+    );
+    expect(result).toContain(
+      'getUser: (variables: GetUserQueryVariables) => [...userKeys.detail(variables.id), "GetUser", variables] as const,',
+    );
+  });
+
+  it("groups connections by their node type", async () => {
+    const result = await generateKeys("relay-operations.graphql", relaySchema);
+
+    expect(result).toContain("export const postKeys = {");
+    expect(result).not.toContain("postConnectionKeys");
+    expect(result).toContain(
+      'listPostsInfinite: (variables: Omit<ListPostsQueryVariables, "cursor">) => [...postKeys.lists(), "ListPosts", "infinite", variables] as const,',
+    );
+  });
+
+  it("nests subscriptions under their group", async () => {
+    const result = await generateKeys("subscription.graphql");
+
+    expect(result).toContain(
+      'onUserCreated: () => [...userKeys.all, "OnUserCreated"] as const,',
+    );
+    expect(result).toContain(
+      'onPostPublished: (variables?: OnPostPublishedSubscriptionVariables) => [...postKeys.all, "OnPostPublished", variables] as const,',
+    );
+  });
+});
+
+describe("mutation invalidation", () => {
+  const generateUserOperations = async (
+    queryOverrides?: QueryOverridesConfig,
+  ) => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    return generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema,
+      queryOverrides,
+    });
+  };
+
+  it("invalidates queries returning the mutation's type", async () => {
+    const result = await generateUserOperations();
+
+    expect(result.content).toContain(
+      'createUser: (): QueryKey[] => [\n    userKeys.details(),\n    [...userKeys.lists(), "ListUsers"],\n  ],',
+    );
+  });
+
+  it("narrows single-object queries to the mutation's id", async () => {
+    const result = await generateUserOperations();
+
+    expect(result.content).toContain(
+      'updateUser: (variables: UpdateUserMutationVariables): QueryKey[] => [\n    [...userKeys.detail(variables.id), "GetUser"],\n    [...userKeys.lists(), "ListUsers"],\n  ],',
+    );
+    expect(result.content).toContain(
+      "onSuccess: (_data, variables) => invalidateQueries(queryClient, mutationInvalidations.updateUser(variables)),",
+    );
+  });
+
+  it("leaves mutations returning scalars without invalidation", async () => {
+    const result = await generateUserOperations();
+
+    expect(result.content).not.toContain("deleteUser: (");
+    expect(result.content).toContain(
+      "export const deleteUserMutationOptions = () =>",
+    );
+  });
+
+  it("adds and suppresses targets with overrides", async () => {
+    const result = await generateUserOperations({
+      operations: {
+        DeleteUser: { invalidation: { include: ["GetUser", "ListUsers"] } },
+        UpdateUser: { invalidation: { exclude: ["ListUsers"] } },
+        CreateUser: { invalidation: { disabled: true } },
+      },
+    });
+
+    expect(result.content).toContain(
+      'deleteUser: (variables: DeleteUserMutationVariables): QueryKey[] => [\n    [...userKeys.detail(variables.id), "GetUser"],\n    [...userKeys.lists(), "ListUsers"],\n  ],',
+    );
+    expect(result.content).toContain(
+      'updateUser: (variables: UpdateUserMutationVariables): QueryKey[] => [\n    [...userKeys.detail(variables.id), "GetUser"],\n  ],',
+    );
+    expect(result.content).toContain(
+      "export const createUserMutationOptions = () =>",
+    );
+  });
+});
+
+describe("optimistic updates", () => {
+  const generateUserOperations = async (
+    queryOverrides?: QueryOverridesConfig,
+  ) => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const { entities } = discoverGraphQLEntities({ schema, documents }, "test");
+    return generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema,
+      queryOverrides,
+      entities,
+    });
+  };
+
+  it("patches the list and single-object queries of an updated entity", async () => {
+    const result = await generateUserOperations({
+      operations: { UpdateUser: { optimistic: true } },
+    });
+
+    expect(result.content).not.toMatch(/\bany\b/);
+    expect(result.content).toMatch(
+      /import type \{[^}]*\bGetUserQuery\b[^}]*\bListUsersQuery\b[^}]*\} from "\.\/types"/,
+    );
+    expect(result.content).toContain(
+      'updateUser: (variables: UpdateUserMutationVariables): OptimisticUpdate[] => [\n    {\n      queryKey: [...userKeys.lists(), "ListUsers"],\n      path: ["users"],\n      update: (items: NonNullable<ListUsersQuery["users"]>) => items.map((item) => String(item.id) === String(variables.id) ? { ...item, ...variables.input } : item),\n    },\n    {\n      queryKey: [...userKeys.detail(variables.id), "GetUser"],\n      path: ["user"],\n      update: (item: NonNullable<GetUserQuery["user"]>) => ({ ...item, ...variables.input }),\n    },\n  ],',
+    );
+    expect(result.content).toContain(
+      "onSettled: (_data, _error, variables) => invalidateQueries(queryClient, mutationInvalidations.updateUser(variables)),",
+    );
+  });
+
+  it("removes a deleted entity from its list query", async () => {
+    const result = await generateUserOperations({
+      operations: { DeleteUser: { optimistic: true } },
+    });
+
+    expect(result.content).toContain(
+      'deleteUser: (variables: DeleteUserMutationVariables): OptimisticUpdate[] => [\n    {\n      queryKey: [...userKeys.lists(), "ListUsers"],\n      path: ["users"],\n      update: (items: NonNullable<ListUsersQuery["users"]>) => items.filter((item) => String(item.id) !== String(variables.id)),\n    },\n  ],',
+    );
+    expect(result.content).toContain(
+      "export const deleteUserMutationOptions = (queryClient?: QueryClient) =>",
+    );
+    expect(result.content).not.toContain("onSettled: () =>");
+  });
+
+  it("warns about mutations that do not update or delete an entity", async () => {
+    const result = await generateUserOperations({
+      operations: { CreateUser: { optimistic: true } },
+    });
+
+    expect(result.warnings).toContainEqual(
+      expect.stringContaining(
+        "Mutation \"CreateUser\" in 'overrides.query.operations' does not update or delete a discovered entity",
+      ),
+    );
+    expect(result.content).not.toContain("optimisticUpdates");
+  });
+});
+
+describe("suspense queries", () => {
+  it("generates suspense options and ensure helpers when opted in", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema,
+      queryOverrides: { suspense: true },
+    });
+
+    expect(result.content).toContain(
+      "export const getUserSuspenseQueryOptions = (variables: GetUserQueryVariables) =>\n  suspenseOptions(getUserQueryOptions(variables))",
+    );
+    expect(result.content).toContain(
+      "export const ensureGetUserQueryData = (queryClient: QueryClient, variables: GetUserQueryVariables) =>\n  queryClient.ensureQueryData(getUserQueryOptions(variables))",
+    );
+    expect(result.content).toContain(
+      'import type { QueryClient, QueryKey, SkipToken } from "@tanstack/react-query"',
+    );
+  });
+
+  it("generates suspense variants of infinite query options", async () => {
+    const documents = await loadDocuments(
+      `${fixturesDir}/relay-operations.graphql`,
+    );
+    const result = generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema: relaySchema,
+      queryOverrides: { suspense: true },
+    });
+
+    expect(result.content).toContain(
+      'export const listPostsSuspenseInfiniteQueryOptions = (variables: Omit<ListPostsQueryVariables, "cursor">) =>\n  suspenseOptions(listPostsInfiniteQueryOptions(variables))',
+    );
+    expect(result.content).toContain(
+      'export const ensureListPostsInfiniteQueryData = (queryClient: QueryClient, variables: Omit<ListPostsQueryVariables, "cursor">) =>\n  queryClient.ensureInfiniteQueryData(listPostsInfiniteQueryOptions(variables))',
+    );
+  });
+
+  it("leaves out suspense options unless opted in", async () => {
+    const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
+    const result = generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema,
+    });
+
+    expect(result.content).not.toContain("suspenseOptions");
+    expect(result.content).not.toContain("ensureGetUserQueryData");
+  });
+});
+
+describe("bidirectional infinite queries", () => {
+  const generate = async (queryOverrides?: QueryOverridesConfig) => {
+    const documents = await loadDocuments(
+      `${fixturesDir}/relay-bidirectional-operations.graphql`,
+    );
+    return generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema: relaySchema,
+      queryOverrides,
+    });
+  };
+
+  it("pages Relay connections backward with the before and last variables", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'export const listPostsTimelineInfiniteQueryOptions = (variables: Omit<ListPostsTimelineQueryVariables, "after" | "before" | "last">) =>',
+    );
+    expect(result.content).toContain(
+      "queryFn: ({ pageParam, signal }) => listPostsTimeline({ ...variables, ...pageParam }, { signal }),",
+    );
+    expect(result.content).toContain(
+      'initialPageParam: {} as Pick<ListPostsTimelineQueryVariables, "after" | "before" | "first" | "last">,',
+    );
+    expect(result.content).toContain(
+      "getNextPageParam: (lastPage) => lastPage.posts?.pageInfo?.hasNextPage ? { after: lastPage.posts?.pageInfo?.endCursor ?? undefined, before: undefined, first: variables.first, last: undefined } : undefined,",
+    );
+    // Previous pages take the last edges before their cursor
+    expect(result.content).toContain(
+      "getPreviousPageParam: (firstPage) => firstPage.posts?.pageInfo?.hasPreviousPage ? { after: undefined, before: firstPage.posts?.pageInfo?.startCursor ?? undefined, first: undefined, last: variables.first } : undefined,",
+    );
+  });
+
+  it("reads the page size from optional variables", async () => {
+    const result = await generate();
+
+    expect(result.content).toContain(
+      'export const listRecentPostsInfiniteQueryOptions = (variables?: Omit<ListRecentPostsQueryVariables, "after" | "before" | "last">) =>',
+    );
+    expect(result.content).toContain(
+      "first: undefined, last: variables?.first } : undefined,",
+    );
+  });
+
+  it("warns about Relay connections passing before without last", async () => {
+    const result = await generate();
+
+    expect(result.content).toMatch(
+      /listPostsBeforeInfiniteQueryOptions = [^\n]*\n(?:(?!getPreviousPageParam)[^\n]*\n)*?\s*\}\)/,
+    );
+    expect(result.warnings).toContainEqual(
+      'Query "ListPostsBefore" passes "before" but not both "first" and "last", so getPreviousPageParam is not generated: previous pages need the last edges before their cursor. Pass "first" and "last" to page backward.',
+    );
+    expect(result.warnings).not.toContainEqual(
+      expect.stringContaining('Query "ListPostsTimeline"'),
+    );
+  });
+
+  it("leaves out getPreviousPageParam without a before variable", async () => {
+    const documents = await loadDocuments(
+      `${fixturesDir}/relay-operations.graphql`,
+    );
+    const result = generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema: relaySchema,
+    });
+
+    expect(result.content).not.toContain("getPreviousPageParam");
+  });
+
+  it("limits cached pages with maxPages", async () => {
+    const result = await generate({
+      operations: { ListPostsTimeline: { maxPages: 5 } },
+    });
+
+    expect(result.content).toContain("maxPages: 5,");
+    expect(result.warnings).not.toContainEqual(
+      expect.stringContaining("maxPages"),
+    );
+  });
+
+  it("warns about maxPages without a previous page param", async () => {
+    const documents = await loadDocuments(
+      `${fixturesDir}/relay-operations.graphql`,
+    );
+    const result = generateGraphQLOperations({
+      documents,
+      typesImportPath: "./types",
+      functionsImportPath: "../functions",
+      keysImportPath: "../keys",
+      sourceName: "test",
+      schema: relaySchema,
+      queryOverrides: { operations: { ListPosts: { maxPages: 3 } } },
+    });
+
+    expect(result.content).toContain("maxPages: 3,");
+    expect(result.warnings).toContainEqual(
+      expect.stringContaining(
+        'Query "ListPosts" sets maxPages but its previous page param could not be determined',
+      ),
+    );
+  });
 });
@@ -2,51 +2,116 @@
  * GraphQL operations generation
  *
  * Generates queryOptions, infiniteQueryOptions, and mutationOptions that import
- * standalone fetch functions from functions.ts.
+ * standalone fetch functions from functions.ts. Subscriptions get streamed
+ * queryOptions and helpers that write their events into the query cache.
  */
 
-import { Kind } from "graphql";
+import {
+  Kind,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isListType,
+} from "graphql";
 
 import {
   analyzePaginationCapabilities,
   analyzeRelayConnection,
   getGraphQLPageParamName,
 } from "@/adapters/graphql/analysis";
+import { getOperationDoc } from "@/core/documents";
+import {
+  STREAMED_QUERY_IMPORT,
+  getFrameworkPackages,
+  writeCoreQueryHelpers,
+  writeQueryHelperImports,
+} from "@/utils/framework";
 import {
+  getSafePropertyAccess,
   toCamelCase,
+  toInfiniteQueryKeyName,
   toInfiniteQueryOptionsName,
   toMutationOptionsName,
   toMutationVariablesTypeName,
+  toOperationVariablesTypeName,
+  toQueryKeysName,
   toQueryOptionsName,
+  toQueryTypeName,
   toQueryVariablesTypeName,
+  toSubscribeFunctionName,
+  toSubscriptionTypeName,
+  toSubscriptionVariablesTypeName,
 } from "@/utils/naming";
 import {
   createWriter,
+  writeDocComment,
   writeHeader,
   writeImport,
   writeSectionComment,
 } from "@/utils/writer";
+import {
+  resolveInvalidatedQueries,
+  writeInvalidationMap,
+  writeInvalidationOnSuccess,
+} from "./invalidation";
+import { writeOptimisticHandlers, writeOptimisticUpdates } from "./optimistic";
+import {
+  canFetchPreviousPages,
+  formatPreviousPageParam,
+  formatRelayPageParamType,
+  formatRelayPageParams,
+  getPageParamNames,
+  getRelayCursorParams,
+  getRelayPageSizeWarning,
+} from "./page-params";
+import {
+  addQueryKey,
+  generateQueryKeysCode,
+  getQueryKeyCall,
+  getQueryKeyPrefix,
+  isDetailQueryKey,
+  toQueryKeyGroupName,
+} from "./query-keys";
+import { formatOptionsParam, writeSuspenseQueries } from "./suspense";
 
 import type CodeBlockWriter from "code-block-writer";
-import type { FieldNode, GraphQLSchema } from "graphql";
-import type { InfiniteQueryPaginationInfo } from "@/adapters/types";
+import type { FieldNode, GraphQLArgument, GraphQLSchema } from "graphql";
+import type {
+  CollectionEntity,
+  InfiniteQueryPaginationInfo,
+} from "@/adapters/types";
 import type {
+  Framework,
   InfiniteQueryOverrideConfig,
   QueryOverridesConfig,
 } from "@/core/config";
 import type { ParsedDocuments, ParsedOperation } from "@/core/documents";
+import type { MutationInvalidation } from "./invalidation";
+import type {
+  MutationOptimisticUpdate,
+  OptimisticQueryUpdate,
+} from "./optimistic";
+import type { RelayCursorParams } from "./page-params";
+import type { QueryKeyEntry, QueryKeyGroup } from "./query-keys";
+import type { OptionsParam, SuspenseQuery } from "./suspense";
 
 export interface OperationsGeneratorOptions {
   documents: ParsedDocuments;
   typesImportPath: string;
   /** Relative import path to the functions file */
   functionsImportPath: string;
+  /** Relative import path to the query keys file */
+  keysImportPath: string;
   /** The source name to include in query/mutation keys */
   sourceName: string;
   /** GraphQL schema for analyzing field arguments and return types */
   schema: GraphQLSchema;
   /** Query overrides from config */
   queryOverrides?: QueryOverridesConfig;
+  /** Framework target for TanStack Query imports (default: "react") */
+  framework?: Framework;
+  /** Discovered entities, for optimistic updates */
+  entities?: CollectionEntity[];
 }
 
 /**
@@ -100,6 +165,23 @@ function mapSchemaArgToVariable(
   return arg.value.name.value;
 }
 
+/**
+ * Map the "first" and "last" args of a Relay connection field to the
+ * variables the document passes them as, when it passes both
+ */
+function mapPageSizeArgsToVariables(
+  fieldNode: FieldNode,
+  schemaArgs: readonly GraphQLArgument[],
+): { first: string; last: string } | undefined {
+  const [first, last] = ["first", "last"].map((name) => {
+    const schemaArg = schemaArgs.find((a) => a.name.toLowerCase() === name);
+    return schemaArg
+      ? mapSchemaArgToVariable(fieldNode, schemaArg.name)
+      : undefined;
+  });
+  return first && last ? { first, last } : undefined;
+}
+
 /**
  * Analyze queries for pagination capabilities using schema-first detection.
  *
@@ -111,7 +193,7 @@ function analyzePaginatedQueries(
   queries: ParsedOperation[],
   schema: GraphQLSchema,
   queryOverrides: QueryOverridesConfig | undefined,
-  _warnings: string[],
+  warnings: string[],
 ): PaginatedQueryInfo[] {
   const queryType = schema.getQueryType();
   if (!queryType) {
@@ -178,9 +260,31 @@ function analyzePaginatedQueries(
         nextCursorPath: responseInfo.nextCursorPath
           ? [responseKey, ...responseInfo.nextCursorPath]
           : undefined,
+        hasPreviousPath: responseInfo.hasPreviousPath
+          ? [responseKey, ...responseInfo.hasPreviousPath]
+          : undefined,
+        prevCursorPath: responseInfo.prevCursorPath
+          ? [responseKey, ...responseInfo.prevCursorPath]
+          : undefined,
       };
     }
 
+    // Previous pages of Relay connections pass startCursor as "before", when
+    // the document passes it as a variable
+    const schemaBeforeArg = schemaField.args.find(
+      (a) => a.name.toLowerCase() === "before",
+    );
+    const previousPageParamName =
+      responseInfo.prevCursorPath &&
+      schemaBeforeArg &&
+      schemaBeforeArg.name !== schemaPageParamName
+        ? mapSchemaArgToVariable(fieldNode, schemaBeforeArg.name)
+        : undefined;
+    // ...with "last" instead of "first" as the page size
+    const pageSizeParamNames = previousPageParamName
+      ? mapPageSizeArgsToVariables(fieldNode, schemaField.args)
+      : undefined;
+
     // If user provided getNextPageParamPath override, use cursor style
     if (override?.getNextPageParamPath) {
       responseInfo = { style: "cursor" };
@@ -191,14 +295,33 @@ function analyzePaginatedQueries(
       return { operation, paginationInfo: null };
     }
 
-    return {
-      operation,
-      paginationInfo: {
-        params: paginationParams,
-        response: responseInfo,
-        pageParamName,
-      },
+    const paginationInfo: InfiniteQueryPaginationInfo = {
+      params: paginationParams,
+      response: responseInfo,
+      pageParamName,
+      previousPageParamName,
+      pageSizeParamNames,
     };
+
+    const pageSizeWarning = getRelayPageSizeWarning(
+      `Query "${operation.name}"`,
+      paginationInfo,
+      override,
+    );
+    if (pageSizeWarning) warnings.push(pageSizeWarning);
+
+    if (
+      override?.maxPages &&
+      !canFetchPreviousPages(paginationInfo, override)
+    ) {
+      warnings.push(
+        `Query "${operation.name}" sets maxPages but its previous page param could not be determined, ` +
+          `so pages dropped by maxPages cannot be fetched again. ` +
+          `Configure 'overrides.query.operations.${operation.name}.getPreviousPageParamPath' to enable.`,
+      );
+    }
+
+    return { operation, paginationInfo };
   });
 }
 
@@ -212,58 +335,58 @@ function analyzePaginatedQueries(
 function writeInfiniteQueryOptions(
   writer: CodeBlockWriter,
   operation: ParsedOperation,
-  sourceName: string,
+  keyGroups: QueryKeyGroup[],
   paginationInfo: InfiniteQueryPaginationInfo,
   override?: InfiniteQueryOverrideConfig,
 ): void {
   const optionsFnName = toInfiniteQueryOptionsName(operation.name);
   const fetchFnName = toCamelCase(operation.name);
-  const variablesType = toQueryVariablesTypeName(operation.name);
   const pageParamName = paginationInfo.pageParamName;
 
-  const variableDefs = operation.node.variableDefinitions ?? [];
-  const hasVariables = variableDefs.length > 0;
-
-  // Check if there are other variables besides the page param
-  const otherVariables = variableDefs.filter(
-    (v) => v.variable.name.value !== pageParamName,
+  const hasVariables = (operation.node.variableDefinitions ?? []).length > 0;
+  const param = getInfiniteQueryVariablesParam(
+    operation,
+    getPageParamNames(paginationInfo, override),
   );
-  const hasOtherVariables = otherVariables.length > 0;
-
-  // Check if all other variables are optional
-  const allOtherOptional =
-    hasOtherVariables &&
-    otherVariables.every((v) => v.type.kind !== "NonNullType");
-
-  // Determine the variables type (Omit the page param)
-  let varsParam: string | null = null;
-  if (hasOtherVariables) {
-    const omitType = `Omit<${variablesType}, "${pageParamName}">`;
-    varsParam = allOtherOptional
-      ? `variables?: ${omitType}`
-      : `variables: ${omitType}`;
-  }
 
-  // Build query key
-  const queryKey = hasOtherVariables
-    ? `["${sourceName}", "${operation.name}", "infinite", variables]`
-    : `["${sourceName}", "${operation.name}", "infinite"]`;
+  // Build query key from the key factory (excludes page param)
+  const queryKey = getQueryKeyCall(
+    keyGroups,
+    toInfiniteQueryKeyName(operation.name),
+    param ? "variables" : "",
+  );
 
   // Determine initialPageParam
   const initialPageParam =
     override?.initialPageParam ?? getDefaultInitialPageParam(paginationInfo);
 
-  // Generate getNextPageParam expression
+  // Write the function signature
+  writer
+    .write(`export const ${optionsFnName} = (${formatOptionsParam(param)}) =>`)
+    .newLine();
+
+  // Relay pagination that pages backward holds both cursors in its page param
+  const cursorParams = getRelayCursorParams(paginationInfo, override);
+  if (cursorParams) {
+    writeRelayInfiniteQueryOptions(
+      writer,
+      operation,
+      paginationInfo,
+      cursorParams,
+      queryKey,
+      override,
+    );
+    return;
+  }
+
+  // Generate getNextPageParam and getPreviousPageParam expressions
   const getNextPageParamExpr = override?.getNextPageParamPath
     ? generateAccessorFromPath(override.getNextPageParamPath)
     : generateGetNextPageParam(paginationInfo);
-
-  // Write the function signature
-  if (!varsParam) {
-    writer.write(`export const ${optionsFnName} = () =>`).newLine();
-  } else {
-    writer.write(`export const ${optionsFnName} = (${varsParam}) =>`).newLine();
-  }
+  const getPreviousPageParamExpr = formatPreviousPageParam(
+    paginationInfo,
+    override,
+  );
 
   writer
     .indent()
@@ -271,19 +394,21 @@ function writeInfiniteQueryOptions(
     .inlineBlock(() => {
       writer.writeLine(`queryKey: ${queryKey},`);
 
-      // queryFn with pageParam
+      // queryFn with pageParam, passing on the signal to cancel the request
       if (hasVariables) {
-        if (hasOtherVariables) {
+        if (param) {
           writer.writeLine(
-            `queryFn: ({ pageParam }) => ${fetchFnName}({ ...variables, ${pageParamName}: pageParam }),`,
+            `queryFn: ({ pageParam, signal }) => ${fetchFnName}({ ...variables, ${pageParamName}: pageParam }, { signal }),`,
           );
         } else {
           writer.writeLine(
-            `queryFn: ({ pageParam }) => ${fetchFnName}({ ${pageParamName}: pageParam }),`,
+            `queryFn: ({ pageParam, signal }) => ${fetchFnName}({ ${pageParamName}: pageParam }, { signal }),`,
           );
         }
       } else {
-        writer.writeLine(`queryFn: ({ pageParam }) => ${fetchFnName}(),`);
+        writer.writeLine(
+          `queryFn: ({ signal }) => ${fetchFnName}({ signal }),`,
+        );
       }
 
       // initialPageParam - add type annotation for cursor-based pagination
@@ -312,6 +437,72 @@ function writeInfiniteQueryOptions(
       writer.writeLine(
         `getNextPageParam: (lastPage) => ${getNextPageParamExpr},`,
       );
+      if (getPreviousPageParamExpr) {
+        writer.writeLine(
+          `getPreviousPageParam: (firstPage) => ${getPreviousPageParamExpr},`,
+        );
+      }
+      if (override?.maxPages) {
+        writer.writeLine(`maxPages: ${override.maxPages},`);
+      }
+    })
+    .write(")");
+}
+
+/**
+ * Write the infiniteQueryOptions call of Relay pagination that pages
+ * backward. Next pages pass their cursor as "after", and previous pages pass
+ * theirs as "before", with the page size as "last".
+ */
+function writeRelayInfiniteQueryOptions(
+  writer: CodeBlockWriter,
+  operation: ParsedOperation,
+  paginationInfo: InfiniteQueryPaginationInfo,
+  cursorParams: RelayCursorParams,
+  queryKey: string,
+  override?: InfiniteQueryOverrideConfig,
+): void {
+  const fetchFnName = toCamelCase(operation.name);
+  const { next, first, last } = cursorParams;
+  const pageParamType = formatRelayPageParamType(
+    toQueryVariablesTypeName(operation.name),
+    cursorParams,
+  );
+  // The options take "first" with their other variables
+  const param = getInfiniteQueryVariablesParam(operation, [
+    next,
+    cursorParams.previous,
+    last,
+  ]);
+  const pageSize = `variables${param?.optional ? "?." : "."}${first}`;
+  const pageParams = formatRelayPageParams(
+    paginationInfo,
+    cursorParams,
+    pageSize,
+  );
+  const initialPageParam =
+    typeof override?.initialPageParam === "string"
+      ? `{ ${next}: ${JSON.stringify(override.initialPageParam)} }`
+      : "{}";
+
+  writer
+    .indent()
+    .write("infiniteQueryOptions(")
+    .inlineBlock(() => {
+      writer.writeLine(`queryKey: ${queryKey},`);
+      writer.writeLine(
+        `queryFn: ({ pageParam, signal }) => ${fetchFnName}({ ...variables, ...pageParam }, { signal }),`,
+      );
+      writer.writeLine(
+        `initialPageParam: ${initialPageParam} as ${pageParamType},`,
+      );
+      writer.writeLine(`getNextPageParam: (lastPage) => ${pageParams.next},`);
+      writer.writeLine(
+        `getPreviousPageParam: (firstPage) => ${pageParams.previous},`,
+      );
+      if (override?.maxPages) {
+        writer.writeLine(`maxPages: ${override.maxPages},`);
+      }
     })
     .write(")");
 }
@@ -387,9 +578,12 @@ export function generateGraphQLOperations(
     documents,
     typesImportPath,
     functionsImportPath,
+    keysImportPath,
     sourceName,
     schema,
     queryOverrides,
+    framework,
+    entities = [],
   } = options;
   const { operations } = documents;
   const warnings: string[] = [];
@@ -401,8 +595,12 @@ export function generateGraphQLOperations(
   // Determine what imports we need
   const queries = operations.filter((op) => op.operation === "query");
   const mutations = operations.filter((op) => op.operation === "mutation");
+  const subscriptions = operations.filter(
+    (op) => op.operation === "subscription",
+  );
   const hasQueries = queries.length > 0;
   const hasMutations = mutations.length > 0;
+  const hasSubscriptions = subscriptions.length > 0;
 
   // Analyze pagination for queries
   const paginatedQueries = analyzePaginatedQueries(
@@ -418,15 +616,47 @@ export function generateGraphQLOperations(
       paginationInfo: InfiniteQueryPaginationInfo;
     } => q.paginationInfo !== null,
   );
+  const keyGroups = getGraphQLQueryKeyGroups(
+    [...queries, ...subscriptions],
+    infiniteQueries,
+    schema,
+    sourceName,
+  );
+  const invalidations = getGraphQLMutationInvalidations(
+    queries,
+    mutations,
+    keyGroups,
+    schema,
+    sourceName,
+    queryOverrides,
+    warnings,
+  );
+  const optimisticUpdates = getGraphQLOptimisticUpdates(
+    queries,
+    mutations,
+    keyGroups,
+    entities,
+    schema,
+    queryOverrides,
+    warnings,
+  );
+  const suspenseQueries = queryOverrides?.suspense
+    ? getGraphQLSuspenseQueries(queries, infiniteQueries, queryOverrides)
+    : [];
 
   // External imports (sorted alphabetically)
   const tanstackImports: string[] = [];
   if (infiniteQueries.length > 0) tanstackImports.push("infiniteQueryOptions");
   if (hasMutations) tanstackImports.push("mutationOptions");
-  if (hasQueries) tanstackImports.push("queryOptions");
+  if (hasQueries || hasSubscriptions) tanstackImports.push("queryOptions");
 
   if (tanstackImports.length > 0) {
-    writeImport(writer, "@tanstack/react-query", tanstackImports);
+    writeQueryHelperImports(
+      writer,
+      framework,
+      tanstackImports,
+      hasSubscriptions ? [STREAMED_QUERY_IMPORT] : [],
+    );
   }
 
   // Internal imports (sorted alphabetically)
@@ -435,21 +665,56 @@ export function generateGraphQLOperations(
     writer.blankLine();
     writeImport(writer, functionsImportPath, functionImports);
   }
+  if (keyGroups.length > 0) {
+    writeImport(
+      writer,
+      keysImportPath,
+      keyGroups.map((group) => toQueryKeysName(group.name)),
+    );
+  }
 
   // Type imports (sorted alphabetically, always last with blank line)
-  const typeImports = generateVariableTypeImports(operations);
-  if (typeImports.length > 0) {
+  const typeImports = [
+    ...new Set([
+      ...generateVariableTypeImports(operations),
+      ...optimisticUpdates.flatMap((u) => u.queries.map((q) => q.dataType)),
+    ]),
+  ].sort();
+  const queryTypeImports = new Set<string>();
+  if (
+    hasSubscriptions ||
+    invalidations.length > 0 ||
+    optimisticUpdates.length > 0
+  ) {
+    queryTypeImports.add("QueryClient").add("QueryKey");
+  }
+  if (suspenseQueries.length > 0) {
+    queryTypeImports.add("QueryClient").add("SkipToken");
+  }
+  if (queryTypeImports.size > 0 || typeImports.length > 0) {
     writer.blankLine();
-    writeImport(writer, typesImportPath, typeImports, true);
   }
+  writeImport(
+    writer,
+    getFrameworkPackages(framework).query,
+    [...queryTypeImports].sort(),
+    true,
+  );
+  writeImport(writer, typesImportPath, typeImports, true);
 
   writer.blankLine();
 
+  if (framework === "core" && tanstackImports.length > 0) {
+    writeCoreQueryHelpers(writer, tanstackImports);
+    writer.blankLine();
+  }
+
   // Generate query options
   if (hasQueries) {
     writeSectionComment(writer, "Query Options");
     for (const operation of queries) {
-      writeQueryOptions(writer, operation, sourceName);
+      writeDocComment(writer, getOperationDoc(operation, schema));
+      writeQueryOptions(writer, operation, keyGroups);
       writer.blankLine();
     }
   }
@@ -459,10 +724,11 @@ export function generateGraphQLOperations(
     writeSectionComment(writer, "Infinite Query Options");
     for (const { operation, paginationInfo } of infiniteQueries) {
       const override = queryOverrides?.operations?.[operation.name];
+      writeDocComment(writer, getOperationDoc(operation, schema));
       writeInfiniteQueryOptions(
         writer,
         operation,
-        sourceName,
+        keyGroups,
         paginationInfo,
         override,
       );
@@ -470,11 +736,53 @@ export function generateGraphQLOperations(
     }
   }
 
+  // Generate suspense options and ensure helpers when opted in
+  if (suspenseQueries.length > 0) {
+    writeSuspenseQueries(writer, suspenseQueries);
+    writer.blankLine();
+  }
+
+  // Generate the queries each mutation invalidates
+  if (invalidations.length > 0) {
+    writeInvalidationMap(writer, invalidations);
+    writer.blankLine();
+  }
+
+  // Generate the optimistic updates of mutations that opt in
+  if (optimisticUpdates.length > 0) {
+    writeOptimisticUpdates(writer, optimisticUpdates);
+    writer.blankLine();
+  }
+
   // Generate mutation options
   if (hasMutations) {
     writeSectionComment(writer, "Mutation Options");
     for (const operation of mutations) {
-      writeMutationOptions(writer, operation, sourceName);
+      const name = toCamelCase(operation.name);
+      writeDocComment(writer, getOperationDoc(operation, schema));
+      writeMutationOptions(
+        writer,
+        operation,
+        sourceName,
+        invalidations.find((i) => i.name === name),
+        optimisticUpdates.find((u) => u.name === name),
+      );
+      writer.blankLine();
+    }
+  }
+
+  // Generate subscription options and cache helpers
+  if (hasSubscriptions) {
+    writeSectionComment(writer, "Subscription Options");
+    writeSubscriptionHelpers(writer);
+    writer.blankLine();
+    for (const operation of subscriptions) {
+      const doc = getOperationDoc(operation, schema);
+      writeDocComment(writer, doc);
+      writeSubscriptionOptions(writer, operation, keyGroups);
+      writer.blankLine();
+      writeDocComment(writer, doc);
+      writeSubscribeFunction(writer, operation);
       writer.blankLine();
     }
   }
@@ -507,11 +815,10 @@ function generateVariableTypeImports(operations: ParsedOperation[]): string[] {
       op.node.variableDefinitions && op.node.variableDefinitions.length > 0;
 
     if (hasVariables) {
-      if (op.operation === "query") {
-        imports.push(toQueryVariablesTypeName(op.name));
-      } else if (op.operation === "mutation") {
-        imports.push(toMutationVariablesTypeName(op.name));
-      }
+      imports.push(toOperationVariablesTypeName(op.name, op.operation));
+    }
+    if (op.operation === "subscription") {
+      imports.push(toSubscriptionTypeName(op.name));
     }
   }
 
@@ -519,67 +826,114 @@ function generateVariableTypeImports(operations: ParsedOperation[]): string[] {
 }
 
 /**
- * Write queryOptions for a query operation
+ * Get the variables of a query's options (undefined when it has none), which
+ * are optional when every variable is
+ */
+function getQueryVariablesParam(
+  operation: ParsedOperation,
+): OptionsParam | undefined {
+  const variableDefs = operation.node.variableDefinitions ?? [];
+  if (variableDefs.length === 0) return undefined;
+  return {
+    name: "variables",
+    type: toQueryVariablesTypeName(operation.name),
+    optional: variableDefs.every((v) => v.type.kind !== "NonNullType"),
+  };
+}
+
+/**
+ * Get the variables of a paginated query's infinite options, which omit the
+ * page param (undefined when it has no other variables)
+ */
+function getInfiniteQueryVariablesParam(
+  operation: ParsedOperation,
+  pageParamNames: string[],
+): OptionsParam | undefined {
+  const otherVariables = (operation.node.variableDefinitions ?? []).filter(
+    (v) => !pageParamNames.includes(v.variable.name.value),
+  );
+  if (otherVariables.length === 0) return undefined;
+  return {
+    name: "variables",
+    type: `Omit<${toQueryVariablesTypeName(operation.name)}, ${pageParamNames.map((name) => `"${name}"`).join(" | ")}>`,
+    optional: otherVariables.every((v) => v.type.kind !== "NonNullType"),
+  };
+}
+
+/**
+ * Get the queries with suspense options: every query and infinite query
+ */
+function getGraphQLSuspenseQueries(
+  queries: ParsedOperation[],
+  infiniteQueries: {
+    operation: ParsedOperation;
+    paginationInfo: InfiniteQueryPaginationInfo;
+  }[],
+  queryOverrides: QueryOverridesConfig | undefined,
+): SuspenseQuery[] {
+  return [
+    ...queries.map((operation) => ({
+      name: operation.name,
+      infinite: false,
+      param: getQueryVariablesParam(operation),
+    })),
+    ...infiniteQueries.map(({ operation, paginationInfo }) => ({
+      name: operation.name,
+      infinite: true,
+      param: getInfiniteQueryVariablesParam(
+        operation,
+        getPageParamNames(
+          paginationInfo,
+          queryOverrides?.operations?.[operation.name],
+        ),
+      ),
+    })),
+  ];
+}
+
+/**
+ * Write queryOptions for a query operation. queryFn passes on the signal
+ * TanStack Query gives it, so unused requests are cancelled.
  */
 function writeQueryOptions(
   writer: CodeBlockWriter,
   operation: ParsedOperation,
-  sourceName: string,
+  keyGroups: QueryKeyGroup[],
 ): void {
   const optionsFnName = toQueryOptionsName(operation.name);
   const fetchFnName = toCamelCase(operation.name);
-  const variablesType = toQueryVariablesTypeName(operation.name);
-
-  const hasVariables =
-    operation.node.variableDefinitions &&
-    operation.node.variableDefinitions.length > 0;
-
-  // Check if all variables are optional
-  const allOptional =
-    hasVariables &&
-    operation.node.variableDefinitions?.every(
-      (v) => v.type.kind !== "NonNullType",
-    );
-
-  if (!hasVariables) {
-    writer.write(`export const ${optionsFnName} = () =>`).newLine();
-    writer
-      .indent()
-      .write("queryOptions(")
-      .inlineBlock(() => {
-        writer.writeLine(`queryKey: ["${sourceName}", "${operation.name}"],`);
-        writer.writeLine(`queryFn: () => ${fetchFnName}(),`);
-      })
-      .write(")");
-    return;
-  }
-
-  const variableParam = allOptional
-    ? `variables?: ${variablesType}`
-    : `variables: ${variablesType}`;
+  const param = getQueryVariablesParam(operation);
+  const args = param ? "variables" : "";
+  const fetchArgs = param ? "variables, { signal }" : "{ signal }";
 
   writer
-    .write(`export const ${optionsFnName} = (${variableParam}) =>`)
+    .write(`export const ${optionsFnName} = (${formatOptionsParam(param)}) =>`)
     .newLine();
   writer
     .indent()
     .write("queryOptions(")
     .inlineBlock(() => {
       writer.writeLine(
-        `queryKey: ["${sourceName}", "${operation.name}", variables],`,
+        `queryKey: ${getQueryKeyCall(keyGroups, toCamelCase(operation.name), args)},`,
+      );
+      writer.writeLine(
+        `queryFn: ({ signal }) => ${fetchFnName}(${fetchArgs}),`,
       );
-      writer.writeLine(`queryFn: () => ${fetchFnName}(variables),`);
     })
     .write(")");
 }
 
 /**
- * Write mutationOptions for a mutation operation
+ * Write mutationOptions for a mutation operation. Mutations that invalidate
+ * or optimistically update queries take an optional query client to do so
+ * with.
  */
 function writeMutationOptions(
   writer: CodeBlockWriter,
   operation: ParsedOperation,
   sourceName: string,
+  invalidation?: MutationInvalidation,
+  optimisticUpdate?: MutationOptimisticUpdate,
 ): void {
   const optionsFnName = toMutationOptionsName(operation.name);
   const fetchFnName = toCamelCase(operation.name);
@@ -589,7 +943,10 @@ function writeMutationOptions(
     operation.node.variableDefinitions &&
     operation.node.variableDefinitions.length > 0;
 
-  writer.write(`export const ${optionsFnName} = () =>`).newLine();
+  const param =
+    invalidation || optimisticUpdate ? "queryClient?: QueryClient" : "";
+
+  writer.write(`export const ${optionsFnName} = (${param}) =>`).newLine();
   writer
     .indent()
     .write("mutationOptions(")
@@ -602,6 +959,509 @@ function writeMutationOptions(
           `mutationFn: (variables: ${variablesType}) => ${fetchFnName}(variables),`,
         );
       }
+      if (optimisticUpdate) {
+        writeOptimisticHandlers(writer, optimisticUpdate, invalidation);
+      } else if (invalidation) {
+        writeInvalidationOnSuccess(writer, invalidation);
+      }
+    })
+    .write(")");
+}
+
+/**
+ * Write the local helpers shared by subscription options
+ */
+function writeSubscriptionHelpers(writer: CodeBlockWriter): void {
+  writer.writeLine(`/**
+ * Options for writing subscription events into the query cache
+ */
+export type SubscriptionCacheOptions<TEvent, TData> = {
+  /** Query whose cached data is updated */
+  queryKey: QueryKey
+  /** Merge an event into the cached data */
+  update: (data: TData | undefined, event: TEvent) => TData | undefined
+  /** Called when the subscription fails */
+  onError?: (error: unknown) => void
+}
+
+const feedQueryData = <TEvent, TData>(
+  queryClient: QueryClient,
+  events: AsyncGenerator<TEvent>,
+  { queryKey, update, onError }: SubscriptionCacheOptions<TEvent, TData>,
+) => {
+  void (async () => {
+    try {
+      for await (const event of events) {
+        queryClient.setQueryData<TData>(queryKey, (data) => update(data, event))
+      }
+    } catch (error) {
+      onError?.(error)
+    }
+  })()
+  return () => {
+    void events.return(undefined)
+  }
+}
+
+const stopOnAbort = <TEvent>(
+  events: AsyncGenerator<TEvent>,
+  signal: AbortSignal,
+) => {
+  signal.addEventListener("abort", () => void events.return(undefined), {
+    once: true,
+  })
+  return events
+}`);
+}
+
+/**
+ * Get the variables parameter for a subscription (null when it has none)
+ */
+function getSubscriptionVariableParam(
+  operation: ParsedOperation,
+): string | null {
+  const variables = operation.node.variableDefinitions ?? [];
+  if (variables.length === 0) return null;
+
+  const variablesType = toSubscriptionVariablesTypeName(operation.name);
+  const allOptional = variables.every((v) => v.type.kind !== "NonNullType");
+  return allOptional
+    ? `variables?: ${variablesType}`
+    : `variables: ${variablesType}`;
+}
+
+/**
+ * Write streamed queryOptions for a subscription operation.
+ * The query data is the array of events received so far, and cancelling the
+ * query ends the subscription.
+ */
+function writeSubscriptionOptions(
+  writer: CodeBlockWriter,
+  operation: ParsedOperation,
+  keyGroups: QueryKeyGroup[],
+): void {
+  const optionsFnName = toQueryOptionsName(operation.name);
+  const subscribeFnName = toCamelCase(operation.name);
+  const variableParam = getSubscriptionVariableParam(operation);
+  const args = variableParam ? "variables" : "";
+  const queryKey = getQueryKeyCall(keyGroups, subscribeFnName, args);
+
+  writer
+    .write(`export const ${optionsFnName} = (${variableParam ?? ""}) =>`)
+    .newLine();
+  writer
+    .indent()
+    .write("queryOptions(")
+    .inlineBlock(() => {
+      writer.writeLine(`queryKey: ${queryKey},`);
+      writer.writeLine(
+        `queryFn: streamedQuery({ streamFn: ({ signal }) => stopOnAbort(${subscribeFnName}(${args}), signal) }),`,
+      );
     })
     .write(")");
 }
+
+/**
+ * Write a helper that starts a subscription and writes each event into the
+ * cached data of a query. Returns a function that ends the subscription.
+ */
+function writeSubscribeFunction(
+  writer: CodeBlockWriter,
+  operation: ParsedOperation,
+): void {
+  const fnName = toSubscribeFunctionName(operation.name);
+  const subscribeFnName = toCamelCase(operation.name);
+  const eventType = toSubscriptionTypeName(operation.name);
+  const variableParam = getSubscriptionVariableParam(operation);
+
+  const optionsType = variableParam
+    ? `SubscriptionCacheOptions<${eventType}, TData> & { ${variableParam} }`
+    : `SubscriptionCacheOptions<${eventType}, TData>`;
+  const args = variableParam ? "options.variables" : "";
+
+  writer
+    .write(
+      `export const ${fnName} = <TData>(queryClient: QueryClient, options: ${optionsType}) =>`,
+    )
+    .newLine();
+  writer
+    .indent()
+    .write(`feedQueryData(queryClient, ${subscribeFnName}(${args}), options)`);
+}
+
+// =============================================================================
+// Query Keys Generation
+// =============================================================================
+
+/**
+ * Options for GraphQL query keys generation
+ */
+export interface GraphQLKeysGeneratorOptions {
+  documents: ParsedDocuments;
+  /** GraphQL schema for looking up root fields */
+  schema: GraphQLSchema;
+  typesImportPath: string;
+  /** The source name, the first segment of every key */
+  sourceName: string;
+  /** Query overrides from config (for infinite query keys) */
+  queryOverrides?: QueryOverridesConfig;
+}
+
+/**
+ * Generate the query key factories of a GraphQL source
+ */
+export function generateGraphQLKeys(
+  options: GraphQLKeysGeneratorOptions,
+): string {
+  const { documents, schema, sourceName, queryOverrides } = options;
+  const operations = documents.operations.filter(
+    (op) => op.operation !== "mutation",
+  );
+  const queries = operations.filter((op) => op.operation === "query");
+  const infiniteQueries = analyzePaginatedQueries(
+    queries,
+    schema,
+    queryOverrides,
+    [],
+  ).filter((q) => q.paginationInfo !== null);
+
+  return generateQueryKeysCode(
+    getGraphQLQueryKeyGroups(operations, infiniteQueries, schema, sourceName),
+    {
+      sourceName,
+      typesImportPath: options.typesImportPath,
+      typeImports: generateVariableTypeImports(operations).filter((name) =>
+        name.endsWith("Variables"),
+      ),
+    },
+  );
+}
+
+/**
+ * Get the query key group of an operation from its first root field: the
+ * object type the field returns (without a `Connection` suffix), or else the
+ * field name
+ * e.g., `user(id: $id)` and `users` returning `User` -> "user"
+ */
+export function getGraphQLQueryKeyGroupName(
+  operation: ParsedOperation,
+  schema: GraphQLSchema,
+  sourceName: string,
+): string {
+  const fieldNode = getFirstQueriedField(operation);
+  const rootType = schema.getRootType(operation.node.operation);
+  const field = fieldNode && rootType?.getFields()[fieldNode.name.value];
+  if (!field) {
+    return toQueryKeyGroupName(operation.operation, sourceName);
+  }
+
+  const namedType = getNamedType(field.type);
+  if (isCompositeType(namedType)) {
+    const resource = namedType.name.replace(/Connection$/, "");
+    return toQueryKeyGroupName(resource || namedType.name, sourceName);
+  }
+  return toQueryKeyGroupName(field.name, sourceName);
+}
+
+/**
+ * Group the query keys of query and subscription operations. Queries whose
+ * root field returns a list or connection are lists, the others are details,
+ * keyed by the variable passed as the field's `id` argument. Subscriptions
+ * sit directly under their group.
+ */
+function getGraphQLQueryKeyGroups(
+  operations: ParsedOperation[],
+  infiniteQueries: PaginatedQueryInfo[],
+  schema: GraphQLSchema,
+  sourceName: string,
+): QueryKeyGroup[] {
+  const groups = new Map<string, QueryKeyGroup>();
+
+  for (const operation of operations) {
+    const groupName = getGraphQLQueryKeyGroupName(
+      operation,
+      schema,
+      sourceName,
+    );
+    const variableDefs = operation.node.variableDefinitions ?? [];
+    const variablesType = toOperationVariablesTypeName(
+      operation.name,
+      operation.operation,
+    );
+    const allOptional = variableDefs.every(
+      (v) => v.type.kind !== "NonNullType",
+    );
+    const param =
+      variableDefs.length > 0
+        ? { name: "variables", type: variablesType, optional: allOptional }
+        : undefined;
+
+    if (operation.operation === "subscription") {
+      addQueryKey(groups, groupName, {
+        name: toCamelCase(operation.name),
+        scope: "all",
+        segments: [operation.name],
+        param,
+      });
+      continue;
+    }
+
+    const { scope, idVariable } = getQueryKeyScope(operation, schema);
+    const entry: QueryKeyEntry = {
+      name: toCamelCase(operation.name),
+      scope,
+      segments: [operation.name],
+      param,
+      detailId: idVariable
+        ? getSafePropertyAccess("variables", idVariable)
+        : undefined,
+    };
+    const detailIdType = `${variablesType}[${JSON.stringify(idVariable)}]`;
+    addQueryKey(groups, groupName, entry, detailIdType);
+
+    const paginationInfo = infiniteQueries.find(
+      (q) => q.operation === operation,
+    )?.paginationInfo;
+    if (!paginationInfo) continue;
+
+    // Infinite keys leave out the page param, like their options
+    const { pageParamName } = paginationInfo;
+    const otherVariables = variableDefs.filter(
+      (v) => v.variable.name.value !== pageParamName,
+    );
+    addQueryKey(groups, groupName, {
+      ...entry,
+      name: toInfiniteQueryKeyName(operation.name),
+      segments: [operation.name, "infinite"],
+      param:
+        otherVariables.length > 0
+          ? {
+              name: "variables",
+              type: `Omit<${variablesType}, "${pageParamName}">`,
+              optional: otherVariables.every(
+                (v) => v.type.kind !== "NonNullType",
+              ),
+            }
+          : undefined,
+      detailId: idVariable !== pageParamName ? entry.detailId : undefined,
+    });
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Get whether a query's key is a list or a detail, and for details the
+ * required variable passed as the root field's `id` argument
+ */
+function getQueryKeyScope(
+  operation: ParsedOperation,
+  schema: GraphQLSchema,
+): { scope: "lists" | "details"; idVariable?: string } {
+  const fieldNode = getFirstQueriedField(operation);
+  const field =
+    fieldNode && schema.getQueryType()?.getFields()[fieldNode.name.value];
+  if (!fieldNode || !field) {
+    return { scope: "details" };
+  }
+
+  const nullableType = getNullableType(field.type);
+  if (
+    isListType(nullableType) ||
+    getNamedType(field.type).name.endsWith("Connection")
+  ) {
+    return { scope: "lists" };
+  }
+
+  return { scope: "details", idVariable: getIdVariable(operation, fieldNode) };
+}
+
+/**
+ * Get the required variable passed as a root field's `id` argument
+ */
+function getIdVariable(
+  operation: ParsedOperation,
+  fieldNode: FieldNode,
+): string | undefined {
+  const idVariable = mapSchemaArgToVariable(fieldNode, "id");
+  const isRequired = operation.node.variableDefinitions?.some(
+    (v) =>
+      v.variable.name.value === idVariable && v.type.kind === "NonNullType",
+  );
+  return isRequired ? idVariable : undefined;
+}
+
+// =============================================================================
+// Mutation Invalidation
+// =============================================================================
+
+/**
+ * Infer the queries each mutation invalidates from shared return types: the
+ * queries in the same key group as the mutation. Queries on a single object
+ * are narrowed to the mutated one when the mutation takes its `id`, and
+ * otherwise cover every object of the type.
+ */
+function getGraphQLMutationInvalidations(
+  queries: ParsedOperation[],
+  mutations: ParsedOperation[],
+  keyGroups: QueryKeyGroup[],
+  schema: GraphQLSchema,
+  sourceName: string,
+  queryOverrides: QueryOverridesConfig | undefined,
+  warnings: string[],
+): MutationInvalidation[] {
+  const queryNames = queries.map((op) => op.name);
+  const invalidations: MutationInvalidation[] = [];
+
+  for (const mutation of mutations) {
+    const groupName = getGraphQLQueryKeyGroupName(mutation, schema, sourceName);
+    const inferred = queries
+      .filter(
+        (query) =>
+          getGraphQLQueryKeyGroupName(query, schema, sourceName) === groupName,
+      )
+      .map((query) => query.name);
+    const targets = resolveInvalidatedQueries(
+      mutation.name,
+      inferred,
+      queryNames,
+      queryOverrides?.operations?.[mutation.name]?.invalidation,
+      warnings,
+    );
+    if (targets.length === 0) continue;
+
+    const fieldNode = getFirstQueriedField(mutation);
+    const idVariable = fieldNode && getIdVariable(mutation, fieldNode);
+    const detailId = idVariable
+      ? getSafePropertyAccess("variables", idVariable)
+      : undefined;
+
+    const queryKeys = new Set<string>();
+    let usesVariables = false;
+    for (const query of queries) {
+      if (!targets.includes(query.name)) continue;
+      const entryName = toCamelCase(query.name);
+      if (detailId && isDetailQueryKey(keyGroups, entryName)) {
+        usesVariables = true;
+      }
+      queryKeys.add(getQueryKeyPrefix(keyGroups, entryName, detailId));
+    }
+
+    invalidations.push({
+      name: toCamelCase(mutation.name),
+      queryKeys: [...queryKeys],
+      variablesType: usesVariables
+        ? toMutationVariablesTypeName(mutation.name)
+        : undefined,
+    });
+  }
+
+  return invalidations;
+}
+
+// =============================================================================
+// Optimistic Updates
+// =============================================================================
+
+/**
+ * Get the optimistic updates of the mutations that opt in through
+ * `overrides.query.operations`. Updates and deletes of a discovered entity
+ * patch its list query, and updates also patch the queries on a single
+ * object of its type. Mutations take the entity's key field as a variable,
+ * and updates take their changes as an `input` variable or as the other
+ * variables.
+ */
+function getGraphQLOptimisticUpdates(
+  queries: ParsedOperation[],
+  mutations: ParsedOperation[],
+  keyGroups: QueryKeyGroup[],
+  entities: CollectionEntity[],
+  schema: GraphQLSchema,
+  queryOverrides: QueryOverridesConfig | undefined,
+  warnings: string[],
+): MutationOptimisticUpdate[] {
+  const updates: MutationOptimisticUpdate[] = [];
+
+  for (const mutation of mutations) {
+    if (!queryOverrides?.operations?.[mutation.name]?.optimistic) {
+      continue;
+    }
+
+    const entity = entities.find((e) =>
+      e.mutations.some((m) => m.operationName === mutation.name),
+    );
+    const entityMutation = entity?.mutations.find(
+      (m) => m.operationName === mutation.name,
+    );
+    if (!entity || !entityMutation || entityMutation.type === "insert") {
+      warnings.push(
+        `Mutation "${mutation.name}" in 'overrides.query.operations' does not update or delete a discovered entity. ` +
+          `It will not be applied optimistically.`,
+      );
+      continue;
+    }
+
+    const variableNames =
+      mutation.node.variableDefinitions?.map((v) => v.variable.name.value) ??
+      [];
+    if (!variableNames.includes(entity.keyField)) {
+      warnings.push(
+        `Mutation "${mutation.name}" in 'overrides.query.operations' has no "${entity.keyField}" variable to find the ${entity.name} by. ` +
+          `It will not be applied optimistically.`,
+      );
+      continue;
+    }
+
+    const id = getSafePropertyAccess("variables", entity.keyField);
+    const queryUpdates: OptimisticQueryUpdate[] = [];
+    if (queries.some((q) => q.name === entity.listQuery.operationName)) {
+      queryUpdates.push({
+        queryKey: getQueryKeyPrefix(
+          keyGroups,
+          toCamelCase(entity.listQuery.operationName),
+        ),
+        dataType: toQueryTypeName(entity.listQuery.operationName),
+        path: entity.listQuery.selectorPath?.split(".") ?? [],
+        list: true,
+      });
+    }
+
+    // A deleted object's queries are left for invalidation to refetch
+    if (entityMutation.type === "update") {
+      for (const query of queries) {
+        const fieldNode = getFirstQueriedField(query);
+        const field =
+          fieldNode && schema.getQueryType()?.getFields()[fieldNode.name.value];
+        if (
+          !fieldNode ||
+          !field ||
+          isListType(getNullableType(field.type)) ||
+          getNamedType(field.type).name !== entity.name ||
+          !isDetailQueryKey(keyGroups, toCamelCase(query.name))
+        ) {
+          continue;
+        }
+        queryUpdates.push({
+          queryKey: getQueryKeyPrefix(keyGroups, toCamelCase(query.name), id),
+          dataType: toQueryTypeName(query.name),
+          path: [fieldNode.alias?.value ?? fieldNode.name.value],
+          list: false,
+        });
+      }
+    }
+
+    updates.push({
+      name: toCamelCase(mutation.name),
+      variablesType: toMutationVariablesTypeName(mutation.name),
+      type: entityMutation.type,
+      keyField: entity.keyField,
+      id,
+      changes: variableNames.includes("input")
+        ? "variables.input"
+        : "variables",
+      queries: queryUpdates,
+    });
+  }
+
+  return updates;
+}
@@ -0,0 +1,128 @@
+/**
+ * Suspense query options
+ * Writes suspense variants of query options and the ensure helpers that load
+ * query data ahead of rendering (e.g., in route loaders), shared by both
+ * adapters
+ */
+
+import {
+  toEnsureInfiniteQueryDataName,
+  toEnsureQueryDataName,
+  toInfiniteQueryOptionsName,
+  toQueryOptionsName,
+  toSuspenseInfiniteQueryOptionsName,
+  toSuspenseQueryOptionsName,
+} from "@/utils/naming";
+import { writeSectionComment } from "@/utils/writer";
+
+import type CodeBlockWriter from "code-block-writer";
+
+/**
+ * Parameter of a query's options function (e.g., `params?: ListPetsParams`)
+ */
+export interface OptionsParam {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+/**
+ * A query with suspense options and an ensure helper
+ */
+export interface SuspenseQuery {
+  /** Operation name (e.g., "getPet") */
+  name: string;
+  /** Whether the query's options are infiniteQueryOptions */
+  infinite: boolean;
+  /** Parameter of the query's options function */
+  param?: OptionsParam;
+}
+
+/**
+ * Write the suspense variants of query options and their ensure helpers
+ */
+export function writeSuspenseQueries(
+  writer: CodeBlockWriter,
+  queries: SuspenseQuery[],
+): void {
+  writeSectionComment(writer, "Suspense Query Options");
+  writer.blankLine();
+  writer.writeLine(`/**
+ * Narrow query options for suspense queries, which always run their queryFn,
+ * so their data is never undefined
+ */
+const suspenseOptions = <TOptions extends { queryFn?: unknown }>(options: TOptions) =>
+  options as Omit<TOptions, "enabled" | "placeholderData" | "queryFn" | "throwOnError"> & {
+    queryFn: Exclude<TOptions["queryFn"], SkipToken | undefined>
+  }`);
+  writer.blankLine();
+
+  for (const query of queries) {
+    const optionsName = getOptionsName(query);
+    const suspenseName = query.infinite
+      ? toSuspenseInfiniteQueryOptionsName(query.name)
+      : toSuspenseQueryOptionsName(query.name);
+    const hook = query.infinite
+      ? "useSuspenseInfiniteQuery"
+      : "useSuspenseQuery";
+    writer.writeLine("/**");
+    writer.writeLine(` * Suspense variant of ${optionsName}, for ${hook}`);
+    writer.writeLine(" */");
+    writer
+      .write(
+        `export const ${suspenseName} = (${formatOptionsParam(query.param)}) =>`,
+      )
+      .newLine();
+    writer
+      .indent()
+      .write(`suspenseOptions(${optionsName}(${query.param?.name ?? ""}))`)
+      .newLine();
+    writer.blankLine();
+  }
+
+  writeSectionComment(writer, "Ensure Query Data (route loaders)");
+  for (const query of queries) {
+    const optionsName = getOptionsName(query);
+    const ensureName = query.infinite
+      ? toEnsureInfiniteQueryDataName(query.name)
+      : toEnsureQueryDataName(query.name);
+    const ensureMethod = query.infinite
+      ? "ensureInfiniteQueryData"
+      : "ensureQueryData";
+    const param = query.param ? `, ${formatOptionsParam(query.param)}` : "";
+    writer.blankLine();
+    writer.writeLine("/**");
+    writer.writeLine(
+      ` * Get the cached data of ${optionsName}, fetching it when missing`,
+    );
+    writer.writeLine(" */");
+    writer
+      .write(
+        `export const ${ensureName} = (queryClient: QueryClient${param}) =>`,
+      )
+      .newLine();
+    writer
+      .indent()
+      .write(
+        `queryClient.${ensureMethod}(${optionsName}(${query.param?.name ?? ""}))`,
+      )
+      .newLine();
+  }
+}
+
+/**
+ * Get the name of a query's regular options function
+ */
+function getOptionsName(query: SuspenseQuery): string {
+  return query.infinite
+    ? toInfiniteQueryOptionsName(query.name)
+    : toQueryOptionsName(query.name);
+}
+
+/**
+ * Format the parameter declaration of an options function
+ */
+export function formatOptionsParam(param: OptionsParam | undefined): string {
+  if (!param) return "";
+  return `${param.name}${param.optional ? "?" : ""}: ${param.type}`;
+}
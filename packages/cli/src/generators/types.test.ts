@@ -2,7 +2,7 @@ import { resolve } from "node:path";
 
 import { describe, expect, it } from "vitest";
 
-import { loadDocuments } from "../core/documents";
+import { addTypenameToDocuments, loadDocuments } from "../core/documents";
 import { testSchema } from "../test/fixtures/schema";
 import { generateTypes } from "./types";
 
@@ -111,6 +111,22 @@ describe("generateTypes", () => {
     expect(result.code).toContain("export type DeleteUserMutationVariables");
   });
 
+  it("generates subscription types", async () => {
+    const documents = await loadDocuments(
+      `${fixturesDir}/subscription.graphql`,
+    );
+    const result = generateTypes({
+      schema: testSchema,
+      documents,
+    });
+
+    expect(result.code).toContain("export type OnUserCreatedSubscription");
+    expect(result.code).toContain(
+      "export type OnPostPublishedSubscriptionVariables",
+    );
+    expect(result.warnings).toHaveLength(0);
+  });
+
   it("uses custom scalar mappings", async () => {
     const documents = await loadDocuments(`${fixturesDir}/user.graphql`);
     const result = generateTypes({
@@ -356,6 +372,20 @@ describe("generateTypes", () => {
       expect(result.code).toContain("NodeFieldsFragment");
     });
 
+    it("does not duplicate __typename added to interface selections", async () => {
+      const documents = addTypenameToDocuments(
+        await loadDocuments(`${fixturesDir}/interface.graphql`),
+        testSchema,
+      );
+      const result = generateTypes({
+        schema: testSchema,
+        documents,
+      });
+
+      expect(result.code).not.toContain('__typename: "Node"');
+      expect(result.code).not.toMatch(/__typename: "User",\s*__typename/);
+    });
+
     it("matches snapshot for interface operations", async () => {
       const documents = await loadDocuments(`${fixturesDir}/interface.graphql`);
       const result = generateTypes({
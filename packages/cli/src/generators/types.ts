@@ -12,10 +12,8 @@ import {
 import { createWriter, writeHeader, writeSectionComment } from "@/utils/writer";
 import {
   toFragmentTypeName,
-  toMutationTypeName,
-  toMutationVariablesTypeName,
-  toQueryTypeName,
-  toQueryVariablesTypeName,
+  toOperationTypeName,
+  toOperationVariablesTypeName,
 } from "../utils/naming";
 import { resolveScalars } from "../utils/scalars";
 import { collectUsedTypes } from "../utils/type-collector";
@@ -291,10 +289,10 @@ function generateOperationTypes(
   const parts: string[] = [];
 
   // Variables type
-  const variablesTypeName =
-    operation.operation === "query"
-      ? toQueryVariablesTypeName(operation.name)
-      : toMutationVariablesTypeName(operation.name);
+  const variablesTypeName = toOperationVariablesTypeName(
+    operation.name,
+    operation.operation,
+  );
 
   const variables = operation.node.variableDefinitions;
   if (variables && variables.length > 0) {
@@ -311,15 +309,12 @@ function generateOperationTypes(
   }
 
   // Return type
-  const returnTypeName =
-    operation.operation === "query"
-      ? toQueryTypeName(operation.name)
-      : toMutationTypeName(operation.name);
+  const returnTypeName = toOperationTypeName(
+    operation.name,
+    operation.operation,
+  );
 
-  const rootType =
-    operation.operation === "query"
-      ? ctx.schema.getQueryType()
-      : ctx.schema.getMutationType();
+  const rootType = ctx.schema.getRootType(operation.node.operation);
 
   if (!rootType) {
     parts.push(
@@ -385,7 +380,12 @@ function extractSelectionFieldsWithSpreads(
 
       // Handle __typename (can be aliased, though rare)
       if (fieldName === "__typename") {
-        fields.push(`${indent}${outputName}: "${parentType.name}"`);
+        if (isObjectType(parentType)) {
+          fields.push(`${indent}${outputName}: "${parentType.name}"`);
+        } else if (outputName !== fieldName) {
+          fields.push(`${indent}${outputName}: string`);
+        }
+        // Interface selections add their own __typename discriminator
         continue;
       }
 
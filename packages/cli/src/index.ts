@@ -41,9 +41,14 @@ export type {
   FormValidator,
   GeneratesConfig,
   GraphQLSourceConfig,
+  GraphQLTransport,
+  HttpClient,
   InfiniteQueryOverrideConfig,
+  InvalidationOverrideConfig,
   OpenAPISourceConfig,
+  OperationQueryOverrideConfig,
   OverridesConfig,
+  PersistedDocumentsMode,
   PredicateMappingPreset,
   // Query overrides
   QueryOverridesConfig,
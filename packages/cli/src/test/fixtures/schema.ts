@@ -22,6 +22,11 @@ export const schemaSDL = `
     createPost(input: CreatePostInput!): Post!
   }
 
+  type Subscription {
+    userCreated: User!
+    postPublished(authorId: ID): Post!
+  }
+
   type User implements Node {
     id: ID!
     name: String!
@@ -0,0 +1,321 @@
+/**
+ * Runtime Client Tests
+ *
+ * Tests that generated GraphQL clients send requests as configured by:
+ * 1. Generating client.ts for a transport
+ * 2. Writing it to temp files, with a client.config.ts set up by the test
+ * 3. Dynamically importing the modules
+ * 4. Sending requests to a mocked fetch, or subscribing to a local
+ *    graphql-ws server
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { setTimeout } from "node:timers/promises";
+
+import { Client, fetchExchange } from "@urql/core";
+import { buildSchema, execute, subscribe, validate } from "graphql";
+import { useServer } from "graphql-ws/use/ws";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+
+import { graphqlAdapter } from "@/adapters/graphql";
+
+import type { GraphQLSourceConfig } from "@/core/config";
+
+// ============================================================================
+// Test Configuration
+// ============================================================================
+
+const graphqlFixturesDir = join(__dirname, "fixtures/graphql");
+const cacheDir = join(
+  __dirname,
+  "../../node_modules/.cache/tangrams-test/runtime-clients",
+);
+
+const graphqlConfig: GraphQLSourceConfig = {
+  name: "test-api",
+  type: "graphql",
+  schema: { file: join(graphqlFixturesDir, "schema.graphql") },
+  documents: join(graphqlFixturesDir, "user.graphql"),
+  generates: ["query"],
+  url: "https://api.example.com/graphql",
+};
+
+// The client.config.ts of the urql tests, reading its client from globalThis
+const urqlClientConfig = `import type { ClientConfig } from "./client"
+
+export const clientConfig: ClientConfig = {
+	headers: async () => ({ "x-config": "config" }),
+	client: () => (globalThis as Record<string, unknown>).testUrqlClient as never,
+}
+`;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// The client.config.ts of the subscription tests
+const subscriptionClientConfig = `import type { ClientConfig } from "./client"
+
+export const clientConfig: ClientConfig = {
+	connectionParams: async () => ({ token: "TOKEN" }),
+}
+`;
+
+/**
+ * Generate a GraphQL client.ts with a client.config.ts set up by the test
+ */
+async function generateGraphQLClient(
+  config: GraphQLSourceConfig,
+  dir: string,
+  clientConfig: string,
+): Promise<void> {
+  const schema = await graphqlAdapter.loadSchema(config);
+  await mkdir(dir, { recursive: true });
+  await writeFile(
+    join(dir, "client.ts"),
+    graphqlAdapter.generateClient(schema, config).content,
+  );
+  await writeFile(join(dir, "client.config.ts"), clientConfig);
+}
+
+/**
+ * Create a fetch that records its requests and responds with data, which
+ * rejects aborted requests like fetch does
+ */
+function createRecordingFetch(data: unknown) {
+  const requests: RequestInit[] = [];
+  const fetch = async (_input: string | URL | Request, init?: RequestInit) => {
+    requests.push(init ?? {});
+    init?.signal?.throwIfAborted();
+    return Response.json({ data });
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("Runtime Clients", () => {
+  beforeAll(async () => {
+    await generateGraphQLClient(
+      { ...graphqlConfig, transport: "urql" },
+      join(cacheDir, "urql"),
+      urqlClientConfig,
+    );
+  });
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  describe("urql transport", () => {
+    const query = "query Ping { ping }";
+
+    const sendQuery = async (
+      client: Client,
+      options: Record<string, unknown>,
+    ) => {
+      (globalThis as Record<string, unknown>).testUrqlClient = client;
+      const { executeQuery } = await import(join(cacheDir, "urql/client.ts"));
+      return executeQuery(query, undefined, options);
+    };
+
+    it("keeps the fetchOptions of the urql client with a signal", async () => {
+      const { fetch, requests } = createRecordingFetch({ ping: "pong" });
+      const client = new Client({
+        url: "https://api.example.com/graphql",
+        exchanges: [fetchExchange],
+        fetch,
+        fetchOptions: () => ({
+          headers: { authorization: "Bearer CLIENT" },
+          credentials: "include",
+        }),
+      });
+      const controller = new AbortController();
+
+      const data = await sendQuery(client, { signal: controller.signal });
+
+      expect(data).toEqual({ ping: "pong" });
+      const headers = new Headers(requests[0]?.headers);
+      expect(headers.get("authorization")).toBe("Bearer CLIENT");
+      expect(headers.get("x-config")).toBe("config");
+      expect(requests[0]?.credentials).toBe("include");
+    });
+
+    it("aborts the request with its signal", async () => {
+      const { fetch, requests } = createRecordingFetch({ ping: "pong" });
+      const client = new Client({
+        url: "https://api.example.com/graphql",
+        exchanges: [fetchExchange],
+        fetch,
+        fetchOptions: { headers: { authorization: "Bearer CLIENT" } },
+      });
+
+      await expect(
+        sendQuery(client, { signal: AbortSignal.abort() }),
+      ).rejects.toThrow();
+      expect(requests).toHaveLength(1);
+    });
+
+    it("merges per-call headers over the urql client's", async () => {
+      const { fetch, requests } = createRecordingFetch({ ping: "pong" });
+      const client = new Client({
+        url: "https://api.example.com/graphql",
+        exchanges: [fetchExchange],
+        fetch,
+        fetchOptions: { headers: { Authorization: "Bearer CLIENT" } },
+      });
+
+      await sendQuery(client, {
+        headers: { authorization: "Bearer CALL" },
+        fetchOptions: { cache: "no-store" },
+      });
+
+      const headers = new Headers(requests[0]?.headers);
+      expect(headers.get("authorization")).toBe("Bearer CALL");
+      expect(requests[0]?.cache).toBe("no-store");
+    });
+  });
+  describe("graphql-ws subscriptions", () => {
+    const onUserCreated =
+      "subscription OnUserCreated { userCreated { id name email } }";
+    const users = [
+      { id: "1", name: "Ada", email: "ada@example.com" },
+      { id: "2", name: "Grace", email: "grace@example.com" },
+    ];
+
+    let server: WebSocketServer;
+    let connectionParams: unknown;
+    let completed: Promise<void>;
+    // biome-ignore lint/suspicious/noExplicitAny: Dynamic module imports require any
+    let client: any;
+    const globals = globalThis as Record<string, unknown>;
+    const { location, WebSocket: globalWebSocket } = globals;
+
+    beforeAll(async () => {
+      const schema = buildSchema(
+        await readFile(join(graphqlFixturesDir, "schema.graphql"), "utf-8"),
+      );
+      let complete: () => void;
+      server = new WebSocketServer({ port: 0, path: "/graphql" });
+      useServer(
+        {
+          schema,
+          // graphql-ws loads its own copy of graphql outside of vitest, which
+          // rejects the schema built with this one
+          execute,
+          subscribe,
+          validate,
+          roots: {
+            subscription: {
+              userCreated: async function* () {
+                for (const user of users) yield { userCreated: user };
+                // A null for the non-null field is sent as a GraphQL error
+                yield { userCreated: null };
+                // Keep sending events until the client completes it
+                for (;;) {
+                  await setTimeout(10);
+                  yield { userCreated: users[0] };
+                }
+              },
+            },
+          },
+          onConnect: (ctx) => {
+            connectionParams = ctx.connectionParams;
+          },
+          onSubscribe: () => {
+            completed = new Promise((resolve) => {
+              complete = resolve;
+            });
+          },
+          onComplete: () => complete(),
+        },
+        server,
+      );
+      await new Promise((resolve) => server.once("listening", resolve));
+      const { port } = server.address() as { port: number };
+
+      // A relative endpoint, resolved against the page's location
+      globals.location = { href: `http://localhost:${port}/app` };
+      globals.WebSocket ??= WebSocket;
+      const dir = join(cacheDir, "subscriptions");
+      await generateGraphQLClient(
+        {
+          ...graphqlConfig,
+          url: "/graphql",
+          documents: join(graphqlFixturesDir, "subscription.graphql"),
+        },
+        dir,
+        subscriptionClientConfig,
+      );
+      client = await import(join(dir, "client.ts"));
+    });
+
+    afterAll(async () => {
+      await client?.getSubscriptionClient().dispose();
+      await new Promise((resolve) => server.close(resolve));
+      globals.location = location;
+      globals.WebSocket = globalWebSocket;
+    });
+
+    it("yields the data of each event", async () => {
+      const events: unknown[] = [];
+      for await (const event of client.subscribe(onUserCreated)) {
+        events.push(event);
+        if (events.length === users.length) break;
+      }
+
+      expect(events).toEqual(users.map((user) => ({ userCreated: user })));
+      expect(connectionParams).toEqual({ token: "TOKEN" });
+    });
+
+    it("completes the subscription when iteration stops early", async () => {
+      for await (const _event of client.subscribe(onUserCreated)) break;
+
+      await expect(completed).resolves.toBeUndefined();
+    });
+
+    it("throws a SubscriptionError for events with GraphQL errors", async () => {
+      const events: unknown[] = [];
+      const iterate = async () => {
+        for await (const event of client.subscribe(onUserCreated)) {
+          events.push(event);
+        }
+      };
+
+      const error = await iterate().catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(client.SubscriptionError);
+      expect(error).toMatchObject({
+        errors: [
+          {
+            message: expect.stringContaining(
+              "Cannot return null for non-nullable field Subscription.userCreated",
+            ),
+          },
+        ],
+      });
+      expect(events).toHaveLength(users.length);
+      await expect(completed).resolves.toBeUndefined();
+    });
+
+    it("throws a SubscriptionError when the server rejects the operation", async () => {
+      const iterate = async () => {
+        for await (const _event of client.subscribe(
+          "subscription { missingField }",
+        )) {
+        }
+      };
+
+      const error = await iterate().catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(client.SubscriptionError);
+      expect(error).toMatchObject({
+        errors: [{ message: expect.stringContaining("missingField") }],
+      });
+    });
+  });
+});
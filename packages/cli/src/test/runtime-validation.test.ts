@@ -10,11 +10,17 @@
  * Also tests TypeScript compilation of all generated artifacts:
  * - client.ts
  * - functions.ts
+ * - keys.ts
  * - schema.ts
  * - form/options.ts
  * - db/collections.ts
  *
- * Covers both OpenAPI and GraphQL schemas across all supported validators.
+ * Covers both OpenAPI and GraphQL schemas across all supported validators,
+ * OpenAPI clients using better-fetch and native fetch, and the schema feature
+ * fixtures (recursive, discriminator, read-write, defaults, constraints), whose
+ * explicit type annotations are checked against each validator's inference.
+ * The other OpenAPI HTTP clients, GraphQL transports, framework targets, and
+ * feature fixtures are compiled once, with Zod.
  */
 
 import { exec } from "node:child_process";
@@ -26,10 +32,15 @@ import { afterAll, beforeAll, describe, expect, it } from "vitest";
 
 import { graphqlAdapter } from "@/adapters/graphql";
 import { openapiAdapter } from "@/adapters/openapi";
+import { getQueryOverrides } from "@/core/config";
 import { supportedValidators } from "@/generators/emitters";
 
 import type { SchemaGenOptions } from "@/adapters/types";
-import type { GraphQLSourceConfig, OpenAPISourceConfig } from "@/core/config";
+import type {
+  Framework,
+  GraphQLSourceConfig,
+  OpenAPISourceConfig,
+} from "@/core/config";
 import type { ValidatorLibrary } from "@/generators/emitters";
 
 const execAsync = promisify(exec);
@@ -60,6 +71,141 @@ const extendedConfig: OpenAPISourceConfig = {
   spec: join(openapiFixturesDir, "petstore-extended.json"),
 };
 
+// Schema feature fixtures, parsed and compiled with every validator
+const schemaFixtures = [
+  "recursive",
+  "discriminator",
+  "read-write",
+  "defaults",
+  "constraints",
+] as const;
+
+type SchemaFixture = (typeof schemaFixtures)[number];
+
+function getFixtureConfig(fixture: SchemaFixture): OpenAPISourceConfig {
+  return {
+    ...petstoreConfig,
+    name: fixture,
+    spec: join(openapiFixturesDir, `${fixture}.json`),
+  };
+}
+
+// Infer<T> of each validator, for type checks of the fixtures
+const inferTypes: Record<ValidatorLibrary, string> = {
+  zod: `import type * as z from "zod"
+
+type Infer<T> = T extends z.ZodType ? z.output<T> : never`,
+  valibot: `import type * as v from "valibot"
+
+type Infer<T> = T extends v.GenericSchema ? v.InferOutput<T> : never`,
+  arktype: "type Infer<T> = T extends { infer: infer O } ? O : never",
+  effect: `import type { Schema } from "effect"
+
+type Infer<T> = T extends Schema.Schema.Any ? Schema.Schema.Type<T> : never`,
+};
+
+// Type checks of each fixture's schema.ts, compiled with its artifacts
+const fixtureTypeChecks: Record<SchemaFixture, string> = {
+  // Explicit annotations of recursive schemas match the validator's inference
+  recursive: `import type {
+	Category,
+	Comment,
+	Company,
+	Person,
+	TreeNode,
+	categorySchema,
+	commentSchema,
+	companySchema,
+	personSchema,
+	treeNodeSchema,
+} from "./schema"
+
+export type Checks = [
+	Expect<Equivalent<Infer<typeof categorySchema>, Category>>,
+	Expect<Equivalent<Infer<typeof treeNodeSchema>, TreeNode>>,
+	Expect<Equivalent<Infer<typeof companySchema>, Company>>,
+	Expect<Equivalent<Infer<typeof personSchema>, Person>>,
+	Expect<Equivalent<Infer<typeof commentSchema>, Comment>>,
+]
+
+export const category: Category = {
+	id: "1",
+	name: "Root",
+	children: [{ id: "2", name: "Child", parent: null }],
+}
+
+export function countLeaves(node: TreeNode): number {
+	return node.kind === "leaf"
+		? 1
+		: node.children.reduce((count, child) => count + countLeaves(child), 0)
+}`,
+  // Variants narrow on their discriminator
+  discriminator: `import type { Event, Pet } from "./schema"
+
+export function describePet(pet: Pet): string {
+	switch (pet.petType) {
+		case "cat":
+			return \`\${pet.name} has \${pet.livesLeft ?? 9} lives left\`
+		case "dog":
+		case "puppy":
+			return pet.goodBoy ? \`\${pet.name} is a good boy\` : pet.name
+		case "Lizard":
+			return pet.scales ?? "lizard"
+	}
+}
+
+export function getOrderTotal(event: Event): number | undefined {
+	return event.type === "order.placed" ? event.total : undefined
+}`,
+  // readOnly properties are left out of inputs, and writeOnly out of outputs
+  "read-write": `import type { User, UserInput } from "./schema"
+
+export const input: UserInput = {
+	email: "ada@example.com",
+	password: "secret",
+	profile: { displayName: "Ada" },
+	// @ts-expect-error readOnly properties are not sent
+	id: "1",
+}
+
+export function getCreatedAt(user: User): string {
+	// @ts-expect-error writeOnly properties are not received
+	user.password
+	return user.createdAt
+}`,
+  // Properties with defaults are optional in inputs and set in outputs
+  defaults: `import type { CreatePostRequest, ListPostsParams, NewPost, PostStatus } from "./schema"
+
+export const request: CreatePostRequest = { title: "Hello", settings: {} }
+
+export const params: ListPostsParams = {}
+
+export function getStatus(post: NewPost): PostStatus {
+	return post.status
+}
+
+export type Checks = [
+	Expect<Equivalent<NewPost["tags"], string[]>>,
+	Expect<Equivalent<NewPost["priority"], number>>,
+]`,
+  // Constraints don't change the inferred types
+  constraints: `import type { Dimensions, NewProduct, newProductSchema } from "./schema"
+
+export const dimensions: Dimensions = { width: 10 }
+
+export const product: NewProduct = {
+	sku: "ABC/1234",
+	name: "Lamp",
+	price: 20,
+	tags: ["home"],
+	dimensions,
+}
+
+export type Checks = [
+	Expect<Equivalent<Infer<typeof newProductSchema>, NewProduct>>,
+]`,
+};
+
 // GraphQL config
 const graphqlConfig: GraphQLSourceConfig = {
   name: "test-api",
@@ -70,6 +216,95 @@ const graphqlConfig: GraphQLSourceConfig = {
   url: "https://api.example.com/graphql",
 };
 
+// Compilation cases for HTTP clients, transports, and feature fixtures, which
+// don't depend on the validator
+const clientsDir = join(cacheDir, "clients");
+
+const openapiCompileCases: Record<string, OpenAPISourceConfig> = {
+  "openapi-ky": { ...petstoreConfig, httpClient: "ky" },
+  "openapi-ofetch": { ...petstoreConfig, httpClient: "ofetch" },
+  "openapi-axios": { ...petstoreConfig, httpClient: "axios" },
+  "openapi-error-responses": {
+    ...petstoreConfig,
+    spec: join(openapiFixturesDir, "error-responses.json"),
+  },
+  "openapi-event-streams": {
+    ...petstoreConfig,
+    spec: join(openapiFixturesDir, "event-streams.json"),
+  },
+  "openapi-security": {
+    ...petstoreConfig,
+    spec: join(openapiFixturesDir, "security.json"),
+  },
+  "openapi-header-pagination": {
+    ...petstoreConfig,
+    spec: join(openapiFixturesDir, "header-pagination.json"),
+  },
+  "openapi-optimistic": {
+    ...petstoreConfig,
+    overrides: {
+      query: {
+        operations: {
+          updatePet: { optimistic: true },
+          deletePet: { optimistic: true },
+        },
+      },
+    },
+  },
+};
+
+const graphqlCompileCases: Record<string, GraphQLSourceConfig> = {
+  "graphql-fetch": { ...graphqlConfig, transport: "fetch" },
+  "graphql-urql": { ...graphqlConfig, transport: "urql" },
+  "graphql-apollo": { ...graphqlConfig, transport: "apollo" },
+  "graphql-persisted-document-id": {
+    ...graphqlConfig,
+    transport: "fetch",
+    persistedDocuments: "documentId",
+  },
+  "graphql-persisted-apq": {
+    ...graphqlConfig,
+    transport: "fetch",
+    persistedDocuments: "apq",
+  },
+  "graphql-subscription": {
+    ...graphqlConfig,
+    documents: [
+      join(graphqlFixturesDir, "user.graphql"),
+      join(graphqlFixturesDir, "subscription.graphql"),
+    ],
+  },
+  "graphql-optimistic": {
+    ...graphqlConfig,
+    overrides: {
+      query: {
+        operations: {
+          UpdateUser: { optimistic: true },
+          DeleteUser: { optimistic: true },
+        },
+      },
+    },
+  },
+};
+
+// Framework targets other than React, each compiled with the fixtures that
+// use every helper of its query, db, and form packages
+const frameworkCompileTargets: Framework[] = [
+  "vue",
+  "solid",
+  "svelte",
+  "angular",
+  "core",
+];
+
+const frameworkCompileFixtures = [
+  // queryOptions, infiniteQueryOptions, mutationOptions, formOptions, and
+  // createCollection
+  "error-responses",
+  // experimental_streamedQuery
+  "event-streams",
+];
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -174,6 +409,24 @@ async function generateGraphQLSchema(
   await writeFile(filePath, result.content);
 }
 
+/**
+ * Generate the type checks of a schema fixture, next to its artifacts
+ */
+async function generateFixtureTypeChecks(
+  fixture: SchemaFixture,
+  validator: ValidatorLibrary,
+  baseDir: string,
+): Promise<void> {
+  const content = `${inferTypes[validator]}
+
+type Expect<T extends true> = T
+type Equivalent<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+
+${fixtureTypeChecks[fixture]}
+`;
+  await writeFile(join(baseDir, "type-checks.ts"), content);
+}
+
 /**
  * Generate full OpenAPI artifact set for TypeScript compilation tests
  */
@@ -181,6 +434,7 @@ async function generateOpenAPIArtifacts(
   config: OpenAPISourceConfig,
   validator: ValidatorLibrary,
   baseDir: string,
+  framework?: Framework,
 ): Promise<void> {
   const schema = await openapiAdapter.loadSchema(config);
 
@@ -189,9 +443,17 @@ async function generateOpenAPIArtifacts(
   await mkdir(join(baseDir, "db"), { recursive: true });
   await mkdir(join(baseDir, "query"), { recursive: true });
 
-  // Generate client.ts
+  // Generate client.ts and client.config.ts
   const clientResult = openapiAdapter.generateClient(schema, config);
   await writeFile(join(baseDir, "client.ts"), clientResult.content);
+  const clientConfigResult = openapiAdapter.generateClientConfig(
+    schema,
+    config,
+  );
+  await writeFile(
+    join(baseDir, "client.config.ts"),
+    clientConfigResult.content,
+  );
 
   // Generate schema.ts
   const schemaResult = openapiAdapter.generateSchemas(schema, config, {
@@ -207,11 +469,20 @@ async function generateOpenAPIArtifacts(
   });
   await writeFile(join(baseDir, "functions.ts"), functionsResult.content);
 
+  // Generate keys.ts
+  const keysResult = openapiAdapter.generateKeys(schema, config, {
+    typesImportPath: "./schema",
+    sourceName: config.name,
+    queryOverrides: getQueryOverrides(config),
+  });
+  await writeFile(join(baseDir, "keys.ts"), keysResult.content);
+
   // Generate form/options.ts
   const formResult = openapiAdapter.generateFormOptions(schema, config, {
     schemaImportPath: "../schema",
     sourceName: config.name,
     validatorLibrary: validator,
+    framework,
   });
   await writeFile(join(baseDir, "form/options.ts"), formResult.content);
 
@@ -219,7 +490,9 @@ async function generateOpenAPIArtifacts(
   const collectionsResult = openapiAdapter.generateCollections(schema, config, {
     typesImportPath: "../schema",
     functionsImportPath: "../functions",
+    keysImportPath: "../keys",
     sourceName: config.name,
+    framework,
   });
   await writeFile(
     join(baseDir, "db/collections.ts"),
@@ -230,7 +503,10 @@ async function generateOpenAPIArtifacts(
   const queryResult = openapiAdapter.generateOperations(schema, config, {
     typesImportPath: "../schema",
     functionsImportPath: "../functions",
+    keysImportPath: "../keys",
     sourceName: config.name,
+    queryOverrides: getQueryOverrides(config),
+    framework,
   });
   await writeFile(join(baseDir, "query/options.ts"), queryResult.content);
 }
@@ -250,9 +526,17 @@ async function generateGraphQLArtifacts(
   await mkdir(join(baseDir, "db"), { recursive: true });
   await mkdir(join(baseDir, "query"), { recursive: true });
 
-  // Generate client.ts
+  // Generate client.ts and client.config.ts
   const clientResult = graphqlAdapter.generateClient(schema, config);
   await writeFile(join(baseDir, "client.ts"), clientResult.content);
+  const clientConfigResult = graphqlAdapter.generateClientConfig(
+    schema,
+    config,
+  );
+  await writeFile(
+    join(baseDir, "client.config.ts"),
+    clientConfigResult.content,
+  );
 
   // Generate schema.ts (contains all types and validation schemas)
   const schemaResult = graphqlAdapter.generateSchemas(schema, config, {
@@ -267,6 +551,14 @@ async function generateGraphQLArtifacts(
   });
   await writeFile(join(baseDir, "functions.ts"), functionsResult.content);
 
+  // Generate keys.ts
+  const keysResult = graphqlAdapter.generateKeys(schema, config, {
+    typesImportPath: "./schema",
+    sourceName: config.name,
+    queryOverrides: getQueryOverrides(config),
+  });
+  await writeFile(join(baseDir, "keys.ts"), keysResult.content);
+
   // Generate form/options.ts
   const formResult = graphqlAdapter.generateFormOptions(schema, config, {
     schemaImportPath: "../schema",
@@ -279,6 +571,7 @@ async function generateGraphQLArtifacts(
   const collectionsResult = graphqlAdapter.generateCollections(schema, config, {
     typesImportPath: "../schema",
     functionsImportPath: "../functions",
+    keysImportPath: "../keys",
     sourceName: config.name,
   });
   await writeFile(
@@ -290,7 +583,9 @@ async function generateGraphQLArtifacts(
   const queryResult = graphqlAdapter.generateOperations(schema, config, {
     typesImportPath: "../schema",
     functionsImportPath: "../functions",
+    keysImportPath: "../keys",
     sourceName: config.name,
+    queryOverrides: getQueryOverrides(config),
   });
   await writeFile(join(baseDir, "query/options.ts"), queryResult.content);
 }
@@ -298,7 +593,10 @@ async function generateGraphQLArtifacts(
 /**
  * Generate tsconfig.json for TypeScript compilation tests
  */
-async function generateTsConfig(validatorDir: string): Promise<void> {
+async function generateTsConfig(
+  validatorDir: string,
+  include = ["openapi*/**/*.ts", "graphql*/**/*.ts"],
+): Promise<void> {
   const tsconfig = {
     compilerOptions: {
       target: "ES2022",
@@ -311,8 +609,13 @@ async function generateTsConfig(validatorDir: string): Promise<void> {
       resolveJsonModule: true,
       isolatedModules: true,
       jsx: "react-jsx",
+      // The framework db packages pin their own @tanstack/db versions; resolve
+      // them to the copy query-db-collection uses, as a deduped install would
+      paths: {
+        "@tanstack/db": [join(__dirname, "../../node_modules/@tanstack/db")],
+      },
     },
-    include: ["openapi/**/*.ts", "graphql/**/*.ts"],
+    include,
   };
 
   await writeFile(
@@ -321,16 +624,30 @@ async function generateTsConfig(validatorDir: string): Promise<void> {
   );
 }
 
+/**
+ * Get the errors tsc reported in the files of a directory, by its name
+ */
+function getDirectoryErrors(output: string, dir: string): string[] {
+  return output
+    .split("\n")
+    .filter(
+      (line) =>
+        line.includes("error TS") &&
+        (line.split("(")[0] ?? "").split("/").includes(dir),
+    );
+}
+
 /**
  * Run TypeScript type-check on generated files
  */
 async function runTypeCheck(
   validatorDir: string,
+  timeout = 30000,
 ): Promise<{ success: boolean; output: string }> {
   try {
     const { stdout, stderr } = await execAsync(
       `npx tsc --project ${join(validatorDir, "tsconfig.json")}`,
-      { cwd: validatorDir, timeout: 30000 },
+      { cwd: validatorDir, timeout },
     );
     return { success: true, output: stdout || stderr || "No output" };
   } catch (error) {
@@ -448,6 +765,107 @@ const validSearchResultWithError = {
 // Note: anyOf (FlexibleResponse) is defined in the spec but not used by any operation,
 // so it's not generated. The oneOf tests above cover union behavior.
 
+// ============================================================================
+// Test Data - OpenAPI Fixtures
+// ============================================================================
+
+// Recursive schemas (recursive.json)
+const validCategoryTree = {
+  id: "1",
+  name: "Root",
+  parent: null,
+  children: [{ id: "2", name: "Child", children: [] }],
+};
+
+const invalidCategoryTree = {
+  id: "1",
+  name: "Root",
+  children: [{ id: "2" }], // nested category missing name
+};
+
+const validTreeNode = {
+  kind: "branch",
+  children: [
+    { kind: "leaf", value: 1 },
+    { kind: "branch", children: [{ kind: "leaf", value: 2 }] },
+  ],
+};
+
+const invalidTreeNode = {
+  kind: "branch",
+  children: [{ kind: "leaf", value: "1" }], // nested leaf value should be number
+};
+
+const validCompany = {
+  id: "acme",
+  employees: [{ name: "Ada", employer: { id: "acme", employees: [] } }],
+};
+
+const validComment = {
+  id: "1",
+  body: "First",
+  author: { id: "ada" },
+  replies: [{ id: "2", body: "Reply", author: { id: "grace" }, replies: [] }],
+  metadata: {
+    pinned: { id: "3", body: "Pinned", author: { id: "ada" }, replies: [] },
+  },
+};
+
+// Discriminated unions (discriminator.json)
+const validCat = { petType: "cat", name: "Tom", livesLeft: 7 };
+
+const validPuppy = { petType: "puppy", name: "Rex", goodBoy: true };
+
+const invalidPetUnknownType = { petType: "fish", name: "Nemo" };
+
+const validOrderPlacedEvent = {
+  type: "order.placed",
+  orderId: "order-1",
+  total: 42,
+};
+
+const invalidOrderPlacedEvent = {
+  type: "order.placed",
+  orderId: "order-1",
+  // missing total required by the order.placed variant
+};
+
+// readOnly and writeOnly properties (read-write.json)
+const validUserInput = {
+  email: "ada@example.com",
+  password: "secret",
+  profile: { displayName: "Ada" },
+};
+
+const validUser = {
+  id: "1",
+  email: "ada@example.com",
+  profile: { displayName: "Ada" },
+  createdAt: "2024-01-15T10:30:00Z",
+};
+
+// Defaults (defaults.json)
+const minimalNewPost = { title: "Hello", settings: {} };
+
+const newPostWithDefaults = {
+  title: "Hello",
+  status: "draft",
+  tags: [],
+  priority: 1.5,
+  metadata: { source: "web" },
+  settings: { comments: true, visibility: "public" },
+};
+
+// Constraints (constraints.json)
+const validProduct = {
+  sku: "ABC/1234",
+  name: "Lamp",
+  price: 20,
+  quantity: 10,
+  tags: ["home", "light"],
+  dimensions: { width: 10, height: 20 },
+};
+
 // ============================================================================
 // Test Data - GraphQL
 // ============================================================================
@@ -496,6 +914,13 @@ describe("Runtime Validation", () => {
         generateOpenAPISchema(petstoreConfig, validator, "petstore-schema.ts"),
         generateOpenAPISchema(extendedConfig, validator, "extended-schema.ts"),
         generateGraphQLSchema(validator),
+        ...schemaFixtures.map((fixture) =>
+          generateOpenAPISchema(
+            getFixtureConfig(fixture),
+            validator,
+            `${fixture}-schema.ts`,
+          ),
+        ),
       ]),
     );
 
@@ -507,14 +932,53 @@ describe("Runtime Validation", () => {
           validator,
           join(cacheDir, validator, "openapi"),
         ),
+        generateOpenAPIArtifacts(
+          { ...petstoreConfig, httpClient: "fetch" },
+          validator,
+          join(cacheDir, validator, "openapi-fetch"),
+        ),
         generateGraphQLArtifacts(
           graphqlConfig,
           validator,
           join(cacheDir, validator, "graphql"),
         ),
+        ...schemaFixtures.map(async (fixture) => {
+          const baseDir = join(cacheDir, validator, `openapi-${fixture}`);
+          await generateOpenAPIArtifacts(
+            getFixtureConfig(fixture),
+            validator,
+            baseDir,
+          );
+          await generateFixtureTypeChecks(fixture, validator, baseDir);
+        }),
         generateTsConfig(join(cacheDir, validator)),
       ]),
     );
+
+    // Generate the client and fixture cases with Zod
+    await mkdir(clientsDir, { recursive: true });
+    await Promise.all([
+      ...Object.entries(openapiCompileCases).map(([name, config]) =>
+        generateOpenAPIArtifacts(config, "zod", join(clientsDir, name)),
+      ),
+      ...Object.entries(graphqlCompileCases).map(([name, config]) =>
+        generateGraphQLArtifacts(config, "zod", join(clientsDir, name)),
+      ),
+      ...frameworkCompileTargets.flatMap((framework) =>
+        frameworkCompileFixtures.map((fixture) =>
+          generateOpenAPIArtifacts(
+            {
+              ...petstoreConfig,
+              spec: join(openapiFixturesDir, `${fixture}.json`),
+            },
+            "zod",
+            join(clientsDir, `framework-${framework}`, fixture),
+            framework,
+          ),
+        ),
+      ),
+      generateTsConfig(clientsDir, ["**/*.ts"]),
+    ]);
   });
 
   // Cleanup: remove temp files
@@ -925,6 +1389,202 @@ describe("Runtime Validation", () => {
     });
   });
 
+  // ==========================================================================
+  // OpenAPI Fixture Tests
+  // ==========================================================================
+
+  describe("OpenAPI Fixtures", () => {
+    describe.each(
+      supportedValidators,
+    )("%s validator", (validator: ValidatorLibrary) => {
+      // biome-ignore lint/suspicious/noExplicitAny: Dynamic module imports require any
+      const schemaModules: Record<string, any> = {};
+
+      beforeAll(async () => {
+        for (const fixture of schemaFixtures) {
+          const filePath = join(cacheDir, validator, `${fixture}-schema.ts`);
+          schemaModules[fixture] = await import(filePath);
+        }
+      });
+
+      const parse = (
+        fixture: SchemaFixture,
+        schemaName: string,
+        data: unknown,
+      ) =>
+        parseWithValidator(validator, schemaModules[fixture], schemaName, data);
+
+      describe("Recursive schemas", () => {
+        it("parses nested self-references", async () => {
+          const result = await parse(
+            "recursive",
+            "categorySchema",
+            validCategoryTree,
+          );
+          expect(result.success).toBe(true);
+          expect(result.data).toEqual(validCategoryTree);
+        });
+
+        it("rejects invalid nested self-references", async () => {
+          const result = await parse(
+            "recursive",
+            "categorySchema",
+            invalidCategoryTree,
+          );
+          expect(result.success).toBe(false);
+        });
+
+        it("parses recursive discriminated unions", async () => {
+          const valid = await parse(
+            "recursive",
+            "treeNodeSchema",
+            validTreeNode,
+          );
+          const invalid = await parse(
+            "recursive",
+            "treeNodeSchema",
+            invalidTreeNode,
+          );
+          expect(valid.success).toBe(true);
+          expect(invalid.success).toBe(false);
+        });
+
+        it("parses mutually recursive objects", async () => {
+          const valid = await parse("recursive", "companySchema", validCompany);
+          const invalid = await parse("recursive", "companySchema", {
+            id: "acme",
+            employees: [{ employer: { id: "acme", employees: [] } }],
+          });
+          expect(valid.success).toBe(true);
+          expect(invalid.success).toBe(false);
+        });
+
+        it("parses recursive additional properties", async () => {
+          const valid = await parse("recursive", "commentSchema", validComment);
+          const invalid = await parse("recursive", "commentSchema", {
+            ...validComment,
+            metadata: { pinned: "not a comment" },
+          });
+          expect(valid.success).toBe(true);
+          expect(invalid.success).toBe(false);
+        });
+      });
+
+      describe("Discriminated unions", () => {
+        it("parses each mapped variant", async () => {
+          const cat = await parse("discriminator", "petSchema", validCat);
+          const puppy = await parse("discriminator", "petSchema", validPuppy);
+          expect(cat.success).toBe(true);
+          expect(cat.data).toEqual(validCat);
+          expect(puppy.success).toBe(true);
+        });
+
+        it("rejects unknown discriminator values", async () => {
+          const result = await parse(
+            "discriminator",
+            "petSchema",
+            invalidPetUnknownType,
+          );
+          expect(result.success).toBe(false);
+        });
+
+        it("validates the variant of inline unions", async () => {
+          const valid = await parse(
+            "discriminator",
+            "eventSchema",
+            validOrderPlacedEvent,
+          );
+          const invalid = await parse(
+            "discriminator",
+            "eventSchema",
+            invalidOrderPlacedEvent,
+          );
+          expect(valid.success).toBe(true);
+          expect(invalid.success).toBe(false);
+        });
+      });
+
+      describe("readOnly and writeOnly properties", () => {
+        it("parses inputs without readOnly properties", async () => {
+          const result = await parse(
+            "read-write",
+            "userInputSchema",
+            validUserInput,
+          );
+          expect(result.success).toBe(true);
+        });
+
+        it("requires readOnly properties in responses", async () => {
+          const valid = await parse("read-write", "userSchema", validUser);
+          const invalid = await parse(
+            "read-write",
+            "userSchema",
+            validUserInput,
+          );
+          expect(valid.success).toBe(true);
+          expect(invalid.success).toBe(false);
+        });
+      });
+
+      describe("Defaults", () => {
+        it("fills in defaults of missing properties", async () => {
+          const result = await parse(
+            "defaults",
+            "newPostSchema",
+            minimalNewPost,
+          );
+          expect(result.success).toBe(true);
+          expect(result.data).toEqual(newPostWithDefaults);
+        });
+
+        it("fills in defaults of missing params", async () => {
+          const result = await parse("defaults", "listPostsParamsSchema", {});
+          expect(result.success).toBe(true);
+          expect(result.data).toEqual({ limit: 20, sort: "new" });
+        });
+
+        it("validates properties with defaults when present", async () => {
+          const result = await parse("defaults", "newPostSchema", {
+            ...minimalNewPost,
+            status: "archived",
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+
+      describe("Constraints", () => {
+        it("parses values within their constraints", async () => {
+          const result = await parse(
+            "constraints",
+            "newProductSchema",
+            validProduct,
+          );
+          expect(result.success).toBe(true);
+        });
+
+        it.each([
+          ["pattern", { sku: "abc-1234" }],
+          ["minLength", { name: "" }],
+          ["maxLength", { name: "x".repeat(81) }],
+          ["exclusiveMinimum", { price: 0 }],
+          ["maximum", { price: 10001 }],
+          ["minimum", { quantity: -5 }],
+          ["integer multipleOf", { quantity: 3 }],
+          ["minItems", { tags: [] }],
+          ["maxItems", { tags: ["a", "b", "c", "d", "e", "f"] }],
+          ["uniqueItems", { tags: ["home", "home"] }],
+          ["minProperties", { dimensions: {} }],
+        ])("rejects values breaking %s", async (_constraint, overrides) => {
+          const result = await parse("constraints", "newProductSchema", {
+            ...validProduct,
+            ...overrides,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+  });
+
   // ==========================================================================
   // GraphQL Tests
   // ==========================================================================
@@ -1049,5 +1709,38 @@ describe("Runtime Validation", () => {
         expect(result.success).toBe(true);
       }, 30000); // 30 second timeout for tsc
     });
+
+    describe("HTTP clients, transports, frameworks, and fixtures", () => {
+      const caseNames = [
+        ...Object.keys(openapiCompileCases),
+        ...Object.keys(graphqlCompileCases),
+        ...frameworkCompileTargets.map((framework) => `framework-${framework}`),
+      ];
+
+      // A single tsc run checks every case, which reports its own errors
+      let output = "";
+      beforeAll(async () => {
+        const result = await runTypeCheck(clientsDir, 120000);
+        output = result.output;
+
+        // A tsc crash or timeout fails without errors in any case
+        const hasCaseErrors = caseNames.some(
+          (name) => getDirectoryErrors(output, name).length > 0,
+        );
+        if (!result.success && !hasCaseErrors) {
+          throw new Error(`TypeScript type-check failed:\n${output}`);
+        }
+      }, 120000); // 2 minute timeout for tsc
+
+      it.each(caseNames)("%s passes TypeScript type-check", (name) => {
+        const errors = getDirectoryErrors(output, name);
+
+        if (errors.length > 0) {
+          expect.fail(`TypeScript errors:\n${errors.join("\n")}`);
+        }
+
+        expect(errors).toHaveLength(0);
+      });
+    });
   });
 });
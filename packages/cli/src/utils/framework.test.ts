@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  STREAMED_QUERY_IMPORT,
+  getFrameworkPackages,
+  writeCoreQueryHelpers,
+  writeQueryHelperImports,
+} from "./framework";
+import { createWriter } from "./writer";
+
+describe("getFrameworkPackages", () => {
+  it("defaults to react packages", () => {
+    expect(getFrameworkPackages()).toEqual({
+      query: "@tanstack/react-query",
+      db: "@tanstack/react-db",
+      form: "@tanstack/react-form",
+    });
+  });
+
+  it("uses the experimental angular query package", () => {
+    expect(getFrameworkPackages("angular").query).toBe(
+      "@tanstack/angular-query-experimental",
+    );
+  });
+
+  it("uses framework-agnostic packages for core", () => {
+    expect(getFrameworkPackages("core")).toEqual({
+      query: "@tanstack/query-core",
+      db: "@tanstack/db",
+      form: "@tanstack/form-core",
+    });
+  });
+});
+
+describe("writeQueryHelperImports", () => {
+  it("imports helpers from the framework query package", () => {
+    const writer = createWriter();
+    writeQueryHelperImports(writer, "solid", [
+      "queryOptions",
+      "mutationOptions",
+    ]);
+    expect(writer.toString()).toBe(
+      'import { mutationOptions, queryOptions } from "@tanstack/solid-query"\n',
+    );
+  });
+
+  it("imports option types from query-core for core", () => {
+    const writer = createWriter();
+    writeQueryHelperImports(writer, "core", ["infiniteQueryOptions"]);
+    expect(writer.toString()).toBe(
+      'import type { InfiniteQueryObserverOptions } from "@tanstack/query-core"\n',
+    );
+  });
+
+  it("imports values alongside the helpers", () => {
+    const writer = createWriter();
+    writeQueryHelperImports(
+      writer,
+      "vue",
+      ["queryOptions"],
+      [STREAMED_QUERY_IMPORT],
+    );
+    expect(writer.toString()).toBe(
+      'import { experimental_streamedQuery as streamedQuery, queryOptions } from "@tanstack/vue-query"\n',
+    );
+  });
+
+  it("imports values from query-core before option types for core", () => {
+    const writer = createWriter();
+    writeQueryHelperImports(
+      writer,
+      "core",
+      ["queryOptions"],
+      [STREAMED_QUERY_IMPORT],
+    );
+    expect(writer.toString()).toBe(
+      'import { experimental_streamedQuery as streamedQuery } from "@tanstack/query-core"\n' +
+        'import type { QueryObserverOptions } from "@tanstack/query-core"\n',
+    );
+  });
+});
+
+describe("writeCoreQueryHelpers", () => {
+  it("writes an identity helper per option helper", () => {
+    const writer = createWriter();
+    writeCoreQueryHelpers(writer, ["queryOptions", "infiniteQueryOptions"]);
+    const content = writer.toString();
+    expect(content).toContain(
+      "const infiniteQueryOptions = <T extends InfiniteQueryObserverOptions<any, any, any, any, any>>(options: T) => options",
+    );
+    expect(content).toContain(
+      "const queryOptions = <T extends QueryObserverOptions<any, any, any, any, any>>(options: T) => options",
+    );
+  });
+});
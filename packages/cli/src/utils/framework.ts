@@ -0,0 +1,133 @@
+/**
+ * Framework target utilities
+ *
+ * Maps the configured framework to the TanStack packages that generated code
+ * imports from, and provides the options helpers that query-core lacks.
+ */
+
+import { writeImport } from "./writer";
+
+import type CodeBlockWriter from "code-block-writer";
+import type { Framework } from "@/core/config";
+
+/**
+ * TanStack packages used by generated code for a framework target
+ */
+export interface FrameworkPackages {
+  /** Package providing queryOptions, mutationOptions, and QueryClient */
+  query: string;
+  /** Package providing createCollection */
+  db: string;
+  /** Package providing formOptions and revalidateLogic */
+  form: string;
+}
+
+const FRAMEWORK_PACKAGES: Record<Framework, FrameworkPackages> = {
+  react: {
+    query: "@tanstack/react-query",
+    db: "@tanstack/react-db",
+    form: "@tanstack/react-form",
+  },
+  vue: {
+    query: "@tanstack/vue-query",
+    db: "@tanstack/vue-db",
+    form: "@tanstack/vue-form",
+  },
+  solid: {
+    query: "@tanstack/solid-query",
+    db: "@tanstack/solid-db",
+    form: "@tanstack/solid-form",
+  },
+  svelte: {
+    query: "@tanstack/svelte-query",
+    db: "@tanstack/svelte-db",
+    form: "@tanstack/svelte-form",
+  },
+  angular: {
+    query: "@tanstack/angular-query-experimental",
+    db: "@tanstack/angular-db",
+    form: "@tanstack/angular-form",
+  },
+  core: {
+    query: "@tanstack/query-core",
+    db: "@tanstack/db",
+    form: "@tanstack/form-core",
+  },
+};
+
+/**
+ * Get the TanStack packages to import from for a framework target
+ */
+export function getFrameworkPackages(
+  framework: Framework = "react",
+): FrameworkPackages {
+  return FRAMEWORK_PACKAGES[framework];
+}
+
+/**
+ * Option helper names and the query-core type each one is constrained by
+ */
+const CORE_HELPER_TYPES: Record<string, string> = {
+  infiniteQueryOptions: "InfiniteQueryObserverOptions<any, any, any, any, any>",
+  mutationOptions: "MutationOptions<any, any, any, any>",
+  queryOptions: "QueryObserverOptions<any, any, any, any, any>",
+};
+
+/**
+ * Import specifier for TanStack Query's streamedQuery, which every query
+ * package (including query-core) exports under its experimental name
+ */
+export const STREAMED_QUERY_IMPORT =
+  "experimental_streamedQuery as streamedQuery";
+
+/**
+ * Write the imports for queryOptions-style helpers, plus any other values
+ * exported by every query package (e.g., `STREAMED_QUERY_IMPORT`).
+ *
+ * Framework adapters export the helpers directly. query-core does not, so
+ * for the "core" target only the option types are imported and the helpers
+ * are declared locally by `writeCoreQueryHelpers`.
+ */
+export function writeQueryHelperImports(
+  writer: CodeBlockWriter,
+  framework: Framework = "react",
+  helpers: string[],
+  values: string[] = [],
+): void {
+  if (framework !== "core") {
+    writeImport(writer, getFrameworkPackages(framework).query, [
+      ...helpers,
+      ...values,
+    ]);
+    return;
+  }
+
+  writeImport(writer, "@tanstack/query-core", values);
+
+  const types = helpers.map((helper) => {
+    const type = CORE_HELPER_TYPES[helper];
+    if (!type) {
+      throw new Error(`Unknown query helper: ${helper}`);
+    }
+    return type.slice(0, type.indexOf("<"));
+  });
+  writeImport(writer, "@tanstack/query-core", types, true);
+}
+
+/**
+ * Write local identity helpers for the "core" target so generated options
+ * keep the same shape as the framework adapters' helpers
+ */
+export function writeCoreQueryHelpers(
+  writer: CodeBlockWriter,
+  helpers: string[],
+): void {
+  writer.writeLine(
+    "// @tanstack/query-core does not export options helpers, so identity helpers preserve inference",
+  );
+  for (const helper of [...helpers].sort()) {
+    writer.writeLine(
+      `const ${helper} = <T extends ${CORE_HELPER_TYPES[helper]}>(options: T) => options`,
+    );
+  }
+}
@@ -1,10 +1,15 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  getSafePropertyAccess,
   getSafePropertyName,
   isValidIdentifier,
+  toApiErrorTypeName,
   toCamelCase,
   toDocumentName,
+  toEnsureInfiniteQueryDataName,
+  toEnsureQueryDataName,
+  toErrorTypeName,
   toFragmentDocName,
   toFragmentSchemaName,
   toFragmentTypeName,
@@ -14,6 +19,8 @@ import {
   toMutationTypeName,
   toMutationVariablesSchemaName,
   toMutationVariablesTypeName,
+  toOperationTypeName,
+  toOperationVariablesTypeName,
   toPascalCase,
   toQueryOptionsName,
   toQueryResponseSchemaName,
@@ -22,6 +29,11 @@ import {
   toQueryVariablesSchemaName,
   toQueryVariablesTypeName,
   toSchemaName,
+  toSubscribeFunctionName,
+  toSubscriptionTypeName,
+  toSubscriptionVariablesTypeName,
+  toSuspenseInfiniteQueryOptionsName,
+  toSuspenseQueryOptionsName,
 } from "./naming";
 
 describe("toPascalCase", () => {
@@ -170,6 +182,73 @@ describe("toMutationVariablesTypeName", () => {
   });
 });
 
+describe("toSubscriptionTypeName", () => {
+  it("converts operation name to subscription type name", () => {
+    expect(toSubscriptionTypeName("OnMessageAdded")).toBe(
+      "OnMessageAddedSubscription",
+    );
+  });
+});
+
+describe("toSubscriptionVariablesTypeName", () => {
+  it("converts operation name to subscription variables type name", () => {
+    expect(toSubscriptionVariablesTypeName("OnMessageAdded")).toBe(
+      "OnMessageAddedSubscriptionVariables",
+    );
+  });
+});
+
+describe("toOperationTypeName", () => {
+  it("picks the type name for the operation type", () => {
+    expect(toOperationTypeName("GetUser", "query")).toBe("GetUserQuery");
+    expect(toOperationTypeName("CreateUser", "mutation")).toBe(
+      "CreateUserMutation",
+    );
+    expect(toOperationTypeName("OnUser", "subscription")).toBe(
+      "OnUserSubscription",
+    );
+  });
+});
+
+describe("toOperationVariablesTypeName", () => {
+  it("picks the variables type name for the operation type", () => {
+    expect(toOperationVariablesTypeName("GetUser", "query")).toBe(
+      "GetUserQueryVariables",
+    );
+    expect(toOperationVariablesTypeName("OnUser", "subscription")).toBe(
+      "OnUserSubscriptionVariables",
+    );
+  });
+});
+
+describe("toSubscribeFunctionName", () => {
+  it("converts subscription name to cache helper name", () => {
+    expect(toSubscribeFunctionName("OnMessageAdded")).toBe(
+      "subscribeToOnMessageAdded",
+    );
+  });
+});
+
+describe("toSuspenseQueryOptionsName", () => {
+  it("converts operation name to suspense options names", () => {
+    expect(toSuspenseQueryOptionsName("GetPet")).toBe(
+      "getPetSuspenseQueryOptions",
+    );
+    expect(toSuspenseInfiniteQueryOptionsName("listPets")).toBe(
+      "listPetsSuspenseInfiniteQueryOptions",
+    );
+  });
+});
+
+describe("toEnsureQueryDataName", () => {
+  it("converts operation name to ensure helper names", () => {
+    expect(toEnsureQueryDataName("getPet")).toBe("ensureGetPetQueryData");
+    expect(toEnsureInfiniteQueryDataName("ListPets")).toBe(
+      "ensureListPetsInfiniteQueryData",
+    );
+  });
+});
+
 describe("toFragmentTypeName", () => {
   it("converts fragment name to fragment type name", () => {
     expect(toFragmentTypeName("UserFields")).toBe("UserFieldsFragment");
@@ -180,6 +259,24 @@ describe("toFragmentTypeName", () => {
   });
 });
 
+describe("toErrorTypeName", () => {
+  it("appends the status to the operation type name", () => {
+    expect(toErrorTypeName("getPet", "404")).toBe("GetPet404Error");
+    expect(toErrorTypeName("listPets", "5XX")).toBe("ListPets5XXError");
+  });
+
+  it("uses Default for the default response", () => {
+    expect(toErrorTypeName("getPet", "default")).toBe("GetPetDefaultError");
+  });
+});
+
+describe("toApiErrorTypeName", () => {
+  it("converts operation ID to ApiError union type name", () => {
+    expect(toApiErrorTypeName("getPet")).toBe("GetPetApiError");
+    expect(toApiErrorTypeName("create-pet")).toBe("CreatePetApiError");
+  });
+});
+
 // ============================================================================
 // Response Type Names (aliases)
 // ============================================================================
@@ -317,3 +414,21 @@ describe("getSafePropertyName", () => {
     expect(getSafePropertyName("foo bar")).toBe('"foo bar"');
   });
 });
+
+describe("getSafePropertyAccess", () => {
+  it("uses dot notation for valid identifiers", () => {
+    expect(getSafePropertyAccess("params", "petId")).toBe("params.petId");
+    expect(getSafePropertyAccess("params", "petId", true)).toBe(
+      "params?.petId",
+    );
+  });
+
+  it("uses bracket notation for invalid identifiers", () => {
+    expect(getSafePropertyAccess("params", "X-Tenant-Id")).toBe(
+      'params["X-Tenant-Id"]',
+    );
+    expect(getSafePropertyAccess("params", "X-Tenant-Id", true)).toBe(
+      'params?.["X-Tenant-Id"]',
+    );
+  });
+});
@@ -79,6 +79,66 @@ export function toMutationVariablesTypeName(operationName: string): string {
   return `${toPascalCase(operationName)}MutationVariables`;
 }
 
+/**
+ * Convert a GraphQL type name to a TypeScript type name for subscription events
+ * e.g., "OnMessageAdded" -> "OnMessageAddedSubscription"
+ */
+export function toSubscriptionTypeName(operationName: string): string {
+  return `${toPascalCase(operationName)}Subscription`;
+}
+
+/**
+ * Convert a GraphQL operation name to a variables type name
+ * e.g., "OnMessageAdded" -> "OnMessageAddedSubscriptionVariables"
+ */
+export function toSubscriptionVariablesTypeName(operationName: string): string {
+  return `${toPascalCase(operationName)}SubscriptionVariables`;
+}
+
+/**
+ * Convert a GraphQL operation to its result type name
+ * e.g., ("GetUser", "query") -> "GetUserQuery"
+ */
+export function toOperationTypeName(
+  operationName: string,
+  operationType: "query" | "mutation" | "subscription",
+): string {
+  switch (operationType) {
+    case "query":
+      return toQueryTypeName(operationName);
+    case "mutation":
+      return toMutationTypeName(operationName);
+    case "subscription":
+      return toSubscriptionTypeName(operationName);
+  }
+}
+
+/**
+ * Convert a GraphQL operation to its variables type name
+ * e.g., ("OnMessageAdded", "subscription") -> "OnMessageAddedSubscriptionVariables"
+ */
+export function toOperationVariablesTypeName(
+  operationName: string,
+  operationType: "query" | "mutation" | "subscription",
+): string {
+  switch (operationType) {
+    case "query":
+      return toQueryVariablesTypeName(operationName);
+    case "mutation":
+      return toMutationVariablesTypeName(operationName);
+    case "subscription":
+      return toSubscriptionVariablesTypeName(operationName);
+  }
+}
+
+/**
+ * Convert a GraphQL subscription name to the name of its cache helper
+ * e.g., "OnMessageAdded" -> "subscribeToOnMessageAdded"
+ */
+export function toSubscribeFunctionName(operationName: string): string {
+  return `subscribeTo${toPascalCase(operationName)}`;
+}
+
 /**
  * Convert a GraphQL fragment name to a TypeScript type name
  * e.g., "UserFields" -> "UserFieldsFragment"
@@ -96,6 +156,74 @@ export function toInfiniteQueryOptionsName(operationName: string): string {
   return `${toCamelCase(operationName)}InfiniteQueryOptions`;
 }
 
+/**
+ * Convert a query key group name to the name of its key factory
+ * e.g., "pet" -> "petKeys"
+ */
+export function toQueryKeysName(groupName: string): string {
+  return `${toCamelCase(groupName)}Keys`;
+}
+
+/**
+ * Convert an operation name to the name of its infinite query key
+ * e.g., "listPets" -> "listPetsInfinite"
+ */
+export function toInfiniteQueryKeyName(operationName: string): string {
+  return `${toCamelCase(operationName)}Infinite`;
+}
+
+/**
+ * Convert an operation name to the name of its suspense queryOptions
+ * e.g., "getPet" -> "getPetSuspenseQueryOptions"
+ */
+export function toSuspenseQueryOptionsName(operationName: string): string {
+  return `${toCamelCase(operationName)}SuspenseQueryOptions`;
+}
+
+/**
+ * Convert an operation name to the name of its suspense infiniteQueryOptions
+ * e.g., "listPets" -> "listPetsSuspenseInfiniteQueryOptions"
+ */
+export function toSuspenseInfiniteQueryOptionsName(
+  operationName: string,
+): string {
+  return `${toCamelCase(operationName)}SuspenseInfiniteQueryOptions`;
+}
+
+/**
+ * Convert an operation name to the name of its ensureQueryData helper
+ * e.g., "getPet" -> "ensureGetPetQueryData"
+ */
+export function toEnsureQueryDataName(operationName: string): string {
+  return `ensure${toPascalCase(operationName)}QueryData`;
+}
+
+/**
+ * Convert an operation name to the name of its ensureInfiniteQueryData helper
+ * e.g., "listPets" -> "ensureListPetsInfiniteQueryData"
+ */
+export function toEnsureInfiniteQueryDataName(operationName: string): string {
+  return `ensure${toPascalCase(operationName)}InfiniteQueryData`;
+}
+
+/**
+ * Convert an OpenAPI operation ID and error status to an error body type name
+ * e.g., ("getPet", "404") -> "GetPet404Error"
+ * e.g., ("getPet", "default") -> "GetPetDefaultError"
+ */
+export function toErrorTypeName(operationName: string, status: string): string {
+  const statusName = status === "default" ? "Default" : status;
+  return `${toPascalCase(operationName)}${statusName}Error`;
+}
+
+/**
+ * Convert an OpenAPI operation ID to the name of its ApiError union type
+ * e.g., "getPet" -> "GetPetApiError"
+ */
+export function toApiErrorTypeName(operationName: string): string {
+  return `${toPascalCase(operationName)}ApiError`;
+}
+
 // ============================================================================
 // Response Type Names (aliases for consistency with schema naming)
 // ============================================================================
@@ -186,3 +314,22 @@ export function isValidIdentifier(name: string): boolean {
 export function getSafePropertyName(name: string): string {
   return isValidIdentifier(name) ? name : `"${name}"`;
 }
+
+/**
+ * Get a safe property access expression for use in generated code
+ * Uses bracket notation if the name is not a valid identifier
+ *
+ * @example
+ * getSafePropertyAccess("params", "petId") // "params.petId"
+ * getSafePropertyAccess("params", "X-Tenant-Id", true) // 'params?.["X-Tenant-Id"]'
+ */
+export function getSafePropertyAccess(
+  object: string,
+  name: string,
+  optional = false,
+): string {
+  if (isValidIdentifier(name)) {
+    return `${object}${optional ? "?." : "."}${name}`;
+  }
+  return `${object}${optional ? "?." : ""}["${name}"]`;
+}
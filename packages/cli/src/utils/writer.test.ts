@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { formatDocComment } from "./writer";
+
+describe("formatDocComment", () => {
+  it("returns undefined when there is nothing to document", () => {
+    expect(formatDocComment({})).toBeUndefined();
+    expect(formatDocComment({ description: "  " })).toBeUndefined();
+    expect(formatDocComment({ deprecated: false })).toBeUndefined();
+  });
+
+  it("keeps single-line comments on one line", () => {
+    expect(formatDocComment({ description: "A pet" })).toBe("/** A pet */");
+    expect(formatDocComment({ deprecated: true })).toBe("/** @deprecated */");
+  });
+
+  it("separates the summary from the description", () => {
+    expect(
+      formatDocComment({
+        summary: "List pets",
+        description: "Returns pets.\nNewest first.",
+      }),
+    ).toBe("/**\n * List pets\n *\n * Returns pets.\n * Newest first.\n */");
+  });
+
+  it("leaves out a description that repeats the summary", () => {
+    expect(
+      formatDocComment({ summary: "List pets", description: "List pets" }),
+    ).toBe("/** List pets */");
+  });
+
+  it("adds a deprecation tag with its reason", () => {
+    expect(
+      formatDocComment({ description: "A pet", deprecated: "Use\nAnimal" }),
+    ).toBe("/**\n * A pet\n * @deprecated Use Animal\n */");
+  });
+
+  it("escapes comment terminators", () => {
+    expect(formatDocComment({ description: "Ends with */" })).toBe(
+      "/** Ends with *\\/ */",
+    );
+  });
+});
@@ -61,3 +61,64 @@ export function writeSectionComment(
 ): void {
   writer.writeLine(`// ${title}`);
 }
+
+/**
+ * Documentation for a generated declaration, written as a JSDoc comment
+ */
+export interface DocComment {
+  summary?: string;
+  description?: string;
+  /** true, or the deprecation reason */
+  deprecated?: boolean | string;
+}
+
+/**
+ * Format a JSDoc comment, or return undefined when there is nothing to
+ * document. Single-line comments are kept on one line.
+ */
+export function formatDocComment(doc: DocComment): string | undefined {
+  const lines: string[] = [];
+  const summary = doc.summary?.trim();
+  const description = doc.description?.trim();
+
+  if (summary) {
+    lines.push(...summary.split(/\r?\n/));
+  }
+  if (description && description !== summary) {
+    if (lines.length > 0) lines.push("");
+    lines.push(...description.split(/\r?\n/));
+  }
+  if (doc.deprecated) {
+    const reason =
+      typeof doc.deprecated === "string"
+        ? doc.deprecated.trim().replace(/\s*\r?\n\s*/g, " ")
+        : "";
+    lines.push(reason ? `@deprecated ${reason}` : "@deprecated");
+  }
+
+  if (lines.length === 0) return undefined;
+
+  // A "*/" in the text would end the comment early
+  const escaped = lines.map((line) => line.trimEnd().replace(/\*\//g, "*\\/"));
+  if (escaped.length === 1) {
+    return `/** ${escaped[0]} */`;
+  }
+  return [
+    "/**",
+    ...escaped.map((line) => (line ? ` * ${line}` : " *")),
+    " */",
+  ].join("\n");
+}
+
+/**
+ * Write a JSDoc comment, if there is anything to document
+ */
+export function writeDocComment(
+  writer: CodeBlockWriter,
+  doc: DocComment,
+): void {
+  const comment = formatDocComment(doc);
+  if (comment) {
+    writer.writeLine(comment);
+  }
+}